@@ -19,6 +19,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { ResultCacheAdminPanel } from "@/components/result-cache-admin-panel";
 import {
   Select,
   SelectContent,
@@ -52,6 +53,24 @@ import {
   DEFAULT_TEMPERATURE,
   AppSettings,
 } from "@/lib/settings";
+import {
+  DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  DEFAULT_PYRAMID_WORD_JUMP,
+  MAX_PYRAMID_WORD_JUMP,
+  formatNoBreakWords,
+  normalizeWordJump,
+  parseNoBreakWords,
+} from "@/lib/reading-pyramid";
+import {
+  DEFAULT_FOCUS_MASK_LINES,
+  DEFAULT_FOCUS_MASK_OPACITY,
+  DEFAULT_FOCUS_MASK_STYLE,
+  DEFAULT_FOCUS_RULER_COLOR,
+  FocusMaskStyle,
+  MAX_FOCUS_MASK_LINES,
+  normalizeFocusMaskLines,
+  normalizeFocusMaskOpacity,
+} from "@/lib/focus-mask";
 
 export default function AdminDefaultsPage() {
   const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
@@ -82,6 +101,16 @@ export default function AdminDefaultsPage() {
   const [wordHighlightColor, setWordHighlightColor] = useState(DEFAULT_WORD_HIGHLIGHT_COLOR);
   const [syllableHighlightColor, setSyllableHighlightColor] = useState(DEFAULT_SYLLABLE_HIGHLIGHT_COLOR);
   const [letterHighlightColor, setLetterHighlightColor] = useState(DEFAULT_LETTER_HIGHLIGHT_COLOR);
+
+  // Reading pyramid settings
+  const [pyramidWordJump, setPyramidWordJump] = useState(DEFAULT_PYRAMID_WORD_JUMP);
+  const [pyramidNoBreakWords, setPyramidNoBreakWords] = useState(formatNoBreakWords(DEFAULT_PYRAMID_NO_BREAK_WORDS));
+
+  // Reading ruler settings
+  const [focusMaskLines, setFocusMaskLines] = useState(DEFAULT_FOCUS_MASK_LINES);
+  const [focusMaskStyle, setFocusMaskStyle] = useState<FocusMaskStyle>(DEFAULT_FOCUS_MASK_STYLE);
+  const [focusMaskOpacity, setFocusMaskOpacity] = useState(DEFAULT_FOCUS_MASK_OPACITY);
+  const [focusRulerColor, setFocusRulerColor] = useState(DEFAULT_FOCUS_RULER_COLOR);
   
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -134,6 +163,12 @@ export default function AdminDefaultsPage() {
         setWordHighlightColor(defaults.wordHighlightColor || DEFAULT_WORD_HIGHLIGHT_COLOR);
         setSyllableHighlightColor(defaults.syllableHighlightColor || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR);
         setLetterHighlightColor(defaults.letterHighlightColor || DEFAULT_LETTER_HIGHLIGHT_COLOR);
+        setPyramidWordJump(defaults.pyramidWordJump ?? DEFAULT_PYRAMID_WORD_JUMP);
+        setPyramidNoBreakWords(formatNoBreakWords(defaults.pyramidNoBreakWords ?? DEFAULT_PYRAMID_NO_BREAK_WORDS));
+        setFocusMaskLines(defaults.focusMaskLines ?? DEFAULT_FOCUS_MASK_LINES);
+        setFocusMaskStyle(defaults.focusMaskStyle || DEFAULT_FOCUS_MASK_STYLE);
+        setFocusMaskOpacity(defaults.focusMaskOpacity ?? DEFAULT_FOCUS_MASK_OPACITY);
+        setFocusRulerColor(defaults.focusRulerColor || DEFAULT_FOCUS_RULER_COLOR);
       } catch (err) {
         console.error("Error loading defaults:", err);
         setError("שגיאה בטעינת הערכים הדיפולטיביים");
@@ -171,6 +206,12 @@ export default function AdminDefaultsPage() {
         wordHighlightColor,
         syllableHighlightColor,
         letterHighlightColor,
+        pyramidWordJump: normalizeWordJump(pyramidWordJump),
+        pyramidNoBreakWords: parseNoBreakWords(pyramidNoBreakWords),
+        focusMaskLines: normalizeFocusMaskLines(focusMaskLines),
+        focusMaskStyle,
+        focusMaskOpacity: normalizeFocusMaskOpacity(focusMaskOpacity),
+        focusRulerColor,
       };
 
       const response = await fetch("/api/admin/defaults", {
@@ -294,6 +335,30 @@ export default function AdminDefaultsPage() {
               >
                 מראה
               </TabsTrigger>
+              <TabsTrigger
+                value="reading"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="admin-tab-reading"
+              >
+                פירמידות קריאה
+              </TabsTrigger>
+              <TabsTrigger
+                value="ruler"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="admin-tab-ruler"
+              >
+                סרגל קריאה
+              </TabsTrigger>
+              <TabsTrigger
+                value="result-cache"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="admin-tab-result-cache"
+              >
+                מטמון תוצאות
+              </TabsTrigger>
             </TabsList>
 
             {/* Tab Content */}
@@ -782,6 +847,173 @@ export default function AdminDefaultsPage() {
                   </div>
                 </div>
               </TabsContent>
+
+              {/* Reading Pyramids Tab */}
+              <TabsContent value="reading" className="mt-0">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+                  <h2 className="text-2xl font-semibold text-right mb-4">
+                    פירמידות קריאה
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Pyramid Word Jump Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="pyramid-word-jump" className="text-right block text-base">
+                        מספר מילים שנוספות בכל שורה
+                      </Label>
+                      <Input
+                        id="pyramid-word-jump"
+                        type="number"
+                        min="1"
+                        max={MAX_PYRAMID_WORD_JUMP}
+                        value={pyramidWordJump}
+                        onChange={(e) => setPyramidWordJump(parseInt(e.target.value, 10) || 1)}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="admin-pyramid-word-jump-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        בכל שורה של הפירמידה נוספות מילים לשורה הקודמת (1-{MAX_PYRAMID_WORD_JUMP}) - ברירת מחדל
+                      </p>
+                    </div>
+
+                    {/* Pyramid No-Break Words Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="pyramid-no-break-words" className="text-right block text-base">
+                        מילות קישור
+                      </Label>
+                      <Textarea
+                        id="pyramid-no-break-words"
+                        value={pyramidNoBreakWords}
+                        onChange={(e) => setPyramidNoBreakWords(e.target.value)}
+                        className="min-h-[100px] text-right"
+                        dir="rtl"
+                        data-testid="admin-pyramid-no-break-words-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        מילים מופרדות בפסיקים. שורה בפירמידה לא תסתיים במילת קישור - ברירת מחדל
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </TabsContent>
+
+              {/* Reading Ruler Tab */}
+              <TabsContent value="ruler" className="mt-0">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+                  <h2 className="text-2xl font-semibold text-right mb-4">
+                    סרגל קריאה
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Focus Mask Lines Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-lines" className="text-right block text-base">
+                        מספר שורות גלויות
+                      </Label>
+                      <Input
+                        id="focus-mask-lines"
+                        type="number"
+                        min="1"
+                        max={MAX_FOCUS_MASK_LINES}
+                        value={focusMaskLines}
+                        onChange={(e) => setFocusMaskLines(parseInt(e.target.value, 10) || 1)}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="admin-focus-mask-lines-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        השורה של הרכיב המודגש והשורות שאחריה נשארות גלויות (1-{MAX_FOCUS_MASK_LINES}) - ברירת מחדל
+                      </p>
+                    </div>
+
+                    {/* Focus Mask Style Select */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-style" className="text-right block text-base">
+                        הסתרת שאר השורות
+                      </Label>
+                      <Select
+                        value={focusMaskStyle}
+                        onValueChange={(value: FocusMaskStyle) => setFocusMaskStyle(value)}
+                      >
+                        <SelectTrigger id="focus-mask-style" className="text-right" dir="rtl" data-testid="admin-focus-mask-style-select">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="dim" className="text-right">
+                            עמעום
+                          </SelectItem>
+                          <SelectItem value="blur" className="text-right">
+                            טשטוש
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Focus Mask Opacity Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-opacity" className="text-right block text-base">
+                        אטימות המסכה
+                      </Label>
+                      <Input
+                        id="focus-mask-opacity"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={focusMaskOpacity}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          setFocusMaskOpacity(isNaN(value) ? DEFAULT_FOCUS_MASK_OPACITY : value);
+                        }}
+                        placeholder="0.7"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="admin-focus-mask-opacity-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        0 - שאר השורות נראות כרגיל, 1 - שאר השורות מוסתרות לגמרי (0-1) - ברירת מחדל
+                      </p>
+                    </div>
+
+                    {/* Ruler Color */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-ruler-color" className="text-right block text-base">
+                        צבע הסרגל
+                      </Label>
+                      <div className="flex gap-2 items-center">
+                        <Input
+                          id="focus-ruler-color"
+                          type="color"
+                          value={focusRulerColor}
+                          onChange={(e) => setFocusRulerColor(e.target.value)}
+                          className="w-20 h-10 cursor-pointer"
+                          data-testid="admin-focus-ruler-color-picker"
+                        />
+                        <Input
+                          type="text"
+                          value={focusRulerColor}
+                          onChange={(e) => setFocusRulerColor(e.target.value)}
+                          placeholder="#fef9c3"
+                          className="flex-1 text-right font-mono"
+                          dir="rtl"
+                          data-testid="admin-focus-ruler-color-input"
+                        />
+                      </div>
+                      <p className="text-sm text-muted-foreground text-right">
+                        צבע הרקע של השורות הגלויות (hex color) - ברירת מחדל
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </TabsContent>
+
+              {/* Result Cache Tab - saved separately from the defaults */}
+              <TabsContent value="result-cache" className="mt-0">
+                <ResultCacheAdminPanel />
+              </TabsContent>
             </div>
           </div>
         </Tabs>
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdmin } from "@/lib/admin-defaults-server";
+import {
+  getResultCacheBackend,
+  getResultCacheStats,
+  getResultCacheTtlHours,
+  purgeResultCache,
+  setResultCacheTtlHours,
+  ResultCacheFilter,
+} from "@/lib/result-cache-server";
+import type { ModelTask } from "@/lib/model-keys-server";
+
+/**
+ * Longest TTL an admin can set (one year)
+ */
+const MAX_TTL_HOURS = 24 * 365;
+
+const MODEL_TASKS: ModelTask[] = ["niqqud", "syllables"];
+
+/**
+ * Return 403 unless the current user is an admin
+ */
+async function requireAdmin(): Promise<NextResponse | null> {
+  if (await isAdmin()) {
+    return null;
+  }
+  return NextResponse.json(
+    { error: "Unauthorized: Only admins can manage the result cache" },
+    { status: 403 }
+  );
+}
+
+/**
+ * Build the current cache state returned by every method
+ */
+async function getCacheState() {
+  return {
+    backend: getResultCacheBackend(),
+    ttlHours: await getResultCacheTtlHours(),
+    stats: await getResultCacheStats(),
+  };
+}
+
+/**
+ * GET /api/admin/result-cache
+ * Get the cache backend, TTL and entry/hit counts
+ * Only accessible by admins
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const unauthorized = await requireAdmin();
+    if (unauthorized) return unauthorized;
+
+    return NextResponse.json(await getCacheState());
+  } catch (error) {
+    console.error("[API] Error fetching result cache state:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch result cache state" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/result-cache
+ * Set the cache TTL: { ttlHours } (0 disables the cache)
+ * Only accessible by admins
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const unauthorized = await requireAdmin();
+    if (unauthorized) return unauthorized;
+
+    const body = (await request.json().catch(() => null)) as { ttlHours?: unknown } | null;
+    const ttlHours = body?.ttlHours;
+
+    if (typeof ttlHours !== "number" || !Number.isFinite(ttlHours) || ttlHours < 0 || ttlHours > MAX_TTL_HOURS) {
+      return NextResponse.json(
+        { error: `ttlHours must be a number between 0 and ${MAX_TTL_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await setResultCacheTtlHours(ttlHours))) {
+      return NextResponse.json(
+        { error: "Failed to save result cache TTL" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...(await getCacheState()) });
+  } catch (error) {
+    console.error("[API] Error saving result cache TTL:", error);
+    return NextResponse.json(
+      { error: "Failed to save result cache TTL" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/result-cache?task=niqqud&model=gpt-4o&expired=true
+ * Purge cached results; all filters are optional (no filters purges everything)
+ * - task: only niqqud or syllables results
+ * - model: only results of one model
+ * - expired: only entries older than the TTL
+ * Only accessible by admins
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const unauthorized = await requireAdmin();
+    if (unauthorized) return unauthorized;
+
+    const params = request.nextUrl.searchParams;
+    const task = params.get("task");
+    const model = params.get("model");
+    const filter: ResultCacheFilter = {};
+
+    if (task) {
+      if (!MODEL_TASKS.includes(task as ModelTask)) {
+        return NextResponse.json({ error: "Invalid task" }, { status: 400 });
+      }
+      filter.task = task as ModelTask;
+    }
+    if (model) {
+      filter.model = model;
+    }
+    if (params.get("expired") === "true") {
+      const ttlHours = await getResultCacheTtlHours();
+      filter.createdBefore = new Date(Date.now() - ttlHours * 60 * 60 * 1000).toISOString();
+    }
+
+    const purged = await purgeResultCache(filter);
+    if (purged === null) {
+      return NextResponse.json(
+        { error: "Failed to purge result cache" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, purged, ...(await getCacheState()) });
+  } catch (error) {
+    console.error("[API] Error purging result cache:", error);
+    return NextResponse.json(
+      { error: "Failed to purge result cache" },
+      { status: 500 }
+    );
+  }
+}
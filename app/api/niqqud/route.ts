@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { addNiqqud, NiqqudServiceConfig, NiqqudServiceResponse } from "@/services/niqqud-service";
+import { getUserIdFromRequest } from "@/lib/user";
+import { resolveApiKey } from "@/lib/model-keys-server";
+import { checkModelRateLimit, checkModelRequestAllowed, getModelCaller } from "@/lib/model-access-server";
+import { errorCodeFields, getModelCallPolicyFromEnv, getProviderForModel } from "@/lib/llm";
+import { MAX_MODEL_TEXT_LENGTH } from "@/lib/model-proxy-client";
+import { createModelStreamResponse } from "@/lib/model-stream";
+import { splitTextIntoChunks } from "@/lib/chunking";
+import { ConsonantMismatch, guardConsonants } from "@/lib/consonant-guard";
+import {
+  createPromptVersion,
+  createResultCacheKey,
+  getCachedResult,
+  saveCachedResult,
+} from "@/lib/result-cache-server";
+
+interface NiqqudRequestBody {
+  text?: string;
+  model?: string;
+  temperature?: number;
+  systemPrompt?: string;
+  userPrompt?: string;
+  stream?: boolean; // Stream the model output as newline-delimited JSON (see lib/model-stream)
+}
+
+/**
+ * Niqqud result stored in the shared result cache
+ */
+interface CachedNiqqudResult {
+  niqqudText: string;
+  mismatches?: ConsonantMismatch[]; // Words the model changed, already restored in niqqudText
+}
+
+/**
+ * POST /api/niqqud
+ * Add niqqud to text with the selected model
+ * The API key is resolved on the server (user's stored key, or env for signed-in
+ * users), so it never reaches the browser. Callers who are not signed in may only
+ * use the configured model and prompts, and model calls are rate limited.
+ * With stream: true the model output is streamed as it arrives; closing the
+ * request aborts the model call.
+ * Results are shared by all users through the server result cache, so a text
+ * that was already vocalized with the same model and prompts is served without
+ * a model call (or an API key).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as NiqqudRequestBody | null;
+
+    if (!body || typeof body.text !== "string" || typeof body.model !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Invalid request body", code: "invalid_request", retryable: false },
+        { status: 400 }
+      );
+    }
+
+    if (body.text.length > MAX_MODEL_TEXT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `הטקסט ארוך מדי (עד ${MAX_MODEL_TEXT_LENGTH} תווים)`,
+          code: "invalid_request",
+          retryable: false,
+        },
+        { status: 413 }
+      );
+    }
+
+    const cacheKey = createResultCacheKey(
+      "niqqud",
+      body.text,
+      body.model,
+      createPromptVersion(body.systemPrompt, body.userPrompt),
+      body.temperature
+    );
+    const cached = await getCachedResult<CachedNiqqudResult>(cacheKey);
+
+    if (cached?.niqqudText) {
+      // The cache key ignores whitespace; rebuild the result on the requested text
+      const result: NiqqudServiceResponse = {
+        success: true,
+        niqqudText: guardConsonants(body.text, cached.niqqudText).text,
+        mismatches: cached.mismatches ?? [],
+        cached: true,
+      };
+      return body.stream ? createModelStreamResponse(async () => result) : NextResponse.json(result);
+    }
+
+    // Model calls are limited for callers who are not signed in (lib/model-access-server)
+    const caller = await getModelCaller(request);
+    const denied = await checkModelRequestAllowed(caller, "niqqud", body.model, [body.systemPrompt, body.userPrompt]);
+    if (denied) {
+      return denied;
+    }
+
+    const userId = getUserIdFromRequest(request.headers.get("cookie") || "");
+    const apiKey = resolveApiKey("niqqud", body.model, userId, caller.isSignedIn);
+
+    if (!apiKey && getProviderForModel(body.model).requiresApiKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: caller.isSignedIn
+            ? "API Key לא הוגדר. אנא הגדר ב-הגדרות"
+            : "API Key לא הוגדר. אנא התחבר או הגדר מפתח ב-הגדרות",
+          code: "missing_api_key",
+          retryable: false,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Long texts are sent in chunks, one model call each
+    const rateLimited = checkModelRateLimit(caller, splitTextIntoChunks(body.text).length);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const config = {
+      apiKey,
+      model: body.model,
+      temperature: body.temperature,
+      systemPrompt: body.systemPrompt,
+      userPrompt: body.userPrompt,
+      signal: request.signal,
+      policy: getModelCallPolicyFromEnv(),
+    };
+
+    const text = body.text;
+    const addNiqqudAndCache = async (serviceConfig: NiqqudServiceConfig) => {
+      const result = await addNiqqud(text, serviceConfig);
+      if (result.success && result.niqqudText) {
+        await saveCachedResult(cacheKey, {
+          niqqudText: result.niqqudText,
+          mismatches: result.mismatches,
+        } satisfies CachedNiqqudResult);
+      }
+      return result;
+    };
+
+    if (body.stream) {
+      return createModelStreamResponse((onDelta, onProgress, onReplace) =>
+        addNiqqudAndCache({ ...config, onDelta, onProgress, onReplace })
+      );
+    }
+
+    const result = await addNiqqudAndCache(config);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 502 });
+  } catch (error) {
+    console.error("[API] Error adding niqqud:", error);
+    return NextResponse.json(
+      { success: false, ...errorCodeFields("unexpected_error"), error: "Failed to add niqqud" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,32 @@ import { NextRequest, NextResponse } from "next/server";
 
 import { getUserSettings, saveUserSettings } from "@/lib/db";
 import { getUserIdFromRequest, getOrCreateUserIdFromRequest } from "@/lib/user";
-import { AppSettings, DEFAULT_WORD_SPACING } from "@/lib/settings";
+import {
+  AppSettings,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_MODELS,
+  DEFAULT_TTS_PITCH,
+  DEFAULT_TTS_RATE,
+  DEFAULT_TTS_SPEAK_VOCALIZED,
+  DEFAULT_TTS_VOICE,
+  DEFAULT_WORD_SPACING,
+} from "@/lib/settings";
+import { DEFAULT_PYRAMID_NO_BREAK_WORDS, DEFAULT_PYRAMID_WORD_JUMP } from "@/lib/reading-pyramid";
+import {
+  DEFAULT_FOCUS_MASK_LINES,
+  DEFAULT_FOCUS_MASK_OPACITY,
+  DEFAULT_FOCUS_MASK_STYLE,
+  DEFAULT_FOCUS_RULER_COLOR,
+} from "@/lib/focus-mask";
 import { getUserPreferences, saveUserPreferences, isAuthenticated } from "@/lib/user-preferences-server";
+import { hasApiKey } from "@/lib/model-keys-server";
+import { isSecretEncryptionConfigured } from "@/lib/secret-crypto";
 
 /**
  * GET /api/settings
  * Fetch user settings from database
+ * API keys are not returned; hasNiqqudApiKey/hasSyllablesApiKey report whether
+ * a key (the user's, or the server's for signed-in users) is available.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -38,6 +58,10 @@ export async function GET(request: NextRequest) {
 
     // Get settings from database
     const settings = getUserSettings(userId);
+    const apiKeyStatus = {
+      hasNiqqudApiKey: hasApiKey("niqqud", settings?.niqqudModel || DEFAULT_MODELS[0].value, userId, authenticated),
+      hasSyllablesApiKey: hasApiKey("syllables", settings?.syllablesModel || DEFAULT_MODELS[0].value, userId, authenticated),
+    };
 
     if (!settings) {
       // Return default settings if user doesn't exist yet
@@ -49,6 +73,7 @@ export async function GET(request: NextRequest) {
         syllablesModel: "",
         syllablesPrompt: "",
         wordSpacing,
+        ...apiKeyStatus,
       };
       
       // Set user ID cookie if not already set
@@ -69,6 +94,7 @@ export async function GET(request: NextRequest) {
     const finalSettings = {
       ...settings,
       wordSpacing,
+      ...apiKeyStatus,
     };
 
     // Set user ID cookie if not already set
@@ -125,6 +151,15 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // API keys are stored encrypted, so they cannot be saved without an encryption secret
+    const hasApiKeys = !!body.niqqudApiKey?.trim() || !!body.syllablesApiKey?.trim();
+    if (hasApiKeys && !isSecretEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: "שמירת מפתחות API אינה זמינה: API_KEY_ENCRYPTION_SECRET לא הוגדר בשרת" },
+        { status: 500 }
+      );
+    }
+
     // Check if user is authenticated via Supabase
     const authenticated = await isAuthenticated();
 
@@ -174,12 +209,23 @@ export async function PUT(request: NextRequest) {
       wordSpacing: finalWordSpacing,
       letterSpacing: baseSettings?.letterSpacing || 0,
       fontSize: baseSettings?.fontSize || 30,
+      fontFamily: baseSettings?.fontFamily || DEFAULT_FONT_FAMILY,
       wordHighlightPadding: baseSettings?.wordHighlightPadding || 4,
       syllableHighlightPadding: baseSettings?.syllableHighlightPadding || 3,
       letterHighlightPadding: baseSettings?.letterHighlightPadding || 2,
       wordHighlightColor: baseSettings?.wordHighlightColor || "#fff176",
       syllableHighlightColor: baseSettings?.syllableHighlightColor || "#fff176",
       letterHighlightColor: baseSettings?.letterHighlightColor || "#fff176",
+      pyramidWordJump: baseSettings?.pyramidWordJump || DEFAULT_PYRAMID_WORD_JUMP,
+      pyramidNoBreakWords: baseSettings?.pyramidNoBreakWords ?? DEFAULT_PYRAMID_NO_BREAK_WORDS,
+      ttsVoice: baseSettings?.ttsVoice || DEFAULT_TTS_VOICE,
+      ttsRate: baseSettings?.ttsRate || DEFAULT_TTS_RATE,
+      ttsPitch: baseSettings?.ttsPitch || DEFAULT_TTS_PITCH,
+      ttsSpeakVocalized: baseSettings?.ttsSpeakVocalized ?? DEFAULT_TTS_SPEAK_VOCALIZED,
+      focusMaskLines: baseSettings?.focusMaskLines || DEFAULT_FOCUS_MASK_LINES,
+      focusMaskStyle: baseSettings?.focusMaskStyle || DEFAULT_FOCUS_MASK_STYLE,
+      focusMaskOpacity: baseSettings?.focusMaskOpacity ?? DEFAULT_FOCUS_MASK_OPACITY,
+      focusRulerColor: baseSettings?.focusRulerColor || DEFAULT_FOCUS_RULER_COLOR,
     };
 
     // Set user ID cookie
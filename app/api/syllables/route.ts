@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  divideIntoSyllables,
+  SyllablesServiceConfig,
+  SyllablesServiceResponse,
+} from "@/services/syllables-service";
+import { getUserIdFromRequest } from "@/lib/user";
+import { resolveApiKey } from "@/lib/model-keys-server";
+import { checkModelRateLimit, checkModelRequestAllowed, getModelCaller } from "@/lib/model-access-server";
+import { errorCodeFields, getModelCallPolicyFromEnv, getProviderForModel } from "@/lib/llm";
+import { MAX_MODEL_TEXT_LENGTH } from "@/lib/model-proxy-client";
+import { createModelStreamResponse } from "@/lib/model-stream";
+import { splitTextIntoChunks } from "@/lib/chunking";
+import { anchorSyllablesData, SyllablesData } from "@/lib/syllables";
+import {
+  createPromptVersion,
+  createResultCacheKey,
+  getCachedResult,
+  saveCachedResult,
+} from "@/lib/result-cache-server";
+
+interface SyllablesRequestBody {
+  text?: string;
+  model?: string;
+  prompt?: string;
+  temperature?: number;
+  stream?: boolean; // Stream the model output as newline-delimited JSON (see lib/model-stream)
+}
+
+/**
+ * Syllables result stored in the shared result cache (words only, no offsets)
+ */
+interface CachedSyllablesResult {
+  syllablesData: SyllablesData;
+}
+
+/**
+ * POST /api/syllables
+ * Divide text into syllables with the selected model
+ * The API key is resolved on the server (user's stored key, or env for signed-in
+ * users), so it never reaches the browser. Callers who are not signed in may only
+ * use the configured model and prompts, and model calls are rate limited.
+ * With stream: true the model output is streamed as it arrives; closing the
+ * request aborts the model call.
+ * Results are shared by all users through the server result cache, so a text
+ * that was already divided with the same model and prompt is served without a
+ * model call (or an API key).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as SyllablesRequestBody | null;
+
+    if (
+      !body ||
+      typeof body.text !== "string" ||
+      typeof body.model !== "string" ||
+      typeof body.prompt !== "string"
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid request body", code: "invalid_request", retryable: false },
+        { status: 400 }
+      );
+    }
+
+    if (body.text.length > MAX_MODEL_TEXT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `הטקסט ארוך מדי (עד ${MAX_MODEL_TEXT_LENGTH} תווים)`,
+          code: "invalid_request",
+          retryable: false,
+        },
+        { status: 413 }
+      );
+    }
+
+    const cacheKey = createResultCacheKey(
+      "syllables",
+      body.text,
+      body.model,
+      createPromptVersion(body.prompt),
+      body.temperature
+    );
+    const cached = await getCachedResult<CachedSyllablesResult>(cacheKey);
+
+    if (cached?.syllablesData) {
+      // The cache key ignores whitespace; anchor the words to the requested text
+      const result: SyllablesServiceResponse = {
+        success: true,
+        syllablesData: anchorSyllablesData(body.text, cached.syllablesData),
+        cached: true,
+      };
+      return body.stream ? createModelStreamResponse(async () => result) : NextResponse.json(result);
+    }
+
+    // Model calls are limited for callers who are not signed in (lib/model-access-server)
+    const caller = await getModelCaller(request);
+    const denied = await checkModelRequestAllowed(caller, "syllables", body.model, [body.prompt]);
+    if (denied) {
+      return denied;
+    }
+
+    const userId = getUserIdFromRequest(request.headers.get("cookie") || "");
+    const apiKey = resolveApiKey("syllables", body.model, userId, caller.isSignedIn);
+
+    if (!apiKey && getProviderForModel(body.model).requiresApiKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: caller.isSignedIn
+            ? "API Key לא הוגדר. אנא הגדר ב-הגדרות"
+            : "API Key לא הוגדר. אנא התחבר או הגדר מפתח ב-הגדרות",
+          code: "missing_api_key",
+          retryable: false,
+        },
+        { status: 401 }
+      );
+    }
+
+    // Long texts are sent in chunks, one model call each
+    const rateLimited = checkModelRateLimit(caller, splitTextIntoChunks(body.text).length);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const config = {
+      apiKey,
+      model: body.model,
+      prompt: body.prompt,
+      temperature: body.temperature,
+      signal: request.signal,
+      policy: getModelCallPolicyFromEnv(),
+    };
+
+    const text = body.text;
+    const divideAndCache = async (serviceConfig: SyllablesServiceConfig) => {
+      const result = await divideIntoSyllables(text, serviceConfig);
+      if (result.success && result.syllablesData) {
+        const words = result.syllablesData.words.map(({ word, syllables }) => ({ word, syllables }));
+        await saveCachedResult(cacheKey, { syllablesData: { words } } satisfies CachedSyllablesResult);
+      }
+      return result;
+    };
+
+    if (body.stream) {
+      return createModelStreamResponse((onDelta, onProgress) =>
+        divideAndCache({ ...config, onDelta, onProgress })
+      );
+    }
+
+    const result = await divideAndCache(config);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 502 });
+  } catch (error) {
+    console.error("[API] Error dividing into syllables:", error);
+    return NextResponse.json(
+      { success: false, ...errorCodeFields("unexpected_error"), error: "Failed to divide into syllables" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { Loader2, Scissors, Trash2, Plus, Minus, Pencil, Check } from "lucide-react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { Loader2, Scissors, Trash2, Plus, Minus, Pencil, Check, GitCompare, X, FolderOpen, Triangle, Ruler, Tablet, Undo2, Redo2, Split } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -15,13 +15,57 @@ import { Label } from "@/components/ui/label";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useNiqqud } from "@/hooks/use-niqqud";
 import { useSyllables } from "@/hooks/use-syllables";
+import { useProcessedTextsSync } from "@/hooks/use-processed-texts-sync";
+import { useDocumentLibrary } from "@/hooks/use-document-library";
+import { useAutoAdvance } from "@/hooks/use-auto-advance";
+import { useSpeech } from "@/hooks/use-speech";
+import { useKaraoke } from "@/hooks/use-karaoke";
+import { useEditHistory } from "@/hooks/use-edit-history";
 import { useToast } from "@/hooks/use-toast";
-import { EditableSyllablesTextarea, EditableSyllablesTextareaRef } from "@/components/editable-syllables-textarea";
-import { getSettings, saveSettings, getFontFamily, DEFAULT_FONT_SIZE, SETTINGS_KEYS } from "@/lib/settings";
+import { EditableSyllablesTextarea, EditableSyllablesTextareaRef, WordDetails } from "@/components/editable-syllables-textarea";
+import { NiqqudDiffView } from "@/components/niqqud-diff-view";
+import { DocumentLibrary } from "@/components/document-library";
+import { ReadingBookmarks } from "@/components/reading-bookmarks";
+import { AutoAdvanceControls } from "@/components/auto-advance-controls";
+import { SpeechControls } from "@/components/speech-controls";
+import { KaraokeControls } from "@/components/karaoke-controls";
+import { TouchNavigationControls } from "@/components/touch-navigation-controls";
+import { WordDetailsPanel } from "@/components/word-details-panel";
+import {
+  getSettings,
+  saveSettings,
+  getFontFamily,
+  getReadingPyramidSettings,
+  getFocusMaskSettings,
+  getKeyboardShortcuts,
+  getSyllableOverrides,
+  saveSyllableOverrides,
+  DEFAULT_FONT_SIZE,
+  SETTINGS_KEYS,
+} from "@/lib/settings";
 import { removeNiqqud } from "@/lib/niqqud";
 import { getAllPresets } from "@/lib/text-styling-presets";
+import { getDocumentTitle, syllablesMatchText } from "@/lib/documents";
+import { saveSyllablesToCache } from "@/lib/syllables-cache";
+import { anchorSyllablesData, SyllableWord } from "@/lib/syllables";
+import { createSyllableOverride, SyllableOverrides } from "@/lib/syllable-overrides";
+import { createBookmark, createPositionAnchor, reanchorPosition, ReadingBookmark } from "@/lib/bookmarks";
+import { describeReadingStep } from "@/lib/reading-tempo";
+import { getElementSpeech, getSpeechWords } from "@/lib/tts";
+import { detectWordTimingsFormat, exportWordTimings, importWordTimings } from "@/lib/karaoke";
+import {
+  buildReadingPyramids,
+  DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  DEFAULT_PYRAMID_WORD_JUMP,
+  mapPyramidSyllables,
+  ReadingPyramidSettings,
+  renderReadingPyramids,
+} from "@/lib/reading-pyramid";
+import { DEFAULT_FOCUS_MASK_SETTINGS, FocusMaskSettings } from "@/lib/focus-mask";
+import { DEFAULT_SHORTCUTS, getKeyCombo, KARAOKE_MARKING_KEYS, ShortcutAction, ShortcutMap } from "@/lib/keyboard-shortcuts";
+import type { EditSnapshot } from "@/lib/edit-history";
+import type { CurrentPosition, NavigationMode } from "@/lib/settings";
 
-const MAIN_TEXT_STORAGE_KEY = "main_text_field";
 const MIN_FONT_SIZE = 12;
 const MAX_FONT_SIZE = 32;
 
@@ -41,12 +85,34 @@ export default function Home() {
     syllableHighlightColor: "#fff176",
     letterHighlightColor: "#fff176",
   });
-  const [navigationMode, setNavigationMode] = useState<"words" | "syllables" | "letters">("words");
+  const [navigationMode, setNavigationMode] = useState<NavigationMode>("words");
   const [isEditing, setIsEditing] = useState(true);
   const [selectedStylingPreset, setSelectedStylingPreset] = useState<string>("default");
   const [fontFamily, setFontFamily] = useState<string>("Inter");
   // Local font family for dynamic selection (not saved, only for display)
   const [localFontFamily, setLocalFontFamily] = useState<string | null>(null);
+  // Whether the word-level review of the model's niqqud is open
+  const [isReviewingNiqqud, setIsReviewingNiqqud] = useState(false);
+  // Whether the document library panel is open
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Whether the text is read as reading pyramids (view mode only)
+  const [isPyramidMode, setIsPyramidMode] = useState(false);
+  // Whether the highlighted word or syllable is spoken
+  const [isSpeechEnabled, setIsSpeechEnabled] = useState(false);
+  const [pyramidSettings, setPyramidSettings] = useState<ReadingPyramidSettings>({
+    wordJump: DEFAULT_PYRAMID_WORD_JUMP,
+    noBreakWords: DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  });
+  // Whether the reading ruler dims all but the highlighted lines (view mode only)
+  const [isFocusMaskOn, setIsFocusMaskOn] = useState(false);
+  const [focusMaskSettings, setFocusMaskSettings] = useState<FocusMaskSettings>(DEFAULT_FOCUS_MASK_SETTINGS);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(DEFAULT_SHORTCUTS);
+  // Large on-screen navigation buttons (view mode only), and the long-pressed word
+  const [isTouchNavOn, setIsTouchNavOn] = useState(false);
+  const [wordDetails, setWordDetails] = useState<WordDetails | null>(null);
+  // Syllable editing in syllables view, and the user's syllable corrections
+  const [isSyllableEditOn, setIsSyllableEditOn] = useState(false);
+  const [syllableOverrides, setSyllableOverrides] = useState<SyllableOverrides>({});
   
   /**
    * Ref to the EditableSyllablesTextarea component for imperative navigation control.
@@ -64,12 +130,18 @@ export default function Home() {
     lastDisplayState: _lastDisplayState, // Prefixed with underscore - available for future use
     setLastDisplayState: _setLastDisplayState, // Prefixed with underscore - available for future use
     cache,
+    consonantMismatches,
     isLoading,
+    streamingText,
+    progress: niqqudProgress,
     error,
     addNiqqud,
+    cancelNiqqud,
     switchToOriginal,
     switchToClean,
     switchToFull,
+    applyFullNiqqud,
+    restoreVersions,
     restoreLastDisplayState: _restoreLastDisplayState, // Prefixed with underscore - available for future use
     clearNiqqud,
     clearError,
@@ -78,13 +150,61 @@ export default function Home() {
     syllablesData,
     isActive: isSyllablesActive,
     isLoading: isSyllablesLoading,
+    streamingSyllablesData,
+    progress: syllablesProgress,
     error: syllablesError,
     rawResponse: syllablesRawResponse,
     getButtonText: getSyllablesButtonText,
     divideSyllables,
+    cancelSyllables,
     clearSyllables,
+    applyCorrections: applySyllableCorrections,
+    restoreSyllables,
     clearError: clearSyllablesError,
   } = useSyllables(localText);
+  // Sync cached niqqud and syllables results with the signed-in user's account
+  useProcessedTextsSync();
+  const {
+    documents,
+    activeDocument,
+    activeDocumentId,
+    storage: documentStorage,
+    isLoaded: isLibraryLoaded,
+    error: libraryError,
+    selectDocument,
+    createDocument,
+    updateDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    moveDocument,
+    setDocumentTags,
+    addBookmark,
+    renameBookmark,
+    deleteBookmark,
+    attachAudio,
+    removeAudio,
+    setWordTimings,
+    clearError: clearLibraryError,
+  } = useDocumentLibrary();
+  /**
+   * Id of the document whose content is shown
+   * Set only once the document was restored, so changes of the previous
+   * document that are still being applied are not saved into the next one.
+   */
+  const openDocumentIdRef = useRef<string | null>(null);
+  // Undo/redo of the open document's edits, kept for the session
+  const {
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    record: recordEdit,
+    undo: undoEdit,
+    redo: redoEdit,
+  } = useEditHistory(activeDocumentId);
+  // Chunk progress of the running model request (long texts are sent in chunks)
+  const modelProgress = niqqudProgress ?? syllablesProgress;
   const { toast } = useToast();
   const prevHasNiqqudRef = useRef(hasNiqqud);
   const prevIsSyllablesLoadingRef = useRef(isSyllablesLoading);
@@ -92,6 +212,8 @@ export default function Home() {
   // Mark component as mounted (client-side only)
   useEffect(() => {
     setMounted(true);
+    // Show the navigation buttons on touch screens, which have no arrow keys
+    setIsTouchNavOn(window.matchMedia?.("(pointer: coarse)").matches ?? false);
   }, []);
 
   // Load appearance settings
@@ -116,6 +238,18 @@ export default function Home() {
         // Load fontFamily from preferences (authenticated) or localStorage (unauthenticated)
         const loadedFontFamily = await getFontFamily();
         setFontFamily(loadedFontFamily);
+
+        // Pyramid settings: the user's own, or the app defaults
+        setPyramidSettings(await getReadingPyramidSettings());
+
+        // Reading ruler settings: the user's own, or the app defaults
+        setFocusMaskSettings(await getFocusMaskSettings());
+
+        // Keyboard shortcuts from preferences (authenticated) or localStorage (unauthenticated)
+        setShortcuts(await getKeyboardShortcuts());
+
+        // Syllable corrections from preferences (authenticated) or localStorage (unauthenticated)
+        setSyllableOverrides(await getSyllableOverrides());
       };
       
       loadSettings();
@@ -124,40 +258,153 @@ export default function Home() {
     }
   }, [mounted]);
 
-  // Load text from localStorage on mount (client-side only)
+  // Open the active document (on load and when another document is selected)
+  // Its syllables are written to the syllables cache first, so useSyllables finds
+  // them for whichever niqqud version is displayed
   useEffect(() => {
-    if (!mounted) return;
+    if (!isLibraryLoaded || !activeDocument || activeDocument.id === openDocumentIdRef.current) return;
 
-    const savedText = localStorage.getItem(MAIN_TEXT_STORAGE_KEY);
-    if (savedText) {
-      setLocalText(savedText);
-      setNiqqudText(savedText);
-    }
+    const document = activeDocument;
+    let cancelled = false;
+    const openDocument = async () => {
+      if (document.syllables) {
+        const versions = new Set([document.niqqud?.full, document.niqqud?.original, document.text]);
+        for (const version of Array.from(versions)) {
+          if (version?.trim()) {
+            await saveSyllablesToCache(version, document.syllables);
+          }
+        }
+      }
+      if (cancelled) return;
+
+      const versions = document.niqqud ?? (document.text.trim()
+        ? { original: document.text, clean: removeNiqqud(document.text), full: null }
+        : null);
+      openDocumentIdRef.current = document.id;
+      setLocalText(restoreVersions(versions, document.displayMode));
+      setIsReviewingNiqqud(false);
+      setIsEditing(!document.text.trim());
+      // Resume in the mode the user was reading in (syllables only when the document has them)
+      if (document.position && (document.position.mode !== "syllables" || document.syllables)) {
+        setNavigationMode(document.position.mode);
+      }
+    };
+    openDocument();
+
+    return () => {
+      cancelled = true;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mounted]);
+  }, [isLibraryLoaded, activeDocumentId]);
+
+  // Save the open document's text, niqqud versions, display mode and syllables
+  useEffect(() => {
+    const id = openDocumentIdRef.current;
+    if (!id) return;
+
+    const text = cache?.original ?? localText;
+    updateDocument(id, {
+      text,
+      niqqud: cache,
+      displayMode,
+      // Syllables of the previous text may still be shown while the lookup for this one runs
+      ...(!syllablesData
+        ? { syllables: null }
+        : syllablesMatchText(syllablesData, text)
+          ? { syllables: { words: syllablesData.words.map(({ word, syllables }) => ({ word, syllables })) } }
+          : {}),
+    });
+  }, [cache, displayMode, syllablesData, localText, updateDocument]);
+
+  /**
+   * Where to resume reading the open document
+   * The saved position is moved to its word in the current text, so it survives edits.
+   */
+  const resumePosition = useMemo(() => {
+    if (!activeDocument?.position) return null;
+    return reanchorPosition(localText, activeDocument.position, activeDocument.positionAnchor);
+  }, [activeDocument?.position, activeDocument?.positionAnchor, localText]);
+
+  // Save the reading position of the open document with the word it points at
+  const handlePositionChange = (position: CurrentPosition | null) => {
+    if (!openDocumentIdRef.current) return;
+    updateDocument(openDocumentIdRef.current, {
+      position,
+      positionAnchor: position ? createPositionAnchor(localText, position) : null,
+    });
+  };
+
+  // Reading pyramids of the displayed text (view mode only)
+  // Pyramid words take their syllables from the syllables of the text, so every
+  // navigation mode works on the pyramid lines
+  const showPyramids = isPyramidMode && !isEditing;
+  // Syllables can be split and merged where they are shown one by one
+  const canEditSyllables =
+    !isEditing && !showPyramids && isSyllablesActive && !!syllablesData && navigationMode === "syllables";
+  const pyramidText = useMemo(
+    () => (showPyramids ? renderReadingPyramids(buildReadingPyramids(localText, pyramidSettings)) : null),
+    [showPyramids, localText, pyramidSettings]
+  );
+  const pyramidSyllablesData = useMemo(() => {
+    if (!pyramidText || !syllablesData || !syllablesMatchText(syllablesData, localText)) return null;
+    return mapPyramidSyllables(syllablesData, pyramidText.wordIndices);
+  }, [pyramidText, syllablesData, localText]);
+
+  // Text and syllables in the reading view
+  const readingText = pyramidText ? pyramidText.text : localText;
+  const readingSyllablesData = pyramidText ? pyramidSyllablesData : syllablesData;
+
+  /**
+   * Text-to-speech: the highlighted element is spoken, and auto-read moves the
+   * highlight with the speech
+   */
+  const {
+    isSupported: isSpeechSupported,
+    isAutoReading,
+    speakVocalized,
+    speak,
+    startAutoRead,
+    stop: stopSpeech,
+  } = useSpeech();
+
+  // Words to speak, from the full niqqud version when available (laid out as
+  // pyramids too in pyramid mode, so the word indices match the reading view)
+  const speechWords = useMemo(() => {
+    const vocalizedText = speakVocalized && cache?.full ? cache.full : null;
+    const vocalizedReadingText =
+      vocalizedText && pyramidText
+        ? renderReadingPyramids(buildReadingPyramids(vocalizedText, pyramidSettings)).text
+        : vocalizedText;
+    return getSpeechWords(readingText, vocalizedReadingText);
+  }, [speakVocalized, cache?.full, pyramidText, pyramidSettings, readingText]);
 
-  // Save text to localStorage when it changes (client-side only)
-  // Also clean up localStorage and syllables when text becomes empty (same as clear button)
+  // Speak the highlighted element, and keep the document's reading position
+  // (positions in the pyramids are not the document's reading position)
+  const handleReadingPositionChange = (position: CurrentPosition | null) => {
+    if (position && isSpeechEnabled && !isAutoReading) {
+      const range = textareaRef.current?.getHighlightedWords();
+      const speech = getElementSpeech(position, speechWords, readingSyllablesData, range);
+      if (speech) speak(speech);
+    }
+    if (!showPyramids) {
+      handlePositionChange(position);
+    }
+  };
+
+  // Clean up when text becomes empty
+  // The syllables caches are kept: they hold the results of the other documents
   useEffect(() => {
     if (!mounted) return;
 
-    // If text becomes empty, clean up localStorage and syllables (same as clear button)
     if (!localText || localText.trim().length === 0) {
-      // Remove text from localStorage (don't just set it to empty string)
-      localStorage.removeItem(MAIN_TEXT_STORAGE_KEY);
       // Remove syllables raw response from localStorage
       localStorage.removeItem(SETTINGS_KEYS.SYLLABLES_RAW_RESPONSE);
-      // Clear syllables cache and state
-      clearSyllables();
       // Clear current position via ref API (no re-render)
       if (textareaRef.current) {
         textareaRef.current.clearHighlight();
       }
-    } else {
-      // Text exists - save to localStorage
-      localStorage.setItem(MAIN_TEXT_STORAGE_KEY, localText);
     }
-  }, [localText, mounted, clearSyllables]);
+  }, [localText, mounted]);
 
   // Sync niqqud text changes back to local state - this is critical for updates
   useEffect(() => {
@@ -175,12 +422,111 @@ export default function Home() {
     }
   }, [syllablesRawResponse]);
 
+  /**
+   * State of the text recorded in the edit history
+   */
+  const getEditSnapshot = useCallback((): EditSnapshot => {
+    const text = cache?.original ?? localText;
+    return {
+      niqqud: cache ?? (localText.trim() ? { original: localText, clean: removeNiqqud(localText), full: null } : null),
+      displayMode,
+      syllables: syllablesData && syllablesMatchText(syllablesData, text)
+        ? { words: syllablesData.words.map(({ word, syllables }) => ({ word, syllables })) }
+        : null,
+      isSyllablesActive,
+    };
+  }, [cache, localText, displayMode, syllablesData, isSyllablesActive]);
+
+  /**
+   * Show a state from the edit history
+   * Its syllables are written to the syllables cache first (clearing the text
+   * clears the cache), so useSyllables finds them for the restored text.
+   */
+  const restoreEditSnapshot = useCallback(async (snapshot: EditSnapshot) => {
+    const versions = snapshot.niqqud;
+    if (snapshot.syllables) {
+      for (const version of Array.from(new Set([versions?.full, versions?.original]))) {
+        if (version?.trim()) {
+          await saveSyllablesToCache(version, snapshot.syllables);
+        }
+      }
+    }
+    const displayed = restoreVersions(versions, snapshot.displayMode);
+    setLocalText(displayed);
+    restoreSyllables(snapshot.syllables, displayed, snapshot.isSyllablesActive);
+    setIsReviewingNiqqud(false);
+    if (!displayed.trim()) {
+      setIsEditing(true);
+    }
+  }, [restoreVersions, restoreSyllables]);
+
+  /**
+   * Put a word of the syllable dictionary back as it was before or after an edit
+   * (null removes the word from the dictionary)
+   */
+  const restoreSyllableOverride = useCallback(async (key: string, entry: SyllableWord | null) => {
+    const overrides = { ...syllableOverrides };
+    if (entry) {
+      overrides[key] = entry;
+    } else {
+      delete overrides[key];
+    }
+    setSyllableOverrides(overrides);
+    await saveSyllableOverrides(overrides);
+  }, [syllableOverrides]);
+
+  const handleUndo = useCallback(() => {
+    if (isLoading || isSyllablesLoading) return;
+    const entry = undoEdit(getEditSnapshot());
+    if (!entry) return;
+    if (entry.syllableOverride) {
+      restoreSyllableOverride(entry.syllableOverride.key, entry.syllableOverride.before);
+    }
+    restoreEditSnapshot(entry.snapshot);
+  }, [isLoading, isSyllablesLoading, undoEdit, getEditSnapshot, restoreEditSnapshot, restoreSyllableOverride]);
+
+  const handleRedo = useCallback(() => {
+    if (isLoading || isSyllablesLoading) return;
+    const entry = redoEdit(getEditSnapshot());
+    if (!entry) return;
+    if (entry.syllableOverride) {
+      restoreSyllableOverride(entry.syllableOverride.key, entry.syllableOverride.after);
+    }
+    restoreEditSnapshot(entry.snapshot);
+  }, [isLoading, isSyllablesLoading, redoEdit, getEditSnapshot, restoreEditSnapshot, restoreSyllableOverride]);
+
+  // Ctrl+Z undoes the last edit and Ctrl+Y (or Ctrl+Shift+Z) redoes it outside text fields,
+  // which keep their native undo while typing
+  // (on a Hebrew keyboard the key is a Hebrew letter, so the physical key is used)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable)) {
+        return;
+      }
+      const key = /^[a-z]$/i.test(e.key) ? e.key.toLowerCase() : e.code.replace(/^Key/, "").toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   /**
    * Handler for text input changes (typing or pasting)
    * Updates both localText and niqqudText states
    * The useNiqqud hook handles cache creation and lastDisplayState setting
    */
   const handleTextChange = (newText: string) => {
+    // Typing a word is undone as one edit
+    recordEdit("עריכת הטקסט", getEditSnapshot(), { merge: true });
     setLocalText(newText);
     setNiqqudText(newText);
     // Note: Cache and lastDisplayState are now handled by useNiqqud hook
@@ -210,6 +556,8 @@ export default function Home() {
         return;
       }
 
+      recordEdit("ניקוד וחלוקה להברות", getEditSnapshot());
+
       // Save the current display mode before any model operations
       // This will be restored after syllable division completes
       const savedDisplayMode = displayMode;
@@ -333,10 +681,11 @@ export default function Home() {
     }
   };
 
-  // Clear highlight when syllables are deactivated
+  // Reset a syllable position when syllables are deactivated (word and letter
+  // positions stay valid, e.g. the saved position of a document without syllables)
   // The textarea component handles this via its ref API
   useEffect(() => {
-    if (!isSyllablesActive && textareaRef.current) {
+    if (!isSyllablesActive && textareaRef.current?.getCurrentPosition()?.mode === "syllables") {
       textareaRef.current.resetPosition();
     }
   }, [isSyllablesActive]);
@@ -346,19 +695,20 @@ export default function Home() {
    * Uses the ref API to clear highlights without causing re-renders
    */
   const handleClear = () => {
+    recordEdit("ניקוי הטקסט", getEditSnapshot());
+
     // Clear text field
     setLocalText("");
     setNiqqudText("");
 
     // Clear localStorage
-    localStorage.removeItem(MAIN_TEXT_STORAGE_KEY);
     localStorage.removeItem(SETTINGS_KEYS.SYLLABLES_RAW_RESPONSE);
 
     // Clear niqqud cache and state
     clearNiqqud();
 
-    // Clear syllables cache and state
-    clearSyllables();
+    // Clear syllables cache (of this text's versions only) and state
+    clearSyllables([cache?.original, cache?.full].filter((key): key is string => !!key));
 
     // Clear current position via ref API (no re-render)
     if (textareaRef.current) {
@@ -367,12 +717,373 @@ export default function Home() {
 
     // Reset to edit mode
     setIsEditing(true);
+    setIsReviewingNiqqud(false);
 
     // Show success toast
     toast({
       title: "ניקוי הושלם",
-      description: "הטקסט והזיכרון נוקו בהצלחה",
+      description: "הטקסט והזיכרון נוקו בהצלחה (Ctrl+Z לביטול)",
+    });
+  };
+
+  /**
+   * Store the reviewed niqqud as the full version and close the review
+   * Syllables divided for the previous full version no longer match the text,
+   * so the user is told to divide again if words were changed.
+   */
+  const handleApplyNiqqudReview = (fullText: string) => {
+    const changed = fullText !== cache?.full;
+    if (changed) {
+      recordEdit("תיקון הניקוד", getEditSnapshot());
+    }
+    applyFullNiqqud(fullText);
+    setIsReviewingNiqqud(false);
+    toast({
+      title: "השוואת ניקוד",
+      description: changed
+        ? "הניקוד המלא עודכן. יש לחלק שוב להברות כדי לעדכן את ההברות"
+        : "לא בוצעו שינויים בניקוד המלא",
+    });
+  };
+
+  /**
+   * Save a word the user split or merged in syllables view
+   * The correction is added to the user's dictionary under the vocalized word, and
+   * every occurrence of the word in the text is divided the same way.
+   */
+  const handleSyllablesCorrected = async (wordIndex: number, syllables: string[]) => {
+    if (!syllablesData) return;
+    const vocalizedText = cache?.full ?? localText;
+    const word = anchorSyllablesData(vocalizedText, syllablesData).words[wordIndex];
+    const override =
+      word?.word === removeNiqqud(syllables.join("")) &&
+      createSyllableOverride(vocalizedText.slice(word.start, word.end), syllables);
+    if (!override) return;
+
+    recordEdit("תיקון הברות", getEditSnapshot(), {
+      syllableOverride: { key: override.key, before: syllableOverrides[override.key] ?? null, after: override.entry },
+    });
+    const overrides = { ...syllableOverrides, [override.key]: override.entry };
+    setSyllableOverrides(overrides);
+    await saveSyllableOverrides(overrides);
+    await applySyllableCorrections(overrides, vocalizedText, [localText, cache?.original ?? ""]);
+  };
+
+  /**
+   * Bookmark the current reading position of the open document
+   */
+  const handleAddBookmark = () => {
+    const position = textareaRef.current?.getCurrentPosition();
+    if (!openDocumentIdRef.current || !position) {
+      toast({
+        title: "סימניות",
+        description: "יש לבחור מילה בטקסט כדי להוסיף סימנייה",
+      });
+      return;
+    }
+    addBookmark(openDocumentIdRef.current, createBookmark(localText, position));
+  };
+
+  /**
+   * Jump to a bookmark (found again by its word if the text was edited since)
+   */
+  const handleGoToBookmark = (bookmark: ReadingBookmark) => {
+    let position = reanchorPosition(localText, bookmark.position, bookmark.anchor);
+    if (!position || !textareaRef.current) return;
+    if (position.mode === "syllables" && !syllablesData) {
+      position = { mode: "words", wordIndex: position.wordIndex };
+    }
+    // Highlight first, so the navigation mode change keeps the bookmarked position
+    textareaRef.current.highlight(position);
+    setNavigationMode(position.mode);
+  };
+
+  /**
+   * Move the highlight to a word (to its first syllable when navigating by syllables,
+   * to its sentence or line when navigating by those)
+   * Used by auto-read and karaoke, which follow words.
+   */
+  const highlightWord = (wordIndex: number) => {
+    if (navigationMode === "sentences" || navigationMode === "lines") {
+      textareaRef.current?.highlight({ mode: navigationMode, wordIndex });
+      return;
+    }
+    const followSyllables = navigationMode === "syllables" && !!readingSyllablesData;
+    textareaRef.current?.highlight(
+      followSyllables ? { mode: "syllables", wordIndex, syllableIndex: 0 } : { mode: "words", wordIndex }
+    );
+  };
+
+  /**
+   * Karaoke: the document's recording plays with the highlight following its
+   * word timings, which are imported or marked by tapping
+   */
+  const wordCount = useMemo(() => localText.split(/\s+/).filter(Boolean).length, [localText]);
+  const {
+    status: karaokeStatus,
+    isLoading: isKaraokeLoading,
+    isAudioMissing: isKaraokeAudioMissing,
+    markedCount: karaokeMarkedCount,
+    play: playKaraoke,
+    pause: pauseKaraoke,
+    stop: stopKaraoke,
+    startMarking: startKaraokeMarking,
+    mark: markKaraokeWord,
+    undoMark: undoKaraokeMark,
+  } = useKaraoke({
+    audio: activeDocument?.audio ?? null,
+    timings: activeDocument?.wordTimings ?? [],
+    wordCount,
+    onWord: highlightWord,
+    onTimingsChange: (timings) => {
+      if (openDocumentIdRef.current) {
+        setWordTimings(openDocumentIdRef.current, timings);
+      }
+    },
+  });
+
+  /**
+   * Auto-advance (play mode): the highlight moves to the next element by itself
+   * at the user's reading tempo, until the end of the text
+   */
+  const {
+    status: autoAdvanceStatus,
+    countdown: autoAdvanceCountdown,
+    tempo: readingTempo,
+    toggle: toggleAutoAdvance,
+    stop: stopAutoAdvance,
+    nudge: nudgeReadingTempo,
+    setTempo: setReadingTempo,
+  } = useAutoAdvance({
+    getCurrentStep: () => {
+      const textarea = textareaRef.current;
+      const position = textarea?.getCurrentPosition();
+      return textarea && position
+        ? describeReadingStep(readingText, readingSyllablesData, position, textarea.getHighlightedWords())
+        : null;
+    },
+    advance: () => {
+      const textarea = textareaRef.current;
+      const before = textarea?.getCurrentPosition();
+      if (!textarea || !before) return false;
+      textarea.focusNext();
+      // focusNext stays on the last element, so an unchanged position is the end of the text
+      return JSON.stringify(textarea.getCurrentPosition()) !== JSON.stringify(before);
+    },
+  });
+
+  const handleToggleAutoAdvance = useCallback(() => {
+    if (autoAdvanceStatus === "idle") {
+      // Auto-read and karaoke move the highlight too
+      stopSpeech();
+      stopKaraoke();
+      // Start from the first element when nothing is highlighted
+      if (textareaRef.current && !textareaRef.current.getCurrentPosition()) {
+        textareaRef.current.resetPosition();
+      }
+    }
+    toggleAutoAdvance();
+  }, [autoAdvanceStatus, toggleAutoAdvance, stopSpeech, stopKaraoke]);
+
+  // Stop playing when the text is edited, another document is opened or the pyramids are toggled
+  useEffect(() => {
+    stopAutoAdvance();
+  }, [isEditing, activeDocumentId, showPyramids, stopAutoAdvance]);
+
+  const handleToggleSpeech = () => {
+    if (isSpeechEnabled) {
+      stopSpeech();
+    }
+    setIsSpeechEnabled(!isSpeechEnabled);
+  };
+
+  /**
+   * Read aloud from the highlighted word; the highlight follows the spoken words
+   */
+  const handleToggleAutoRead = () => {
+    if (isAutoReading) {
+      stopSpeech();
+      return;
+    }
+    stopAutoAdvance();
+    stopKaraoke();
+    const position = textareaRef.current?.getCurrentPosition();
+    startAutoRead(speechWords, position?.wordIndex ?? 0, highlightWord);
+  };
+
+  // Stop speaking when the text is edited, another document is opened or the pyramids are toggled
+  useEffect(() => {
+    stopSpeech();
+  }, [isEditing, activeDocumentId, showPyramids, stopSpeech]);
+
+  const handlePlayKaraoke = () => {
+    stopAutoAdvance();
+    stopSpeech();
+    playKaraoke();
+  };
+
+  const handleStartKaraokeMarking = () => {
+    stopAutoAdvance();
+    stopSpeech();
+    startKaraokeMarking();
+  };
+
+  const handleAttachAudio = async (file: File) => {
+    if (!activeDocument) return;
+    stopKaraoke();
+    const error = await attachAudio(activeDocument.id, file);
+    if (error) {
+      toast({ title: "הקלטה", description: error, variant: "destructive" });
+    }
+  };
+
+  const handleRemoveAudio = () => {
+    if (!activeDocument || !confirm("להסיר את ההקלטה ואת תזמוני המילים?")) return;
+    stopKaraoke();
+    removeAudio(activeDocument.id);
+  };
+
+  /**
+   * Import word timings from a WebVTT, SRT or JSON file
+   */
+  const handleImportTimings = async (file: File) => {
+    if (!activeDocument) return;
+    try {
+      const content = await file.text();
+      const { timings, fileWordCount } = importWordTimings(
+        content,
+        detectWordTimingsFormat(file.name, content),
+        localText
+      );
+      stopKaraoke();
+      setWordTimings(activeDocument.id, timings);
+      toast({
+        title: "תזמוני מילים",
+        description:
+          fileWordCount === wordCount
+            ? `יובאו תזמונים ל-${timings.length} מילים`
+            : `בקובץ ${fileWordCount} מילים ובטקסט ${wordCount} - יובאו תזמונים ל-${timings.length} מילים לפי הסדר`,
+      });
+    } catch (err) {
+      console.error("[Karaoke] Failed to import timings:", err);
+      toast({
+        title: "תזמוני מילים",
+        description: `ייבוא התזמונים נכשל: ${err instanceof Error ? err.message : String(err)}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportTimings = () => {
+    if (!activeDocument) return;
+    const blob = new Blob([exportWordTimings(activeDocument.wordTimings, localText)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${getDocumentTitle(activeDocument)}.timings.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Stop the recording when the text is edited, another document is opened or the pyramids are toggled
+  useEffect(() => {
+    stopKaraoke();
+  }, [isEditing, activeDocumentId, showPyramids, stopKaraoke]);
+
+  // While marking karaoke timings, Space marks the next word and Backspace takes the last mark back
+  // (listening in the capture phase, so these keys do not reach the reading view's shortcuts)
+  useEffect(() => {
+    if (isEditing || karaokeStatus !== "marking") return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(target.tagName) || target.isContentEditable)) {
+        return;
+      }
+      const combo = getKeyCombo(e);
+      if (!combo || !KARAOKE_MARKING_KEYS.includes(combo)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.repeat) return;
+      if (combo === "Space") {
+        markKaraokeWord();
+      } else {
+        undoKaraokeMark();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown, true);
+    return () => document.removeEventListener("keydown", handleKeyDown, true);
+  }, [isEditing, karaokeStatus, markKaraokeWord, undoKaraokeMark]);
+
+  // Niqqud toggle option of the current display and original status
+  const niqqudOption = (() => {
+    if (displayMode === 'clean') return 'clean';
+    if (displayMode === 'full') return 'full';
+    // displayMode === 'original'
+    if (originalStatus === 'partial') return 'original';
+    if (originalStatus === 'full') return 'full';
+    return 'clean';
+  })();
+
+  const handleNiqqudOptionChange = useCallback((value: string) => {
+    recordEdit("החלפת תצוגת הניקוד", getEditSnapshot());
+
+    // Store current scroll position before state changes
+    const scrollY = window.scrollY;
+
+    if (value === 'clean') {
+      switchToClean();
+    } else if (value === 'original') {
+      switchToOriginal();
+    } else if (value === 'full') {
+      switchToFull();
+    }
+
+    // Prevent scroll by restoring position after focus change
+    // Use multiple attempts to catch scroll at different stages
+    requestAnimationFrame(() => {
+      window.scrollTo({ top: scrollY, behavior: 'instant' });
+      setTimeout(() => {
+        window.scrollTo({ top: scrollY, behavior: 'instant' });
+      }, 0);
+      setTimeout(() => {
+        window.scrollTo({ top: scrollY, behavior: 'instant' });
+      }, 10);
     });
+  }, [recordEdit, getEditSnapshot, switchToClean, switchToOriginal, switchToFull]);
+
+  /**
+   * Shortcuts of the reading view for actions outside the text
+   * The niqqud and navigation mode shortcuts step through the options shown in the toolbar.
+   */
+  const handleShortcut = useCallback((action: ShortcutAction) => {
+    if (action === "playPause") {
+      handleToggleAutoAdvance();
+    } else if (action === "toggleNiqqud") {
+      const options = [
+        'clean',
+        ...(originalStatus === 'partial' ? ['original'] : []),
+        ...(cache?.full ? ['full'] : []),
+      ];
+      const next = options[(options.indexOf(niqqudOption) + 1) % options.length];
+      if (next !== niqqudOption) {
+        handleNiqqudOptionChange(next);
+      }
+    } else if (action === "cycleNavigationMode") {
+      const modes: NavigationMode[] = syllablesData
+        ? ["words", "syllables", "letters", "sentences", "lines"]
+        : ["words", "letters", "sentences", "lines"];
+      setNavigationMode(modes[(modes.indexOf(navigationMode) + 1) % modes.length]);
+    }
+  }, [handleToggleAutoAdvance, originalStatus, cache?.full, niqqudOption, handleNiqqudOptionChange, syllablesData, navigationMode]);
+
+  /**
+   * Create an empty document (in the folder being browsed) and start editing it
+   */
+  const handleCreateDocument = async (folder: string) => {
+    await createDocument({ folder });
+    setIsEditing(true);
   };
 
   const handleFontSizeChange = (delta: number) => {
@@ -444,6 +1155,9 @@ export default function Home() {
       if (error.includes("API Key")) {
         errorTitle = "הגדרות חסרות";
         errorDescription = "אנא הגדר API Key בהגדרות";
+      } else if (error.includes("שינה אותיות")) {
+        errorTitle = "המודל שינה את הטקסט";
+        errorDescription = error;
       } else if (error.includes("מודל")) {
         errorTitle = "מודל לא נבחר";
         errorDescription = "אנא בחר מודל שפה בהגדרות";
@@ -466,6 +1180,18 @@ export default function Home() {
     }
   }, [error, toast]);
 
+  // Show error toast when the document library fails to load or save
+  useEffect(() => {
+    if (libraryError) {
+      toast({
+        title: "ספריית המסמכים",
+        description: libraryError,
+        variant: "destructive",
+      });
+      clearLibraryError();
+    }
+  }, [libraryError, clearLibraryError, toast]);
+
   // Show error toast for syllables when error occurs
   useEffect(() => {
     if (syllablesError) {
@@ -475,6 +1201,9 @@ export default function Home() {
       if (syllablesError.includes("API Key")) {
         errorTitle = "הגדרות חסרות";
         errorDescription = "אנא הגדר API Key בהגדרות";
+      } else if (syllablesError.includes("שינה אותיות")) {
+        errorTitle = "המודל שינה את הטקסט";
+        errorDescription = syllablesError;
       } else if (syllablesError.includes("מודל")) {
         errorTitle = "מודל לא נבחר";
         errorDescription = "אנא בחר מודל שפה בהגדרות";
@@ -499,13 +1228,18 @@ export default function Home() {
 
   return (
     <>
-      <main className="flex min-h-screen flex-col p-6 md:p-12">
+      <main className={`flex min-h-screen flex-col p-6 md:p-12 ${!isEditing && isTouchNavOn ? "pb-32 md:pb-32" : ""}`}>
         <div className="w-full max-w-6xl mx-auto">
           {/* Title */}
           <div className="mb-6">
             <h1 className="text-4xl md:text-5xl font-bold text-right">
               לימוד קריאה
             </h1>
+            {activeDocument && (
+              <p className="mt-2 text-lg text-muted-foreground text-right" data-testid="active-document-title">
+                {getDocumentTitle(activeDocument)}
+              </p>
+            )}
           </div>
 
           {/* Sticky Controls Bar - Always visible at top when scrolling */}
@@ -592,7 +1326,7 @@ export default function Home() {
                   </Label>
                   <Select
                     value={navigationMode}
-                    onValueChange={(value: "words" | "syllables" | "letters") => {
+                    onValueChange={(value: NavigationMode) => {
                       // Guard: Prevent selecting "syllables" if no syllables data exists
                       // This prevents navigation errors when syllables haven't been divided yet
                       if (value === "syllables" && !syllablesData) {
@@ -613,6 +1347,9 @@ export default function Home() {
                       )}
                       {/* Letters option - always available */}
                       <SelectItem value="letters" className="text-right">אותיות</SelectItem>
+                      {/* Whole sentences and lines - always available */}
+                      <SelectItem value="sentences" className="text-right">משפטים</SelectItem>
+                      <SelectItem value="lines" className="text-right">שורות</SelectItem>
                     </SelectContent>
                   </Select>
                 </>
@@ -671,6 +1408,70 @@ export default function Home() {
 
             {/* Action Buttons */}
             <div className="flex justify-end gap-3">
+            <Button
+              onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+              className="gap-2"
+              variant={isLibraryOpen ? "default" : "outline"}
+              size="lg"
+              data-testid="document-library-button"
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span>מסמכים</span>
+            </Button>
+            {!isEditing && (
+              <Button
+                onClick={() => setIsPyramidMode(!isPyramidMode)}
+                disabled={!localText.trim()}
+                className="gap-2"
+                variant={isPyramidMode ? "default" : "outline"}
+                size="lg"
+                data-testid="pyramid-toggle-button"
+              >
+                <Triangle className="h-4 w-4" />
+                <span>פירמידה</span>
+              </Button>
+            )}
+            {!isEditing && (
+              <Button
+                onClick={() => setIsFocusMaskOn(!isFocusMaskOn)}
+                disabled={!localText.trim()}
+                className="gap-2"
+                variant={isFocusMaskOn ? "default" : "outline"}
+                size="lg"
+                title="עמעום כל השורות מלבד השורה הנקראת"
+                data-testid="focus-mask-toggle-button"
+              >
+                <Ruler className="h-4 w-4" />
+                <span>סרגל קריאה</span>
+              </Button>
+            )}
+            {!isEditing && (
+              <Button
+                onClick={() => setIsTouchNavOn(!isTouchNavOn)}
+                disabled={!localText.trim()}
+                className="gap-2"
+                variant={isTouchNavOn ? "default" : "outline"}
+                size="lg"
+                title="כפתורי ניווט גדולים בתחתית המסך"
+                data-testid="touch-nav-toggle-button"
+              >
+                <Tablet className="h-4 w-4" />
+                <span>כפתורי ניווט</span>
+              </Button>
+            )}
+            {canEditSyllables && (
+              <Button
+                onClick={() => setIsSyllableEditOn(!isSyllableEditOn)}
+                className="gap-2"
+                variant={isSyllableEditOn ? "default" : "outline"}
+                size="lg"
+                title="לחיצה על אות מפצלת את ההברה לפניה, ולחיצה על האות הראשונה בהברה מחברת אותה להברה הקודמת"
+                data-testid="syllable-edit-toggle-button"
+              >
+                <Split className="h-4 w-4" />
+                <span>עריכת הברות</span>
+              </Button>
+            )}
             <Button
               onClick={() => setIsEditing(!isEditing)}
               className="gap-2 min-w-[120px]"
@@ -701,7 +1502,11 @@ export default function Home() {
               {isSyllablesLoading || isLoading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>מעבד...</span>
+                  <span data-testid="model-progress">
+                    {modelProgress
+                      ? `מעבד... ${modelProgress.completed}/${modelProgress.total}`
+                      : "מעבד..."}
+                  </span>
                 </>
               ) : (
                 <>
@@ -710,6 +1515,43 @@ export default function Home() {
                 </>
               )}
             </Button>
+            {(isLoading || isSyllablesLoading) && (
+              <Button
+                onClick={() => {
+                  cancelNiqqud();
+                  cancelSyllables();
+                }}
+                className="gap-2 min-w-[120px]"
+                variant="outline"
+                size="lg"
+                data-testid="cancel-model-button"
+              >
+                <X className="h-4 w-4" />
+                <span>ביטול</span>
+              </Button>
+            )}
+            <Button
+              onClick={handleUndo}
+              disabled={!canUndo || isLoading || isSyllablesLoading}
+              variant="outline"
+              size="icon"
+              className="h-11 w-11"
+              title={undoLabel ? `ביטול: ${undoLabel} (Ctrl+Z)` : "ביטול (Ctrl+Z)"}
+              data-testid="undo-button"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={handleRedo}
+              disabled={!canRedo || isLoading || isSyllablesLoading}
+              variant="outline"
+              size="icon"
+              className="h-11 w-11"
+              title={redoLabel ? `ביצוע מחדש: ${redoLabel} (Ctrl+Y)` : "ביצוע מחדש (Ctrl+Y)"}
+              data-testid="redo-button"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Button
               onClick={handleClear}
               disabled={isLoading || isSyllablesLoading || !localText.trim()}
@@ -737,40 +1579,10 @@ export default function Home() {
             {!isEditing && (
               <ToggleGroup
                 type="single"
-                value={(() => {
-                  // Determine ToggleGroup value based on current display and original status
-                  if (displayMode === 'clean') return 'clean';
-                  if (displayMode === 'full') return 'full';
-                  // displayMode === 'original'
-                  if (originalStatus === 'partial') return 'original';
-                  if (originalStatus === 'full') return 'full';
-                  return 'clean';
-                })()}
+                value={niqqudOption}
                 onValueChange={(value: string) => {
                   if (!value) return; // Prevent deselection
-                  
-                  // Store current scroll position before state changes
-                  const scrollY = window.scrollY;
-                  
-                  if (value === 'clean') {
-                    switchToClean();
-                  } else if (value === 'original') {
-                    switchToOriginal();
-                  } else if (value === 'full') {
-                    switchToFull();
-                  }
-                  
-                  // Prevent scroll by restoring position after focus change
-                  // Use multiple attempts to catch scroll at different stages
-                  requestAnimationFrame(() => {
-                    window.scrollTo({ top: scrollY, behavior: 'instant' });
-                    setTimeout(() => {
-                      window.scrollTo({ top: scrollY, behavior: 'instant' });
-                    }, 0);
-                    setTimeout(() => {
-                      window.scrollTo({ top: scrollY, behavior: 'instant' });
-                    }, 10);
-                  });
+                  handleNiqqudOptionChange(value);
                 }}
                 className="border border-input rounded-md"
                 dir="rtl"
@@ -807,6 +1619,19 @@ export default function Home() {
                 )}
               </ToggleGroup>
             )}
+            {/* Word-level review of the model's niqqud - only when a full version exists */}
+            {!isEditing && cache?.full && (
+              <Button
+                onClick={() => setIsReviewingNiqqud(!isReviewingNiqqud)}
+                className="gap-2"
+                variant={isReviewingNiqqud ? "default" : "outline"}
+                size="lg"
+                data-testid="niqqud-review-button"
+              >
+                <GitCompare className="h-4 w-4" />
+                <span>השוואת ניקוד</span>
+              </Button>
+            )}
             </div>
           </div>
 
@@ -816,17 +1641,93 @@ export default function Home() {
             This eliminates re-renders on every navigation change, improving performance.
             The ref API (textareaRef) allows external control when needed.
           */}
+          {isLibraryOpen && (
+            <DocumentLibrary
+              documents={documents}
+              activeDocumentId={activeDocumentId}
+              storage={documentStorage}
+              onSelect={selectDocument}
+              onCreate={handleCreateDocument}
+              onRename={renameDocument}
+              onDuplicate={duplicateDocument}
+              onDelete={deleteDocument}
+              onMove={moveDocument}
+              onSetTags={setDocumentTags}
+            />
+          )}
+          {!isEditing && localText.trim() && (
+            <AutoAdvanceControls
+              status={autoAdvanceStatus}
+              countdown={autoAdvanceCountdown}
+              tempo={readingTempo}
+              onToggle={handleToggleAutoAdvance}
+              onStop={stopAutoAdvance}
+              onNudge={nudgeReadingTempo}
+              onTempoChange={setReadingTempo}
+              toggleKeys={shortcuts.playPause}
+            />
+          )}
+          {!isEditing && isSpeechSupported && localText.trim() && (
+            <SpeechControls
+              isSpeechEnabled={isSpeechEnabled}
+              isAutoReading={isAutoReading}
+              canAutoRead={navigationMode !== "letters"}
+              onToggleSpeech={handleToggleSpeech}
+              onToggleAutoRead={handleToggleAutoRead}
+            />
+          )}
+          {!isEditing && !showPyramids && activeDocument && localText.trim() && (
+            <KaraokeControls
+              audio={activeDocument.audio}
+              status={karaokeStatus}
+              isLoading={isKaraokeLoading}
+              isAudioMissing={isKaraokeAudioMissing}
+              timedWordCount={activeDocument.wordTimings.length}
+              wordCount={wordCount}
+              markedCount={karaokeMarkedCount}
+              onAttachAudio={handleAttachAudio}
+              onRemoveAudio={handleRemoveAudio}
+              onImportTimings={handleImportTimings}
+              onExportTimings={handleExportTimings}
+              onPlay={handlePlayKaraoke}
+              onPause={pauseKaraoke}
+              onStop={stopKaraoke}
+              onStartMarking={handleStartKaraokeMarking}
+              onMark={markKaraokeWord}
+              onUndoMark={undoKaraokeMark}
+            />
+          )}
+          {!isEditing && !showPyramids && activeDocument && localText.trim() && (
+            <ReadingBookmarks
+              bookmarks={activeDocument.bookmarks}
+              onAdd={handleAddBookmark}
+              onGoTo={handleGoToBookmark}
+              onRename={(bookmarkId, name) => renameBookmark(activeDocument.id, bookmarkId, name)}
+              onDelete={(bookmarkId) => deleteBookmark(activeDocument.id, bookmarkId)}
+            />
+          )}
+          {isReviewingNiqqud && cache?.full && (
+            <NiqqudDiffView
+              original={cache.original}
+              vocalized={cache.full}
+              mismatches={consonantMismatches}
+              onApply={handleApplyNiqqudReview}
+              onCancel={() => setIsReviewingNiqqud(false)}
+              fontSize={appearanceSettings.fontSize}
+            />
+          )}
           <div className="w-full">
             <EditableSyllablesTextarea
+              // Pyramids get their own instance, so the reading position in the text is kept
+              key={showPyramids ? "pyramids" : "text"}
               ref={textareaRef}
-              text={localText}
+              text={streamingText ?? readingText}
               onChange={handleTextChange}
               isEditing={isEditing}
-              isSyllablesActive={isSyllablesActive}
-              syllablesData={syllablesData}
+              isSyllablesActive={isSyllablesActive || !!streamingSyllablesData}
+              syllablesData={streamingSyllablesData ?? readingSyllablesData}
               navigationMode={navigationMode}
               displayMode={displayMode}
-              niqqudCache={cache}
               borderSize={appearanceSettings.syllableBorderSize}
               backgroundColor={appearanceSettings.syllableBackgroundColor}
               wordSpacing={appearanceSettings.wordSpacing}
@@ -842,8 +1743,33 @@ export default function Home() {
               placeholder="הדבק כאן את הטקסט הראשי לצורך מניפולציות..."
               stylingPreset={selectedStylingPreset}
               fontFamily={localFontFamily || fontFamily}
+              savedPosition={showPyramids ? null : resumePosition}
+              onPositionChange={handleReadingPositionChange}
+              focusMask={isFocusMaskOn ? focusMaskSettings : null}
+              shortcuts={shortcuts}
+              onShortcut={handleShortcut}
+              onLongPressWord={setWordDetails}
+              isSyllableEditing={isSyllableEditOn && canEditSyllables && !isSyllablesLoading}
+              onSyllablesCorrected={handleSyllablesCorrected}
             />
           </div>
+          {!isEditing && isTouchNavOn && localText.trim() && (
+            <TouchNavigationControls
+              onNext={() => textareaRef.current?.focusNext()}
+              onPrev={() => textareaRef.current?.focusPrev()}
+              onUp={() => textareaRef.current?.focusUp()}
+              onDown={() => textareaRef.current?.focusDown()}
+              onJumpToStart={() => textareaRef.current?.resetPosition()}
+            />
+          )}
+          {!isEditing && wordDetails && (
+            <WordDetailsPanel
+              details={wordDetails}
+              fontFamily={localFontFamily || fontFamily}
+              onSpeak={isSpeechSupported ? () => speak(speechWords[wordDetails.wordIndex] ?? wordDetails.word) : undefined}
+              onClose={() => setWordDetails(null)}
+            />
+          )}
         </div>
       </main>
     </>
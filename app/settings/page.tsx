@@ -23,6 +23,10 @@ import {
 import {
   getSettings,
   saveSettings,
+  saveApiKeysToServer,
+  migrateLocalApiKeysToServer,
+  fetchApiKeyStatus,
+  ApiKeyStatus,
   getRawResponse,
   getWordSpacing,
   saveWordSpacing,
@@ -30,6 +34,12 @@ import {
   saveFontFamily,
   resetToDefaults,
   getAppDefaults,
+  getReadingPyramidSettings,
+  getFocusMaskSettings,
+  getKeyboardShortcuts,
+  saveKeyboardShortcuts,
+  getReadingTempo,
+  saveReadingTempo,
   DEFAULT_MODELS,
   DEFAULT_NIQQUD_PROMPT,
   DEFAULT_NIQQUD_SYSTEM_PROMPT,
@@ -49,7 +59,40 @@ import {
   DEFAULT_SYLLABLE_HIGHLIGHT_COLOR,
   DEFAULT_LETTER_HIGHLIGHT_COLOR,
   DEFAULT_TEMPERATURE,
+  DEFAULT_TTS_VOICE,
+  DEFAULT_TTS_RATE,
+  DEFAULT_TTS_PITCH,
+  DEFAULT_TTS_SPEAK_VOCALIZED,
 } from "@/lib/settings";
+import {
+  DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  DEFAULT_PYRAMID_WORD_JUMP,
+  MAX_PYRAMID_WORD_JUMP,
+  formatNoBreakWords,
+  parseNoBreakWords,
+} from "@/lib/reading-pyramid";
+import {
+  DEFAULT_FOCUS_MASK_LINES,
+  DEFAULT_FOCUS_MASK_OPACITY,
+  DEFAULT_FOCUS_MASK_STYLE,
+  DEFAULT_FOCUS_RULER_COLOR,
+  FocusMaskStyle,
+  MAX_FOCUS_MASK_LINES,
+} from "@/lib/focus-mask";
+import {
+  DEFAULT_READING_TEMPO,
+  normalizeReadingTempo,
+  READING_TEMPO_LIMITS,
+  ReadingTempo,
+} from "@/lib/reading-tempo";
+import { getTtsAdapter, TTS_LANG, TtsVoice } from "@/lib/tts";
+import { DEFAULT_SHORTCUTS, ShortcutMap } from "@/lib/keyboard-shortcuts";
+import { KeyboardShortcutsEditor } from "@/components/keyboard-shortcuts-editor";
+
+/**
+ * Select value for "no saved voice" (Select items cannot have an empty value)
+ */
+const AUTO_TTS_VOICE = "auto";
 
 export default function SettingsPage() {
   const [niqqudApiKey, setNiqqudApiKey] = useState("");
@@ -75,14 +118,36 @@ export default function SettingsPage() {
   const [wordHighlightColor, setWordHighlightColor] = useState(DEFAULT_WORD_HIGHLIGHT_COLOR);
   const [syllableHighlightColor, setSyllableHighlightColor] = useState(DEFAULT_SYLLABLE_HIGHLIGHT_COLOR);
   const [letterHighlightColor, setLetterHighlightColor] = useState(DEFAULT_LETTER_HIGHLIGHT_COLOR);
+  const [pyramidWordJump, setPyramidWordJump] = useState(DEFAULT_PYRAMID_WORD_JUMP);
+  // Comma separated, as typed by the user
+  const [pyramidNoBreakWords, setPyramidNoBreakWords] = useState(formatNoBreakWords(DEFAULT_PYRAMID_NO_BREAK_WORDS));
+  const [ttsVoice, setTtsVoice] = useState(DEFAULT_TTS_VOICE);
+  const [ttsRate, setTtsRate] = useState(DEFAULT_TTS_RATE);
+  const [ttsPitch, setTtsPitch] = useState(DEFAULT_TTS_PITCH);
+  const [ttsSpeakVocalized, setTtsSpeakVocalized] = useState(DEFAULT_TTS_SPEAK_VOCALIZED);
+  const [ttsVoices, setTtsVoices] = useState<TtsVoice[]>([]);
+  const [readingTempo, setReadingTempo] = useState<ReadingTempo>(DEFAULT_READING_TEMPO);
+  const [focusMaskLines, setFocusMaskLines] = useState(DEFAULT_FOCUS_MASK_LINES);
+  const [focusMaskStyle, setFocusMaskStyle] = useState<FocusMaskStyle>(DEFAULT_FOCUS_MASK_STYLE);
+  const [focusMaskOpacity, setFocusMaskOpacity] = useState(DEFAULT_FOCUS_MASK_OPACITY);
+  const [focusRulerColor, setFocusRulerColor] = useState(DEFAULT_FOCUS_RULER_COLOR);
+  const [keyboardShortcuts, setKeyboardShortcuts] = useState<ShortcutMap>(DEFAULT_SHORTCUTS);
   const [syllablesRawResponse, setSyllablesRawResponse] = useState<string | null>(null);
   const [saved, setSaved] = useState(false);
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus>({
+    hasNiqqudApiKey: false,
+    hasSyllablesApiKey: false,
+  });
+  const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const [resetting, setResetting] = useState(false);
 
   useEffect(() => {
     const loadSettings = async () => {
+      // API keys are kept on the server; the inputs only send new keys
+      await migrateLocalApiKeysToServer();
+      setApiKeyStatus(await fetchApiKeyStatus());
+
       const settings = getSettings();
-      setNiqqudApiKey(settings.niqqudApiKey || "");
       setNiqqudModel(settings.niqqudModel || DEFAULT_MODELS[0].value);
       setNiqqudPrompt(settings.niqqudPrompt || DEFAULT_NIQQUD_PROMPT);
       setNiqqudSystemPrompt(settings.niqqudSystemPrompt || DEFAULT_NIQQUD_SYSTEM_PROMPT);
@@ -90,7 +155,6 @@ export default function SettingsPage() {
       setNiqqudTemperature(settings.niqqudTemperature || DEFAULT_TEMPERATURE);
       setNiqqudCompletionSystemPrompt(settings.niqqudCompletionSystemPrompt || DEFAULT_NIQQUD_COMPLETION_SYSTEM_PROMPT);
       setNiqqudCompletionUserPrompt(settings.niqqudCompletionUserPrompt || DEFAULT_NIQQUD_COMPLETION_USER_PROMPT);
-      setSyllablesApiKey(settings.syllablesApiKey || "");
       setSyllablesModel(settings.syllablesModel || DEFAULT_MODELS[0].value);
       setSyllablesPrompt(settings.syllablesPrompt || DEFAULT_SYLLABLES_PROMPT);
       setSyllablesTemperature(settings.syllablesTemperature || DEFAULT_TEMPERATURE);
@@ -112,7 +176,42 @@ export default function SettingsPage() {
       setWordHighlightColor(settings.wordHighlightColor || DEFAULT_WORD_HIGHLIGHT_COLOR);
       setSyllableHighlightColor(settings.syllableHighlightColor || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR);
       setLetterHighlightColor(settings.letterHighlightColor || DEFAULT_LETTER_HIGHLIGHT_COLOR);
+
+      // Load pyramid settings (the app defaults fill in what the user did not set)
+      const pyramidSettings = await getReadingPyramidSettings();
+      setPyramidWordJump(pyramidSettings.wordJump);
+      setPyramidNoBreakWords(formatNoBreakWords(pyramidSettings.noBreakWords));
+
+      setTtsVoice(settings.ttsVoice);
+      setTtsRate(settings.ttsRate);
+      setTtsPitch(settings.ttsPitch);
+      setTtsSpeakVocalized(settings.ttsSpeakVocalized);
+
+      // Load the auto-advance tempo from preferences (authenticated) or localStorage (unauthenticated)
+      setReadingTempo(await getReadingTempo());
+
+      // Load reading ruler settings (the app defaults fill in what the user did not set)
+      const focusMaskSettings = await getFocusMaskSettings();
+      setFocusMaskLines(focusMaskSettings.lines);
+      setFocusMaskStyle(focusMaskSettings.style);
+      setFocusMaskOpacity(focusMaskSettings.opacity);
+      setFocusRulerColor(focusMaskSettings.rulerColor);
+
+      // Load keyboard shortcuts from preferences (authenticated) or localStorage (unauthenticated)
+      setKeyboardShortcuts(await getKeyboardShortcuts());
       setSyllablesRawResponse(getRawResponse());
+
+      // Voices of this device; Hebrew voices are listed first
+      try {
+        const voices = await getTtsAdapter().getVoices();
+        const language = TTS_LANG.split("-")[0];
+        setTtsVoices([
+          ...voices.filter((voice) => voice.lang.startsWith(language)),
+          ...voices.filter((voice) => !voice.lang.startsWith(language)),
+        ]);
+      } catch (error) {
+        console.warn("[Speech] Failed to load voices:", error);
+      }
     };
     
     loadSettings();
@@ -124,10 +223,26 @@ export default function SettingsPage() {
     
     // Save fontFamily to preferences (authenticated) and localStorage (backup)
     await saveFontFamily(fontFamily);
+
+    // Save keyboard shortcuts to preferences (authenticated) and localStorage (backup)
+    await saveKeyboardShortcuts(keyboardShortcuts);
+
+    // Save the auto-advance tempo (kept within its limits) to preferences and localStorage
+    const normalizedTempo = normalizeReadingTempo(readingTempo);
+    await saveReadingTempo(normalizedTempo);
+    setReadingTempo(normalizedTempo);
     
+    // Save API keys on the server (stored encrypted, never kept in the browser)
+    const keyError = await saveApiKeysToServer({ niqqudApiKey, syllablesApiKey });
+    setApiKeyError(keyError);
+    if (!keyError) {
+      setNiqqudApiKey("");
+      setSyllablesApiKey("");
+      setApiKeyStatus(await fetchApiKeyStatus());
+    }
+
     // Save other settings to localStorage
     saveSettings({
-      niqqudApiKey,
       niqqudModel,
       niqqudPrompt,
       niqqudSystemPrompt,
@@ -135,7 +250,6 @@ export default function SettingsPage() {
       niqqudTemperature,
       niqqudCompletionSystemPrompt,
       niqqudCompletionUserPrompt,
-      syllablesApiKey,
       syllablesModel,
       syllablesPrompt,
       syllablesTemperature,
@@ -150,6 +264,16 @@ export default function SettingsPage() {
       wordHighlightColor,
       syllableHighlightColor,
       letterHighlightColor,
+      pyramidWordJump,
+      pyramidNoBreakWords: parseNoBreakWords(pyramidNoBreakWords),
+      ttsVoice,
+      ttsRate,
+      ttsPitch,
+      ttsSpeakVocalized,
+      focusMaskLines,
+      focusMaskStyle,
+      focusMaskOpacity,
+      focusRulerColor,
     });
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
@@ -193,6 +317,24 @@ export default function SettingsPage() {
         setWordHighlightColor((defaults.wordHighlightColor as string) || DEFAULT_WORD_HIGHLIGHT_COLOR);
         setSyllableHighlightColor((defaults.syllableHighlightColor as string) || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR);
         setLetterHighlightColor((defaults.letterHighlightColor as string) || DEFAULT_LETTER_HIGHLIGHT_COLOR);
+        setPyramidWordJump((defaults.pyramidWordJump as number) ?? DEFAULT_PYRAMID_WORD_JUMP);
+        setPyramidNoBreakWords(
+          formatNoBreakWords((defaults.pyramidNoBreakWords as string[]) ?? DEFAULT_PYRAMID_NO_BREAK_WORDS)
+        );
+        setTtsVoice((defaults.ttsVoice as string) ?? DEFAULT_TTS_VOICE);
+        setTtsRate((defaults.ttsRate as number) ?? DEFAULT_TTS_RATE);
+        setTtsPitch((defaults.ttsPitch as number) ?? DEFAULT_TTS_PITCH);
+        setTtsSpeakVocalized((defaults.ttsSpeakVocalized as boolean) ?? DEFAULT_TTS_SPEAK_VOCALIZED);
+        setFocusMaskLines((defaults.focusMaskLines as number) ?? DEFAULT_FOCUS_MASK_LINES);
+        setFocusMaskStyle((defaults.focusMaskStyle as FocusMaskStyle) || DEFAULT_FOCUS_MASK_STYLE);
+        setFocusMaskOpacity((defaults.focusMaskOpacity as number) ?? DEFAULT_FOCUS_MASK_OPACITY);
+        setFocusRulerColor((defaults.focusRulerColor as string) || DEFAULT_FOCUS_RULER_COLOR);
+
+        await saveKeyboardShortcuts(DEFAULT_SHORTCUTS);
+        setKeyboardShortcuts(DEFAULT_SHORTCUTS);
+
+        await saveReadingTempo(DEFAULT_READING_TEMPO);
+        setReadingTempo(DEFAULT_READING_TEMPO);
         
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
@@ -266,6 +408,30 @@ export default function SettingsPage() {
               >
                 מראה
               </TabsTrigger>
+              <TabsTrigger
+                value="speech"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="settings-tab-speech"
+              >
+                הקראה
+              </TabsTrigger>
+              <TabsTrigger
+                value="ruler"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="settings-tab-ruler"
+              >
+                סרגל קריאה
+              </TabsTrigger>
+              <TabsTrigger
+                value="shortcuts"
+                className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
+                style={{ justifyContent: 'flex-start' }}
+                data-testid="settings-tab-shortcuts"
+              >
+                קיצורי מקלדת
+              </TabsTrigger>
               <TabsTrigger
                 value="api"
                 className="w-full px-4 py-3 text-right data-[state=active]:bg-background data-[state=active]:shadow-sm"
@@ -294,17 +460,21 @@ export default function SettingsPage() {
                       </Label>
                       <Input
                         id="niqqud-api-key"
-                        type="text"
+                        type="password"
+                        autoComplete="off"
                         value={niqqudApiKey}
                         onChange={(e) => setNiqqudApiKey(e.target.value)}
-                        placeholder="הכנס את ה-API Key שלך"
+                        placeholder={apiKeyStatus.hasNiqqudApiKey ? "מפתח שמור בשרת - הכנס מפתח חדש כדי להחליף" : "הכנס את ה-API Key שלך"}
                         className="text-right font-mono"
                         dir="rtl"
                         data-testid="settings-niqqud-api-key-input"
                       />
                       <p className="text-sm text-muted-foreground text-right">
-                        מפתח API למודל השפה (לדוגמה: OpenAI)
+                        מפתח API למודל השפה (לדוגמה: OpenAI). המפתח נשמר מוצפן בשרת ואינו נשלח לדפדפן
                       </p>
+                      {apiKeyError && (
+                        <p className="text-sm text-destructive text-right">{apiKeyError}</p>
+                      )}
                     </div>
 
                     {/* Model Selection */}
@@ -460,17 +630,21 @@ export default function SettingsPage() {
                       </Label>
                       <Input
                         id="syllables-api-key"
-                        type="text"
+                        type="password"
+                        autoComplete="off"
                         value={syllablesApiKey}
                         onChange={(e) => setSyllablesApiKey(e.target.value)}
-                        placeholder="הכנס את ה-API Key שלך"
+                        placeholder={apiKeyStatus.hasSyllablesApiKey ? "מפתח שמור בשרת - הכנס מפתח חדש כדי להחליף" : "הכנס את ה-API Key שלך"}
                         className="text-right font-mono"
                         dir="rtl"
                         data-testid="settings-syllables-api-key-input"
                       />
                       <p className="text-sm text-muted-foreground text-right">
-                        מפתח API למודל השפה (לדוגמה: OpenAI)
+                        מפתח API למודל השפה (לדוגמה: OpenAI). המפתח נשמר מוצפן בשרת ואינו נשלח לדפדפן
                       </p>
+                      {apiKeyError && (
+                        <p className="text-sm text-destructive text-right">{apiKeyError}</p>
+                      )}
                     </div>
 
                     {/* Model Selection */}
@@ -563,13 +737,342 @@ export default function SettingsPage() {
 
               {/* General Tab */}
               <TabsContent value="general" className="mt-0">
-                <div className="p-6 border rounded-lg bg-card shadow-sm">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+                  <h2 className="text-2xl font-semibold text-right mb-4">
+                    הגדרות כלליות - פירמידות קריאה
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Pyramid Word Jump Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="pyramid-word-jump" className="text-right block text-base">
+                        מספר מילים שנוספות בכל שורה
+                      </Label>
+                      <Input
+                        id="pyramid-word-jump"
+                        type="number"
+                        min="1"
+                        max={MAX_PYRAMID_WORD_JUMP}
+                        value={pyramidWordJump}
+                        onChange={(e) => setPyramidWordJump(parseInt(e.target.value, 10) || 1)}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-pyramid-word-jump-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        בכל שורה של הפירמידה נוספות מילים לשורה הקודמת (1-{MAX_PYRAMID_WORD_JUMP})
+                      </p>
+                    </div>
+
+                    {/* Pyramid No-Break Words Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="pyramid-no-break-words" className="text-right block text-base">
+                        מילות קישור
+                      </Label>
+                      <Textarea
+                        id="pyramid-no-break-words"
+                        value={pyramidNoBreakWords}
+                        onChange={(e) => setPyramidNoBreakWords(e.target.value)}
+                        className="min-h-[100px] text-right"
+                        dir="rtl"
+                        data-testid="settings-pyramid-no-break-words-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        מילים מופרדות בפסיקים. שורה בפירמידה לא תסתיים במילת קישור - המילה שאחריה תתווסף לשורה
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </TabsContent>
+
+              {/* Speech Tab */}
+              <TabsContent value="speech" className="mt-0">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
                   <h2 className="text-2xl font-semibold text-right mb-4">
-                    הגדרות כלליות
+                    הגדרות הקראה
                   </h2>
-                  <p className="text-muted-foreground text-right">
-                    הגדרות כלליות יופיעו כאן בעתיד.
+
+                  <div className="space-y-4">
+                    {/* Voice Select */}
+                    <div className="space-y-2">
+                      <Label htmlFor="tts-voice" className="text-right block text-base">
+                        קול
+                      </Label>
+                      <Select
+                        value={ttsVoice || AUTO_TTS_VOICE}
+                        onValueChange={(value) => setTtsVoice(value === AUTO_TTS_VOICE ? "" : value)}
+                      >
+                        <SelectTrigger id="tts-voice" className="text-right" dir="rtl" data-testid="settings-tts-voice-select">
+                          <SelectValue placeholder="בחר קול" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_TTS_VOICE} className="text-right">
+                            אוטומטי (קול עברי)
+                          </SelectItem>
+                          {ttsVoices.map((voice) => (
+                            <SelectItem key={voice.id} value={voice.id} className="text-right">
+                              {voice.name} ({voice.lang})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground text-right">
+                        הקולות מותקנים במכשיר. אם הקול שנבחר לא קיים, ייבחר קול עברי
+                      </p>
+                    </div>
+
+                    {/* Rate Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="tts-rate" className="text-right block text-base">
+                        מהירות דיבור
+                      </Label>
+                      <Input
+                        id="tts-rate"
+                        type="number"
+                        min="0.5"
+                        max="2"
+                        step="0.1"
+                        value={ttsRate}
+                        onChange={(e) => setTtsRate(parseFloat(e.target.value) || DEFAULT_TTS_RATE)}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-tts-rate-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        1 היא מהירות רגילה (0.5-2)
+                      </p>
+                    </div>
+
+                    {/* Pitch Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="tts-pitch" className="text-right block text-base">
+                        גובה קול
+                      </Label>
+                      <Input
+                        id="tts-pitch"
+                        type="number"
+                        min="0"
+                        max="2"
+                        step="0.1"
+                        value={ttsPitch}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          setTtsPitch(isNaN(value) ? DEFAULT_TTS_PITCH : value);
+                        }}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-tts-pitch-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        1 הוא גובה רגיל (0-2)
+                      </p>
+                    </div>
+
+                    {/* Speak Vocalized Select */}
+                    <div className="space-y-2">
+                      <Label htmlFor="tts-speak-vocalized" className="text-right block text-base">
+                        טקסט להקראה
+                      </Label>
+                      <Select
+                        value={ttsSpeakVocalized ? "vocalized" : "original"}
+                        onValueChange={(value) => setTtsSpeakVocalized(value === "vocalized")}
+                      >
+                        <SelectTrigger id="tts-speak-vocalized" className="text-right" dir="rtl" data-testid="settings-tts-speak-vocalized-select">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="vocalized" className="text-right">
+                            הטקסט המנוקד
+                          </SelectItem>
+                          <SelectItem value="original" className="text-right">
+                            הטקסט כפי שנכתב
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground text-right">
+                        הקראת הטקסט המנוקד (כשהוא קיים) עוזרת למנוע ההגייה לבטא את המילים נכון
+                      </p>
+                    </div>
+
+                    {/* Auto-advance Extra Time per Letter Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="reading-tempo-extra-ms" className="text-right block text-base">
+                        זמן נוסף לכל אות בהקראה אוטומטית (מ&quot;ש)
+                      </Label>
+                      <Input
+                        id="reading-tempo-extra-ms"
+                        type="number"
+                        min={READING_TEMPO_LIMITS.extraMsPerLetter.min}
+                        max={READING_TEMPO_LIMITS.extraMsPerLetter.max}
+                        step={READING_TEMPO_LIMITS.extraMsPerLetter.step}
+                        value={readingTempo.extraMsPerLetter}
+                        onChange={(e) =>
+                          setReadingTempo({ ...readingTempo, extraMsPerLetter: parseInt(e.target.value, 10) || 0 })
+                        }
+                        placeholder={String(DEFAULT_READING_TEMPO.extraMsPerLetter)}
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-reading-tempo-extra-ms-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        מילים והברות ארוכות מהרגיל מקבלות זמן נוסף לכל אות ({READING_TEMPO_LIMITS.extraMsPerLetter.min}-
+                        {READING_TEMPO_LIMITS.extraMsPerLetter.max})
+                      </p>
+                    </div>
+
+                    {/* Auto-advance Countdown Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="reading-tempo-countdown" className="text-right block text-base">
+                        ספירה לאחור לפני הקראה אוטומטית (שניות)
+                      </Label>
+                      <Input
+                        id="reading-tempo-countdown"
+                        type="number"
+                        min={READING_TEMPO_LIMITS.countdownSeconds.min}
+                        max={READING_TEMPO_LIMITS.countdownSeconds.max}
+                        step={READING_TEMPO_LIMITS.countdownSeconds.step}
+                        value={readingTempo.countdownSeconds}
+                        onChange={(e) =>
+                          setReadingTempo({ ...readingTempo, countdownSeconds: parseInt(e.target.value, 10) || 0 })
+                        }
+                        placeholder={String(DEFAULT_READING_TEMPO.countdownSeconds)}
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-reading-tempo-countdown-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        0 מתחיל את ההקראה מיד ({READING_TEMPO_LIMITS.countdownSeconds.min}-
+                        {READING_TEMPO_LIMITS.countdownSeconds.max})
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </TabsContent>
+
+              {/* Keyboard Shortcuts Tab */}
+              <TabsContent value="shortcuts" className="mt-0">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+                  <h2 className="text-2xl font-semibold text-right mb-4">
+                    קיצורי מקלדת
+                  </h2>
+                  <p className="text-sm text-muted-foreground text-right">
+                    המקשים של תצוגת הקריאה. ניתן להגדיר כמה מקשים לכל פעולה, למשל עבור מתג או דוושה.
                   </p>
+                  <KeyboardShortcutsEditor shortcuts={keyboardShortcuts} onChange={setKeyboardShortcuts} />
+                </div>
+              </TabsContent>
+
+              {/* Reading Ruler Tab */}
+              <TabsContent value="ruler" className="mt-0">
+                <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+                  <h2 className="text-2xl font-semibold text-right mb-4">
+                    סרגל קריאה
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Focus Mask Lines Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-lines" className="text-right block text-base">
+                        מספר שורות גלויות
+                      </Label>
+                      <Input
+                        id="focus-mask-lines"
+                        type="number"
+                        min="1"
+                        max={MAX_FOCUS_MASK_LINES}
+                        value={focusMaskLines}
+                        onChange={(e) => setFocusMaskLines(parseInt(e.target.value, 10) || 1)}
+                        placeholder="1"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-focus-mask-lines-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        השורה של הרכיב המודגש והשורות שאחריה נשארות גלויות (1-{MAX_FOCUS_MASK_LINES})
+                      </p>
+                    </div>
+
+                    {/* Focus Mask Style Select */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-style" className="text-right block text-base">
+                        הסתרת שאר השורות
+                      </Label>
+                      <Select
+                        value={focusMaskStyle}
+                        onValueChange={(value: FocusMaskStyle) => setFocusMaskStyle(value)}
+                      >
+                        <SelectTrigger id="focus-mask-style" className="text-right" dir="rtl" data-testid="settings-focus-mask-style-select">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="dim" className="text-right">
+                            עמעום
+                          </SelectItem>
+                          <SelectItem value="blur" className="text-right">
+                            טשטוש
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Focus Mask Opacity Input */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-mask-opacity" className="text-right block text-base">
+                        אטימות המסכה
+                      </Label>
+                      <Input
+                        id="focus-mask-opacity"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={focusMaskOpacity}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          setFocusMaskOpacity(isNaN(value) ? DEFAULT_FOCUS_MASK_OPACITY : value);
+                        }}
+                        placeholder="0.7"
+                        className="text-right"
+                        dir="rtl"
+                        data-testid="settings-focus-mask-opacity-input"
+                      />
+                      <p className="text-sm text-muted-foreground text-right">
+                        0 - שאר השורות נראות כרגיל, 1 - שאר השורות מוסתרות לגמרי (0-1)
+                      </p>
+                    </div>
+
+                    {/* Ruler Color */}
+                    <div className="space-y-2">
+                      <Label htmlFor="focus-ruler-color" className="text-right block text-base">
+                        צבע הסרגל
+                      </Label>
+                      <div className="flex gap-2 items-center">
+                        <Input
+                          id="focus-ruler-color"
+                          type="color"
+                          value={focusRulerColor}
+                          onChange={(e) => setFocusRulerColor(e.target.value)}
+                          className="w-20 h-10 cursor-pointer"
+                          data-testid="settings-focus-ruler-color-picker"
+                        />
+                        <Input
+                          type="text"
+                          value={focusRulerColor}
+                          onChange={(e) => setFocusRulerColor(e.target.value)}
+                          placeholder="#fef9c3"
+                          className="flex-1 text-right font-mono"
+                          dir="rtl"
+                          data-testid="settings-focus-ruler-color-input"
+                        />
+                      </div>
+                      <p className="text-sm text-muted-foreground text-right">
+                        צבע הרקע של השורות הגלויות (hex color)
+                      </p>
+                    </div>
+                  </div>
                 </div>
               </TabsContent>
 
@@ -0,0 +1,122 @@
+"use client";
+
+import { Pause, Play, Plus, Minus, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AutoAdvanceStatus } from "@/hooks/use-auto-advance";
+import type { ReadingTempo, ReadingTempoUnit } from "@/lib/reading-tempo";
+import { formatKeyCombo } from "@/lib/keyboard-shortcuts";
+
+interface AutoAdvanceControlsProps {
+  status: AutoAdvanceStatus;
+  countdown: number;
+  tempo: ReadingTempo;
+  onToggle: () => void;
+  onStop: () => void;
+  onNudge: (direction: 1 | -1) => void;
+  onTempoChange: (tempo: ReadingTempo) => void;
+  /** Keys of the play/pause shortcut, shown in the button's title */
+  toggleKeys?: string[];
+}
+
+/**
+ * Auto-advance controls: play/pause, stop, the countdown, and the tempo with
+ * slower/faster buttons and its unit
+ */
+export function AutoAdvanceControls({
+  status,
+  countdown,
+  tempo,
+  onToggle,
+  onStop,
+  onNudge,
+  onTempoChange,
+  toggleKeys = ["Space"],
+}: AutoAdvanceControlsProps) {
+  const isRunning = status === "playing" || status === "countdown";
+  const tempoLabel =
+    tempo.unit === "wordsPerMinute" ? `${tempo.wordsPerMinute} מילים לדקה` : `${tempo.msPerSyllable} מ"ש להברה`;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2" dir="rtl" data-testid="auto-advance-controls">
+      <Button
+        // Keep the focus in the reading view so arrow navigation keeps working
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onToggle}
+        variant={isRunning ? "default" : "outline"}
+        size="sm"
+        className="gap-2"
+        title={toggleKeys.length > 0 ? `הקראה אוטומטית (${toggleKeys.map(formatKeyCombo).join(", ")})` : "הקראה אוטומטית"}
+        data-testid="auto-advance-toggle-button"
+      >
+        {isRunning ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        <span>{isRunning ? "השהיה" : status === "paused" ? "המשך" : "הפעלה"}</span>
+      </Button>
+      {status !== "idle" && (
+        <Button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onStop}
+          variant="outline"
+          size="icon"
+          className="h-9 w-9"
+          title="עצירה"
+          data-testid="auto-advance-stop-button"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+      )}
+      {status === "countdown" && (
+        <span className="min-w-8 text-center text-2xl font-bold tabular-nums" data-testid="auto-advance-countdown">
+          {countdown}
+        </span>
+      )}
+      <Button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onNudge(-1)}
+        variant="outline"
+        size="icon"
+        className="h-9 w-9"
+        title="לאט יותר"
+        data-testid="auto-advance-slower-button"
+      >
+        <Minus className="h-4 w-4" />
+      </Button>
+      <span className="text-sm tabular-nums" data-testid="auto-advance-tempo">
+        {tempoLabel}
+      </span>
+      <Button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onNudge(1)}
+        variant="outline"
+        size="icon"
+        className="h-9 w-9"
+        title="מהר יותר"
+        data-testid="auto-advance-faster-button"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      <Label htmlFor="auto-advance-unit" className="text-sm">
+        קצב לפי:
+      </Label>
+      <Select
+        value={tempo.unit}
+        onValueChange={(unit: ReadingTempoUnit) => onTempoChange({ ...tempo, unit })}
+      >
+        <SelectTrigger id="auto-advance-unit" className="w-[140px] text-right" dir="rtl" data-testid="auto-advance-unit-select">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="wordsPerMinute" className="text-right">מילים לדקה</SelectItem>
+          <SelectItem value="msPerSyllable" className="text-right">מ&quot;ש להברה</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
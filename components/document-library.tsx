@@ -0,0 +1,273 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Copy, FilePlus, Folder, Pencil, Search, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  getDocumentFolders,
+  getDocumentTags,
+  getDocumentTitle,
+  LibraryDocument,
+  searchDocuments,
+  sortDocumentsByUpdate,
+} from "@/lib/documents";
+
+interface DocumentLibraryProps {
+  documents: LibraryDocument[];
+  activeDocumentId: string | null;
+  storage: "local" | "supabase";
+  onSelect: (id: string) => void;
+  onCreate: (folder: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, folder: string) => void;
+  onSetTags: (id: string, tags: string[]) => void;
+}
+
+/**
+ * Details edited inline for one document
+ */
+interface DocumentDetailsDraft {
+  id: string;
+  title: string;
+  folder: string;
+  tags: string; // Comma separated
+}
+
+/**
+ * Folder filter value for documents that are not in a folder
+ */
+const NO_FOLDER = "__none__";
+
+/**
+ * Document library panel: search, folder and tag filters, and the document
+ * list with rename/folder/tags editing, duplicate and delete
+ */
+export function DocumentLibrary({
+  documents,
+  activeDocumentId,
+  storage,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onMove,
+  onSetTags,
+}: DocumentLibraryProps) {
+  const [query, setQuery] = useState("");
+  // Selected folder ("" for all folders, NO_FOLDER for documents without one)
+  const [folderFilter, setFolderFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DocumentDetailsDraft | null>(null);
+
+  const folders = useMemo(() => getDocumentFolders(documents), [documents]);
+  const tags = useMemo(() => getDocumentTags(documents), [documents]);
+
+  const visibleDocuments = useMemo(() => {
+    const filtered = searchDocuments(documents, query).filter(
+      (document) =>
+        (!folderFilter || document.folder === (folderFilter === NO_FOLDER ? "" : folderFilter)) &&
+        (!tagFilter || document.tags.includes(tagFilter))
+    );
+    return sortDocumentsByUpdate(filtered);
+  }, [documents, query, folderFilter, tagFilter]);
+
+  const handleSaveDetails = () => {
+    if (!draft) return;
+    onRename(draft.id, draft.title);
+    onMove(draft.id, draft.folder);
+    onSetTags(draft.id, draft.tags.split(","));
+    setDraft(null);
+  };
+
+  const handleDelete = (document: LibraryDocument) => {
+    if (!window.confirm(`למחוק את המסמך "${getDocumentTitle(document)}"?`)) {
+      return;
+    }
+    onDelete(document.id);
+  };
+
+  return (
+    <div className="mb-4 rounded-md border p-4 space-y-3" dir="rtl" data-testid="document-library">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">המסמכים שלי</h2>
+          <p className="text-sm text-muted-foreground" data-testid="document-library-storage">
+            {storage === "supabase" ? "המסמכים נשמרים בחשבון שלך" : "המסמכים נשמרים בדפדפן זה בלבד"}
+          </p>
+        </div>
+        <Button
+          onClick={() => onCreate(folderFilter === NO_FOLDER ? "" : folderFilter)}
+          className="gap-2"
+          data-testid="document-create-button"
+        >
+          <FilePlus className="h-4 w-4" />
+          <span>מסמך חדש</span>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute right-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="חיפוש לפי שם, תיקייה, תגית או טקסט"
+            className="pr-9 text-right"
+            data-testid="document-search-input"
+          />
+        </div>
+        <select
+          value={folderFilter}
+          onChange={(e) => setFolderFilter(e.target.value)}
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          data-testid="document-folder-filter"
+        >
+          <option value="">כל התיקיות</option>
+          <option value={NO_FOLDER}>ללא תיקייה</option>
+          {folders.map((folder) => (
+            <option key={folder} value={folder}>
+              {folder}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2" data-testid="document-tag-filter">
+          {tags.map((tag) => (
+            <Button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              variant={tagFilter === tag ? "default" : "outline"}
+              size="sm"
+            >
+              #{tag}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <ul className="divide-y" data-testid="document-list">
+        {visibleDocuments.length === 0 && (
+          <li className="py-3 text-sm text-muted-foreground">לא נמצאו מסמכים</li>
+        )}
+        {visibleDocuments.map((document) => (
+          <li key={document.id} className="py-2" data-testid="document-list-item">
+            {draft?.id === document.id ? (
+              <div className="grid gap-2 md:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`document-title-${document.id}`}>שם</Label>
+                  <Input
+                    id={`document-title-${document.id}`}
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder={getDocumentTitle({ ...document, title: "" })}
+                    data-testid="document-title-input"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`document-folder-${document.id}`}>תיקייה</Label>
+                  <Input
+                    id={`document-folder-${document.id}`}
+                    value={draft.folder}
+                    onChange={(e) => setDraft({ ...draft, folder: e.target.value })}
+                    list="document-folders"
+                    data-testid="document-folder-input"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`document-tags-${document.id}`}>תגיות (מופרדות בפסיק)</Label>
+                  <Input
+                    id={`document-tags-${document.id}`}
+                    value={draft.tags}
+                    onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                    data-testid="document-tags-input"
+                  />
+                </div>
+                <div className="flex gap-2 md:col-span-3">
+                  <Button onClick={handleSaveDetails} size="sm" className="gap-2" data-testid="document-details-save">
+                    <Check className="h-4 w-4" />
+                    <span>שמירה</span>
+                  </Button>
+                  <Button onClick={() => setDraft(null)} size="sm" variant="outline" className="gap-2">
+                    <X className="h-4 w-4" />
+                    <span>ביטול</span>
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onSelect(document.id)}
+                  className={`flex-1 text-right rounded-md px-2 py-1 hover:bg-accent ${
+                    document.id === activeDocumentId ? "bg-accent font-semibold" : ""
+                  }`}
+                  data-testid="document-open-button"
+                >
+                  <div>{getDocumentTitle(document)}</div>
+                  <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    {document.folder && (
+                      <span className="flex items-center gap-1">
+                        <Folder className="h-3 w-3" />
+                        {document.folder}
+                      </span>
+                    )}
+                    {document.tags.map((tag) => (
+                      <span key={tag}>#{tag}</span>
+                    ))}
+                    <span>{new Date(document.updatedAt).toLocaleDateString("he-IL")}</span>
+                  </div>
+                </button>
+                <Button
+                  onClick={() =>
+                    setDraft({
+                      id: document.id,
+                      title: document.title,
+                      folder: document.folder,
+                      tags: document.tags.join(", "),
+                    })
+                  }
+                  variant="ghost"
+                  size="icon"
+                  title="שינוי שם, תיקייה ותגיות"
+                  data-testid="document-edit-button"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => onDuplicate(document.id)}
+                  variant="ghost"
+                  size="icon"
+                  title="שכפול"
+                  data-testid="document-duplicate-button"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => handleDelete(document)}
+                  variant="ghost"
+                  size="icon"
+                  title="מחיקה"
+                  data-testid="document-delete-button"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <datalist id="document-folders">
+        {folders.map((folder) => (
+          <option key={folder} value={folder} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
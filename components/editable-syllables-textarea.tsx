@@ -1,22 +1,37 @@
 "use client";
 
-import { useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from "react";
-import { SyllablesData } from "@/lib/syllables";
-import { CurrentPosition, saveCurrentPosition, loadCurrentPosition } from "@/lib/settings";
+import { useEffect, useRef, useCallback, useMemo, forwardRef, useImperativeHandle } from "react";
+import { SyllablesData, anchorSyllablesData } from "@/lib/syllables";
+import { CurrentPosition, NavigationMode, saveCurrentPosition, loadCurrentPosition } from "@/lib/settings";
 import { Textarea } from "@/components/ui/textarea";
-import { isNiqqudMark, removeNiqqud } from "@/lib/niqqud";
+import { isNiqqudMark, isHebrewLetter } from "@/lib/niqqud";
 import { getPreset } from "@/lib/text-styling-presets";
 import { cn } from "@/lib/utils";
-
-/**
- * Interface representing the niqqud cache structure
- * Used to store different versions of text (with/without niqqud)
- */
-interface NiqqudCache {
-  original: string;
-  clean: string;
-  full: string | null;
-}
+import {
+  findRangeIndex,
+  getLineWords,
+  getSentenceRanges,
+  groupVisualLines,
+  isPhraseMode,
+  PhraseMode,
+  WordRange,
+} from "@/lib/reading-units";
+import { FocusMaskSettings, getFocusWindow, groupLineBands, LineBand } from "@/lib/focus-mask";
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  getKeyCombo,
+  isKeyForTarget,
+  ShortcutAction,
+  ShortcutMap,
+} from "@/lib/keyboard-shortcuts";
+import {
+  classifyGesture,
+  getElementPosition,
+  LONG_PRESS_DELAY,
+  TAP_MAX_DISTANCE,
+} from "@/lib/touch-navigation";
+import { mergeSyllables, splitSyllable } from "@/lib/syllable-overrides";
 
 /**
  * Props for EditableSyllablesTextarea component
@@ -26,9 +41,8 @@ interface EditableSyllablesTextareaProps {
   onChange: (text: string) => void;
   isSyllablesActive: boolean;
   syllablesData: SyllablesData | null;
-  navigationMode: "words" | "syllables" | "letters";
+  navigationMode: NavigationMode;
   displayMode?: 'original' | 'clean' | 'full';
-  niqqudCache?: NiqqudCache | null;
   borderSize: number;
   backgroundColor: string;
   wordSpacing: number;
@@ -46,6 +60,31 @@ interface EditableSyllablesTextareaProps {
   isEditing?: boolean;
   stylingPreset?: string;
   fontFamily?: string;
+  /** Position restored when the text is shown (e.g. the open document's). When omitted, the last position in localStorage is used */
+  savedPosition?: CurrentPosition | null;
+  /** Called when the position changes. When provided, the position is not saved to localStorage */
+  onPositionChange?: (position: CurrentPosition | null) => void;
+  /** Reading ruler: dim or blur all but the lines of the highlighted element (off when omitted) */
+  focusMask?: FocusMaskSettings | null;
+  /** Keys of the reading view (the default keys when omitted) */
+  shortcuts?: ShortcutMap;
+  /** Called for shortcuts of actions outside the text (play/pause, niqqud, navigation mode) */
+  onShortcut?: (action: ShortcutAction) => void;
+  /** Called when a word (or a syllable or letter of it) is long-pressed */
+  onLongPressWord?: (details: WordDetails) => void;
+  /** Syllable editing: in syllables mode, clicking a letter splits its syllable before it or merges it with the previous one */
+  isSyllableEditing?: boolean;
+  /** Called with the new syllables of a word split or merged while editing syllables */
+  onSyllablesCorrected?: (wordIndex: number, syllables: string[]) => void;
+}
+
+/**
+ * A word of the displayed text, as shown in its details
+ */
+export interface WordDetails {
+  wordIndex: number;
+  word: string;
+  syllables: string[] | null; // null without syllables data
 }
 
 /**
@@ -53,7 +92,7 @@ interface EditableSyllablesTextareaProps {
  * This allows parent components to control highlighting without causing re-renders
  */
 export interface EditableSyllablesTextareaRef {
-  /** Move to the next element (word/syllable/letter) based on current navigation mode */
+  /** Move to the next element (word/syllable/letter/sentence/line) based on current navigation mode */
   focusNext: () => void;
   /** Move to the previous element based on current navigation mode */
   focusPrev: () => void;
@@ -69,15 +108,10 @@ export interface EditableSyllablesTextareaRef {
   getCurrentPosition: () => CurrentPosition | null;
   /** Reset position to the beginning */
   resetPosition: () => void;
+  /** Words covered by the highlight (the whole sentence or line in those modes) */
+  getHighlightedWords: () => WordRange | null;
 }
 
-// Helper function to check if character is Hebrew letter (not niqqud)
-const isHebrewLetter = (char: string): boolean => {
-  const code = char.charCodeAt(0);
-  // Hebrew letters range: U+0590-U+05FF, but exclude niqqud marks
-  return code >= 0x0590 && code <= 0x05ff && !isNiqqudMark(char);
-};
-
 // Extract Hebrew letters only from text (for letter navigation)
 const getHebrewLetters = (text: string): Array<{ char: string; index: number }> => {
   const letters: Array<{ char: string; index: number }> = [];
@@ -122,116 +156,6 @@ const groupLettersWithNiqqud = (text: string): Array<{ text: string; index: numb
   return groups;
 };
 
-/**
- * Apply display mode to syllables data by transforming niqqud as needed
- * This ensures the displayed text matches the displayMode (original/clean/full)
- * while preserving the syllable structure for navigation
- * 
- * For 'original' mode with partial niqqud, syllables are transformed on a per-word basis:
- * - Words that have niqqud in original → keep syllables with niqqud
- * - Words that have NO niqqud in original → strip niqqud from syllables
- * 
- * This allows syllable navigation to work correctly even when the original text
- * has partial niqqud (e.g., "שָׁלוֹם רַב לכל האורחים" where only some words have niqqud).
- * 
- * @param syllablesData - The original syllables data (with full niqqud from model)
- * @param displayMode - The current display mode ('original', 'clean', or 'full')
- * @param cache - The niqqud cache containing original, clean, and full versions
- * @returns Processed syllables data with niqqud transformed, or null if syllables cannot be used
- */
-export function applyDisplayModeToSyllables(
-  syllablesData: SyllablesData,
-  displayMode: 'original' | 'clean' | 'full' | undefined,
-  cache: NiqqudCache | null | undefined
-): SyllablesData | null {
-  // If no displayMode or cache, return original data (default behavior)
-  if (!displayMode || !cache) {
-    return syllablesData;
-  }
-
-  // If displayMode is 'full', return original data (with full niqqud from model)
-  if (displayMode === 'full') {
-    return syllablesData;
-  }
-
-  // For 'original' mode: Transform syllables to match the original text's niqqud pattern
-  // This handles partial niqqud cases where some words have niqqud and some don't
-  if (displayMode === 'original') {
-    const originalClean = removeNiqqud(cache.original);
-    const fullClean = cache.full ? removeNiqqud(cache.full) : originalClean;
-    
-    // If the underlying text (without niqqud) is different, the model may have changed text
-    // In this case, we can't use syllables for original mode
-    if (originalClean !== fullClean) {
-      return null; // Cannot use syllables with mismatched text
-    }
-    
-    // If original === full, no transformation needed - return syllablesData as-is
-    if (cache.original === cache.full) {
-      return syllablesData;
-    }
-    
-    // Partial niqqud case: transform syllables per-word based on original's niqqud status
-    // Split both texts into words for comparison
-    const originalWords = cache.original.split(/\s+/).filter(w => w.length > 0);
-    const fullWords = cache.full ? cache.full.split(/\s+/).filter(w => w.length > 0) : originalWords;
-    
-    // Safety check: word count should match between syllablesData and original text
-    // If they don't match, something is wrong and we can't safely transform
-    if (syllablesData.words.length !== originalWords.length) {
-      // Word count mismatch - try to proceed if counts are close, otherwise return null
-      // This can happen if the model slightly reformatted the text
-      if (Math.abs(syllablesData.words.length - originalWords.length) > 1) {
-        return null; // Too much difference, can't reliably map words
-      }
-    }
-    
-    // Transform each word's syllables based on whether the original word has niqqud
-    return {
-      words: syllablesData.words.map((wordEntry, idx) => {
-        // Get the corresponding words from original and full text
-        // Use empty string as fallback if index is out of bounds
-        const originalWord = originalWords[idx] || '';
-        const fullWord = fullWords[idx] || '';
-        
-        // If the original word exactly matches the full word (has full niqqud),
-        // keep syllables as-is with their niqqud
-        if (originalWord === fullWord) {
-          return wordEntry;
-        }
-        
-        // Check if the original word has NO niqqud at all
-        // If so, strip all niqqud from the syllables for this word
-        const originalWordWithoutNiqqud = removeNiqqud(originalWord);
-        if (originalWord === originalWordWithoutNiqqud) {
-          // Original word has no niqqud - strip niqqud from syllables
-          return {
-            word: wordEntry.word,
-            syllables: wordEntry.syllables.map(syllable => removeNiqqud(syllable)),
-          };
-        }
-        
-        // Original word has PARTIAL niqqud (some characters have niqqud, some don't)
-        // This is a complex case - for now, keep the full niqqud syllables
-        // since partial niqqud within a single word is rare and harder to handle
-        // The display will show whatever niqqud the original has
-        return wordEntry;
-      }),
-    };
-  }
-
-  // For 'clean' mode: Remove all niqqud from syllables
-  return {
-    words: syllablesData.words.map((word) => ({
-      word: word.word, // Keep the base word structure
-      syllables: word.syllables.map((syllable) => {
-        // Remove niqqud from each syllable
-        return removeNiqqud(syllable);
-      }),
-    })),
-  };
-}
-
 /**
  * EditableSyllablesTextarea - High-performance text display component with navigation
  * 
@@ -239,12 +163,12 @@ export function applyDisplayModeToSyllables(
  * - Uses refs instead of state for position tracking to avoid re-renders
  * - Direct DOM manipulation for highlight changes (no React re-renders)
  * - Exposes imperative API for external control
- * - Supports word, syllable, and letter navigation modes
+ * - Supports word, syllable, letter, sentence and line navigation modes
  * - Persists position to localStorage without triggering renders
  * 
  * Architecture:
  * - Position is stored in currentPositionRef (not state)
- * - Highlighted element is tracked via highlightedElementRef
+ * - Highlighted elements are tracked via highlightedElementsRef
  * - CSS classes are toggled directly on DOM elements
  * - Parent components can use the ref API to control navigation
  */
@@ -256,7 +180,6 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
   syllablesData,
   navigationMode,
   displayMode,
-  niqqudCache,
   wordSpacing,
   letterSpacing,
   fontSize = 30,
@@ -266,15 +189,43 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
   isEditing = true,
   stylingPreset,
   fontFamily = "Inter",
+  savedPosition,
+  onPositionChange,
+  focusMask,
+  shortcuts = DEFAULT_SHORTCUTS,
+  onShortcut,
+  onLongPressWord,
+  isSyllableEditing = false,
+  onSyllablesCorrected,
   }, ref) {
     // Ref to the display container element
   const displayRef = useRef<HTMLDivElement>(null);
     
     // Current position stored in ref (not state) to avoid re-renders
     const currentPositionRef = useRef<CurrentPosition | null>(null);
+
+    // Latest position props, read when the position changes or the text is initialized
+    // (kept in refs so a new saved position does not re-initialize the text)
+    const savedPositionRef = useRef(savedPosition);
+    savedPositionRef.current = savedPosition;
+    const onPositionChangeRef = useRef(onPositionChange);
+    onPositionChangeRef.current = onPositionChange;
     
-    // Reference to the currently highlighted DOM element
-    const highlightedElementRef = useRef<HTMLElement | null>(null);
+    // The currently highlighted DOM elements (every word of a sentence or line)
+    const highlightedElementsRef = useRef<HTMLElement[]>([]);
+
+    // Reading ruler layer (shade above, ruler, shade below)
+    const focusMaskRef = useRef<HTMLDivElement>(null);
+
+    // The press being made on the display, and the timer turning it into a long press
+    const pressRef = useRef<{
+      x: number;
+      y: number;
+      pointerType: string;
+      element: HTMLElement | null;
+      isLongPress: boolean;
+    } | null>(null);
+    const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     
     // Previous navigation mode to detect mode changes
   const prevModeRef = useRef<string | null>(null);
@@ -282,14 +233,27 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
     // Track if we've initialized position for current text
   const initializedTextRef = useRef<string>("");
 
+    /**
+     * Syllables data anchored to the displayed text
+     * Words are aligned on their consonants and syllables are sliced out of `text`,
+     * so the data matches the current display mode (full/clean/original) and carries
+     * the line of every word. Rendering and navigation both use this structure.
+     */
+    const anchoredSyllablesData = useMemo(
+      () => (syllablesData ? anchorSyllablesData(text, syllablesData) : null),
+      [text, syllablesData]
+    );
+
     /**
      * Get the CSS class name for the active highlight based on navigation mode
      */
-    const getActiveClassName = useCallback((mode: "words" | "syllables" | "letters"): string => {
+    const getActiveClassName = useCallback((mode: NavigationMode): string => {
       switch (mode) {
         case "words": return "pyramid-word-active";
         case "syllables": return "pyramid-syllable-active";
         case "letters": return "pyramid-letter-active";
+        case "sentences":
+        case "lines": return "pyramid-phrase-active";
         default: return "pyramid-word-active";
       }
     }, []);
@@ -299,17 +263,88 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
      * Uses direct DOM manipulation for performance
      */
     const clearCurrentHighlight = useCallback(() => {
-      if (highlightedElementRef.current) {
+      highlightedElementsRef.current.forEach((element) => {
         // Remove all possible active classes
-        highlightedElementRef.current.classList.remove(
+        element.classList.remove(
           "pyramid-word-active",
           "pyramid-syllable-active",
-          "pyramid-letter-active"
+          "pyramid-letter-active",
+          "pyramid-phrase-active"
         );
-        highlightedElementRef.current = null;
-      }
+      });
+      highlightedElementsRef.current = [];
     }, []);
 
+    /**
+     * Move the reading ruler to the lines of the highlighted elements
+     * (hidden when nothing is highlighted)
+     */
+    const updateFocusMask = useCallback(() => {
+      const mask = focusMaskRef.current;
+      const display = displayRef.current;
+      if (!mask || !display || !focusMask) return;
+
+      const origin = display.getBoundingClientRect().top;
+      const toBand = (element: Element): LineBand => {
+        const rect = element.getBoundingClientRect();
+        return { top: rect.top - origin, bottom: rect.bottom - origin };
+      };
+      const bands = groupLineBands(Array.from(display.querySelectorAll("[data-element-type]"), toBand));
+      const focusWindow = getFocusWindow(bands, highlightedElementsRef.current.map(toBand), focusMask.lines);
+      mask.hidden = !focusWindow;
+      if (!focusWindow) return;
+
+      const [above, ruler, below] = Array.from(mask.children) as HTMLElement[];
+      above.style.height = `${focusWindow.top}px`;
+      ruler.style.top = `${focusWindow.top}px`;
+      ruler.style.height = `${focusWindow.bottom - focusWindow.top}px`;
+      below.style.top = `${focusWindow.bottom}px`;
+    }, [focusMask]);
+
+    /**
+     * Words of each line of the displayed text (the anchored words when syllables are shown)
+     */
+    const getDisplayLineWords = useCallback((): string[][] => {
+      if (!anchoredSyllablesData || !isSyllablesActive) {
+        return getLineWords(text);
+      }
+      const lineWords: string[][] = text.split("\n").map(() => []);
+      anchoredSyllablesData.words.forEach((word) => {
+        (lineWords[word.lineIndex] ??= []).push(word.syllables.join(""));
+      });
+      return lineWords;
+    }, [text, anchoredSyllablesData, isSyllablesActive]);
+
+    /**
+     * Sentences, or visual lines as laid out on screen, as ranges of word indices
+     */
+    const getPhraseRanges = useCallback((mode: PhraseMode): WordRange[] => {
+      if (mode === "sentences") {
+        return getSentenceRanges(getDisplayLineWords());
+      }
+      if (!displayRef.current) return [];
+      const elements = Array.from(
+        displayRef.current.querySelectorAll<HTMLElement>('[data-element-type="word"]')
+      );
+      const wordIndices = elements.map((element) => Number(element.dataset.wordIndex));
+      return groupVisualLines(
+        elements.map((element) => ({
+          lineIndex: Number(element.dataset.lineIndex),
+          top: element.offsetTop,
+          height: element.offsetHeight,
+        }))
+      ).map(({ start, end }) => ({ start: wordIndices[start], end: wordIndices[end - 1] + 1 }));
+    }, [getDisplayLineWords]);
+
+    /**
+     * The sentence or line containing a position's word
+     */
+    const getPhraseRange = useCallback((position: CurrentPosition): WordRange | null => {
+      if (!isPhraseMode(position.mode)) return null;
+      const ranges = getPhraseRanges(position.mode);
+      return ranges[findRangeIndex(ranges, position.wordIndex)] ?? null;
+    }, [getPhraseRanges]);
+
     /**
      * Apply highlight to a specific position using DOM queries
      * This is the core of the performance optimization - no React re-render needed
@@ -326,6 +361,25 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       let selector: string;
       const { mode, wordIndex, syllableIndex, letterIndex } = position;
 
+      if (isPhraseMode(mode)) {
+        // Highlight every word of the sentence or line
+        const range = getPhraseRange(position) ?? { start: wordIndex, end: wordIndex + 1 };
+        const elements: HTMLElement[] = [];
+        for (let i = range.start; i < range.end; i++) {
+          const element = displayRef.current.querySelector<HTMLElement>(
+            `[data-word-index="${i}"][data-element-type="word"]`
+          );
+          if (element) {
+            element.classList.add(getActiveClassName(mode));
+            elements.push(element);
+          }
+        }
+        highlightedElementsRef.current = elements;
+        elements[0]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+        updateFocusMask();
+        return;
+      }
+
       if (mode === "words") {
         selector = `[data-word-index="${wordIndex}"][data-element-type="word"]`;
       } else if (mode === "syllables") {
@@ -339,31 +393,81 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       const element = displayRef.current.querySelector<HTMLElement>(selector);
       if (element) {
         element.classList.add(getActiveClassName(mode));
-        highlightedElementRef.current = element;
+        highlightedElementsRef.current = [element];
         
         // Scroll element into view if needed
         element.scrollIntoView({ behavior: "smooth", block: "nearest" });
       }
-    }, [clearCurrentHighlight, getActiveClassName]);
+      updateFocusMask();
+    }, [clearCurrentHighlight, getActiveClassName, getPhraseRange, updateFocusMask]);
 
     /**
      * Update position and apply highlight
-     * Also persists to localStorage for session continuity
+     * Also persists it for session continuity (onPositionChange, or localStorage)
      * 
      * @param newPosition - The new position to set
      */
-    const updatePosition = useCallback((newPosition: CurrentPosition | null) => {
+    const updatePosition = useCallback((position: CurrentPosition | null) => {
+      // A sentence or line is kept by its first word
+      const range = position ? getPhraseRange(position) : null;
+      const newPosition = position && range ? { mode: position.mode, wordIndex: range.start } : position;
       currentPositionRef.current = newPosition;
       
       if (newPosition) {
         applyHighlight(newPosition);
-        // Persist to localStorage (non-blocking)
-        saveCurrentPosition(newPosition);
       } else {
         clearCurrentHighlight();
-        saveCurrentPosition(null);
+        updateFocusMask();
       }
-    }, [applyHighlight, clearCurrentHighlight]);
+
+      if (onPositionChangeRef.current) {
+        onPositionChangeRef.current(newPosition);
+      } else {
+        // Persist to localStorage (non-blocking)
+        saveCurrentPosition(newPosition);
+      }
+    }, [applyHighlight, clearCurrentHighlight, getPhraseRange, updateFocusMask]);
+
+    /**
+     * Move to the previous (-1) or next (+1) sentence or line
+     */
+    const movePhrase = useCallback((mode: PhraseMode, direction: 1 | -1) => {
+      const ranges = getPhraseRanges(mode);
+      if (ranges.length === 0) return;
+
+      const currentPosition = currentPositionRef.current;
+      if (!currentPosition) {
+        updatePosition({ mode, wordIndex: ranges[0].start });
+        return;
+      }
+      const target = ranges[findRangeIndex(ranges, currentPosition.wordIndex) + direction];
+      if (target) {
+        updatePosition({ mode, wordIndex: target.start });
+      }
+    }, [getPhraseRanges, updatePosition]);
+
+    /**
+     * Move to the first sentence of the previous (-1) or next (+1) line of the text
+     * (lines move one line, as the previous/next element)
+     */
+    const movePhraseLine = useCallback((mode: PhraseMode, direction: 1 | -1) => {
+      if (mode === "lines") {
+        movePhrase(mode, direction);
+        return;
+      }
+      const currentPosition = currentPositionRef.current;
+      if (!currentPosition) return;
+
+      // Line of the text each word is on
+      const wordLines = getDisplayLineWords().flatMap((words, lineIndex) => words.map(() => lineIndex));
+      const currentLine = wordLines[currentPosition.wordIndex] ?? 0;
+      const targetLine = direction > 0
+        ? wordLines.find((line) => line > currentLine)
+        : wordLines.filter((line) => line < currentLine).pop();
+      if (targetLine !== undefined) {
+        updatePosition({ mode, wordIndex: wordLines.indexOf(targetLine) });
+      }
+    }, [getDisplayLineWords, movePhrase, updatePosition]);
 
   /**
    * Helper function to get line index and word index within line for a given word index
@@ -384,36 +488,24 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
     return null;
     }, []);
 
-  /**
-   * Helper function to get line index for a word when syllables data is available
-   */
-    const getLineIndexForWord = useCallback((wordIndex: number, textLines: string[]): number => {
-    let wordCount = 0;
-    for (let lineIdx = 0; lineIdx < textLines.length; lineIdx++) {
-      const lineWords = textLines[lineIdx].split(/\s+/).filter(w => w.trim().length > 0);
-      if (wordCount + lineWords.length > wordIndex) {
-        return lineIdx;
-      }
-      wordCount += lineWords.length;
-    }
-    return 0;
-    }, []);
-
     /**
      * Navigate to next element based on current mode
      * 
-     * IMPORTANT: For letter navigation with syllablesData, we must use processedSyllablesData
-     * (with displayMode applied) to match the indices in the DOM. When niqqud is removed,
-     * the character indices change, so navigation must use the same data structure as rendering.
+     * IMPORTANT: Navigation uses anchoredSyllablesData - the same structure used for
+     * rendering - so word, syllable and letter indices always match the DOM.
      */
     const focusNext = useCallback(() => {
       if (!text || text.trim().length === 0) return;
+      if (isPhraseMode(navigationMode)) {
+        movePhrase(navigationMode, 1);
+        return;
+      }
       
       const currentPosition = currentPositionRef.current;
       let newPosition: CurrentPosition | null = null;
 
       // If no syllables data, navigate on raw text
-      if (!syllablesData || !isSyllablesActive) {
+      if (!anchoredSyllablesData || !isSyllablesActive) {
         if (navigationMode === "words") {
           const words = getWordsFromText(text);
           const currentWordIdx = currentPosition?.wordIndex ?? 0;
@@ -437,40 +529,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
         // Navigate with syllables data
         if (!currentPosition) return;
 
-        // Apply display mode to get the same data structure used in DOM rendering
-        // This ensures letter indices match between navigation and DOM elements
-        const processedData = applyDisplayModeToSyllables(syllablesData, displayMode, niqqudCache);
-        
-        // If processedData is null, syllables cannot be used for current displayMode
-        // Fall back to simple navigation based on displayed text (same as when no syllables data)
-        if (!processedData) {
-          // Fall back to simple word/letter navigation based on displayed text
-          if (navigationMode === "words") {
-            const words = getWordsFromText(text);
-            const currentWordIdx = currentPosition?.wordIndex ?? 0;
-
-            if (currentWordIdx < words.length - 1) {
-              newPosition = { mode: "words", wordIndex: currentWordIdx + 1 };
-            } else if (!currentPosition) {
-              newPosition = { mode: "words", wordIndex: 0 };
-            }
-          } else if (navigationMode === "letters") {
-            const letters = getHebrewLetters(text);
-            const currentLetterIdx = currentPosition?.letterIndex ?? 0;
-
-            if (currentLetterIdx < letters.length - 1) {
-              newPosition = { mode: "letters", wordIndex: 0, letterIndex: currentLetterIdx + 1 };
-            } else if (!currentPosition) {
-              newPosition = { mode: "letters", wordIndex: 0, letterIndex: 0 };
-            }
-          }
-          if (newPosition) {
-            updatePosition(newPosition);
-          }
-          return;
-        }
-        
-        const { words } = processedData;
+        const { words } = anchoredSyllablesData;
         const { mode, wordIndex, syllableIndex, letterIndex } = currentPosition;
 
         if (mode === "words") {
@@ -534,22 +593,25 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       if (newPosition) {
         updatePosition(newPosition);
       }
-    }, [text, isSyllablesActive, syllablesData, navigationMode, updatePosition, displayMode, niqqudCache]);
+    }, [text, isSyllablesActive, anchoredSyllablesData, navigationMode, movePhrase, updatePosition]);
 
     /**
      * Navigate to previous element based on current mode
      * 
-     * IMPORTANT: For letter navigation with syllablesData, we must use processedSyllablesData
-     * (with displayMode applied) to match the indices in the DOM. When niqqud is removed,
-     * the character indices change, so navigation must use the same data structure as rendering.
+     * IMPORTANT: Navigation uses anchoredSyllablesData - the same structure used for
+     * rendering - so word, syllable and letter indices always match the DOM.
      */
     const focusPrev = useCallback(() => {
       if (!text || text.trim().length === 0) return;
+      if (isPhraseMode(navigationMode)) {
+        movePhrase(navigationMode, -1);
+        return;
+      }
       
       const currentPosition = currentPositionRef.current;
       let newPosition: CurrentPosition | null = null;
 
-      if (!syllablesData || !isSyllablesActive) {
+      if (!anchoredSyllablesData || !isSyllablesActive) {
         if (navigationMode === "words") {
           const currentWordIdx = currentPosition?.wordIndex ?? 0;
           if (currentWordIdx > 0) {
@@ -564,32 +626,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       } else {
         if (!currentPosition) return;
 
-        // Apply display mode to get the same data structure used in DOM rendering
-        // This ensures letter indices match between navigation and DOM elements
-        const processedData = applyDisplayModeToSyllables(syllablesData, displayMode, niqqudCache);
-        
-        // If processedData is null, syllables cannot be used for current displayMode
-        // Fall back to simple navigation based on displayed text (same as when no syllables data)
-        if (!processedData) {
-          // Fall back to simple word/letter navigation based on displayed text
-          if (navigationMode === "words") {
-            const currentWordIdx = currentPosition?.wordIndex ?? 0;
-            if (currentWordIdx > 0) {
-              newPosition = { mode: "words", wordIndex: currentWordIdx - 1 };
-            }
-          } else if (navigationMode === "letters") {
-            const currentLetterIdx = currentPosition?.letterIndex ?? 0;
-            if (currentLetterIdx > 0) {
-              newPosition = { mode: "letters", wordIndex: 0, letterIndex: currentLetterIdx - 1 };
-            }
-          }
-          if (newPosition) {
-            updatePosition(newPosition);
-          }
-          return;
-        }
-        
-        const { words } = processedData;
+        const { words } = anchoredSyllablesData;
         const { mode, wordIndex, syllableIndex, letterIndex } = currentPosition;
 
         if (mode === "words") {
@@ -644,16 +681,20 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       if (newPosition) {
         updatePosition(newPosition);
       }
-    }, [text, isSyllablesActive, syllablesData, navigationMode, updatePosition, displayMode, niqqudCache]);
+    }, [text, isSyllablesActive, anchoredSyllablesData, navigationMode, movePhrase, updatePosition]);
 
     /**
      * Navigate up (to previous line)
      * 
-     * IMPORTANT: For letter navigation with syllablesData, we must use processedSyllablesData
-     * (with displayMode applied) to match the indices in the DOM.
+     * IMPORTANT: Navigation uses anchoredSyllablesData - the same structure used for
+     * rendering - so word, syllable and letter indices always match the DOM.
      */
     const focusUp = useCallback(() => {
       if (!text || text.trim().length === 0) return;
+      if (isPhraseMode(navigationMode)) {
+        movePhraseLine(navigationMode, -1);
+        return;
+      }
       
       const currentPosition = currentPositionRef.current;
         if (!currentPosition) return;
@@ -661,7 +702,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
         const textLines = text.split('\n');
         let newPosition: CurrentPosition | null = null;
 
-        if (!syllablesData || !isSyllablesActive) {
+        if (!anchoredSyllablesData || !isSyllablesActive) {
           if (navigationMode === "words") {
             const currentWordIdx = currentPosition.wordIndex ?? 0;
             const pos = getLineAndWordPosition(currentWordIdx, textLines);
@@ -711,36 +752,17 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
             }
           }
         } else {
-        // Apply display mode to get the same data structure used in DOM rendering
-        const processedData = applyDisplayModeToSyllables(syllablesData, displayMode, niqqudCache);
-        
-        // If processedData is null, syllables cannot be used for current displayMode
-        // Navigation is not possible in this state, so return early
-        if (!processedData) {
-          return;
-        }
-        
-        const { words } = processedData;
+        const { words } = anchoredSyllablesData;
           const { mode, wordIndex } = currentPosition;
 
-          const wordToLineMap: number[] = [];
-          let wordCount = 0;
-          for (let lineIdx = 0; lineIdx < textLines.length; lineIdx++) {
-            const lineWords = textLines[lineIdx].split(/\s+/).filter(w => w.trim().length > 0);
-            for (let i = 0; i < lineWords.length && wordCount < words.length; i++) {
-              wordToLineMap[wordCount] = lineIdx;
-              wordCount++;
-            }
-          }
-
-          const currentLineIndex = getLineIndexForWord(wordIndex, textLines);
+          const currentLineIndex = words[wordIndex]?.lineIndex ?? 0;
         const targetLineIndex = currentLineIndex - 1;
         if (targetLineIndex < 0) return;
 
           const wordsByLine: Array<Array<{ wordIdx: number }>> = [];
         textLines.forEach((_, lineIdx) => { wordsByLine[lineIdx] = []; });
-          words.forEach((_, wordIdx) => {
-            const lineIdx = wordToLineMap[wordIdx] ?? 0;
+          words.forEach((word, wordIdx) => {
+            const lineIdx = word.lineIndex;
           if (!wordsByLine[lineIdx]) wordsByLine[lineIdx] = [];
             wordsByLine[lineIdx].push({ wordIdx });
           });
@@ -787,16 +809,20 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
         if (newPosition) {
         updatePosition(newPosition);
       }
-    }, [text, isSyllablesActive, syllablesData, navigationMode, getLineAndWordPosition, getLineIndexForWord, updatePosition, displayMode, niqqudCache]);
+    }, [text, isSyllablesActive, anchoredSyllablesData, navigationMode, getLineAndWordPosition, movePhraseLine, updatePosition]);
 
     /**
      * Navigate down (to next line)
      * 
-     * IMPORTANT: For letter navigation with syllablesData, we must use processedSyllablesData
-     * (with displayMode applied) to match the indices in the DOM.
+     * IMPORTANT: Navigation uses anchoredSyllablesData - the same structure used for
+     * rendering - so word, syllable and letter indices always match the DOM.
      */
     const focusDown = useCallback(() => {
       if (!text || text.trim().length === 0) return;
+      if (isPhraseMode(navigationMode)) {
+        movePhraseLine(navigationMode, 1);
+        return;
+      }
       
       const currentPosition = currentPositionRef.current;
       if (!currentPosition) return;
@@ -804,7 +830,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       const textLines = text.split('\n');
       let newPosition: CurrentPosition | null = null;
 
-      if (!syllablesData || !isSyllablesActive) {
+      if (!anchoredSyllablesData || !isSyllablesActive) {
         if (navigationMode === "words") {
           const currentWordIdx = currentPosition.wordIndex ?? 0;
           const pos = getLineAndWordPosition(currentWordIdx, textLines);
@@ -854,36 +880,17 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
           }
         }
       } else {
-        // Apply display mode to get the same data structure used in DOM rendering
-        const processedData = applyDisplayModeToSyllables(syllablesData, displayMode, niqqudCache);
-        
-        // If processedData is null, syllables cannot be used for current displayMode
-        // Navigation is not possible in this state, so return early
-        if (!processedData) {
-          return;
-        }
-        
-        const { words } = processedData;
+        const { words } = anchoredSyllablesData;
         const { mode, wordIndex } = currentPosition;
 
-        const wordToLineMap: number[] = [];
-        let wordCount = 0;
-        for (let lineIdx = 0; lineIdx < textLines.length; lineIdx++) {
-          const lineWords = textLines[lineIdx].split(/\s+/).filter(w => w.trim().length > 0);
-          for (let i = 0; i < lineWords.length && wordCount < words.length; i++) {
-            wordToLineMap[wordCount] = lineIdx;
-            wordCount++;
-          }
-        }
-
-        const currentLineIndex = getLineIndexForWord(wordIndex, textLines);
+        const currentLineIndex = words[wordIndex]?.lineIndex ?? 0;
         const targetLineIndex = currentLineIndex + 1;
         if (targetLineIndex >= textLines.length) return;
 
         const wordsByLine: Array<Array<{ wordIdx: number }>> = [];
         textLines.forEach((_, lineIdx) => { wordsByLine[lineIdx] = []; });
-        words.forEach((_, wordIdx) => {
-          const lineIdx = wordToLineMap[wordIdx] ?? 0;
+        words.forEach((word, wordIdx) => {
+          const lineIdx = word.lineIndex;
           if (!wordsByLine[lineIdx]) wordsByLine[lineIdx] = [];
           wordsByLine[lineIdx].push({ wordIdx });
         });
@@ -930,7 +937,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       if (newPosition) {
         updatePosition(newPosition);
       }
-    }, [text, isSyllablesActive, syllablesData, navigationMode, getLineAndWordPosition, getLineIndexForWord, updatePosition, displayMode, niqqudCache]);
+    }, [text, isSyllablesActive, anchoredSyllablesData, navigationMode, getLineAndWordPosition, movePhraseLine, updatePosition]);
 
     /**
      * Reset position to the beginning based on current navigation mode
@@ -943,7 +950,9 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
 
       let initialPosition: CurrentPosition;
 
-      if (isSyllablesActive && syllablesData) {
+      if (isPhraseMode(navigationMode)) {
+        initialPosition = { mode: navigationMode, wordIndex: 0 };
+      } else if (isSyllablesActive && anchoredSyllablesData) {
         initialPosition = {
           mode: navigationMode,
           wordIndex: 0,
@@ -962,7 +971,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       }
 
       updatePosition(initialPosition);
-    }, [text, isSyllablesActive, syllablesData, navigationMode, updatePosition]);
+    }, [text, isSyllablesActive, anchoredSyllablesData, navigationMode, updatePosition]);
 
     // Expose imperative API via ref
     useImperativeHandle(ref, () => ({
@@ -974,52 +983,53 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       clearHighlight: () => updatePosition(null),
       getCurrentPosition: () => currentPositionRef.current,
       resetPosition,
-    }), [focusNext, focusPrev, focusUp, focusDown, updatePosition, resetPosition]);
+      getHighlightedWords: () => {
+        const position = currentPositionRef.current;
+        if (!position) return null;
+        return getPhraseRange(position) ?? { start: position.wordIndex, end: position.wordIndex + 1 };
+      },
+    }), [focusNext, focusPrev, focusUp, focusDown, updatePosition, resetPosition, getPhraseRange]);
 
     /**
-     * Handle keyboard navigation
+     * Handle keyboard shortcuts
      * This is called from document keydown event listener
+     * Moving the highlight is handled here; other actions are passed to onShortcut.
      */
     const handleKeyDown = useCallback(
       (e: KeyboardEvent) => {
         if (!text || text.trim().length === 0) return;
 
-        const isArrowLeft = e.key === "ArrowLeft";
-        const isArrowRight = e.key === "ArrowRight";
-        const isArrowUp = e.key === "ArrowUp";
-        const isArrowDown = e.key === "ArrowDown";
-        const isTab = e.key === "Tab" && !e.shiftKey;
-        const isShiftTab = e.key === "Tab" && e.shiftKey;
+        const combo = getKeyCombo(e);
+        if (!combo || isKeyForTarget(e.target, combo)) return;
 
-        if (!isArrowLeft && !isArrowRight && !isArrowUp && !isArrowDown && !isTab && !isShiftTab) {
-          return;
-        }
+        const action = findShortcutAction(shortcuts, combo);
+        if (!action) return;
+        if (e.repeat && !["next", "prev", "up", "down"].includes(action)) return;
 
         e.preventDefault();
         e.stopPropagation();
 
-        // Handle vertical navigation
-        if (isArrowUp) {
-          focusUp();
-          return;
-        }
-        if (isArrowDown) {
-          focusDown();
-          return;
-        }
-
-        // Handle horizontal navigation
-        // ArrowLeft/Tab = forward (next), ArrowRight/Shift+Tab = backward (prev)
-        // (Hebrew RTL: Left is forward, Right is backward)
-        const isForward = isArrowLeft || isTab;
-
-        if (isForward) {
-          focusNext();
-        } else {
-          focusPrev();
+        switch (action) {
+          case "next":
+            focusNext();
+            break;
+          case "prev":
+            focusPrev();
+            break;
+          case "up":
+            focusUp();
+            break;
+          case "down":
+            focusDown();
+            break;
+          case "jumpToStart":
+            resetPosition();
+            break;
+          default:
+            onShortcut?.(action);
         }
       },
-      [text, focusNext, focusPrev, focusUp, focusDown]
+      [text, shortcuts, onShortcut, focusNext, focusPrev, focusUp, focusDown, resetPosition]
     );
 
     // Initialize position when text changes or on mount
@@ -1037,8 +1047,8 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       if (textChanged || !currentPositionRef.current) {
         initializedTextRef.current = text;
         
-        // Try to load saved position from localStorage
-        const savedPosition = loadCurrentPosition();
+        // Try to load the saved position (from props, or from localStorage)
+        const savedPosition = savedPositionRef.current !== undefined ? savedPositionRef.current : loadCurrentPosition();
         if (savedPosition && savedPosition.mode === navigationMode) {
           updatePosition(savedPosition);
         } else {
@@ -1074,7 +1084,148 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       return () => clearTimeout(timer);
     }, [syllablesData, isSyllablesActive, displayMode, applyHighlight, isEditing]);
 
+    // Visual lines change when the text is re-wrapped: highlight the line of the position's word again
+    useEffect(() => {
+      if (navigationMode !== "lines" || isEditing) return;
+      const handleResize = () => {
+        if (currentPositionRef.current) {
+          updatePosition(currentPositionRef.current);
+        }
+      };
+      window.addEventListener("resize", handleResize);
+      return () => window.removeEventListener("resize", handleResize);
+    }, [navigationMode, isEditing, updatePosition]);
+
+    // Keep the reading ruler on the highlighted lines when its settings change or the text is re-wrapped
+    useEffect(() => {
+      if (!focusMask || isEditing) return;
+      updateFocusMask();
+      window.addEventListener("resize", updateFocusMask);
+      return () => window.removeEventListener("resize", updateFocusMask);
+    }, [focusMask, isEditing, updateFocusMask, fontSize, wordSpacing, letterSpacing]);
+
     // Auto-focus and listen to document keydown events when not editing
+    /**
+     * Details of the word at a position
+     * Without syllables data, letters are numbered through the whole text.
+     */
+    const getWordDetails = useCallback((position: CurrentPosition): WordDetails | null => {
+      const words = getDisplayLineWords().flat();
+      const hasSyllables = isSyllablesActive && !!anchoredSyllablesData;
+      let wordIndex = position.wordIndex;
+      if (position.mode === "letters" && !hasSyllables) {
+        let letterCount = 0;
+        wordIndex = words.findIndex(
+          (word) => (letterCount += getHebrewLetters(word).length) > (position.letterIndex ?? 0)
+        );
+      }
+      const word = words[wordIndex];
+      if (word === undefined) return null;
+      return {
+        wordIndex,
+        word,
+        syllables: hasSyllables ? anchoredSyllablesData.words[wordIndex]?.syllables ?? null : null,
+      };
+    }, [getDisplayLineWords, isSyllablesActive, anchoredSyllablesData]);
+
+    const clearLongPress = useCallback(() => {
+      if (longPressTimerRef.current) {
+        clearTimeout(longPressTimerRef.current);
+        longPressTimerRef.current = null;
+      }
+    }, []);
+
+    useEffect(() => clearLongPress, [clearLongPress]);
+
+    /**
+     * Touch and pointer navigation
+     * A tap moves the highlight to the tapped element and a long press on a word
+     * also opens its details. Swipes move to the next/previous element; they are
+     * for touch and pen only, so dragging the mouse still selects text.
+     */
+    const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+      if (!e.isPrimary || e.button !== 0) return;
+      const element = (e.target as Element).closest<HTMLElement>("[data-element-type]");
+      const press = { x: e.clientX, y: e.clientY, pointerType: e.pointerType, element, isLongPress: false };
+      pressRef.current = press;
+      clearLongPress();
+
+      if (element && onLongPressWord) {
+        longPressTimerRef.current = setTimeout(() => {
+          longPressTimerRef.current = null;
+          const position = getElementPosition(element, navigationMode);
+          const details = position && getWordDetails(position);
+          if (!position || !details) return;
+          press.isLongPress = true;
+          updatePosition(position);
+          onLongPressWord(details);
+        }, LONG_PRESS_DELAY);
+      }
+    }, [clearLongPress, onLongPressWord, navigationMode, getWordDetails, updatePosition]);
+
+    const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+      const press = pressRef.current;
+      if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > TAP_MAX_DISTANCE) {
+        clearLongPress();
+      }
+    }, [clearLongPress]);
+
+    const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+      const press = pressRef.current;
+      pressRef.current = null;
+      clearLongPress();
+      if (!press || press.isLongPress) return;
+
+      const gesture = classifyGesture(e.clientX - press.x, e.clientY - press.y);
+      if (gesture === "tap") {
+        const position = press.element && getElementPosition(press.element, navigationMode);
+        if (position) updatePosition(position);
+      } else if (gesture && press.pointerType !== "mouse") {
+        if (gesture === "next") {
+          focusNext();
+        } else {
+          focusPrev();
+        }
+      }
+    }, [clearLongPress, navigationMode, updatePosition, focusNext, focusPrev]);
+
+    const handlePointerCancel = useCallback(() => {
+      pressRef.current = null;
+      clearLongPress();
+    }, [clearLongPress]);
+
+    // A long press on a touch screen would also open the context menu
+    const handleContextMenu = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+      if (pressRef.current && pressRef.current.pointerType !== "mouse") {
+        e.preventDefault();
+      }
+    }, []);
+
+    /**
+     * Syllable editing
+     * Clicking a letter inside a syllable starts a new syllable at that letter;
+     * clicking the first letter of a syllable merges it with the previous one.
+     */
+    const handleSyllableEditClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+      const letter = (e.target as Element).closest<HTMLElement>("[data-edit-char-index]");
+      const syllableElement = letter?.closest<HTMLElement>('[data-element-type="syllable"]');
+      if (!letter || !syllableElement || !onSyllablesCorrected) return;
+
+      const wordIndex = parseInt(syllableElement.dataset.wordIndex ?? "", 10);
+      const syllableIndex = parseInt(syllableElement.dataset.syllableIndex ?? "", 10);
+      const charIndex = parseInt(letter.dataset.editCharIndex ?? "", 10);
+      const syllables = anchoredSyllablesData?.words[wordIndex]?.syllables;
+      if (!syllables) return;
+
+      const isFirstLetter = !/[\p{L}\p{N}]/u.test(syllables[syllableIndex].slice(0, charIndex));
+      const corrected = isFirstLetter
+        ? mergeSyllables(syllables, syllableIndex - 1)
+        : splitSyllable(syllables, syllableIndex, charIndex);
+      if (corrected) {
+        onSyllablesCorrected(wordIndex, corrected);
+      }
+    }, [anchoredSyllablesData, onSyllablesCorrected]);
+
   useEffect(() => {
     if (text && text.trim().length > 0 && displayRef.current && !isEditing) {
         // Save current scroll position before focusing
@@ -1157,18 +1308,37 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
       );
     }
 
+    // Reading ruler layer, moved onto the highlighted lines by updateFocusMask
+    const shadeStyle: React.CSSProperties | undefined = focusMask
+      ? focusMask.style === "blur"
+        ? { backdropFilter: `blur(${Math.round(focusMask.opacity * 8)}px)` }
+        : { backgroundColor: `hsl(var(--background) / ${focusMask.opacity})` }
+      : undefined;
+    const focusMaskLayer = focusMask && (
+      <div ref={focusMaskRef} className="focus-mask" hidden aria-hidden="true" data-testid="focus-mask">
+        <div className="focus-mask-shade" style={shadeStyle} />
+        <div className="focus-mask-ruler" style={{ backgroundColor: focusMask.rulerColor }} data-testid="focus-mask-ruler" />
+        <div className="focus-mask-shade focus-mask-shade-below" style={shadeStyle} />
+      </div>
+    );
+
     // If no syllables data, render simple text with word/letter navigation
-    if (!syllablesData || !isSyllablesActive) {
+    if (!anchoredSyllablesData || !isSyllablesActive) {
       const textLines = text.split('\n');
 
       return (
         <div
           ref={displayRef}
-          className={`w-full min-h-[500px] p-4 border rounded-lg bg-background text-right ${className}`}
+          className={`relative touch-navigation w-full min-h-[500px] p-4 border rounded-lg bg-background text-right ${className}`}
           dir="rtl"
           tabIndex={0}
           style={{ outline: "none", fontSize: `${fontSize}px`, fontFamily: fontFamilyValue }}
           contentEditable={false}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onContextMenu={handleContextMenu}
           data-testid="text-display-area"
         >
             {textLines.map((_lineText, lineIndex) => {
@@ -1181,7 +1351,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
                   dir="rtl" 
                   style={{ letterSpacing: `${letterSpacing}px`, '--dynamic-word-gap': `${wordSpacing}px`, fontFamily: fontFamilyValue } as React.CSSProperties}
                 >
-                {navigationMode === "words" ? (
+                {navigationMode === "words" || isPhraseMode(navigationMode) ? (
                   lineWords.map((word, wordIndex) => {
                     // Find global word index
                     let globalWordIndex = 0;
@@ -1195,6 +1365,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
                         key={wordIndex}
                           className={wordClassName}
                           data-word-index={globalWordIndex}
+                          data-line-index={lineIndex}
                           data-element-type="word"
                           style={{ outline: "none" }}
                           data-testid={`navigation-word-${globalWordIndex}`}
@@ -1250,155 +1421,19 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
               </div>
             );
           })}
+          {focusMaskLayer}
         </div>
       );
     }
 
-    // With syllables data - render text without visual syllable division
-    // applyDisplayModeToSyllables may return null if syllables cannot be used
-    // (e.g., displayMode='original' with partial niqqud that doesn't match the full text)
-    const processedSyllablesData = syllablesData
-      ? applyDisplayModeToSyllables(syllablesData, displayMode, niqqudCache)
-      : null;
-    
-    // If processedSyllablesData is null, it means syllables cannot be accurately represented
-    // for the current displayMode. In this case, fall back to simple word-based rendering.
-    if (!processedSyllablesData && syllablesData) {
-      // Syllables are not compatible with current displayMode - render without syllable structure
-      const textLines = text.split('\n');
-      
-      return (
-        <div
-          ref={displayRef}
-          className={`w-full min-h-[500px] p-4 border rounded-lg bg-background text-right ${className}`}
-          dir="rtl"
-          tabIndex={0}
-          style={{ outline: "none", fontSize: `${fontSize}px`, fontFamily: fontFamilyValue }}
-          contentEditable={false}
-          data-testid="text-display-area"
-        >
-          {textLines.map((lineText, lineIndex) => {
-            const lineWords = getWordsFromText(lineText);
-            
-            return (
-              <div 
-                key={lineIndex} 
-                className="pyramid-line-base mb-2" 
-                dir="rtl" 
-                style={{ letterSpacing: `${letterSpacing}px`, '--dynamic-word-gap': `${wordSpacing}px`, fontFamily: fontFamilyValue } as React.CSSProperties}
-              >
-                {navigationMode === "words" ? (
-                  lineWords.map((word, wordIndex) => {
-                    // Calculate global word index across all lines
-                    let globalWordIndex = 0;
-                    for (let i = 0; i < lineIndex; i++) {
-                      globalWordIndex += getWordsFromText(textLines[i]).length;
-                    }
-                    globalWordIndex += wordIndex;
-
-                    return (
-                      <span
-                        key={wordIndex}
-                        className={wordClassName}
-                        data-word-index={globalWordIndex}
-                        data-element-type="word"
-                        style={{ outline: "none" }}
-                        data-testid={`navigation-word-${globalWordIndex}`}
-                      >
-                        {word}
-                      </span>
-                    );
-                  })
-                ) : navigationMode === "letters" ? (
-                  // Letters mode - show text with letter highlighting
-                  lineWords.map((word, wordIndex) => {
-                    const wordLetters = getHebrewLetters(word);
-                    let globalLetterOffset = 0;
-                    for (let i = 0; i < lineIndex; i++) {
-                      globalLetterOffset += getHebrewLetters(textLines[i]).length;
-                    }
-                    for (let i = 0; i < wordIndex; i++) {
-                      globalLetterOffset += getHebrewLetters(lineWords[i]).length;
-                    }
-
-                    const charGroups = groupLettersWithNiqqud(word);
-
-                    return (
-                      <span key={wordIndex} className="pyramid-word-wrapper">
-                        {charGroups.map((group, groupIdx) => {
-                          const letterInfo = wordLetters.find(l => l.index === group.index);
-                          const letterIdx = letterInfo ? wordLetters.indexOf(letterInfo) : -1;
-                          const globalLetterIdx = letterIdx !== -1 ? globalLetterOffset + letterIdx : -1;
-
-                          if (!group.isHebrew) {
-                            return <span key={groupIdx}>{group.text}</span>;
-                          }
-
-                          return (
-                            <span
-                              key={groupIdx}
-                              className={letterClassName}
-                              data-word-index={0}
-                              data-syllable-index={0}
-                              data-letter-index={globalLetterIdx}
-                              data-element-type="letter"
-                              style={{ outline: "none" }}
-                              data-testid={`navigation-letter-0-0-${globalLetterIdx}`}
-                            >
-                              {group.text}
-                            </span>
-                          );
-                        })}
-                      </span>
-                    );
-                  })
-                ) : (
-                  // Syllables mode not available without processedSyllablesData - show as words
-                  lineWords.map((word, wordIndex) => {
-                    let globalWordIndex = 0;
-                    for (let i = 0; i < lineIndex; i++) {
-                      globalWordIndex += getWordsFromText(textLines[i]).length;
-                    }
-                    globalWordIndex += wordIndex;
-
-                    return (
-                      <span
-                        key={wordIndex}
-                        className={wordClassName}
-                        data-word-index={globalWordIndex}
-                        data-element-type="word"
-                        style={{ outline: "none" }}
-                        data-testid={`navigation-word-${globalWordIndex}`}
-                      >
-                        {word}
-                      </span>
-                    );
-                  })
-                )}
-              </div>
-            );
-          })}
-        </div>
-      );
-    }
-    
-    const { words } = processedSyllablesData || { words: [] };
-
+    // With syllables data - words are grouped by the line they are anchored to
+    const { words } = anchoredSyllablesData || { words: [] };
     const textLines = text.split('\n');
-    const wordToLineMap: number[] = [];
-    let wordCount = 0;
-    for (let lineIdx = 0; lineIdx < textLines.length; lineIdx++) {
-      const lineWords = textLines[lineIdx].split(/\s+/).filter(w => w.trim().length > 0);
-      for (let i = 0; i < lineWords.length && wordCount < words.length; i++) {
-        wordToLineMap[wordCount] = lineIdx;
-        wordCount++;
-      }
-    }
 
     const wordsByLine: Array<Array<{ wordIdx: number; wordEntry: typeof words[0] }>> = [];
       textLines.forEach((_, lineIdx) => { wordsByLine[lineIdx] = []; });
     words.forEach((wordEntry, wordIdx) => {
-      const lineIdx = wordToLineMap[wordIdx] ?? 0;
+      const lineIdx = wordEntry.lineIndex;
         if (!wordsByLine[lineIdx]) wordsByLine[lineIdx] = [];
       wordsByLine[lineIdx].push({ wordIdx, wordEntry });
     });
@@ -1406,11 +1441,17 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
     return (
       <div
         ref={displayRef}
-        className={`w-full min-h-[500px] p-4 border rounded-lg bg-background text-right ${className}`}
+        className={`relative touch-navigation w-full min-h-[500px] p-4 border rounded-lg bg-background text-right ${className}`}
         dir="rtl"
         tabIndex={0}
         style={{ outline: "none", fontSize: `${fontSize}px`, fontFamily: fontFamilyValue }}
         contentEditable={false}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onContextMenu={handleContextMenu}
+        onClick={isSyllableEditing && navigationMode === "syllables" ? handleSyllableEditClick : undefined}
         data-testid="text-display-area"
       >
         {textLines.map((lineText, lineIndex) => {
@@ -1423,7 +1464,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
                 dir="rtl" 
                 style={{ letterSpacing: `${letterSpacing}px`, '--dynamic-word-gap': `${wordSpacing}px`, fontFamily: fontFamilyValue } as React.CSSProperties}
               >
-              {navigationMode === "words" ? (
+              {navigationMode === "words" || isPhraseMode(navigationMode) ? (
                 lineWords.map(({ wordIdx, wordEntry }) => {
                   const syllables = wordEntry.syllables;
                   const wordText = syllables.join("");
@@ -1444,6 +1485,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
                       key={wordIdx}
                         className={wordClassName}
                         data-word-index={wordIdx}
+                        data-line-index={lineIndex}
                         data-element-type="word"
                         style={{ outline: "none" }}
                         data-testid={`navigation-word-${wordIdx}`}
@@ -1481,7 +1523,22 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
                             style={{ outline: "none" }}
                             data-testid={`navigation-syllable-${wordIdx}-${syllableIndex}`}
                           >
-                            {syllable}
+                            {isSyllableEditing
+                              ? groupLettersWithNiqqud(syllable).map((group) =>
+                                  group.isHebrew ? (
+                                    <span
+                                      key={group.index}
+                                      className="syllable-edit-letter"
+                                      data-edit-char-index={group.index}
+                                      data-testid={`syllable-edit-letter-${wordIdx}-${syllableIndex}-${group.index}`}
+                                    >
+                                      {group.text}
+                                    </span>
+                                  ) : (
+                                    <span key={group.index}>{group.text}</span>
+                                  )
+                                )
+                              : syllable}
                           </span>
                         ))}
                     </span>
@@ -1586,6 +1643,7 @@ export const EditableSyllablesTextarea = forwardRef<EditableSyllablesTextareaRef
             </div>
           );
         })}
+        {focusMaskLayer}
       </div>
     );
   };
@@ -0,0 +1,241 @@
+"use client";
+
+import { useRef } from "react";
+import {
+  Download,
+  FileAudio,
+  Hand,
+  Loader2,
+  Pause,
+  Play,
+  Square,
+  Trash2,
+  Undo2,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DocumentAudio } from "@/lib/karaoke";
+import type { KaraokeStatus } from "@/hooks/use-karaoke";
+
+interface KaraokeControlsProps {
+  audio: DocumentAudio | null;
+  status: KaraokeStatus;
+  isLoading: boolean;
+  isAudioMissing: boolean;
+  timedWordCount: number;
+  wordCount: number;
+  markedCount: number;
+  onAttachAudio: (file: File) => void;
+  onRemoveAudio: () => void;
+  onImportTimings: (file: File) => void;
+  onExportTimings: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onStartMarking: () => void;
+  onMark: () => void;
+  onUndoMark: () => void;
+}
+
+/**
+ * Karaoke controls: attach a recording of the text, import or tap its word
+ * timings, and play it with the highlight following the reading
+ */
+export function KaraokeControls({
+  audio,
+  status,
+  isLoading,
+  isAudioMissing,
+  timedWordCount,
+  wordCount,
+  markedCount,
+  onAttachAudio,
+  onRemoveAudio,
+  onImportTimings,
+  onExportTimings,
+  onPlay,
+  onPause,
+  onStop,
+  onStartMarking,
+  onMark,
+  onUndoMark,
+}: KaraokeControlsProps) {
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const timingsInputRef = useRef<HTMLInputElement>(null);
+
+  // Pick a file and reset the input, so the same file can be picked again
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>, onFile: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onFile(file);
+  };
+
+  const isReady = !!audio && !isLoading && !isAudioMissing;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2" dir="rtl" data-testid="karaoke-controls">
+      <input
+        ref={audioInputRef}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={(e) => handleFile(e, onAttachAudio)}
+        data-testid="karaoke-audio-input"
+      />
+      <input
+        ref={timingsInputRef}
+        type="file"
+        accept=".vtt,.srt,.json,text/vtt,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e, onImportTimings)}
+        data-testid="karaoke-timings-input"
+      />
+
+      {!audio ? (
+        <Button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => audioInputRef.current?.click()}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          title="צירוף הקלטה של הטקסט"
+          data-testid="karaoke-attach-button"
+        >
+          <FileAudio className="h-4 w-4" />
+          <span>צירוף הקלטה</span>
+        </Button>
+      ) : status === "marking" ? (
+        <>
+          <Button
+            // Keep the focus in the reading view so Space keeps marking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onMark}
+            size="lg"
+            className="gap-2"
+            title="סימון תחילת המילה הבאה (רווח)"
+            data-testid="karaoke-mark-button"
+          >
+            <Hand className="h-5 w-5" />
+            <span>מילה הבאה</span>
+          </Button>
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onUndoMark}
+            disabled={markedCount === 0}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            title="ביטול הסימון האחרון (Backspace)"
+            data-testid="karaoke-undo-mark-button"
+          >
+            <Undo2 className="h-4 w-4" />
+            <span>ביטול</span>
+          </Button>
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onStop}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            data-testid="karaoke-finish-marking-button"
+          >
+            <Square className="h-4 w-4" />
+            <span>סיום</span>
+          </Button>
+          <span className="text-sm text-muted-foreground" data-testid="karaoke-marked-count">
+            {markedCount} / {wordCount} מילים סומנו
+          </span>
+        </>
+      ) : (
+        <>
+          <span className="flex items-center gap-1 text-sm text-muted-foreground max-w-[12rem] truncate" title={audio.name}>
+            <FileAudio className="h-4 w-4 shrink-0" />
+            {audio.name}
+          </span>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isAudioMissing && (
+            <span className="text-sm text-destructive" data-testid="karaoke-audio-missing">
+              ההקלטה לא נמצאה במכשיר זה
+            </span>
+          )}
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={status === "playing" ? onPause : onPlay}
+            disabled={!isReady}
+            variant={status === "playing" ? "default" : "outline"}
+            size="sm"
+            className="gap-2"
+            data-testid="karaoke-play-button"
+          >
+            {status === "playing" ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            <span>{status === "playing" ? "השהיה" : status === "paused" ? "המשך" : "השמעת הקלטה"}</span>
+          </Button>
+          {status !== "idle" && (
+            <Button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onStop}
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="עצירה"
+              data-testid="karaoke-stop-button"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onStartMarking}
+            disabled={!isReady}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            title="השמעת ההקלטה מההתחלה וסימון כל מילה בהקשה"
+            data-testid="karaoke-start-marking-button"
+          >
+            <Hand className="h-4 w-4" />
+            <span>סימון בהקשה</span>
+          </Button>
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => timingsInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            title="ייבוא תזמוני מילים (WebVTT, SRT או JSON)"
+            data-testid="karaoke-import-button"
+          >
+            <Upload className="h-4 w-4" />
+            <span>ייבוא תזמונים</span>
+          </Button>
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onExportTimings}
+            disabled={timedWordCount === 0}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="הורדת התזמונים (JSON)"
+            data-testid="karaoke-export-button"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onRemoveAudio}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="הסרת ההקלטה"
+            data-testid="karaoke-remove-button"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground" data-testid="karaoke-timed-count">
+            {timedWordCount > 0 ? `${timedWordCount} / ${wordCount} מילים מתוזמנות` : "אין תזמוני מילים"}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  bindShortcut,
+  DEFAULT_SHORTCUTS,
+  formatKeyCombo,
+  getKeyCombo,
+  getShortcutConflict,
+  KARAOKE_MARKING_KEYS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutMap,
+  unbindShortcut,
+} from "@/lib/keyboard-shortcuts";
+
+interface KeyboardShortcutsEditorProps {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+}
+
+/**
+ * A key pressed while recording that is already bound to another action
+ */
+interface PendingConflict {
+  action: ShortcutAction;
+  combo: string;
+  boundAction: ShortcutAction;
+}
+
+const getActionLabel = (action: ShortcutAction) =>
+  SHORTCUT_ACTIONS.find((entry) => entry.action === action)?.label ?? action;
+
+/**
+ * Keys of each reading view action: remove a key, or record a new one by
+ * pressing it (Escape cancels). A key bound to another action is only moved
+ * after confirming; bound keys that karaoke marking takes are pointed out.
+ */
+export function KeyboardShortcutsEditor({ shortcuts, onChange }: KeyboardShortcutsEditorProps) {
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Record the next key press (in the capture phase, before anything on the page handles it)
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === "Escape") {
+        setRecordingAction(null);
+        return;
+      }
+      const combo = getKeyCombo(e);
+      if (!combo) return; // Wait for the key pressed with the modifiers
+
+      setRecordingAction(null);
+      const found = getShortcutConflict(shortcuts, recordingAction, combo);
+      if (found && "reserved" in found) {
+        setError(`לא ניתן להגדיר את המקש ${formatKeyCombo(combo)}`);
+      } else if (found && "action" in found) {
+        setConflict({ action: recordingAction, combo, boundAction: found.action });
+      } else if (!shortcuts[recordingAction].includes(combo)) {
+        onChange(bindShortcut(shortcuts, recordingAction, combo));
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown, true);
+    return () => document.removeEventListener("keydown", handleKeyDown, true);
+  }, [recordingAction, shortcuts, onChange]);
+
+  // Bound keys that do not reach the reading view while karaoke timings are marked
+  const karaokeKeys = KARAOKE_MARKING_KEYS.filter((combo) => Object.values(shortcuts).some((combos) => combos.includes(combo)));
+
+  const startRecording = (action: ShortcutAction) => {
+    setConflict(null);
+    setError(null);
+    setRecordingAction(action);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="keyboard-shortcuts-editor">
+      {SHORTCUT_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex flex-wrap items-center gap-2" data-testid={`shortcut-row-${action}`}>
+          <span className="w-56 text-right text-base">{label}</span>
+          {shortcuts[action].length === 0 && (
+            <span className="text-sm text-muted-foreground">ללא מקש</span>
+          )}
+          {shortcuts[action].map((combo) => (
+            <span
+              key={combo}
+              className="flex items-center gap-1 rounded-md border bg-muted px-2 py-1 text-sm font-mono"
+              dir="ltr"
+              data-testid={`shortcut-key-${action}`}
+            >
+              {formatKeyCombo(combo)}
+              <button
+                type="button"
+                onClick={() => onChange(unbindShortcut(shortcuts, action, combo))}
+                className="text-muted-foreground hover:text-foreground"
+                title="הסרת המקש"
+                data-testid={`shortcut-remove-${action}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <Button
+            type="button"
+            onClick={() => (recordingAction === action ? setRecordingAction(null) : startRecording(action))}
+            variant={recordingAction === action ? "default" : "outline"}
+            size="sm"
+            className="gap-1"
+            data-testid={`shortcut-add-${action}`}
+          >
+            <Plus className="h-3 w-3" />
+            {recordingAction === action ? "הקש על מקש... (Esc לביטול)" : "הוספת מקש"}
+          </Button>
+        </div>
+      ))}
+
+      {conflict && (
+        <div
+          className="flex flex-wrap items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm"
+          data-testid="shortcut-conflict"
+        >
+          <span>
+            המקש {formatKeyCombo(conflict.combo)} כבר משמש ל&quot;{getActionLabel(conflict.boundAction)}&quot;.
+            להעביר אותו ל&quot;{getActionLabel(conflict.action)}&quot;?
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              onChange(bindShortcut(shortcuts, conflict.action, conflict.combo));
+              setConflict(null);
+            }}
+            data-testid="shortcut-conflict-move-button"
+          >
+            העברה
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setConflict(null)}
+            data-testid="shortcut-conflict-cancel-button"
+          >
+            ביטול
+          </Button>
+        </div>
+      )}
+
+      {karaokeKeys.length > 0 && (
+        <p className="text-sm text-muted-foreground text-right" data-testid="shortcut-karaoke-warning">
+          בזמן סימון מילים בהקלטה המקשים {karaokeKeys.map(formatKeyCombo).join(", ")} משמשים לסימון
+          ולא יפעילו את הפעולות שהוגדרו להם.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive text-right" data-testid="shortcut-error">
+          {error}
+        </p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => {
+          setConflict(null);
+          setError(null);
+          onChange(DEFAULT_SHORTCUTS);
+        }}
+        data-testid="shortcuts-reset-button"
+      >
+        <RotateCcw className="h-4 w-4" />
+        שחזור מקשי ברירת המחדל
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  diffNiqqudWords,
+  applyNiqqudDiffDecisions,
+  NiqqudWordChange,
+  NiqqudWordDiff,
+} from "@/lib/niqqud-diff";
+import type { ConsonantMismatch } from "@/lib/consonant-guard";
+
+interface NiqqudDiffViewProps {
+  /** Text as the user entered it (cache.original) */
+  original: string;
+  /** Text returned by the model (cache.full) */
+  vocalized: string;
+  /** Words whose letters the model changed, restored by the server before `vocalized` was stored */
+  mismatches?: ConsonantMismatch[];
+  /** Called with the text built from the user's decisions */
+  onApply: (fullText: string) => void;
+  onCancel: () => void;
+  fontSize?: number;
+}
+
+/**
+ * Highlight classes for each change type
+ */
+const CHANGE_STYLES: Record<NiqqudWordChange, string> = {
+  unchanged: "",
+  niqqudAdded: "bg-green-100 text-green-900",
+  niqqudChanged: "bg-amber-100 text-amber-900",
+  consonantsChanged: "bg-red-100 text-red-900",
+  wordRemoved: "bg-red-100 text-red-900 line-through",
+  wordAdded: "bg-red-100 text-red-900",
+};
+
+/**
+ * Legend labels for each change type (unchanged is not listed)
+ */
+const CHANGE_LABELS: Record<Exclude<NiqqudWordChange, "unchanged">, string> = {
+  niqqudAdded: "ניקוד נוסף",
+  niqqudChanged: "ניקוד שונה",
+  consonantsChanged: "אותיות שונו",
+  wordRemoved: "מילה הוסרה",
+  wordAdded: "מילה נוספה",
+};
+
+/**
+ * Review view for the model's niqqud result
+ * Shows a word-level diff between the original text and the vocalized text,
+ * either inline (one word per pair) or split (original and result side by side).
+ * Clicking a changed word toggles between accepting the model's version and
+ * keeping the original; the result is passed to onApply. Words whose letters the
+ * model changed start out rejected, as the server restored them.
+ */
+export function NiqqudDiffView({
+  original,
+  vocalized,
+  mismatches = [],
+  onApply,
+  onCancel,
+  fontSize = 20,
+}: NiqqudDiffViewProps) {
+  const [layout, setLayout] = useState<"inline" | "split">("inline");
+
+  const diffs = useMemo(
+    () => diffNiqqudWords(original, vocalized, mismatches),
+    [original, vocalized, mismatches]
+  );
+  const changedCount = diffs.filter((diff) => diff.change !== "unchanged").length;
+  const restoredCount = diffs.filter((diff) => diff.restored).length;
+  // Words the model added were dropped by the server and have no place in the text
+  const addedWords = mismatches.filter((mismatch) => mismatch.type === "insert" && mismatch.returned);
+
+  const [rejected, setRejected] = useState<Set<number>>(
+    () => new Set(diffs.filter((diff) => diff.restored).map((diff) => diff.index))
+  );
+
+  const toggleDecision = (index: number) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const setAllRejected = (reject: boolean) => {
+    setRejected(
+      reject
+        ? new Set(diffs.filter((diff) => diff.change !== "unchanged").map((diff) => diff.index))
+        : new Set()
+    );
+  };
+
+  /**
+   * Render one side of a diff entry as a clickable word
+   * Rejected words are dimmed on the model side and outlined on the original side,
+   * so both layouts show which version will be kept.
+   */
+  const renderWord = (diff: NiqqudWordDiff, side: "original" | "vocalized" | "inline") => {
+    const isRejected = rejected.has(diff.index);
+    const isChanged = diff.change !== "unchanged";
+    // Inline mode falls back to the other side so dropped/added words stay clickable
+    const word =
+      side === "original"
+        ? diff.original
+        : side === "vocalized"
+          ? diff.vocalized
+          : isRejected
+            ? diff.original ?? diff.vocalized
+            : diff.vocalized ?? diff.original;
+
+    if (word === null) {
+      return null;
+    }
+
+    if (!isChanged) {
+      return (
+        <span key={`${side}-${diff.index}`} className="px-1">
+          {word}
+        </span>
+      );
+    }
+
+    const isKept =
+      side === "inline"
+        ? (isRejected ? diff.original : diff.vocalized) !== null
+        : side === "original"
+          ? isRejected
+          : !isRejected;
+
+    return (
+      <button
+        key={`${side}-${diff.index}`}
+        type="button"
+        onClick={() => toggleDecision(diff.index)}
+        className={`px-1 rounded ${CHANGE_STYLES[diff.change]} ${isKept ? "ring-2 ring-primary" : "opacity-50"}`}
+        title={`${diff.original ?? ""} ← ${diff.vocalized ?? ""}`}
+        data-testid={`niqqud-diff-word-${diff.index}`}
+        data-change={diff.change}
+        data-rejected={isRejected}
+      >
+        {word}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full border rounded-lg p-4 mb-4 bg-background" dir="rtl" data-testid="niqqud-diff-view">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="text-right">
+          <h2 className="text-xl font-semibold">השוואת ניקוד</h2>
+          <p className="text-sm text-muted-foreground">
+            {changedCount} מילים שונו. לחיצה על מילה מחליפה בין גרסת המודל למקור.
+          </p>
+          {restoredCount > 0 && (
+            <p className="text-sm text-red-700" data-testid="niqqud-diff-restored">
+              המודל שינה אותיות ב-{restoredCount} מילים. המילים המקוריות נשמרו; לחיצה על מילה מקבלת את גרסת המודל.
+            </p>
+          )}
+          {addedWords.length > 0 && (
+            <p className="text-sm text-red-700" data-testid="niqqud-diff-added-words">
+              מילים שהמודל הוסיף והוסרו: {addedWords.map((mismatch) => mismatch.returned).join(", ")}
+            </p>
+          )}
+        </div>
+        <ToggleGroup
+          type="single"
+          value={layout}
+          onValueChange={(value: string) => {
+            if (value === "inline" || value === "split") setLayout(value);
+          }}
+          className="border border-input rounded-md"
+          dir="rtl"
+        >
+          <ToggleGroupItem value="inline" className="text-sm px-4 h-9">
+            משולב
+          </ToggleGroupItem>
+          <ToggleGroupItem value="split" className="text-sm px-4 h-9">
+            זה לצד זה
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4 text-sm">
+        {(Object.keys(CHANGE_LABELS) as Array<keyof typeof CHANGE_LABELS>).map((change) => (
+          <span key={change} className={`px-2 py-0.5 rounded ${CHANGE_STYLES[change]}`}>
+            {CHANGE_LABELS[change]}
+          </span>
+        ))}
+      </div>
+
+      {layout === "inline" ? (
+        <div
+          className="flex flex-wrap gap-y-2 leading-loose text-right"
+          style={{ fontSize: `${fontSize}px` }}
+        >
+          {diffs.map((diff) => renderWord(diff, "inline"))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4" style={{ fontSize: `${fontSize}px` }}>
+          <div className="border rounded-md p-3">
+            <div className="text-sm text-muted-foreground mb-2">מקור</div>
+            <div className="flex flex-wrap gap-y-2 leading-loose text-right">
+              {diffs.map((diff) => renderWord(diff, "original"))}
+            </div>
+          </div>
+          <div className="border rounded-md p-3">
+            <div className="text-sm text-muted-foreground mb-2">תוצאת המודל</div>
+            <div className="flex flex-wrap gap-y-2 leading-loose text-right">
+              {diffs.map((diff) => renderWord(diff, "vocalized"))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 mt-4">
+        <Button variant="outline" size="sm" onClick={() => setAllRejected(false)}>
+          קבל הכל
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAllRejected(true)}>
+          דחה הכל
+        </Button>
+        <Button variant="secondary" className="gap-2" onClick={onCancel} data-testid="niqqud-diff-cancel">
+          <X className="h-4 w-4" />
+          <span>ביטול</span>
+        </Button>
+        <Button
+          className="gap-2"
+          onClick={() => onApply(applyNiqqudDiffDecisions(original, diffs, rejected))}
+          data-testid="niqqud-diff-apply"
+        >
+          <Check className="h-4 w-4" />
+          <span>אישור</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark, BookmarkPlus, Check, Pencil, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ReadingBookmark } from "@/lib/bookmarks";
+
+interface ReadingBookmarksProps {
+  bookmarks: ReadingBookmark[];
+  onAdd: () => void;
+  onGoTo: (bookmark: ReadingBookmark) => void;
+  onRename: (bookmarkId: string, name: string) => void;
+  onDelete: (bookmarkId: string) => void;
+}
+
+/**
+ * Bookmarks of the open document: add one at the current position, jump to,
+ * rename or delete a bookmark
+ */
+export function ReadingBookmarks({ bookmarks, onAdd, onGoTo, onRename, onDelete }: ReadingBookmarksProps) {
+  // Bookmark whose name is being edited
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const handleSaveName = () => {
+    if (!editing) return;
+    onRename(editing.id, editing.name);
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2" dir="rtl" data-testid="reading-bookmarks">
+      <Button
+        // Keep the focus in the reading view so arrow navigation continues after adding
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onAdd}
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        data-testid="bookmark-add-button"
+      >
+        <BookmarkPlus className="h-4 w-4" />
+        <span>הוספת סימנייה</span>
+      </Button>
+      {bookmarks.map((bookmark) =>
+        editing?.id === bookmark.id ? (
+          <div key={bookmark.id} className="flex items-center gap-1">
+            <Input
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveName();
+                if (e.key === "Escape") setEditing(null);
+              }}
+              className="h-9 w-40"
+              autoFocus
+              data-testid="bookmark-name-input"
+            />
+            <Button onClick={handleSaveName} variant="ghost" size="icon" title="שמירה">
+              <Check className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div key={bookmark.id} className="flex items-center rounded-md border" data-testid="bookmark-item">
+            <Button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onGoTo(bookmark)}
+              variant="ghost"
+              size="sm"
+              className="gap-2"
+              data-testid="bookmark-go-button"
+            >
+              <Bookmark className="h-4 w-4" />
+              <span>{bookmark.name}</span>
+            </Button>
+            <Button
+              onClick={() => setEditing({ id: bookmark.id, name: bookmark.name })}
+              variant="ghost"
+              size="icon"
+              className="h-9 w-8"
+              title="שינוי שם"
+              data-testid="bookmark-rename-button"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              onClick={() => onDelete(bookmark.id)}
+              variant="ghost"
+              size="icon"
+              className="h-9 w-8"
+              title="מחיקה"
+              data-testid="bookmark-delete-button"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
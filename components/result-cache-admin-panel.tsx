@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ResultCacheBackend, ResultCacheStats } from "@/lib/result-cache-server";
+
+/**
+ * Cache state returned by /api/admin/result-cache
+ */
+interface ResultCacheState {
+  backend: ResultCacheBackend;
+  ttlHours: number;
+  stats: ResultCacheStats | null;
+}
+
+/**
+ * Purge options offered to the admin (query string of the DELETE request)
+ */
+const PURGE_ACTIONS: Array<{ query: string; label: string; testId: string }> = [
+  { query: "expired=true", label: "מחק רשומות שפג תוקפן", testId: "admin-result-cache-purge-expired" },
+  { query: "task=niqqud", label: "מחק תוצאות ניקוד", testId: "admin-result-cache-purge-niqqud" },
+  { query: "task=syllables", label: "מחק תוצאות הברות", testId: "admin-result-cache-purge-syllables" },
+  { query: "", label: "מחק את כל המטמון", testId: "admin-result-cache-purge-all" },
+];
+
+/**
+ * Admin controls for the shared server result cache
+ * Shows entry/hit counts, edits the TTL and purges entries.
+ */
+export function ResultCacheAdminPanel() {
+  const [state, setState] = useState<ResultCacheState | null>(null);
+  const [ttlHours, setTtlHours] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyState = useCallback((next: ResultCacheState) => {
+    setState(next);
+    setTtlHours(String(next.ttlHours));
+  }, []);
+
+  useEffect(() => {
+    const loadState = async () => {
+      try {
+        const response = await fetch("/api/admin/result-cache", { credentials: "include" });
+        if (!response.ok) {
+          throw new Error("Failed to load result cache state");
+        }
+        applyState((await response.json()) as ResultCacheState);
+      } catch (err) {
+        console.error("Error loading result cache state:", err);
+        setError("שגיאה בטעינת נתוני המטמון");
+      }
+    };
+    loadState();
+  }, [applyState]);
+
+  const sendRequest = async (url: string, init: RequestInit, successMessage: (data: { purged?: number }) => string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, { ...init, credentials: "include" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      applyState(data as ResultCacheState);
+      setMessage(successMessage(data));
+    } catch (err) {
+      console.error("Error updating result cache:", err);
+      setError("שגיאה בעדכון המטמון");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveTtl = () => {
+    const hours = Number(ttlHours);
+    if (!Number.isFinite(hours) || hours < 0) {
+      setError("זמן התפוגה חייב להיות מספר אי-שלילי");
+      return;
+    }
+    sendRequest(
+      "/api/admin/result-cache",
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ttlHours: hours }),
+      },
+      () => "זמן התפוגה נשמר"
+    );
+  };
+
+  const handlePurge = (query: string, label: string) => {
+    if (!window.confirm(`${label}?`)) {
+      return;
+    }
+    sendRequest(
+      `/api/admin/result-cache${query ? `?${query}` : ""}`,
+      { method: "DELETE" },
+      (data) => `נמחקו ${data.purged ?? 0} רשומות`
+    );
+  };
+
+  return (
+    <div className="space-y-6 p-6 border rounded-lg bg-card shadow-sm">
+      <h2 className="text-2xl font-semibold text-right mb-4">
+        מטמון תוצאות משותף
+      </h2>
+      <p className="text-sm text-muted-foreground text-right">
+        תוצאות ניקוד וחלוקה להברות נשמרות בשרת לכל המשתמשים, כך שטקסט שכבר עובד עם אותו מודל ואותה הנחיה לא נשלח שוב למודל
+      </p>
+
+      {state && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-right" data-testid="admin-result-cache-stats">
+          <div>
+            <p className="text-sm text-muted-foreground">רשומות</p>
+            <p className="text-2xl font-semibold">{state.stats?.entries ?? "-"}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">שימושים חוזרים</p>
+            <p className="text-2xl font-semibold">{state.stats?.hits ?? "-"}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">ניקוד / הברות</p>
+            <p className="text-2xl font-semibold">
+              {state.stats ? `${state.stats.byTask.niqqud ?? 0} / ${state.stats.byTask.syllables ?? 0}` : "-"}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">אחסון</p>
+            <p className="text-2xl font-semibold">{state.backend === "supabase" ? "Supabase" : "SQLite"}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="result-cache-ttl" className="text-right block text-base">
+          זמן תפוגה (שעות)
+        </Label>
+        <div className="flex gap-2 items-center">
+          <Input
+            id="result-cache-ttl"
+            type="number"
+            min="0"
+            value={ttlHours}
+            onChange={(e) => setTtlHours(e.target.value)}
+            className="text-right"
+            dir="rtl"
+            data-testid="admin-result-cache-ttl-input"
+          />
+          <Button
+            onClick={handleSaveTtl}
+            disabled={busy || !state}
+            className="gap-2"
+            data-testid="admin-result-cache-ttl-save"
+          >
+            <Save className="h-4 w-4" />
+            שמור
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground text-right">
+          אחרי זמן זה התוצאה נשלחת שוב למודל. 0 מכבה את המטמון
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PURGE_ACTIONS.map((action) => (
+          <Button
+            key={action.testId}
+            variant="outline"
+            onClick={() => handlePurge(action.query, action.label)}
+            disabled={busy || !state}
+            className="gap-2"
+            data-testid={action.testId}
+          >
+            <Trash2 className="h-4 w-4" />
+            {action.label}
+          </Button>
+        ))}
+      </div>
+
+      {message && <p className="text-sm text-right text-green-700">{message}</p>}
+      {error && <p className="text-sm text-right text-destructive">{error}</p>}
+    </div>
+  );
+}
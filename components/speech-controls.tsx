@@ -0,0 +1,55 @@
+"use client";
+
+import { Square, Volume2, VolumeX, AudioLines } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SpeechControlsProps {
+  isSpeechEnabled: boolean;
+  isAutoReading: boolean;
+  canAutoRead: boolean; // Auto-read follows words and syllables, not letters
+  onToggleSpeech: () => void;
+  onToggleAutoRead: () => void;
+}
+
+/**
+ * Speech controls: speak the highlighted element, and read the text aloud with
+ * the highlight following the speech
+ */
+export function SpeechControls({
+  isSpeechEnabled,
+  isAutoReading,
+  canAutoRead,
+  onToggleSpeech,
+  onToggleAutoRead,
+}: SpeechControlsProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2" dir="rtl" data-testid="speech-controls">
+      <Button
+        // Keep the focus in the reading view so arrow navigation keeps working
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onToggleSpeech}
+        variant={isSpeechEnabled ? "default" : "outline"}
+        size="sm"
+        className="gap-2"
+        title="השמעת המילה או ההברה המודגשת"
+        data-testid="speech-toggle-button"
+      >
+        {isSpeechEnabled ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+        <span>השמעה</span>
+      </Button>
+      <Button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onToggleAutoRead}
+        disabled={!isAutoReading && !canAutoRead}
+        variant={isAutoReading ? "default" : "outline"}
+        size="sm"
+        className="gap-2"
+        title="הקראת הטקסט מהמילה המודגשת"
+        data-testid="speech-auto-read-button"
+      >
+        {isAutoReading ? <Square className="h-4 w-4" /> : <AudioLines className="h-4 w-4" />}
+        <span>{isAutoReading ? "עצירת הקראה" : "הקראה"}</span>
+      </Button>
+    </div>
+  );
+}
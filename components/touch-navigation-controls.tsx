@@ -0,0 +1,56 @@
+"use client";
+
+import { ArrowUpToLine, ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface TouchNavigationControlsProps {
+  onNext: () => void;
+  onPrev: () => void;
+  onUp: () => void;
+  onDown: () => void;
+  onJumpToStart: () => void;
+}
+
+/**
+ * Large on-screen navigation buttons for tablets, kept at the bottom of the screen
+ * (Hebrew is read right to left, so "next" is on the left)
+ */
+export function TouchNavigationControls({
+  onNext,
+  onPrev,
+  onUp,
+  onDown,
+  onJumpToStart,
+}: TouchNavigationControlsProps) {
+  const buttons = [
+    { onClick: onPrev, icon: ChevronRight, label: "הקודם", testId: "touch-nav-prev-button" },
+    { onClick: onUp, icon: ChevronUp, label: "שורה קודמת", testId: "touch-nav-up-button" },
+    { onClick: onJumpToStart, icon: ArrowUpToLine, label: "להתחלה", testId: "touch-nav-start-button" },
+    { onClick: onDown, icon: ChevronDown, label: "שורה הבאה", testId: "touch-nav-down-button" },
+    { onClick: onNext, icon: ChevronLeft, label: "הבא", testId: "touch-nav-next-button" },
+  ];
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 z-40 flex -translate-x-1/2 gap-2 rounded-xl border bg-background/95 p-2 shadow-lg"
+      dir="rtl"
+      data-testid="touch-navigation-controls"
+    >
+      {buttons.map(({ onClick, icon: Icon, label, testId }) => (
+        <Button
+          key={testId}
+          // Keep the focus in the reading view so keyboard navigation keeps working
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onClick}
+          variant={testId === "touch-nav-next-button" ? "default" : "outline"}
+          className="h-16 min-w-16 flex-col gap-1 px-3"
+          title={label}
+          data-testid={testId}
+        >
+          <Icon className="h-7 w-7" />
+          <span className="text-xs">{label}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect } from "react";
+import { Volume2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { isHebrewLetter, removeNiqqud } from "@/lib/niqqud";
+import type { WordDetails } from "@/components/editable-syllables-textarea";
+
+interface WordDetailsPanelProps {
+  details: WordDetails;
+  fontFamily?: string;
+  onSpeak?: () => void; // Omitted when speech is not supported
+  onClose: () => void;
+}
+
+/**
+ * Details of a long-pressed word: the word with and without niqqud, its
+ * syllables and letters, and a button to hear it
+ */
+export function WordDetailsPanel({ details, fontFamily, onSpeak, onClose }: WordDetailsPanelProps) {
+  const letterCount = Array.from(details.word).filter(isHebrewLetter).length;
+
+  // Escape closes the panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-black/30 p-4 sm:items-center"
+      onClick={onClose}
+      data-testid="word-details-overlay"
+    >
+      <div
+        className="w-full max-w-sm space-y-4 rounded-xl border bg-background p-6 shadow-lg"
+        dir="rtl"
+        role="dialog"
+        aria-label="פרטי המילה"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="word-details-panel"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-5xl font-semibold" style={{ fontFamily }} data-testid="word-details-word">
+            {details.word}
+          </p>
+          <Button
+            onClick={onClose}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            title="סגירה"
+            data-testid="word-details-close-button"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-base">
+          <dt className="text-muted-foreground">ללא ניקוד</dt>
+          <dd style={{ fontFamily }} data-testid="word-details-clean">{removeNiqqud(details.word)}</dd>
+          {details.syllables && (
+            <>
+              <dt className="text-muted-foreground">הברות ({details.syllables.length})</dt>
+              <dd style={{ fontFamily }} data-testid="word-details-syllables">{details.syllables.join(" · ")}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">אותיות</dt>
+          <dd data-testid="word-details-letter-count">{letterCount}</dd>
+        </dl>
+        {onSpeak && (
+          <Button onClick={onSpeak} variant="outline" size="lg" className="w-full gap-2" data-testid="word-details-speak-button">
+            <Volume2 className="h-5 w-5" />
+            <span>השמעת המילה</span>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
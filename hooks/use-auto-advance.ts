@@ -0,0 +1,191 @@
+/**
+ * Custom hook for auto-advance (play) mode
+ * Moves the highlight to the next element on its own, staying on each element
+ * for a time derived from the user's reading tempo (lib/reading-tempo.ts).
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { getReadingTempo, saveReadingTempo } from "@/lib/settings";
+import {
+  DEFAULT_READING_TEMPO,
+  getStepDuration,
+  nudgeReadingTempo,
+  ReadingStep,
+  ReadingTempo,
+} from "@/lib/reading-tempo";
+
+export type AutoAdvanceStatus = "idle" | "countdown" | "playing" | "paused";
+
+interface UseAutoAdvanceOptions {
+  /** Element the highlight is on, or null when nothing is highlighted */
+  getCurrentStep: () => ReadingStep | null;
+  /** Move the highlight to the next element; returns false at the end of the text */
+  advance: () => boolean;
+}
+
+/**
+ * Delay before saving a changed tempo (nudging several times saves once)
+ */
+const SAVE_DELAY_MS = 1000;
+
+export function useAutoAdvance({ getCurrentStep, advance }: UseAutoAdvanceOptions) {
+  const [status, setStatus] = useState<AutoAdvanceStatus>("idle");
+  const [countdown, setCountdown] = useState(0);
+  const [tempo, setTempoState] = useState<ReadingTempo>(DEFAULT_READING_TEMPO);
+
+  // Latest values for the timer callbacks
+  const tempoRef = useRef(tempo);
+  const getCurrentStepRef = useRef(getCurrentStep);
+  const advanceRef = useRef(advance);
+  getCurrentStepRef.current = getCurrentStep;
+  advanceRef.current = advance;
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Load the user's tempo
+  useEffect(() => {
+    let cancelled = false;
+    getReadingTempo()
+      .then((loaded) => {
+        if (cancelled) return;
+        tempoRef.current = loaded;
+        setTempoState(loaded);
+      })
+      .catch((error) => console.warn("[AutoAdvance] Failed to load reading tempo:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Stay on the current element, then move to the next one, until the end of the text
+   */
+  const scheduleStep = useCallback(() => {
+    clearTimer();
+    const step = getCurrentStepRef.current();
+    if (!step) {
+      setStatus("idle");
+      return;
+    }
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      if (advanceRef.current()) {
+        scheduleStep();
+      } else {
+        setStatus("idle");
+      }
+    }, getStepDuration(tempoRef.current, step));
+  }, [clearTimer]);
+
+  /**
+   * Count down the remaining seconds, then start playing
+   */
+  const runCountdown = useCallback(
+    (seconds: number) => {
+      clearTimer();
+      if (seconds <= 0) {
+        setCountdown(0);
+        setStatus("playing");
+        scheduleStep();
+        return;
+      }
+      setCountdown(seconds);
+      setStatus("countdown");
+      timerRef.current = setTimeout(() => runCountdown(seconds - 1), 1000);
+    },
+    [clearTimer, scheduleStep]
+  );
+
+  const start = useCallback(() => {
+    runCountdown(Math.max(0, Math.round(tempoRef.current.countdownSeconds)));
+  }, [runCountdown]);
+
+  const pause = useCallback(() => {
+    clearTimer();
+    setCountdown(0);
+    setStatus("paused");
+  }, [clearTimer]);
+
+  const resume = useCallback(() => {
+    setStatus("playing");
+    scheduleStep();
+  }, [scheduleStep]);
+
+  const stop = useCallback(() => {
+    clearTimer();
+    setCountdown(0);
+    setStatus("idle");
+  }, [clearTimer]);
+
+  /**
+   * Play/pause: start from idle, pause while counting down or playing, resume when paused
+   */
+  const toggle = useCallback(() => {
+    if (status === "idle") {
+      start();
+    } else if (status === "paused") {
+      resume();
+    } else {
+      pause();
+    }
+  }, [status, start, pause, resume]);
+
+  /**
+   * Change the tempo (used from the next element on) and save it for the user
+   */
+  const setTempo = useCallback((next: ReadingTempo) => {
+    tempoRef.current = next;
+    setTempoState(next);
+
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      saveReadingTempo(next).catch((error) => console.warn("[AutoAdvance] Failed to save reading tempo:", error));
+    }, SAVE_DELAY_MS);
+  }, []);
+
+  /**
+   * Make the tempo faster (+1) or slower (-1)
+   */
+  const nudge = useCallback(
+    (direction: 1 | -1) => {
+      setTempo(nudgeReadingTempo(tempoRef.current, direction));
+    },
+    [setTempo]
+  );
+
+  // Stop the timers on unmount (a pending tempo change is still saved)
+  useEffect(() => {
+    return () => {
+      clearTimer();
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveReadingTempo(tempoRef.current).catch(() => {});
+      }
+    };
+  }, [clearTimer]);
+
+  return {
+    status,
+    countdown,
+    tempo,
+    start,
+    pause,
+    resume,
+    stop,
+    toggle,
+    setTempo,
+    nudge,
+  };
+}
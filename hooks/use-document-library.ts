@@ -0,0 +1,365 @@
+/**
+ * Custom hook for the document library: loading the user's documents, the
+ * active document, and creating, renaming, duplicating, moving, tagging and
+ * deleting documents, their bookmarks and their recordings
+ * Signed-in users' documents are stored in Supabase, anonymous users' in localStorage.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  applyDocumentChanges,
+  createDocument as createNewDocument,
+  duplicateDocument as duplicateLibraryDocument,
+  DocumentChanges,
+  DocumentStore,
+  getDocumentTitle,
+  LibraryDocument,
+  localDocumentStore,
+  normalizeTags,
+  sortDocumentsByUpdate,
+} from "@/lib/documents";
+import { getDocumentStore } from "@/lib/documents-supabase";
+import { ReadingBookmark } from "@/lib/bookmarks";
+import { DocumentAudio, WordTiming } from "@/lib/karaoke";
+import { deleteDocumentAudio, saveDocumentAudio } from "@/lib/document-audio";
+
+/**
+ * localStorage key of the document open in this browser
+ */
+const ACTIVE_DOCUMENT_KEY = "active_document_id";
+
+/**
+ * localStorage key of the single text saved before the document library existed
+ */
+const LEGACY_TEXT_KEY = "main_text_field";
+
+/**
+ * Delay before changes to a document are saved (the text and position change often)
+ */
+const SAVE_DELAY_MS = 1000;
+
+export function useDocumentLibrary() {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [storage, setStorage] = useState<"local" | "supabase">("local");
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const storeRef = useRef<DocumentStore>(localDocumentStore);
+  // Latest documents, for saving outside of render
+  const documentsRef = useRef<LibraryDocument[]>([]);
+  // Pending debounced saves by document id
+  const pendingSavesRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  // Running library load, shared by concurrent calls
+  const loadingRef = useRef<Promise<void> | null>(null);
+
+  const setLibrary = useCallback((next: LibraryDocument[]) => {
+    documentsRef.current = next;
+    setDocuments(next);
+  }, []);
+
+  const saveNow = useCallback(async (document: LibraryDocument) => {
+    try {
+      await storeRef.current.save(document);
+    } catch (err) {
+      console.error("[Documents] Failed to save document:", err);
+      setError("שמירת המסמך נכשלה");
+    }
+  }, []);
+
+  /**
+   * Save pending changes immediately (before switching stores or leaving the page)
+   */
+  const flushPendingSaves = useCallback(() => {
+    const pending = Array.from(pendingSavesRef.current.keys());
+    pendingSavesRef.current.forEach((timeout) => clearTimeout(timeout));
+    pendingSavesRef.current.clear();
+    return Promise.all(
+      pending
+        .map((id) => documentsRef.current.find((document) => document.id === id))
+        .filter((document): document is LibraryDocument => !!document)
+        .map(saveNow)
+    );
+  }, [saveNow]);
+
+  const scheduleSave = useCallback((id: string) => {
+    const pending = pendingSavesRef.current;
+    const existing = pending.get(id);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    pending.set(
+      id,
+      setTimeout(() => {
+        pending.delete(id);
+        const document = documentsRef.current.find((item) => item.id === id);
+        if (document) {
+          saveNow(document);
+        }
+      }, SAVE_DELAY_MS)
+    );
+  }, [saveNow]);
+
+  /**
+   * Delete a recording no longer attached to any document (copies share their recording)
+   */
+  const releaseAudio = useCallback(async (audio: DocumentAudio | null) => {
+    if (!audio || documentsRef.current.some((document) => document.audio?.id === audio.id)) return;
+    try {
+      await deleteDocumentAudio(audio);
+    } catch (err) {
+      console.warn("[Documents] Failed to delete recording:", err);
+    }
+  }, []);
+
+  const selectDocument = useCallback((id: string) => {
+    setActiveDocumentId(id);
+    try {
+      localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+    } catch (err) {
+      console.warn("[Documents] Failed to save active document:", err);
+    }
+  }, []);
+
+  /**
+   * Load the current user's library
+   * The text saved before the library existed becomes the first document; an
+   * empty library gets an empty document so there is always one to type in.
+   */
+  const loadLibrary = useCallback(() => {
+    loadingRef.current ??= (async () => {
+      await flushPendingSaves();
+      const { store, storage: loadedStorage } = await getDocumentStore();
+      storeRef.current = store;
+
+      let loaded: LibraryDocument[];
+      try {
+        loaded = await store.list();
+      } catch (err) {
+        console.error("[Documents] Failed to load documents:", err);
+        setError("טעינת המסמכים נכשלה");
+        storeRef.current = localDocumentStore;
+        loaded = await localDocumentStore.list();
+      }
+
+      if (loaded.length === 0) {
+        const legacyText = localStorage.getItem(LEGACY_TEXT_KEY) || "";
+        const first = createNewDocument({ text: legacyText });
+        await saveNow(first);
+        localStorage.removeItem(LEGACY_TEXT_KEY);
+        loaded = [first];
+      }
+
+      setLibrary(loaded);
+      setStorage(storeRef.current === localDocumentStore ? "local" : loadedStorage);
+      const savedActiveId = localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+      selectDocument(loaded.some((document) => document.id === savedActiveId) ? savedActiveId! : loaded[0].id);
+      setIsLoaded(true);
+    })().finally(() => {
+      loadingRef.current = null;
+    });
+    return loadingRef.current;
+  }, [flushPendingSaves, saveNow, selectDocument, setLibrary]);
+
+  // Load the library on mount and again when the user signs in or out
+  useEffect(() => {
+    loadLibrary();
+
+    let supabase: ReturnType<typeof createClient>;
+    try {
+      supabase = createClient();
+    } catch {
+      // Supabase is not configured - documents stay in this browser
+      return;
+    }
+
+    let userId: string | null | undefined;
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      const nextUserId = session?.user?.id ?? null;
+      if (event === "INITIAL_SESSION") {
+        userId = nextUserId;
+      } else if (userId !== undefined && nextUserId !== userId) {
+        userId = nextUserId;
+        loadLibrary();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadLibrary]);
+
+  // Save pending changes when the page is closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushPendingSaves();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      flushPendingSaves();
+    };
+  }, [flushPendingSaves]);
+
+  /**
+   * Change a document (saved after a short delay)
+   */
+  const updateDocument = useCallback((id: string, changes: DocumentChanges) => {
+    const current = documentsRef.current.find((document) => document.id === id);
+    if (!current) return;
+
+    const updated = applyDocumentChanges(current, changes);
+    if (updated === current) return;
+
+    setLibrary(documentsRef.current.map((document) => (document.id === id ? updated : document)));
+    scheduleSave(id);
+  }, [scheduleSave, setLibrary]);
+
+  /**
+   * Create a document and open it
+   */
+  const createDocument = useCallback(async (fields: DocumentChanges = {}) => {
+    const document = createNewDocument(fields);
+    setLibrary([document, ...documentsRef.current]);
+    selectDocument(document.id);
+    await saveNow(document);
+    return document;
+  }, [saveNow, selectDocument, setLibrary]);
+
+  const renameDocument = useCallback((id: string, title: string) => {
+    updateDocument(id, { title: title.trim() });
+  }, [updateDocument]);
+
+  const moveDocument = useCallback((id: string, folder: string) => {
+    updateDocument(id, { folder: folder.trim() });
+  }, [updateDocument]);
+
+  const setDocumentTags = useCallback((id: string, tags: string[]) => {
+    updateDocument(id, { tags: normalizeTags(tags) });
+  }, [updateDocument]);
+
+  /**
+   * Copy a document (with its niqqud, syllables and position) and open the copy
+   */
+  const duplicateDocument = useCallback(async (id: string) => {
+    const source = documentsRef.current.find((document) => document.id === id);
+    if (!source) return null;
+
+    const copy = duplicateLibraryDocument(source, `${getDocumentTitle(source)} (עותק)`);
+    setLibrary([copy, ...documentsRef.current]);
+    selectDocument(copy.id);
+    await saveNow(copy);
+    return copy;
+  }, [saveNow, selectDocument, setLibrary]);
+
+  /**
+   * Delete a document
+   * When the open document is deleted, the most recently changed one is opened
+   * instead (or a new empty document when none is left).
+   */
+  const deleteDocument = useCallback(async (id: string) => {
+    const pending = pendingSavesRef.current.get(id);
+    if (pending) {
+      clearTimeout(pending);
+      pendingSavesRef.current.delete(id);
+    }
+
+    const deleted = documentsRef.current.find((document) => document.id === id);
+    const remaining = documentsRef.current.filter((document) => document.id !== id);
+    setLibrary(remaining);
+    releaseAudio(deleted?.audio ?? null);
+    try {
+      await storeRef.current.delete(id);
+    } catch (err) {
+      console.error("[Documents] Failed to delete document:", err);
+      setError("מחיקת המסמך נכשלה");
+    }
+
+    if (id === activeDocumentId) {
+      if (remaining.length > 0) {
+        selectDocument(sortDocumentsByUpdate(remaining)[0].id);
+      } else {
+        await createDocument();
+      }
+    }
+  }, [activeDocumentId, createDocument, releaseAudio, selectDocument, setLibrary]);
+
+  const addBookmark = useCallback((id: string, bookmark: ReadingBookmark) => {
+    const document = documentsRef.current.find((item) => item.id === id);
+    if (document) {
+      updateDocument(id, { bookmarks: [...document.bookmarks, bookmark] });
+    }
+  }, [updateDocument]);
+
+  const renameBookmark = useCallback((id: string, bookmarkId: string, name: string) => {
+    const document = documentsRef.current.find((item) => item.id === id);
+    if (document && name.trim()) {
+      updateDocument(id, {
+        bookmarks: document.bookmarks.map((bookmark) =>
+          bookmark.id === bookmarkId ? { ...bookmark, name: name.trim() } : bookmark
+        ),
+      });
+    }
+  }, [updateDocument]);
+
+  const deleteBookmark = useCallback((id: string, bookmarkId: string) => {
+    const document = documentsRef.current.find((item) => item.id === id);
+    if (document) {
+      updateDocument(id, { bookmarks: document.bookmarks.filter((bookmark) => bookmark.id !== bookmarkId) });
+    }
+  }, [updateDocument]);
+
+  /**
+   * Attach a recording to a document, replacing its recording and timings
+   * @returns An error message, or null when the recording was attached
+   */
+  const attachAudio = useCallback(async (id: string, file: File) => {
+    const previous = documentsRef.current.find((document) => document.id === id)?.audio ?? null;
+    let audio: DocumentAudio;
+    try {
+      audio = await saveDocumentAudio(file);
+    } catch (err) {
+      console.error("[Documents] Failed to save recording:", err);
+      return err instanceof Error ? err.message : "שמירת ההקלטה נכשלה";
+    }
+    updateDocument(id, { audio, wordTimings: [] });
+    await releaseAudio(previous);
+    return null;
+  }, [releaseAudio, updateDocument]);
+
+  const removeAudio = useCallback(async (id: string) => {
+    const previous = documentsRef.current.find((document) => document.id === id)?.audio ?? null;
+    updateDocument(id, { audio: null, wordTimings: [] });
+    await releaseAudio(previous);
+  }, [releaseAudio, updateDocument]);
+
+  const setWordTimings = useCallback((id: string, wordTimings: WordTiming[]) => {
+    updateDocument(id, { wordTimings });
+  }, [updateDocument]);
+
+  const activeDocument = documents.find((document) => document.id === activeDocumentId) ?? null;
+
+  return {
+    documents,
+    activeDocument,
+    activeDocumentId,
+    storage, // "supabase" for signed-in users, "local" otherwise
+    isLoaded,
+    error,
+    selectDocument,
+    createDocument,
+    updateDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    moveDocument,
+    setDocumentTags,
+    addBookmark,
+    renameBookmark,
+    deleteBookmark,
+    attachAudio,
+    removeAudio,
+    setWordTimings,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Custom hook for the undo/redo history of the home page
+ * The page records a snapshot before every edit and restores the snapshots this
+ * hook returns on undo and redo (lib/edit-history.ts).
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  EditHistory,
+  EditHistoryEntry,
+  EditSnapshot,
+  EMPTY_EDIT_HISTORY,
+  loadEditHistory,
+  MergeableEdit,
+  pushEdit,
+  redoEdit,
+  saveEditHistory,
+  shouldMergeEdit,
+  SyllableOverrideChange,
+  undoEdit,
+} from "@/lib/edit-history";
+
+export function useEditHistory(documentId: string | null) {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+
+  // Latest history and document for the handlers (several edits may be recorded in one render)
+  const historyRef = useRef(history);
+  const documentIdRef = useRef(documentId);
+  // Label and start of the last recorded entry, for merging
+  const lastEditRef = useRef<MergeableEdit | null>(null);
+
+  const update = useCallback((next: EditHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+    saveEditHistory(documentIdRef.current, next);
+  }, []);
+
+  // Load the session's history of the open document
+  useEffect(() => {
+    documentIdRef.current = documentId;
+    historyRef.current = loadEditHistory(documentId);
+    lastEditRef.current = null;
+    setHistory(historyRef.current);
+  }, [documentId]);
+
+  /**
+   * Record the state before an edit
+   * @param options.merge - Merge with the previous edit of the same label made just before
+   * @param options.syllableOverride - Change the edit makes to the syllable dictionary
+   */
+  const record = useCallback((
+    label: string,
+    snapshot: EditSnapshot,
+    options: { merge?: boolean; syllableOverride?: SyllableOverrideChange } = {}
+  ) => {
+    const now = Date.now();
+    if (options.merge && shouldMergeEdit(lastEditRef.current, label, now)) {
+      return;
+    }
+    lastEditRef.current = { label, startedAt: now };
+    const entry: EditHistoryEntry = { label, snapshot };
+    if (options.syllableOverride) {
+      entry.syllableOverride = options.syllableOverride;
+    }
+    update(pushEdit(historyRef.current, entry));
+  }, [update]);
+
+  /**
+   * Undo the latest edit
+   * @returns The entry whose snapshot to restore, or null when there is nothing to undo
+   */
+  const undo = useCallback((current: EditSnapshot): EditHistoryEntry | null => {
+    const result = undoEdit(historyRef.current, current);
+    if (!result) return null;
+    lastEditRef.current = null;
+    update(result.history);
+    return result.entry;
+  }, [update]);
+
+  /**
+   * Redo the latest undone edit
+   * @returns The entry whose snapshot to restore, or null when there is nothing to redo
+   */
+  const redo = useCallback((current: EditSnapshot): EditHistoryEntry | null => {
+    const result = redoEdit(historyRef.current, current);
+    if (!result) return null;
+    lastEditRef.current = null;
+    update(result.history);
+    return result.entry;
+  }, [update]);
+
+  return {
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    record,
+    undo,
+    redo,
+  };
+}
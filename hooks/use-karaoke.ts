@@ -0,0 +1,236 @@
+/**
+ * Custom hook for karaoke playback of a document's recording
+ * Plays the recording with the highlight following the word timings, and
+ * creates the timings by tapping each word while the recording plays.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { loadDocumentAudio } from "@/lib/document-audio";
+import {
+  addTapMark,
+  DocumentAudio,
+  finishTapMarks,
+  getWordAtTime,
+  removeLastTapMark,
+  WordTiming,
+} from "@/lib/karaoke";
+
+export type KaraokeStatus = "idle" | "playing" | "paused" | "marking";
+
+interface UseKaraokeOptions {
+  /** Recording of the open document */
+  audio: DocumentAudio | null;
+  /** Saved word timings of the open document */
+  timings: WordTiming[];
+  /** Words in the text (taps after the last word are ignored) */
+  wordCount: number;
+  /** Move the highlight to a word */
+  onWord: (wordIndex: number) => void;
+  /** Save the timings marked by tapping */
+  onTimingsChange: (timings: WordTiming[]) => void;
+}
+
+export function useKaraoke({ audio, timings, wordCount, onWord, onTimingsChange }: UseKaraokeOptions) {
+  const [status, setStatus] = useState<KaraokeStatus>("idle");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAudioMissing, setIsAudioMissing] = useState(false);
+  const [markedCount, setMarkedCount] = useState(0);
+
+  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const lastWordRef = useRef<number | null>(null);
+  const marksRef = useRef<WordTiming[]>([]);
+  const statusRef = useRef<KaraokeStatus>("idle");
+
+  // Latest values for the playback loop and audio events
+  const timingsRef = useRef(timings);
+  const wordCountRef = useRef(wordCount);
+  const onWordRef = useRef(onWord);
+  const onTimingsChangeRef = useRef(onTimingsChange);
+  timingsRef.current = timings;
+  wordCountRef.current = wordCount;
+  onWordRef.current = onWord;
+  onTimingsChangeRef.current = onTimingsChange;
+
+  const updateStatus = useCallback((next: KaraokeStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const stopFollowing = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Move the highlight to the word being read, on every frame while playing
+   * (timeupdate events are too far apart for short words)
+   */
+  const followPlayback = useCallback(() => {
+    const element = audioElementRef.current;
+    if (!element) return;
+    const wordIndex = getWordAtTime(timingsRef.current, element.currentTime);
+    if (wordIndex !== null && wordIndex !== lastWordRef.current) {
+      lastWordRef.current = wordIndex;
+      onWordRef.current(wordIndex);
+    }
+    frameRef.current = requestAnimationFrame(followPlayback);
+  }, []);
+
+  /**
+   * Save the marked timings and stop marking
+   */
+  const finishMarking = useCallback(() => {
+    const element = audioElementRef.current;
+    element?.pause();
+    const marked = finishTapMarks(marksRef.current, element?.currentTime ?? 0);
+    marksRef.current = [];
+    setMarkedCount(0);
+    updateStatus("idle");
+    if (marked.length > 0) {
+      onTimingsChangeRef.current(marked);
+    }
+  }, [updateStatus]);
+
+  // Load the recording of the open document
+  useEffect(() => {
+    updateStatus("idle");
+    setIsAudioMissing(false);
+    if (!audio) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+    setIsLoading(true);
+    loadDocumentAudio(audio)
+      .then((blob) => {
+        if (cancelled) return;
+        if (!blob) {
+          setIsAudioMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        const element = new Audio(url);
+        element.onended = () => {
+          if (statusRef.current === "marking") {
+            finishMarking();
+          } else {
+            stopFollowing();
+            updateStatus("idle");
+          }
+        };
+        audioElementRef.current = element;
+      })
+      .catch((error) => {
+        console.error("[Karaoke] Failed to load the recording:", error);
+        if (!cancelled) setIsAudioMissing(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopFollowing();
+      audioElementRef.current?.pause();
+      audioElementRef.current = null;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [audio, finishMarking, stopFollowing, updateStatus]);
+
+  /**
+   * Play the recording with the highlight following the timings
+   */
+  const play = useCallback(() => {
+    const element = audioElementRef.current;
+    if (!element || statusRef.current === "marking") return;
+    if (statusRef.current === "idle") {
+      element.currentTime = 0;
+      lastWordRef.current = null;
+    }
+    element.play().then(
+      () => {
+        updateStatus("playing");
+        followPlayback();
+      },
+      (error) => console.warn("[Karaoke] Failed to play the recording:", error)
+    );
+  }, [followPlayback, updateStatus]);
+
+  const pause = useCallback(() => {
+    stopFollowing();
+    audioElementRef.current?.pause();
+    if (statusRef.current === "playing") {
+      updateStatus("paused");
+    }
+  }, [stopFollowing, updateStatus]);
+
+  /**
+   * Stop playing or marking (marked timings are saved)
+   */
+  const stop = useCallback(() => {
+    if (statusRef.current === "marking") {
+      finishMarking();
+      return;
+    }
+    stopFollowing();
+    audioElementRef.current?.pause();
+    updateStatus("idle");
+  }, [finishMarking, stopFollowing, updateStatus]);
+
+  /**
+   * Play the recording from the start and mark each word by tapping
+   */
+  const startMarking = useCallback(() => {
+    const element = audioElementRef.current;
+    if (!element) return;
+    stopFollowing();
+    element.currentTime = 0;
+    marksRef.current = [];
+    setMarkedCount(0);
+    element.play().then(
+      () => updateStatus("marking"),
+      (error) => console.warn("[Karaoke] Failed to play the recording:", error)
+    );
+  }, [stopFollowing, updateStatus]);
+
+  /**
+   * Mark that the next word starts now
+   */
+  const mark = useCallback(() => {
+    const element = audioElementRef.current;
+    if (!element || statusRef.current !== "marking") return;
+    const marked = addTapMark(marksRef.current, element.currentTime, wordCountRef.current);
+    if (marked === marksRef.current) return;
+    marksRef.current = marked;
+    setMarkedCount(marked.length);
+    onWordRef.current(marked[marked.length - 1].wordIndex);
+  }, []);
+
+  /**
+   * Take back the last mark (tapped too early)
+   */
+  const undoMark = useCallback(() => {
+    if (statusRef.current !== "marking" || marksRef.current.length === 0) return;
+    marksRef.current = removeLastTapMark(marksRef.current);
+    setMarkedCount(marksRef.current.length);
+    const last = marksRef.current[marksRef.current.length - 1];
+    if (last) {
+      onWordRef.current(last.wordIndex);
+    }
+  }, []);
+
+  return {
+    status,
+    isLoading,
+    isAudioMissing, // The recording is not in this browser or the user's storage
+    markedCount,
+    play,
+    pause,
+    stop,
+    startMarking,
+    mark,
+    undoMark,
+  };
+}
@@ -4,8 +4,12 @@
 
 import { useState, useCallback, useEffect, useRef } from "react";
 import { detectNiqqud, removeNiqqud, hasNiqqud as checkHasNiqqud } from "@/lib/niqqud";
-import { addNiqqud as addNiqqudService } from "@/services/niqqud-service";
+import { requestNiqqud, ModelProgress } from "@/lib/model-proxy-client";
+import { overlayStreamedWords } from "@/lib/streaming-preview";
 import { getSettings, SETTINGS_KEYS } from "@/lib/settings";
+import { loadNiqqudFromCache, saveNiqqudToCache } from "@/lib/niqqud-cache";
+import { pushProcessedTexts } from "@/lib/processed-texts-sync";
+import type { ConsonantMismatch } from "@/lib/consonant-guard";
 
 // Debug: Verify imports
 if (typeof checkHasNiqqud !== "function") {
@@ -18,7 +22,7 @@ if (typeof removeNiqqud !== "function") {
 interface NiqqudCache {
   original: string;     // Original text as entered (may have partial/full/no niqqud)
   clean: string;        // Text without any niqqud
-  full: string | null;  // Fully niqqud-ed text from model (null if not yet requested)
+  full: string | null;  // Fully niqqud-ed text from model or niqqud cache (null if not available)
 }
 
 type DisplayMode = 'original' | 'clean' | 'full';
@@ -30,6 +34,13 @@ export function useNiqqud(initialText: string = "") {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const previousTextRef = useRef<string>(initialText);
+  // Text shown while the model response is streaming (null when not streaming)
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Chunks finished so far when a long text is sent in chunks (null otherwise)
+  const [progress, setProgress] = useState<ModelProgress | null>(null);
+  // Words of the last result whose letters the model changed (restored by the server), for the review
+  const [consonantMismatches, setConsonantMismatches] = useState<ConsonantMismatch[]>([]);
 
   const [targetState, setTargetState] = useState<'original' | 'full'>('original');
   
@@ -218,6 +229,25 @@ export function useNiqqud(initialText: string = "") {
     }
   }, [cache]);
 
+  // Fill in the full niqqud version from the niqqud cache: results of earlier
+  // requests for the same text, or synced from the user's other devices
+  useEffect(() => {
+    if (!cache || cache.full) return;
+
+    const original = cache.original;
+    let cancelled = false;
+    loadNiqqudFromCache(original).then((full) => {
+      if (cancelled || !full) return;
+      setCache((current) =>
+        current && current.original === original && !current.full ? { ...current, full } : current
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cache]);
+
   // Save last display state to localStorage whenever it changes
   useEffect(() => {
     if (typeof window === 'undefined') return; // Server-side check
@@ -271,17 +301,10 @@ export function useNiqqud(initialText: string = "") {
     try {
       const settings = getSettings();
 
-      const apiKey = settings.niqqudApiKey || settings.apiKey;
       const model = settings.niqqudModel || settings.model;
       const systemPrompt = settings.niqqudSystemPrompt;
       const userPrompt = settings.niqqudUserPrompt;
 
-      if (!apiKey) {
-        setError("אנא הגדר API Key בהגדרות");
-        setIsLoading(false);
-        return null;
-      }
-
       if (!model) {
         setError("אנא בחר מודל שפה בהגדרות");
         setIsLoading(false);
@@ -303,14 +326,43 @@ export function useNiqqud(initialText: string = "") {
         return cache.full; // Return the cached full niqqud text
       }
 
-      // Call API to add niqqud
-      const result = await addNiqqudService(currentText, {
-        apiKey,
-        model,
-        temperature: settings.niqqudTemperature,
-        systemPrompt,
-        userPrompt,
-      });
+      // Call the server route to add niqqud (the API key is resolved on the server)
+      // The response is streamed: vocalized words replace the original words as they arrive
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      let streamed = "";
+
+      const result = await requestNiqqud(
+        currentText,
+        {
+          model,
+          temperature: settings.niqqudTemperature,
+          systemPrompt,
+          userPrompt,
+        },
+        {
+          signal: abortController.signal,
+          onDelta: (delta) => {
+            streamed += delta;
+            setStreamingText(overlayStreamedWords(currentText, streamed));
+          },
+          onReplace: (text) => {
+            streamed = text;
+            setStreamingText(overlayStreamedWords(currentText, streamed));
+          },
+          onProgress: (completed, total) => setProgress({ completed, total }),
+        }
+      );
+
+      abortControllerRef.current = null;
+      setStreamingText(null);
+      setProgress(null);
+
+      if (abortController.signal.aborted) {
+        console.log("[useNiqqud] addNiqqud cancelled by user");
+        setIsLoading(false);
+        return null;
+      }
 
       if (!result.success || !result.niqqudText) {
         console.error("[useNiqqud] addNiqqud API call failed", {
@@ -361,6 +413,10 @@ export function useNiqqud(initialText: string = "") {
         full: result.niqqudText,
       };
       setCache(newCache);
+      setConsonantMismatches(result.mismatches ?? []);
+
+      // Keep the result for this text and upload it to the user's account (signed-in users only)
+      saveNiqqudToCache(currentText, result.niqqudText).then(() => pushProcessedTexts());
 
       // After getting result from model, restore to the last display state
       // If no lastDisplayState exists, default to 'full' since we just added niqqud
@@ -387,6 +443,9 @@ export function useNiqqud(initialText: string = "") {
       // This avoids the React state closure issue where cache might not be updated yet
       return result.niqqudText;
     } catch (err) {
+      abortControllerRef.current = null;
+      setStreamingText(null);
+      setProgress(null);
       console.error("[useNiqqud] Unexpected error in addNiqqud", err);
       setError(
         err instanceof Error ? err.message : "שגיאה לא צפויה בהוספת ניקוד"
@@ -396,6 +455,11 @@ export function useNiqqud(initialText: string = "") {
     }
   }, [text, cache, displayMode, lastDisplayState]);
 
+  // Cancel a running addNiqqud request (the text stays as it was before the request)
+  const cancelNiqqud = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   // Remove niqqud from text
   const removeNiqqudFromText = useCallback(() => {
     const currentText = text;
@@ -495,6 +559,43 @@ export function useNiqqud(initialText: string = "") {
     }
   }, [cache]);
 
+  // Replace the full niqqud version after the user reviewed it word by word
+  // The original and clean versions are unchanged; the displayed text follows only
+  // when the full version is currently shown
+  const applyFullNiqqud = useCallback((fullText: string) => {
+    if (!cache) return;
+    setCache({ ...cache, full: fullText });
+    // The reviewer has decided on the restored words
+    setConsonantMismatches([]);
+    saveNiqqudToCache(cache.original, fullText).then(() => pushProcessedTexts());
+    if (displayMode === 'full') {
+      setText(fullText);
+    }
+  }, [cache, displayMode]);
+
+  // Show a document's saved niqqud versions in its saved display mode (opening a document)
+  // Returns the displayed text; previousTextRef is updated so the versions are not
+  // replaced by a new cache when the caller passes that text back as initialText
+  const restoreVersions = useCallback((versions: NiqqudCache | null, mode: DisplayMode): string => {
+    const displayed = !versions
+      ? ""
+      : mode === 'full' && versions.full
+        ? versions.full
+        : mode === 'clean'
+          ? versions.clean
+          : versions.original;
+
+    previousTextRef.current = displayed;
+    setText(displayed);
+    setCache(versions);
+    setConsonantMismatches([]);
+    setError(null);
+    setDisplayMode(versions && displayed === versions.full ? 'full' : mode === 'clean' ? 'clean' : 'original');
+    setTargetState(versions && (versions.full || detectNiqqud(versions.original) === 'none') ? 'full' : 'original');
+    setLastDisplayState(versions ? mode : null);
+    return displayed;
+  }, []);
+
   // Restore last display state
   const restoreLastDisplayState = useCallback(() => {
     if (lastDisplayState && cache) {
@@ -572,6 +673,7 @@ export function useNiqqud(initialText: string = "") {
   // Clear niqqud cache and reset state
   const clearNiqqud = useCallback(() => {
     setCache(null);
+    setConsonantMismatches([]);
     setError(null);
     setDisplayMode('original');
     setTargetState('original');
@@ -604,16 +706,22 @@ export function useNiqqud(initialText: string = "") {
     lastDisplayState,
     setLastDisplayState, // Exposed to allow setting initial display state when text is first entered
     cache, // Exposed to allow component to check cache state for button disabled logic
+    consonantMismatches, // Words the model changed in the last result, shown in the niqqud review
     isLoading,
+    streamingText, // Partial result while the model response is streaming
+    progress, // Chunk progress while a long text is processed
     error,
     getButtonText,
     toggleNiqqud,
     addNiqqud,
+    cancelNiqqud,
     completeNiqqud,
     removeNiqqud: removeNiqqudFromText,
     switchToOriginal,
     switchToClean,
     switchToFull,
+    applyFullNiqqud,
+    restoreVersions, // Load a document's niqqud versions and display mode
     restoreLastDisplayState,
     clearNiqqud,
     clearError: () => setError(null),
@@ -0,0 +1,38 @@
+/**
+ * Custom hook that syncs the local niqqud and syllables caches with the
+ * signed-in user's account (on page load and after signing in)
+ */
+
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { syncProcessedTexts, ProcessedTextsSyncResult } from "@/lib/processed-texts-sync";
+
+export function useProcessedTextsSync() {
+  const [lastSync, setLastSync] = useState<ProcessedTextsSyncResult | null>(null);
+
+  useEffect(() => {
+    let supabase: ReturnType<typeof createClient>;
+    try {
+      supabase = createClient();
+    } catch {
+      // Supabase is not configured - results stay on this device
+      return;
+    }
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (session?.user && (event === "INITIAL_SESSION" || event === "SIGNED_IN")) {
+        syncProcessedTexts().then((result) => {
+          if (result) {
+            setLastSync(result);
+          }
+        });
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return lastSync;
+}
@@ -0,0 +1,87 @@
+/**
+ * Custom hook for text-to-speech in the reading view
+ * Speaks single elements (the highlighted word or syllable) and whole passages
+ * (auto-read), reporting the word being spoken so the highlight can follow it.
+ */
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import { getSettings } from "@/lib/settings";
+import { buildSpeechPassage, getPassageWordIndex, getTtsAdapter, TTS_LANG, TtsSpeakOptions } from "@/lib/tts";
+
+export function useSpeech() {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isAutoReading, setIsAutoReading] = useState(false);
+  const [speakVocalized, setSpeakVocalized] = useState(true);
+  const optionsRef = useRef<TtsSpeakOptions>({ lang: TTS_LANG, rate: 1, pitch: 1 });
+
+  // Speech settings are read when the reading view loads
+  useEffect(() => {
+    const settings = getSettings();
+    optionsRef.current = {
+      voiceId: settings.ttsVoice,
+      lang: TTS_LANG,
+      rate: settings.ttsRate,
+      pitch: settings.ttsPitch,
+    };
+    setSpeakVocalized(settings.ttsSpeakVocalized);
+
+    const adapter = getTtsAdapter();
+    setIsSupported(adapter.isSupported());
+    // Load the voices early, so the saved voice is found on the first utterance
+    adapter.getVoices().catch((error) => console.warn("[Speech] Failed to load voices:", error));
+    return () => adapter.cancel();
+  }, []);
+
+  /**
+   * Speak a word or syllable (replaces anything being spoken)
+   */
+  const speak = useCallback((text: string) => {
+    const adapter = getTtsAdapter();
+    if (!text.trim() || !adapter.isSupported()) return;
+    adapter.speak(text, optionsRef.current, {
+      onError: (error) => console.warn("[Speech] Failed to speak:", error),
+    });
+  }, []);
+
+  /**
+   * Read the text aloud from a word to the end
+   * @param speechWords - Words of the text to speak
+   * @param firstWordIndex - Word to start from
+   * @param onWord - Called with the index of each word as it is spoken
+   */
+  const startAutoRead = useCallback(
+    (speechWords: string[], firstWordIndex: number, onWord: (wordIndex: number) => void) => {
+      const adapter = getTtsAdapter();
+      const passage = buildSpeechPassage(speechWords, firstWordIndex);
+      if (!passage.text.trim() || !adapter.isSupported()) return;
+
+      setIsAutoReading(true);
+      adapter.speak(passage.text, optionsRef.current, {
+        onBoundary: (boundary) => onWord(getPassageWordIndex(passage, boundary.charIndex)),
+        onEnd: () => setIsAutoReading(false),
+        onError: (error) => {
+          console.warn("[Speech] Auto-read failed:", error);
+          setIsAutoReading(false);
+        },
+      });
+    },
+    []
+  );
+
+  /**
+   * Stop speaking
+   */
+  const stop = useCallback(() => {
+    getTtsAdapter().cancel();
+    setIsAutoReading(false);
+  }, []);
+
+  return {
+    isSupported,
+    isAutoReading,
+    speakVocalized,
+    speak,
+    startAutoRead,
+    stop,
+  };
+}
@@ -3,18 +3,101 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from "react";
-import { divideIntoSyllables } from "@/services/syllables-service";
+import { requestSyllables, ModelProgress } from "@/lib/model-proxy-client";
+import { parsePartialSyllablesResponse } from "@/lib/streaming-preview";
 import {
+  AnchoredSyllablesData,
   SyllablesData,
+  syllabifyText,
+  findSyllableDisagreements,
+  anchorSyllablesData,
+} from "@/lib/syllables";
+import {
   saveSyllablesToCache,
   loadSyllablesFromCache,
   clearSyllablesCache,
-  clearAllSyllablesCache,
-  loadSyllablesCacheFromStorage,
-  saveSyllablesCacheToStorage,
-} from "@/lib/syllables";
-import { getSettings } from "@/lib/settings";
-import { removeNiqqud } from "@/lib/niqqud";
+} from "@/lib/syllables-cache";
+import { pushProcessedTexts } from "@/lib/processed-texts-sync";
+import { getSettings, getSyllableOverrides } from "@/lib/settings";
+import { applySyllableOverrides, SyllableOverrides } from "@/lib/syllable-overrides";
+import { removeNiqqud, isFullyNiqqud } from "@/lib/niqqud";
+
+/**
+ * Find cached syllables for a text, falling back to its niqqud-free version
+ * Syllable division is based on the niqqud text, so both versions share a result.
+ * A hit on the clean version is also saved for the text itself to speed up future lookups.
+ */
+async function findCachedSyllables(text: string): Promise<AnchoredSyllablesData | null> {
+  const cached = await loadSyllablesFromCache(text);
+  if (cached) {
+    return cached;
+  }
+
+  const textWithoutNiqqud = removeNiqqud(text);
+  if (textWithoutNiqqud === text) {
+    return null;
+  }
+
+  const cleanCached = await loadSyllablesFromCache(textWithoutNiqqud);
+  if (cleanCached) {
+    console.log("[useSyllables] Found cache for clean text version");
+    await saveSyllablesToCache(text, cleanCached);
+  }
+  return cleanCached;
+}
+
+/**
+ * Save syllables data for a text and its other versions
+ * The text is the one divided (or corrected); the data is also saved for its
+ * clean version and for the additional keys (e.g. partial niqqud text), so it
+ * is found whichever version is displayed.
+ */
+async function saveSyllablesForVersions(
+  currentText: string,
+  data: SyllablesData,
+  additionalCacheKeys?: string[]
+): Promise<void> {
+  // Save to cache for the current text (with niqqud if present)
+  // This is the text that was sent to the model, so this is the canonical cache entry
+  await saveSyllablesToCache(currentText, data);
+
+  // IMPORTANT: Also save to cache for the clean text version (without niqqud)
+  // This ensures syllables data remains accessible when user toggles niqqud on/off
+  // Without this, removing niqqud would cause syllablesData to be cleared
+  // because the cache lookup wouldn't find the clean text version
+  const cleanText = removeNiqqud(currentText);
+  if (cleanText !== currentText) {
+    console.log("[useSyllables] Also saving cache for clean text version");
+    await saveSyllablesToCache(cleanText, data);
+  }
+
+  // Save additional cache keys if provided (e.g. for partial niqqud text)
+  // This ensures that when user switches back to partial niqqud, the syllables data is found
+  for (const key of additionalCacheKeys ?? []) {
+    if (key && key !== currentText && key !== cleanText) {
+      console.log("[useSyllables] Saving additional cache key:", key.substring(0, 20) + "...");
+      await saveSyllablesToCache(key, data);
+
+      // Also save clean version of the key if different
+      const cleanKey = removeNiqqud(key);
+      if (cleanKey !== key && cleanKey !== cleanText) {
+        await saveSyllablesToCache(cleanKey, data);
+      }
+    }
+  }
+}
+
+/**
+ * Clear the cached syllables of a text and its other versions
+ * Only the versions saved by saveSyllablesForVersions are removed; the cached
+ * syllables of other texts are kept.
+ */
+async function clearSyllablesForVersions(texts: string[]): Promise<void> {
+  const keys = new Set(texts.flatMap((text) => [text, removeNiqqud(text)]).filter((text) => text.trim()));
+  for (const key of keys) {
+    await clearSyllablesCache(key);
+  }
+}
 
 export function useSyllables(initialText: string = "") {
   const [syllablesData, setSyllablesData] = useState<SyllablesData | null>(
@@ -25,109 +108,53 @@ export function useSyllables(initialText: string = "") {
   const [error, setError] = useState<string | null>(null);
   const [rawResponse, setRawResponse] = useState<string | null>(null);
   const previousTextRef = useRef<string>(initialText);
-
-  // Load syllables cache from centralized storage on mount
-  useEffect(() => {
-    if (typeof window === 'undefined') return; // Server-side check
-    
-    try {
-      loadSyllablesCacheFromStorage();
-    } catch (error) {
-      console.error("[useSyllables] Failed to load cache from storage:", error);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Only on mount
+  // Syllables of the words received so far while the model response is streaming
+  const [streamingSyllablesData, setStreamingSyllablesData] = useState<SyllablesData | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Chunks finished so far when a long text is sent in chunks (null otherwise)
+  const [progress, setProgress] = useState<ModelProgress | null>(null);
 
   /**
-   * Handle text changes (user typing/pasting or niqqud mode changes)
-   * 
-   * When text changes, we need to:
+   * Load syllables from cache on mount or text change
+   *
+   * When text changes (user typing/pasting or niqqud mode changes):
    * 1. Check if cache exists for the new text (exact match or clean version)
    * 2. If found → LOAD it into syllablesData (not just keep existing)
-   * 3. If not found → clear syllablesData only if it was for a completely different text
-   * 
-   * This ensures syllables persist when user toggles niqqud on/off,
-   * but are cleared when user types completely new text.
+   * 3. If not found → clear syllablesData, since it was for a different text
+   *
+   * This ensures syllables persist when user toggles niqqud on/off (keeping
+   * the "הברות" option available in the dropdown), but are cleared when user
+   * types completely new text. The cache is read asynchronously; a lookup is
+   * ignored if the text changed again before it finished.
    */
   useEffect(() => {
-    if (initialText !== previousTextRef.current) {
-      previousTextRef.current = initialText;
-      
-      // Try to find cached syllables data for the new text
-      let cached = loadSyllablesFromCache(initialText);
-      
-      // If not found for exact text, try the clean (no niqqud) version
-      // This handles cases where:
-      // - User added niqqud: cache exists for clean text, need to find it
-      // - User removed niqqud: cache exists for niqqud text, need to find clean version
-      if (!cached) {
-        const textWithoutNiqqud = removeNiqqud(initialText);
-        if (textWithoutNiqqud !== initialText) {
-          cached = loadSyllablesFromCache(textWithoutNiqqud);
-          if (cached) {
-            console.log("[useSyllables] Found cache for clean text version, loading it");
-            // Also save for current text to speed up future lookups
-            saveSyllablesToCache(initialText, cached);
-          }
-        }
+    const textChanged = initialText !== previousTextRef.current;
+    previousTextRef.current = initialText;
+
+    if (!initialText || initialText.trim().length === 0) {
+      // Empty text - clear everything
+      setSyllablesData(null);
+      setIsActive(false);
+      return;
+    }
+
+    let cancelled = false;
+    findCachedSyllables(initialText).then((cached) => {
+      if (cancelled) {
+        return;
       }
-      
       if (cached) {
-        // Cache found - load the syllables data
-        // This keeps the "הברות" option available in the dropdown
+        // Don't auto-activate isActive - user must click button to activate
         setSyllablesData(cached);
-        // Note: Don't auto-activate isActive - user must click button to activate
-      } else if (syllablesData) {
-        // No cache found and we had syllables data - text changed significantly
-        // Clear syllables data since it's for a different text
-        console.log("[useSyllables] No cache found for new text, clearing syllables data");
+      } else if (textChanged) {
         setSyllablesData(null);
         setIsActive(false);
       }
-    }
-  }, [initialText, syllablesData]);
+    });
 
-  /**
-   * Load syllables from cache on mount or text change
-   * 
-   * This effect runs on initial mount and whenever initialText changes.
-   * It tries to load cached syllables data to ensure the "הברות" option
-   * remains available in the dropdown when user navigates back or toggles niqqud.
-   * 
-   * Priority:
-   * 1. Try exact text match
-   * 2. Try clean (no niqqud) version of text
-   */
-  useEffect(() => {
-    if (initialText && initialText.trim().length > 0) {
-      // Try to load cache for exact text first
-      let cached = loadSyllablesFromCache(initialText);
-      
-      // If not found, try the clean (no niqqud) version
-      // This ensures syllables stay available when user toggles niqqud
-      if (!cached) {
-        const textWithoutNiqqud = removeNiqqud(initialText);
-        if (textWithoutNiqqud !== initialText) {
-          cached = loadSyllablesFromCache(textWithoutNiqqud);
-          if (cached) {
-            console.log("[useSyllables] Mount: Found cache for clean text version");
-            // Save also for current text to speed up future lookups
-            saveSyllablesToCache(initialText, cached);
-          }
-        }
-      }
-      
-      if (cached) {
-        setSyllablesData(cached);
-        // Don't auto-activate - user must click button to activate
-      }
-      // Note: If no cache found, don't clear syllablesData here
-      // The first useEffect handles clearing when text changes significantly
-    } else {
-      // Empty text - clear everything
-      setSyllablesData(null);
-      setIsActive(false);
-    }
+    return () => {
+      cancelled = true;
+    };
   }, [initialText]);
 
   // Divide text into syllables
@@ -142,28 +169,32 @@ export function useSyllables(initialText: string = "") {
     try {
       const settings = getSettings();
 
-      if (!settings.syllablesApiKey || settings.syllablesApiKey.trim().length === 0) {
-        setError("אנא הגדר API Key בהגדרות");
-        setIsLoading(false);
-        return;
-      }
-
-      if (!settings.syllablesModel || settings.syllablesModel.trim().length === 0) {
-        setError("אנא בחר מודל שפה בהגדרות");
-        setIsLoading(false);
-        return;
-      }
-
-      if (!settings.syllablesPrompt || settings.syllablesPrompt.trim().length === 0) {
-        setError("אנא הגדר פרומפט בהגדרות");
-        setIsLoading(false);
-        return;
-      }
-
       // Use textToUse if provided (typically cache.full), otherwise fall back to initialText
       // This ensures we always use the full niqqud version for accurate syllable division
       const currentText = (textToUse || initialText).trim();
 
+      // Without model settings, fully vocalized text is divided by the rule-based
+      // syllabifier instead (no-API mode). The same happens below when the server
+      // has no API key for the user.
+      const syllablesModel = settings.syllablesModel?.trim() || "";
+      const hasModelSettings = !!syllablesModel && !!settings.syllablesPrompt?.trim();
+      const canUseRules = !!currentText && isFullyNiqqud(currentText);
+      const useRules = !hasModelSettings && canUseRules;
+
+      if (!useRules) {
+        if (!syllablesModel) {
+          setError("אנא בחר מודל שפה בהגדרות");
+          setIsLoading(false);
+          return;
+        }
+
+        if (!settings.syllablesPrompt || settings.syllablesPrompt.trim().length === 0) {
+          setError("אנא הגדר פרומפט בהגדרות");
+          setIsLoading(false);
+          return;
+        }
+      }
+
       if (!currentText || currentText.length === 0) {
         setError("טקסט ריק");
         setIsLoading(false);
@@ -172,100 +203,121 @@ export function useSyllables(initialText: string = "") {
 
       // Check cache first - try both current text (with niqqud if present) and original text (without niqqud)
       // Since syllable division is based on niqqud text, the result should be the same for both
-      let cached = loadSyllablesFromCache(currentText);
-      if (!cached) {
-        // Try to find cache for the text without niqqud (original text)
-        // This handles the case where niqqud was added but cache exists for the original text
-        const textWithoutNiqqud = removeNiqqud(currentText);
-        if (textWithoutNiqqud !== currentText) {
-          console.log("[useSyllables] Checking cache for text without niqqud");
-          cached = loadSyllablesFromCache(textWithoutNiqqud);
-          if (cached) {
-            console.log("[useSyllables] Found cached syllables data for text without niqqud, using it");
-            // Save cache also for the current text (with niqqud) so future lookups are faster
-            saveSyllablesToCache(currentText, cached);
-          }
-        }
-      }
-      
+      const cached = await findCachedSyllables(currentText);
+
       if (cached) {
         console.log("[useSyllables] Using cached syllables data");
-        setSyllablesData(cached);
+        // Corrections the user made since the text was divided apply to the cached result too
+        const anchored = anchorSyllablesData(currentText, cached);
+        const corrected = applySyllableOverrides(anchored, await getSyllableOverrides());
+        if (corrected !== anchored) {
+          await saveSyllablesForVersions(currentText, corrected, additionalCacheKeys);
+          pushProcessedTexts();
+        }
+        setSyllablesData(corrected === anchored ? cached : corrected);
         setIsActive(true);
         setIsLoading(false);
         return;
       }
 
-      // Call API to divide into syllables
+      let newSyllablesData: SyllablesData;
+
+      // Call the server route to divide into syllables (the API key is resolved on the server)
       // Use the current text (with niqqud if present) for accurate division
-      const result = await divideIntoSyllables(currentText, {
-        apiKey: settings.syllablesApiKey,
-        model: settings.syllablesModel,
-        prompt: settings.syllablesPrompt,
-        temperature: settings.syllablesTemperature,
-      });
-
-      // Save raw response for debugging
-      if (result.rawResponse) {
-        setRawResponse(result.rawResponse);
-      }
+      // The response is streamed: syllable frames appear for each word as it arrives
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      let streamed = "";
 
-      if (!result.success || !result.syllablesData) {
-        console.error("[useSyllables] API call failed", {
-          success: result.success,
-          error: result.error,
-          hasSyllablesData: !!result.syllablesData,
-        });
-        setError(result.error || "שגיאה בחלוקה להברות");
+      const result = useRules
+        ? null
+        : await requestSyllables(
+            currentText,
+            {
+              model: syllablesModel,
+              prompt: settings.syllablesPrompt,
+              temperature: settings.syllablesTemperature,
+            },
+            {
+              signal: abortController.signal,
+              onDelta: (delta) => {
+                streamed += delta;
+                const partial = parsePartialSyllablesResponse(streamed);
+                if (partial) {
+                  setStreamingSyllablesData(anchorSyllablesData(currentText, partial));
+                }
+              },
+              onProgress: (completed, total) => setProgress({ completed, total }),
+            }
+          );
+
+      abortControllerRef.current = null;
+      setStreamingSyllablesData(null);
+      setProgress(null);
+
+      if (abortController.signal.aborted) {
+        console.log("[useSyllables] divideSyllables cancelled by user");
         setIsLoading(false);
         return;
       }
 
-      console.log("[useSyllables] API call successful", {
-        originalLength: currentText.length,
-        wordsCount: result.syllablesData.words.length,
-      });
-
-      // Save to cache for the current text (with niqqud if present)
-      // This is the text that was sent to the model, so this is the canonical cache entry
-      saveSyllablesToCache(currentText, result.syllablesData);
-      
-      // IMPORTANT: Also save to cache for the clean text version (without niqqud)
-      // This ensures syllables data remains accessible when user toggles niqqud on/off
-      // Without this, removing niqqud would cause syllablesData to be cleared
-      // because the cache lookup wouldn't find the clean text version
-      const cleanText = removeNiqqud(currentText);
-      if (cleanText !== currentText) {
-        console.log("[useSyllables] Also saving cache for clean text version");
-        saveSyllablesToCache(cleanText, result.syllablesData);
-      }
+      if (!result || (result.missingApiKey && canUseRules)) {
+        newSyllablesData = syllabifyText(currentText);
+        console.log("[useSyllables] Divided with rule-based syllabifier (no model settings or API key)", {
+          wordsCount: newSyllablesData.words.length,
+        });
+      } else {
+        // Save raw response for debugging
+        if (result.rawResponse) {
+          setRawResponse(result.rawResponse);
+        }
 
-      // Save additional cache keys if provided (e.g. for partial niqqud text)
-      // This ensures that when user switches back to partial niqqud, the syllables data is found
-      if (additionalCacheKeys && additionalCacheKeys.length > 0 && result.syllablesData) {
-        const syllablesDataToSave = result.syllablesData;
-        additionalCacheKeys.forEach(key => {
-          if (key && key !== currentText && key !== cleanText) {
-            console.log("[useSyllables] Saving additional cache key:", key.substring(0, 20) + "...");
-            saveSyllablesToCache(key, syllablesDataToSave);
-            
-            // Also save clean version of the key if different
-            const cleanKey = removeNiqqud(key);
-            if (cleanKey !== key && cleanKey !== cleanText) {
-              saveSyllablesToCache(cleanKey, syllablesDataToSave);
-            }
-          }
+        if (!result.success || !result.syllablesData) {
+          console.error("[useSyllables] API call failed", {
+            success: result.success,
+            error: result.error,
+            hasSyllablesData: !!result.syllablesData,
+          });
+          setError(result.error || "שגיאה בחלוקה להברות");
+          setIsLoading(false);
+          return;
+        }
+
+        newSyllablesData = result.syllablesData;
+
+        console.log("[useSyllables] API call successful", {
+          originalLength: currentText.length,
+          wordsCount: newSyllablesData.words.length,
         });
+
+        // Cross-check the model against the rule-based syllabifier (fully vocalized text only)
+        if (isFullyNiqqud(currentText)) {
+          const disagreements = findSyllableDisagreements(newSyllablesData, syllabifyText(currentText));
+          if (disagreements.length > 0) {
+            console.warn("[useSyllables] Model division differs from rule-based division", {
+              count: disagreements.length,
+              words: disagreements.map((index) => newSyllablesData.words[index]?.syllables.join("-")),
+            });
+          }
+        }
       }
 
-      // Save to centralized storage for future sync with Supabase
-      saveSyllablesCacheToStorage();
+      // Apply the user's corrections to the new result before it is cached
+      newSyllablesData = applySyllableOverrides(newSyllablesData, await getSyllableOverrides());
+
+      await saveSyllablesForVersions(currentText, newSyllablesData, additionalCacheKeys);
 
-      // Update state
-      setSyllablesData(result.syllablesData);
+      // Upload the new result to the user's account (signed-in users only)
+      pushProcessedTexts();
+
+      // Update state - anchored to the text it was divided from (v2 format)
+      setSyllablesData(anchorSyllablesData(currentText, newSyllablesData));
       setIsActive(true);
       setIsLoading(false);
     } catch (err) {
+      abortControllerRef.current = null;
+      setStreamingSyllablesData(null);
+      setProgress(null);
       console.error("[useSyllables] Unexpected error in divideSyllables", err);
       setError(
         err instanceof Error ? err.message : "שגיאה לא צפויה בחלוקה להברות"
@@ -274,19 +326,56 @@ export function useSyllables(initialText: string = "") {
     }
   }, [initialText]);
 
-  // Clear syllables data
-  const clearSyllables = useCallback(() => {
-    if (initialText) {
-      clearSyllablesCache(initialText);
-    }
-    // Also clear all cache entries to ensure complete cleanup
-    clearAllSyllablesCache();
+  // Cancel a running divideSyllables request
+  const cancelSyllables = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Clear syllables data and the cache of the current text
+  // additionalCacheKeys: Other versions of the text (e.g. full niqqud) whose cache is cleared too
+  const clearSyllables = useCallback((additionalCacheKeys?: string[]) => {
+    clearSyllablesForVersions([initialText, ...(additionalCacheKeys ?? [])]);
     setSyllablesData(null);
     setIsActive(false);
     setError(null);
     setRawResponse(null);
   }, [initialText]);
 
+  /**
+   * Apply the user's syllable corrections to the current syllables
+   * The result is cached like a new division, so the correction stays when the
+   * text is opened again or shown with other niqqud.
+   * textToUse: The text to correct (typically cache.full, whose words are the dictionary keys)
+   * additionalCacheKeys: Other versions of the text to save the result for
+   */
+  const applyCorrections = useCallback(async (
+    overrides: SyllableOverrides,
+    textToUse?: string,
+    additionalCacheKeys?: string[]
+  ) => {
+    const currentText = (textToUse || initialText).trim();
+    if (!syllablesData || !currentText) {
+      return;
+    }
+
+    const anchored = anchorSyllablesData(currentText, syllablesData);
+    const corrected = applySyllableOverrides(anchored, overrides);
+    if (corrected === anchored) {
+      return;
+    }
+
+    await saveSyllablesForVersions(currentText, corrected, additionalCacheKeys);
+    pushProcessedTexts();
+    setSyllablesData(corrected);
+  }, [initialText, syllablesData]);
+
+  // Show syllables restored by undo/redo, anchored to the restored text
+  const restoreSyllables = useCallback((data: SyllablesData | null, text: string, active: boolean) => {
+    setSyllablesData(data && text.trim() ? anchorSyllablesData(text, data) : null);
+    setIsActive(!!data && active);
+    setError(null);
+  }, []);
+
   // Get button text - always returns action text (not toggle)
   const getButtonText = useCallback(() => {
     if (isLoading) {
@@ -299,11 +388,16 @@ export function useSyllables(initialText: string = "") {
     syllablesData,
     isActive,
     isLoading,
+    streamingSyllablesData, // Partial result while the model response is streaming
+    progress, // Chunk progress while a long text is processed
     error,
     rawResponse,
     getButtonText,
     divideSyllables,
+    cancelSyllables,
     clearSyllables,
+    applyCorrections,
+    restoreSyllables,
     clearError: () => setError(null),
   };
 }
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for reading bookmarks and resume points
+ *
+ * Tests cover:
+ * - Anchoring word, syllable and letter positions
+ * - Finding the position again after the text was edited
+ * - Choosing between repeated words by their neighbours and distance
+ * - Positions whose word was removed
+ * - Bookmark names
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createBookmark, createPositionAnchor, reanchorPosition } from '../bookmarks'
+
+const text = 'הילד הלך לגן. בגן הילד שיחק עם חברים'
+
+describe('bookmarks', () => {
+  describe('createPositionAnchor', () => {
+    it('should keep the word and its neighbours without niqqud and punctuation', () => {
+      const anchor = createPositionAnchor('הַיֶּלֶד הָלַךְ לַגַּן. בַּגַּן', { mode: 'words', wordIndex: 2 })
+      expect(anchor).toEqual({
+        word: 'לגן',
+        before: ['הילד', 'הלך'],
+        after: ['בגן'],
+        wordIndex: 2,
+        letterOffset: undefined,
+      })
+    })
+
+    it('should locate the word of a letter position', () => {
+      // הילד (4) הלך (3) -> letter 8 is the second letter of לגן
+      const anchor = createPositionAnchor(text, { mode: 'letters', wordIndex: 0, letterIndex: 8 })
+      expect(anchor).toMatchObject({ word: 'לגן', wordIndex: 2, letterOffset: 1 })
+    })
+
+    it('should return null for a position outside the text', () => {
+      expect(createPositionAnchor(text, { mode: 'words', wordIndex: 50 })).toBeNull()
+    })
+  })
+
+  describe('reanchorPosition', () => {
+    it('should keep the position when the text is unchanged', () => {
+      const position = { mode: 'syllables' as const, wordIndex: 3, syllableIndex: 1 }
+      expect(reanchorPosition(text, position, createPositionAnchor(text, position))).toEqual(position)
+    })
+
+    it('should follow the word when words were added before it', () => {
+      const position = { mode: 'words' as const, wordIndex: 4 }
+      const anchor = createPositionAnchor(text, position)
+      const edited = 'בבוקר יום ראשון ' + text
+
+      expect(reanchorPosition(edited, position, anchor)).toEqual({ mode: 'words', wordIndex: 7 })
+    })
+
+    it('should find the word in another niqqud version of the text', () => {
+      const position = { mode: 'words' as const, wordIndex: 4 }
+      const anchor = createPositionAnchor(text, position)
+
+      expect(reanchorPosition('יום אחד הַיֶּלֶד הָלַךְ לַגַּן. בַּגַּן הַיֶּלֶד', position, anchor)).toEqual({
+        mode: 'words',
+        wordIndex: 6,
+      })
+    })
+
+    it('should choose the repeated word whose neighbours match', () => {
+      // "הילד" appears twice; the second one is followed by "שיחק"
+      const position = { mode: 'words' as const, wordIndex: 4 }
+      const anchor = createPositionAnchor(text, position)
+      const edited = 'הילד שיחק בחוץ. הילד הלך לגן. בגן הילד שיחק עם חברים'
+
+      expect(reanchorPosition(edited, position, anchor)).toEqual({ mode: 'words', wordIndex: 7 })
+    })
+
+    it('should move a letter position with its word', () => {
+      const position = { mode: 'letters' as const, wordIndex: 0, letterIndex: 8 }
+      const anchor = createPositionAnchor(text, position)
+
+      // "אתמול" adds 5 letters before the word
+      expect(reanchorPosition('אתמול ' + text, position, anchor)).toEqual({
+        mode: 'letters',
+        wordIndex: 0,
+        letterIndex: 13,
+      })
+    })
+
+    it('should stay within the text when the word was removed', () => {
+      const position = { mode: 'syllables' as const, wordIndex: 6, syllableIndex: 2 }
+      const anchor = createPositionAnchor(text, position)
+
+      expect(reanchorPosition('הילד הלך לגן', position, anchor)).toEqual({
+        mode: 'syllables',
+        wordIndex: 2,
+        syllableIndex: 0,
+      })
+    })
+
+    it('should return null for empty text', () => {
+      expect(reanchorPosition(' ', { mode: 'words', wordIndex: 0 }, null)).toBeNull()
+    })
+  })
+
+  describe('createBookmark', () => {
+    it('should be named after the word it points at', () => {
+      const bookmark = createBookmark('הַיֶּלֶד הָלַךְ', { mode: 'words', wordIndex: 1 })
+      expect(bookmark.name).toBe('הלך (מילה 2)')
+      expect(bookmark.anchor?.word).toBe('הלך')
+    })
+
+    it('should use the given name', () => {
+      expect(createBookmark(text, { mode: 'words', wordIndex: 0 }, ' פרק ב ').name).toBe('פרק ב')
+    })
+  })
+})
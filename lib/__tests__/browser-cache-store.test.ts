@@ -0,0 +1,30 @@
+/**
+ * Unit tests for the browser cache store
+ *
+ * Tests cover:
+ * - Keeping records in the in-memory fallback across opens
+ *
+ * IndexedDB is not available in jsdom, so the in-memory store is used.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CacheRecord, isBrowserCachePersistent, openBrowserCacheStore } from '../browser-cache-store'
+
+const record = (key: string): CacheRecord => ({ key, text: key, size: 2, createdAt: 1, lastAccessed: 1 })
+
+describe('browser-cache-store', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await (await openBrowserCacheStore('niqqud')).clear()
+    await (await openBrowserCacheStore('audio')).clear()
+  })
+
+  it('should keep records of the in-memory store when the cache is opened again', async () => {
+    await (await openBrowserCacheStore('niqqud')).put(record('א'))
+
+    expect(await isBrowserCachePersistent()).toBe(false)
+    expect(await (await openBrowserCacheStore('niqqud')).get('א')).toEqual(record('א'))
+    // Each cache has its own store
+    expect(await (await openBrowserCacheStore('audio')).get('א')).toBeUndefined()
+  })
+})
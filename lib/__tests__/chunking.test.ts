@@ -0,0 +1,205 @@
+/**
+ * Unit tests for chunked model requests
+ *
+ * Tests cover:
+ * - Splitting text by paragraph, sentence and word within a length limit
+ * - Stitching chunk outputs back with the original whitespace
+ * - Bounded parallelism, retries and stopping after a failed chunk
+ * - Emitting chunk outputs in text order, streaming the first unfinished chunk and replacing changed output
+ * - Syllables of a chunked text anchored to the full text (fetch is mocked)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  splitTextIntoChunks,
+  stitchChunks,
+  runChunks,
+  createOrderedEmitter,
+} from '../chunking'
+import { divideIntoSyllables } from '@/services/syllables-service'
+
+interface ChunkResult {
+  success: boolean
+  text?: string
+  error?: string
+}
+
+const createCancelledResult = (): ChunkResult => ({ success: false, error: 'בוטל' })
+
+describe('chunking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('splitTextIntoChunks', () => {
+    it('should keep a short text in one chunk', () => {
+      const text = '  שלום עולם\n\nמה נשמע  '
+      expect(splitTextIntoChunks(text, 100)).toEqual([{ start: 2, end: 20, text: 'שלום עולם\n\nמה נשמע' }])
+    })
+
+    it('should split long texts at paragraphs before sentences', () => {
+      const text = 'אחת שתיים. שלוש ארבע.\n\nחמש שש. שבע שמונה.'
+      const chunks = splitTextIntoChunks(text, 25)
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['אחת שתיים. שלוש ארבע.', 'חמש שש. שבע שמונה.'])
+      chunks.forEach((chunk) => expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text))
+    })
+
+    it('should fall back to sentences and words for long paragraphs', () => {
+      const text = 'אחת שתיים שלוש. ארבע חמש שש שבע שמונה'
+      const chunks = splitTextIntoChunks(text, 16)
+      expect(chunks.map((chunk) => chunk.text)).toEqual(['אחת שתיים שלוש.', 'ארבע חמש שש שבע', 'שמונה'])
+      chunks.forEach((chunk) => expect(chunk.text.length).toBeLessThanOrEqual(16))
+    })
+
+    it('should return no chunks for blank text', () => {
+      expect(splitTextIntoChunks(' \n ')).toEqual([])
+    })
+  })
+
+  it('should stitch outputs with the original whitespace', () => {
+    const text = ' אחת שתיים.\n\nשלוש ארבע. \n'
+    const chunks = splitTextIntoChunks(text, 12)
+    const outputs = chunks.map((chunk) => `[${chunk.text}]`)
+    expect(stitchChunks(text, chunks, outputs)).toBe(' [אחת שתיים.]\n\n[שלוש ארבע.] \n')
+  })
+
+  describe('runChunks', () => {
+    const chunks = splitTextIntoChunks('א. ב. ג. ד. ה.', 2)
+
+    it('should run at most the given number of chunks at once', async () => {
+      let running = 0
+      let maxRunning = 0
+      const progress: number[] = []
+
+      const { results, failedIndex } = await runChunks(
+        chunks,
+        async (chunk) => {
+          running++
+          maxRunning = Math.max(maxRunning, running)
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          running--
+          return { success: true, text: chunk.text }
+        },
+        { createCancelledResult, concurrency: 2, onProgress: (completed) => progress.push(completed) }
+      )
+
+      expect(failedIndex).toBeUndefined()
+      expect(results.map((result) => result.text)).toEqual(['א.', 'ב.', 'ג.', 'ד.', 'ה.'])
+      expect(maxRunning).toBe(2)
+      expect(progress).toEqual([0, 1, 2, 3, 4, 5])
+    })
+
+    it('should retry a failed chunk', async () => {
+      const attempts = new Map<number, number>()
+
+      const { failedIndex } = await runChunks(chunks, async (chunk) => {
+        const count = (attempts.get(chunk.start) ?? 0) + 1
+        attempts.set(chunk.start, count)
+        return { success: chunk.start !== 3 || count > 1 }
+      }, { createCancelledResult })
+
+      expect(failedIndex).toBeUndefined()
+      expect(attempts.get(3)).toBe(2)
+    })
+
+    it('should stop starting chunks after a chunk fails its retries', async () => {
+      const started: number[] = []
+
+      const { results, failedIndex } = await runChunks(
+        chunks,
+        async (chunk) => {
+          started.push(chunk.start)
+          return chunk.start === 3 ? { success: false, error: 'שגיאה' } : { success: true }
+        },
+        { createCancelledResult, concurrency: 1, retries: 1 }
+      )
+
+      expect(failedIndex).toBe(1)
+      expect(results[1].error).toBe('שגיאה')
+      expect(results[2]).toEqual(createCancelledResult())
+      expect(started).toEqual([0, 3, 3])
+    })
+  })
+
+  it('should emit chunk outputs in text order', () => {
+    const emitted: string[] = []
+    const { complete } = createOrderedEmitter((output) => emitted.push(output))
+
+    complete(1, 'ב')
+    expect(emitted).toEqual([])
+    complete(0, 'א')
+    complete(2, 'ג')
+    expect(emitted).toEqual(['א', 'ב', 'ג'])
+  })
+
+  it('should stream the first unfinished chunk and hold later chunks', () => {
+    const emitted: string[] = []
+    const { delta, restart, complete } = createOrderedEmitter((output) => emitted.push(output))
+
+    delta(0, 'שָׁ')
+    delta(1, ' עוֹ')
+    expect(emitted).toEqual(['שָׁ'])
+    // A retried chunk drops what it streamed before
+    restart(1)
+    delta(1, ' עוֹ')
+    delta(0, 'לוֹם')
+    complete(0, 'שָׁלוֹם')
+    expect(emitted).toEqual(['שָׁ', 'לוֹם', ' עוֹ'])
+    delta(1, 'לָם')
+    complete(1, ' עוֹלָם')
+    expect(emitted).toEqual(['שָׁ', 'לוֹם', ' עוֹ', 'לָם'])
+  })
+
+  it('should replace streamed output that the finished chunk changed', () => {
+    const emitted: string[] = []
+    const replaced: string[] = []
+    const { delta, complete } = createOrderedEmitter(
+      (output) => emitted.push(output),
+      (output) => replaced.push(output)
+    )
+
+    delta(0, 'שָׁלוֹם ')
+    delta(0, 'עוֹלָמִים')
+    delta(1, ' מָה')
+    // The guard restored the word the model changed
+    complete(0, 'שָׁלוֹם עוֹלָם')
+    expect(replaced).toEqual(['שָׁלוֹם עוֹלָם'])
+    expect(emitted).toEqual(['שָׁלוֹם ', 'עוֹלָמִים', ' מָה'])
+    complete(1, ' מָה נִשְׁמָע')
+    expect(emitted).toEqual(['שָׁלוֹם ', 'עוֹלָמִים', ' מָה', ' נִשְׁמָע'])
+  })
+
+  it('should anchor syllables of all chunks to the full text', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const responses: Record<string, string> = {
+      'שָׁלוֹם עוֹלָם': 'שָׁ-לוֹם\nעוֹ-לָם',
+      'מָה נִשְׁמָע': 'מָה\nנִשְׁ-מָע',
+    }
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+      const body = JSON.parse(init!.body as string)
+      const userPrompt = body.messages[body.messages.length - 1].content
+      return Response.json({ choices: [{ message: { content: responses[userPrompt] } }] })
+    })
+    const text = 'שָׁלוֹם עוֹלָם\n\nמָה נִשְׁמָע'
+    const progress: string[] = []
+
+    const result = await divideIntoSyllables(text, {
+      model: 'local:llama3.1',
+      prompt: '{text}',
+      maxChunkLength: 20,
+      onProgress: (completed, total) => progress.push(`${completed}/${total}`),
+    })
+
+    expect(result.success).toBe(true)
+    expect(progress).toEqual(['0/2', '1/2', '2/2'])
+    const words = result.syllablesData!.words
+    expect(words.map((word) => word.syllables)).toEqual([
+      ['שָׁ', 'לוֹם'],
+      ['עוֹ', 'לָם'],
+      ['מָה'],
+      ['נִשְׁ', 'מָע'],
+    ])
+    expect(words.map((word) => word.lineIndex)).toEqual([0, 0, 2, 2])
+    expect(text.slice(words[3].start, words[3].end)).toBe('נִשְׁמָע')
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the consonant-preservation guard
+ *
+ * Tests cover:
+ * - Consonant skeleton extraction
+ * - Word-level alignment (match/substitute/delete/insert)
+ * - Transplanting niqqud onto original words
+ * - Repairing small drift and rejecting large drift (niqqud and syllables)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getConsonantSkeleton,
+  alignWords,
+  transplantNiqqud,
+  guardConsonants,
+  guardSyllablesConsonants,
+} from '../consonant-guard'
+
+describe('consonant guard', () => {
+  describe('getConsonantSkeleton', () => {
+    it('should strip niqqud and punctuation', () => {
+      expect(getConsonantSkeleton('שָׁלוֹם,')).toBe('שלום')
+      expect(getConsonantSkeleton('בֵּית־סֵפֶר')).toBe('ביתספר')
+    })
+  })
+
+  describe('alignWords', () => {
+    it('should match words with the same skeleton', () => {
+      const steps = alignWords(['שלום', 'עולם'], ['שָׁלוֹם', 'עוֹלָם'])
+      expect(steps.map((s) => s.type)).toEqual(['match', 'match'])
+    })
+
+    it('should report a replaced word as a substitution', () => {
+      const steps = alignWords(['הילד', 'הלך', 'הביתה'], ['הַיֶּלֶד', 'רָץ', 'הַבַּיְתָה'])
+      expect(steps.map((s) => s.type)).toEqual(['match', 'substitute', 'match'])
+    })
+
+    it('should report dropped and added words', () => {
+      expect(alignWords(['א', 'ב', 'ג'], ['א', 'ג']).map((s) => s.type)).toEqual(['match', 'delete', 'match'])
+      expect(alignWords(['א', 'ג'], ['א', 'ב', 'ג']).map((s) => s.type)).toEqual(['match', 'insert', 'match'])
+    })
+  })
+
+  describe('transplantNiqqud', () => {
+    it('should keep original characters and take the model marks', () => {
+      expect(transplantNiqqud('שָׁלוֹם', 'שלום,')).toBe('שָׁלוֹם,')
+    })
+
+    it('should replace existing marks in the original word', () => {
+      expect(transplantNiqqud('שָׁלוֹם', 'שַלום')).toBe('שָׁלוֹם')
+    })
+  })
+
+  describe('guardConsonants', () => {
+    it('should pass through output that kept every word', () => {
+      const result = guardConsonants('שלום עולם', 'שָׁלוֹם עוֹלָם')
+      expect(result.ok).toBe(true)
+      expect(result.repaired).toBe(false)
+      expect(result.text).toBe('שָׁלוֹם עוֹלָם')
+    })
+
+    it('should keep the input whitespace and line breaks', () => {
+      const result = guardConsonants('שלום\n\nעולם', 'שָׁלוֹם עוֹלָם')
+      expect(result.text).toBe('שָׁלוֹם\n\nעוֹלָם')
+    })
+
+    it('should restore a word the model changed', () => {
+      const input = 'הילד הלך הביתה עם אמא שלו אחרי בית הספר'
+      const output = 'הַיֶּלֶד רָץ הַבַּיְתָה עִם אִמָּא שֶׁלּוֹ אַחֲרֵי בֵּית הַסֵּפֶר'
+      const result = guardConsonants(input, output)
+      expect(result.ok).toBe(true)
+      expect(result.repaired).toBe(true)
+      expect(result.mismatches).toEqual([
+        { type: 'substitute', wordIndex: 1, original: 'הלך', returned: 'רָץ' },
+      ])
+      expect(result.text).toBe('הַיֶּלֶד הלך הַבַּיְתָה עִם אִמָּא שֶׁלּוֹ אַחֲרֵי בֵּית הַסֵּפֶר')
+    })
+
+    it('should reject output with large drift', () => {
+      const result = guardConsonants('הילד הלך הביתה עם אמא', 'הַיַּלְדָּה רָצָה לַגַּן עִם אַבָּא')
+      expect(result.ok).toBe(false)
+      expect(result.driftRatio).toBeGreaterThan(0.2)
+    })
+  })
+
+  describe('guardSyllablesConsonants', () => {
+    it('should keep one entry per input word and restore changed words', () => {
+      const input = 'שָׁלוֹם עוֹלָם גָּדוֹל מְאוֹד יָפֶה'
+      const data = {
+        words: [
+          { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+          { word: 'עולם', syllables: ['עוֹ', 'לָם'] },
+          { word: 'קטן', syllables: ['קָ', 'טָן'] },
+          { word: 'מאוד', syllables: ['מְאוֹד'] },
+          { word: 'יפה', syllables: ['יָ', 'פֶה'] },
+        ],
+      }
+      const result = guardSyllablesConsonants(input, data)
+      expect(result.ok).toBe(true)
+      expect(result.data.words).toHaveLength(5)
+      expect(result.data.words[2]).toEqual({ word: 'גדול', syllables: ['גָּדוֹל'] })
+      expect(result.data.words[0].syllables).toEqual(['שָׁ', 'לוֹם'])
+    })
+
+    it('should drop words the model inserted', () => {
+      const data = {
+        words: [
+          { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+          { word: 'רב', syllables: ['רַב'] },
+          { word: 'עולם', syllables: ['עוֹ', 'לָם'] },
+        ],
+      }
+      const result = guardSyllablesConsonants('שָׁלוֹם עוֹלָם', data)
+      expect(result.data.words.map((w) => w.word)).toEqual(['שלום', 'עולם'])
+      expect(result.mismatches[0].type).toBe('insert')
+    })
+
+    it('should keep the other fields of the data', () => {
+      const data = { version: 1, words: [{ word: 'שלום', syllables: ['שָׁ', 'לוֹם'] }] }
+      expect(guardSyllablesConsonants('שָׁלוֹם', data).data).toEqual(data)
+    })
+  })
+})
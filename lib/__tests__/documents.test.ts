@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the document library
+ *
+ * Tests cover:
+ * - Creating, duplicating and changing documents
+ * - Titles of untitled documents
+ * - Search by title, folder, tags and text (ignoring niqqud)
+ * - Folders and tags in use
+ * - Matching syllables data to a document's text
+ * - The localStorage document store
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  applyDocumentChanges,
+  createDocument,
+  duplicateDocument,
+  getDocumentFolders,
+  getDocumentTags,
+  getDocumentTitle,
+  localDocumentStore,
+  normalizeTags,
+  searchDocuments,
+  syllablesMatchText,
+} from '../documents'
+
+describe('documents', () => {
+  describe('createDocument', () => {
+    it('should create an empty document with a unique id', () => {
+      const first = createDocument()
+      const second = createDocument({ title: 'שיעור 1', folder: 'כיתה א' })
+
+      expect(first.id).not.toBe(second.id)
+      expect(first).toMatchObject({ title: '', text: '', tags: [], niqqud: null, syllables: null, position: null })
+      expect(second).toMatchObject({ title: 'שיעור 1', folder: 'כיתה א', displayMode: 'original' })
+    })
+  })
+
+  describe('duplicateDocument', () => {
+    it('should copy the content under a new id and title', () => {
+      const source = createDocument({
+        text: 'שלום',
+        tags: ['ברכות'],
+        niqqud: { original: 'שלום', clean: 'שלום', full: 'שָׁלוֹם' },
+        position: { mode: 'words', wordIndex: 0 },
+      })
+      const copy = duplicateDocument(source, 'שלום (עותק)')
+
+      expect(copy.id).not.toBe(source.id)
+      expect(copy.title).toBe('שלום (עותק)')
+      expect(copy.niqqud).toEqual(source.niqqud)
+      expect(copy.position).toEqual(source.position)
+      expect(copy.tags).not.toBe(source.tags)
+    })
+
+    it('should share the recording and copy its word timings', () => {
+      const source = createDocument({
+        text: 'שלום',
+        audio: { id: 'a1', name: 'reading.mp3', type: 'audio/mpeg' },
+        wordTimings: [{ wordIndex: 0, start: 0, end: 0.5 }],
+      })
+      const copy = duplicateDocument(source, 'שלום (עותק)')
+
+      expect(copy.audio).toEqual(source.audio)
+      expect(copy.wordTimings).toEqual(source.wordTimings)
+      expect(copy.wordTimings).not.toBe(source.wordTimings)
+    })
+  })
+
+  describe('applyDocumentChanges', () => {
+    it('should return the same document when nothing changed', () => {
+      const document = createDocument({ text: 'שלום', tags: ['א'] })
+      expect(applyDocumentChanges(document, { text: 'שלום', tags: ['א'] })).toBe(document)
+    })
+
+    it('should apply changes and update the timestamp', () => {
+      const document = { ...createDocument({ text: 'שלום' }), updatedAt: '2000-01-01T00:00:00.000Z' }
+      const changed = applyDocumentChanges(document, { text: 'שלום רב' })
+
+      expect(changed.text).toBe('שלום רב')
+      expect(changed.updatedAt > document.updatedAt).toBe(true)
+    })
+  })
+
+  it('should normalize tags', () => {
+    expect(normalizeTags([' א ', '', 'ב', 'א'])).toEqual(['א', 'ב'])
+  })
+
+  describe('getDocumentTitle', () => {
+    it('should use the title, or the first words of the text without niqqud', () => {
+      expect(getDocumentTitle(createDocument({ title: ' שיעור ', text: 'טקסט' }))).toBe('שיעור')
+      expect(getDocumentTitle(createDocument({ text: 'שָׁלוֹם לָכֶם' }))).toBe('שלום לכם')
+      expect(getDocumentTitle(createDocument({ text: 'א ב ג ד ה ו' }))).toBe('א ב ג ד ה...')
+      expect(getDocumentTitle(createDocument())).toBe('מסמך ללא שם')
+    })
+  })
+
+  describe('searchDocuments', () => {
+    const documents = [
+      createDocument({ title: 'שיר', folder: 'כיתה א', tags: ['חגים'], text: 'חֲנֻכָּה חַג יָפֶה' }),
+      createDocument({ title: 'סיפור', folder: 'כיתה ב', tags: ['חיות'], text: 'הכלב והחתול' }),
+    ]
+
+    it('should find documents by text, ignoring niqqud', () => {
+      expect(searchDocuments(documents, 'חנכה').map((d) => d.title)).toEqual(['שיר'])
+      expect(searchDocuments(documents, 'כֶּלֶב').map((d) => d.title)).toEqual(['סיפור'])
+    })
+
+    it('should find documents by title, folder and tag, requiring every word', () => {
+      expect(searchDocuments(documents, 'כיתה').map((d) => d.title)).toEqual(['שיר', 'סיפור'])
+      expect(searchDocuments(documents, 'כיתה חיות').map((d) => d.title)).toEqual(['סיפור'])
+      expect(searchDocuments(documents, 'שיר')).toHaveLength(1)
+    })
+
+    it('should return all documents for an empty query', () => {
+      expect(searchDocuments(documents, '  ')).toHaveLength(2)
+    })
+  })
+
+  it('should list the folders and tags in use', () => {
+    const documents = [
+      createDocument({ folder: 'ב', tags: ['y', 'x'] }),
+      createDocument({ folder: 'א', tags: ['x'] }),
+      createDocument(),
+    ]
+    expect(getDocumentFolders(documents)).toEqual(['א', 'ב'])
+    expect(getDocumentTags(documents)).toEqual(['x', 'y'])
+  })
+
+  describe('syllablesMatchText', () => {
+    const data = { words: [{ word: 'שָׁלוֹם', syllables: ['שָׁ', 'לוֹם'] }, { word: 'רַב', syllables: ['רַב'] }] }
+
+    it('should match the same words with or without niqqud', () => {
+      expect(syllablesMatchText(data, 'שלום\nרב')).toBe(true)
+      expect(syllablesMatchText(data, 'שָׁלוֹם רַב')).toBe(true)
+    })
+
+    it('should not match another text', () => {
+      expect(syllablesMatchText(data, 'שלום')).toBe(false)
+    })
+  })
+
+  describe('localDocumentStore', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('should save, list and delete documents', async () => {
+      const older = { ...createDocument({ title: 'ישן' }), updatedAt: '2000-01-01T00:00:00.000Z' }
+      const newer = createDocument({ title: 'חדש' })
+      await localDocumentStore.save(older)
+      await localDocumentStore.save(newer)
+      localStorage.setItem('other_key', 'value')
+
+      expect((await localDocumentStore.list()).map((d) => d.title)).toEqual(['חדש', 'ישן'])
+
+      await localDocumentStore.delete(newer.id)
+      expect((await localDocumentStore.list()).map((d) => d.title)).toEqual(['ישן'])
+    })
+  })
+})
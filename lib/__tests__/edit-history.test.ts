@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the undo/redo history
+ *
+ * Tests cover:
+ * - Recording edits and dropping the redo stack
+ * - Merging edits made soon after an entry's first edit
+ * - Undoing and redoing, skipping edits that changed nothing
+ * - Keeping the syllable dictionary change of an edit for redo
+ * - Limiting the history size
+ * - Keeping the history of each document for the session, up to a number of documents
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  EditSnapshot,
+  EMPTY_EDIT_HISTORY,
+  loadEditHistory,
+  MAX_EDIT_HISTORY,
+  MAX_EDIT_HISTORY_DOCUMENTS,
+  MergeableEdit,
+  MERGE_WINDOW_MS,
+  pushEdit,
+  redoEdit,
+  saveEditHistory,
+  shouldMergeEdit,
+  undoEdit,
+} from '../edit-history'
+
+const snapshot = (text: string, isSyllablesActive = false): EditSnapshot => ({
+  niqqud: text ? { original: text, clean: text, full: null } : null,
+  displayMode: 'original',
+  syllables: null,
+  isSyllablesActive,
+})
+
+describe('edit-history', () => {
+  beforeEach(() => {
+    sessionStorage.clear()
+  })
+
+  describe('pushEdit', () => {
+    it('should record the state before the edit and drop the redo stack', () => {
+      const history = pushEdit({ undo: [], redo: [{ label: 'a', snapshot: snapshot('x') }] }, {
+        label: 'עריכת הטקסט',
+        snapshot: snapshot('שלום'),
+      })
+      expect(history.undo).toEqual([{ label: 'עריכת הטקסט', snapshot: snapshot('שלום') }])
+      expect(history.redo).toEqual([])
+    })
+
+    it('should drop the oldest edits beyond the limit', () => {
+      let history = EMPTY_EDIT_HISTORY
+      for (let i = 0; i <= MAX_EDIT_HISTORY; i++) {
+        history = pushEdit(history, { label: `${i}`, snapshot: snapshot(`${i}`) })
+      }
+      expect(history.undo).toHaveLength(MAX_EDIT_HISTORY)
+      expect(history.undo[0].label).toBe('1')
+    })
+  })
+
+  describe('shouldMergeEdit', () => {
+    it('should merge edits of the same label within the window of the entry\'s first edit', () => {
+      const last = { label: 'עריכת הטקסט', startedAt: 0 }
+      expect(shouldMergeEdit(last, 'עריכת הטקסט', MERGE_WINDOW_MS - 1)).toBe(true)
+      expect(shouldMergeEdit(last, 'ניקוי הטקסט', 10)).toBe(false)
+      expect(shouldMergeEdit(null, 'עריכת הטקסט', 10)).toBe(false)
+    })
+
+    it('should start a new entry during continuous typing once the window is over', () => {
+      // Keystrokes every 200ms, as the history hook records them
+      let last: MergeableEdit | null = null
+      const entryStarts: number[] = []
+      for (let now = 0; now <= 2 * MERGE_WINDOW_MS; now += 200) {
+        if (!shouldMergeEdit(last, 'עריכת הטקסט', now)) {
+          last = { label: 'עריכת הטקסט', startedAt: now }
+          entryStarts.push(now)
+        }
+      }
+      expect(entryStarts).toEqual([0, MERGE_WINDOW_MS, 2 * MERGE_WINDOW_MS])
+    })
+  })
+
+  describe('undoEdit and redoEdit', () => {
+    it('should restore the state before the edit and redo it', () => {
+      const history = pushEdit(EMPTY_EDIT_HISTORY, { label: 'ניקוי הטקסט', snapshot: snapshot('שלום') })
+
+      const undone = undoEdit(history, snapshot(''))!
+      expect(undone.entry.snapshot).toEqual(snapshot('שלום'))
+      expect(undone.history).toEqual({ undo: [], redo: [{ label: 'ניקוי הטקסט', snapshot: snapshot('') }] })
+
+      const redone = redoEdit(undone.history, snapshot('שלום'))!
+      expect(redone.entry.snapshot).toEqual(snapshot(''))
+      expect(redone.history).toEqual(history)
+    })
+
+    it('should skip edits that changed nothing', () => {
+      let history = pushEdit(EMPTY_EDIT_HISTORY, { label: 'עריכת הטקסט', snapshot: snapshot('שלום') })
+      history = pushEdit(history, { label: 'ניקוד וחלוקה להברות', snapshot: snapshot('שלום עולם') })
+
+      const undone = undoEdit(history, snapshot('שלום עולם'))!
+      expect(undone.entry.label).toBe('עריכת הטקסט')
+      expect(undone.history.undo).toEqual([])
+    })
+
+    it('should keep the syllable dictionary change for redo', () => {
+      const syllableOverride = {
+        key: 'שָׁלוֹם',
+        before: null,
+        after: { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+      }
+      const history = pushEdit(EMPTY_EDIT_HISTORY, { label: 'תיקון הברות', snapshot: snapshot('שלום'), syllableOverride })
+
+      // Not skipped although the text is the same: the dictionary still changed
+      const undone = undoEdit(history, snapshot('שלום'))!
+      expect(undone.entry.syllableOverride).toEqual(syllableOverride)
+      expect(undone.history.redo).toEqual([{ label: 'תיקון הברות', snapshot: snapshot('שלום'), syllableOverride }])
+
+      const redone = redoEdit(undone.history, snapshot('שלום'))!
+      expect(redone.entry.syllableOverride).toEqual(syllableOverride)
+    })
+
+    it('should return null when there is nothing to undo or redo', () => {
+      expect(undoEdit(EMPTY_EDIT_HISTORY, snapshot('שלום'))).toBeNull()
+      expect(redoEdit(EMPTY_EDIT_HISTORY, snapshot('שלום'))).toBeNull()
+    })
+  })
+
+  describe('loadEditHistory and saveEditHistory', () => {
+    it('should keep the history of a document for the session', () => {
+      const history = pushEdit(EMPTY_EDIT_HISTORY, { label: 'ניקוי הטקסט', snapshot: snapshot('שלום', true) })
+      saveEditHistory('doc-1', history)
+
+      expect(loadEditHistory('doc-1')).toEqual(history)
+      expect(loadEditHistory('doc-2')).toEqual(EMPTY_EDIT_HISTORY)
+      expect(loadEditHistory(null)).toEqual(EMPTY_EDIT_HISTORY)
+    })
+
+    it('should keep the history of each document', () => {
+      const first = pushEdit(EMPTY_EDIT_HISTORY, { label: 'ניקוי הטקסט', snapshot: snapshot('שלום') })
+      const second = pushEdit(EMPTY_EDIT_HISTORY, { label: 'עריכת הטקסט', snapshot: snapshot('עולם') })
+      saveEditHistory('doc-1', first)
+      saveEditHistory('doc-2', second)
+      saveEditHistory(null, second)
+
+      expect(loadEditHistory('doc-1')).toEqual(first)
+      expect(loadEditHistory('doc-2')).toEqual(second)
+      expect(loadEditHistory(null)).toEqual(second)
+    })
+
+    it('should drop the histories of the documents saved least recently', () => {
+      const history = pushEdit(EMPTY_EDIT_HISTORY, { label: 'ניקוי הטקסט', snapshot: snapshot('שלום') })
+      for (let i = 0; i <= MAX_EDIT_HISTORY_DOCUMENTS; i++) {
+        saveEditHistory(`doc-${i}`, history)
+      }
+
+      expect(loadEditHistory('doc-0')).toEqual(EMPTY_EDIT_HISTORY)
+      expect(loadEditHistory('doc-1')).toEqual(history)
+      expect(loadEditHistory(`doc-${MAX_EDIT_HISTORY_DOCUMENTS}`)).toEqual(history)
+    })
+
+    it('should start empty when the saved history is invalid', () => {
+      sessionStorage.setItem('edit_history_text', 'not json')
+      expect(loadEditHistory(null)).toEqual(EMPTY_EDIT_HISTORY)
+    })
+  })
+})
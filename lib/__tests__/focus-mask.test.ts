@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the reading ruler
+ *
+ * Tests cover:
+ * - Grouping rendered elements into lines
+ * - The window of visible lines around the highlighted element
+ * - Clamping the settings
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getFocusWindow, groupLineBands, normalizeFocusMaskLines, normalizeFocusMaskOpacity } from '../focus-mask'
+
+const line = (index: number) => ({ top: index * 50, bottom: index * 50 + 40 })
+
+describe('focus-mask', () => {
+  describe('groupLineBands', () => {
+    it('should group elements on the same line', () => {
+      const boxes = [
+        { top: 52, bottom: 88 },
+        { top: 0, bottom: 40 },
+        { top: 3, bottom: 45 },
+        { top: 50, bottom: 90 },
+      ]
+      expect(groupLineBands(boxes)).toEqual([
+        { top: 0, bottom: 45 },
+        { top: 50, bottom: 90 },
+      ])
+    })
+  })
+
+  describe('getFocusWindow', () => {
+    const bands = [0, 1, 2, 3].map(line)
+
+    it('should show the line of the focused element and the lines after it', () => {
+      expect(getFocusWindow(bands, [line(1)], 1)).toEqual({ top: 50, bottom: 90 })
+      expect(getFocusWindow(bands, [line(1)], 2)).toEqual({ top: 50, bottom: 140 })
+    })
+
+    it('should keep the window size at the end of the text', () => {
+      expect(getFocusWindow(bands, [line(3)], 3)).toEqual({ top: 50, bottom: 190 })
+      expect(getFocusWindow(bands, [line(0)], 10)).toEqual({ top: 0, bottom: 190 })
+    })
+
+    it('should show every line of a sentence', () => {
+      expect(getFocusWindow(bands, [line(1), line(2)], 1)).toEqual({ top: 50, bottom: 140 })
+    })
+
+    it('should return null when the element is on no line', () => {
+      expect(getFocusWindow(bands, [{ top: 1000, bottom: 1040 }], 1)).toBeNull()
+      expect(getFocusWindow(bands, [], 1)).toBeNull()
+    })
+  })
+
+  describe('normalize', () => {
+    it('should clamp the lines and the opacity', () => {
+      expect(normalizeFocusMaskLines(0)).toBe(1)
+      expect(normalizeFocusMaskLines(2.6)).toBe(3)
+      expect(normalizeFocusMaskLines(99)).toBe(5)
+      expect(normalizeFocusMaskOpacity(1.5)).toBe(1)
+      expect(normalizeFocusMaskOpacity(NaN)).toBe(0.7)
+    })
+  })
+})
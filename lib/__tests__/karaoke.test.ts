@@ -0,0 +1,174 @@
+/**
+ * Unit tests for karaoke word timings
+ *
+ * Tests cover:
+ * - Parsing WebVTT and SRT timestamps
+ * - Importing WebVTT (including inline karaoke timestamps), SRT and JSON timings
+ * - Sharing a cue's time between its words
+ * - Matching the file's words to the text's words
+ * - Finding the word being read at a playback time
+ * - Marking timings by tapping
+ * - Exporting timings in the import format
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  addTapMark,
+  detectWordTimingsFormat,
+  exportWordTimings,
+  finishTapMarks,
+  getWordAtTime,
+  importWordTimings,
+  parseTimestamp,
+  removeLastTapMark,
+} from '../karaoke'
+
+const text = 'הילד הלך לגן'
+
+describe('karaoke', () => {
+  describe('parseTimestamp', () => {
+    it('should parse WebVTT and SRT timestamps', () => {
+      expect(parseTimestamp('00:00:01.500')).toBe(1.5)
+      expect(parseTimestamp('01:02.250')).toBe(62.25)
+      expect(parseTimestamp('01:00:00,040')).toBe(3600.04)
+    })
+
+    it('should reject invalid timestamps', () => {
+      expect(() => parseTimestamp('1.5s')).toThrow()
+    })
+  })
+
+  describe('detectWordTimingsFormat', () => {
+    it('should detect the format from the file name or content', () => {
+      expect(detectWordTimingsFormat('reading.VTT', '')).toBe('vtt')
+      expect(detectWordTimingsFormat('timings', 'WEBVTT\n\n')).toBe('vtt')
+      expect(detectWordTimingsFormat('timings', '{"words": []}')).toBe('json')
+      expect(detectWordTimingsFormat('timings', '1\n00:00:00,000 --> 00:00:01,000\nשלום')).toBe('srt')
+    })
+  })
+
+  describe('importWordTimings', () => {
+    it('should import one word per WebVTT cue', () => {
+      const vtt = [
+        'WEBVTT',
+        '',
+        'NOTE recorded by the teacher',
+        '',
+        '00:00.000 --> 00:00.600',
+        'הילד',
+        '',
+        '00:00.600 --> 00:01.000',
+        '<v Teacher>הלך</v>',
+        '',
+        '00:01.000 --> 00:01.800',
+        'לגן',
+      ].join('\n')
+
+      expect(importWordTimings(vtt, 'vtt', text)).toEqual({
+        timings: [
+          { wordIndex: 0, start: 0, end: 0.6 },
+          { wordIndex: 1, start: 0.6, end: 1 },
+          { wordIndex: 2, start: 1, end: 1.8 },
+        ],
+        fileWordCount: 3,
+      })
+    })
+
+    it('should split WebVTT cues at inline timestamps', () => {
+      const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:03.000\n<c>הילד</c> <00:00:01.800><c>הלך</c> <00:00:02.200><c>לגן</c>'
+      const { timings } = importWordTimings(vtt, 'vtt', text)
+      expect(timings.map(({ start, end }) => [start, end])).toEqual([[1, 1.8], [1.8, 2.2], [2.2, 3]])
+    })
+
+    it('should share a cue between its words by length', () => {
+      const srt = '1\r\n00:00:00,000 --> 00:00:02,000\r\nהילד הלך\r\n\r\n2\r\n00:00:02,000 --> 00:00:03,000\r\nלגן\r\n'
+      const { timings } = importWordTimings(srt, 'srt', text)
+      expect(timings[0]).toEqual({ wordIndex: 0, start: 0, end: 8 / 7 })
+      expect(timings[1]).toEqual({ wordIndex: 1, start: 8 / 7, end: 2 })
+      expect(timings[2]).toEqual({ wordIndex: 2, start: 2, end: 3 })
+    })
+
+    it('should import JSON timings', () => {
+      const json = JSON.stringify({ words: [{ word: 'הַיֶּלֶד', start: 0, end: 0.5 }, { text: 'הָלַךְ', start: 0.5, end: 1 }] })
+      expect(importWordTimings(json, 'json', text).timings).toEqual([
+        { wordIndex: 0, start: 0, end: 0.5 },
+        { wordIndex: 1, start: 0.5, end: 1 },
+      ])
+    })
+
+    it('should ignore words beyond the end of the text', () => {
+      const json = JSON.stringify([0, 1, 2, 3].map((i) => ({ word: `w${i}`, start: i, end: i + 1 })))
+      const imported = importWordTimings(json, 'json', text)
+      expect(imported.timings).toHaveLength(3)
+      expect(imported.fileWordCount).toBe(4)
+    })
+
+    it('should reject files without timed words', () => {
+      expect(() => importWordTimings('WEBVTT\n\n', 'vtt', text)).toThrow('no timed words')
+      expect(() => importWordTimings('[{"word": "הילד"}]', 'json', text)).toThrow('Word 1')
+      expect(() => importWordTimings('not json', 'json', text)).toThrow('Invalid JSON')
+    })
+  })
+
+  describe('getWordAtTime', () => {
+    const timings = [
+      { wordIndex: 0, start: 0.5, end: 1 },
+      { wordIndex: 1, start: 1.2, end: 1.6 },
+      { wordIndex: 2, start: 1.6, end: 2 },
+    ]
+
+    it('should find the word being read', () => {
+      expect(getWordAtTime(timings, 0.7)).toBe(0)
+      expect(getWordAtTime(timings, 1.6)).toBe(2)
+    })
+
+    it('should keep the previous word between words and after the last', () => {
+      expect(getWordAtTime(timings, 1.1)).toBe(0)
+      expect(getWordAtTime(timings, 5)).toBe(2)
+    })
+
+    it('should return null before the first word', () => {
+      expect(getWordAtTime(timings, 0.2)).toBeNull()
+      expect(getWordAtTime([], 1)).toBeNull()
+    })
+  })
+
+  describe('tap marks', () => {
+    it('should start each word where the previous one ends', () => {
+      let timings = addTapMark([], 0.4, 3)
+      timings = addTapMark(timings, 1, 3)
+      timings = finishTapMarks(timings, 1.5)
+
+      expect(timings).toEqual([
+        { wordIndex: 0, start: 0.4, end: 1 },
+        { wordIndex: 1, start: 1, end: 1.5 },
+      ])
+    })
+
+    it('should ignore taps after the last word', () => {
+      const timings = addTapMark(addTapMark([], 0, 1), 1, 1)
+      expect(timings).toHaveLength(1)
+    })
+
+    it('should take back the last mark', () => {
+      const timings = removeLastTapMark(addTapMark(addTapMark([], 0, 3), 1, 3))
+      expect(timings).toEqual([{ wordIndex: 0, start: 0, end: 1 }])
+      expect(addTapMark(timings, 1.3, 3)[1]).toEqual({ wordIndex: 1, start: 1.3, end: 1.3 })
+    })
+  })
+
+  describe('exportWordTimings', () => {
+    it('should export timings that import back', () => {
+      const timings = [
+        { wordIndex: 0, start: 0, end: 0.3333333 },
+        { wordIndex: 1, start: 0.3333333, end: 1 },
+      ]
+      const exported = exportWordTimings(timings, text)
+      expect(JSON.parse(exported).words[0]).toEqual({ word: 'הילד', start: 0, end: 0.333 })
+      expect(importWordTimings(exported, 'json', text).timings).toEqual([
+        { wordIndex: 0, start: 0, end: 0.333 },
+        { wordIndex: 1, start: 0.333, end: 1 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for keyboard shortcuts
+ *
+ * Tests cover:
+ * - Key combinations of key presses
+ * - Finding the action of a key combination
+ * - Conflicts with reserved keys (Escape, undo and redo), other actions and karaoke marking
+ * - Binding and removing keys
+ * - Filling in saved shortcuts with the defaults
+ * - Key presses belonging to fields and buttons
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  bindShortcut,
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  formatKeyCombo,
+  getKeyCombo,
+  getShortcutConflict,
+  isKeyForTarget,
+  normalizeShortcutMap,
+  unbindShortcut,
+} from '../keyboard-shortcuts'
+
+const press = (key: string, modifiers: { ctrlKey?: boolean; altKey?: boolean; shiftKey?: boolean; metaKey?: boolean } = {}) =>
+  getKeyCombo({ key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers })
+
+describe('keyboard-shortcuts', () => {
+  describe('getKeyCombo', () => {
+    it('should name keys with their modifiers', () => {
+      expect(press('ArrowLeft')).toBe('ArrowLeft')
+      expect(press('Tab', { shiftKey: true })).toBe('Shift+Tab')
+      expect(press('Home', { ctrlKey: true, altKey: true })).toBe('Ctrl+Alt+Home')
+    })
+
+    it('should name Space and lowercase letters', () => {
+      expect(press(' ')).toBe('Space')
+      expect(press('N', { ctrlKey: true })).toBe('Ctrl+n')
+    })
+
+    it('should leave Shift out of characters', () => {
+      expect(press('!', { shiftKey: true })).toBe('!')
+    })
+
+    it('should ignore modifier keys pressed alone', () => {
+      expect(press('Shift', { shiftKey: true })).toBeNull()
+      expect(press('Control', { ctrlKey: true })).toBeNull()
+    })
+  })
+
+  describe('findShortcutAction', () => {
+    it('should find the action of the default keys', () => {
+      expect(findShortcutAction(DEFAULT_SHORTCUTS, 'ArrowLeft')).toBe('next')
+      expect(findShortcutAction(DEFAULT_SHORTCUTS, 'Shift+Tab')).toBe('prev')
+      expect(findShortcutAction(DEFAULT_SHORTCUTS, 'Space')).toBe('playPause')
+      expect(findShortcutAction(DEFAULT_SHORTCUTS, 'PageDown')).toBeNull()
+    })
+  })
+
+  describe('getShortcutConflict', () => {
+    it('should report the action a key is bound to', () => {
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'toggleNiqqud', 'Tab')).toEqual({ action: 'next' })
+    })
+
+    it('should not report the action itself or free keys', () => {
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'next', 'Tab')).toBeNull()
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'next', 'PageDown')).toBeNull()
+    })
+
+    it('should reject reserved keys', () => {
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'next', 'Escape')).toEqual({ reserved: true })
+    })
+
+    it('should reject the undo and redo keys of the page', () => {
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'toggleNiqqud', 'Ctrl+z')).toEqual({ reserved: true })
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'toggleNiqqud', 'Ctrl+y')).toEqual({ reserved: true })
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'toggleNiqqud', 'Ctrl+Shift+z')).toEqual({ reserved: true })
+    })
+
+    it('should report keys that karaoke marking takes', () => {
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'playPause', 'Space')).toEqual({ karaokeMarking: true })
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'prev', 'Backspace')).toEqual({ karaokeMarking: true })
+      // A key bound to another action is reported as that conflict first
+      expect(getShortcutConflict(DEFAULT_SHORTCUTS, 'next', 'Space')).toEqual({ action: 'playPause' })
+    })
+  })
+
+  describe('bindShortcut', () => {
+    it('should add a key to an action', () => {
+      const shortcuts = bindShortcut(DEFAULT_SHORTCUTS, 'next', 'PageDown')
+      expect(shortcuts.next).toEqual(['ArrowLeft', 'Tab', 'PageDown'])
+    })
+
+    it('should take the key from its previous action', () => {
+      const shortcuts = bindShortcut(DEFAULT_SHORTCUTS, 'toggleNiqqud', 'Space')
+      expect(shortcuts.toggleNiqqud).toEqual(['Space'])
+      expect(shortcuts.playPause).toEqual([])
+      expect(DEFAULT_SHORTCUTS.playPause).toEqual(['Space'])
+    })
+  })
+
+  describe('unbindShortcut', () => {
+    it('should remove a key from an action', () => {
+      expect(unbindShortcut(DEFAULT_SHORTCUTS, 'next', 'Tab').next).toEqual(['ArrowLeft'])
+    })
+  })
+
+  describe('formatKeyCombo', () => {
+    it('should show arrows and Space readably', () => {
+      expect(formatKeyCombo('ArrowLeft')).toBe('←')
+      expect(formatKeyCombo('Ctrl+Space')).toBe('Ctrl + רווח')
+    })
+  })
+
+  describe('normalizeShortcutMap', () => {
+    it('should fill in missing actions with the default keys', () => {
+      const shortcuts = normalizeShortcutMap({ next: ['PageDown'], up: 'ArrowUp', unknown: ['x'] })
+      expect(shortcuts.next).toEqual(['PageDown'])
+      expect(shortcuts.up).toEqual(['ArrowUp'])
+      expect(shortcuts.prev).toEqual(DEFAULT_SHORTCUTS.prev)
+      expect(shortcuts).not.toHaveProperty('unknown')
+    })
+
+    it('should keep actions saved without keys', () => {
+      expect(normalizeShortcutMap({ playPause: [] }).playPause).toEqual([])
+    })
+
+    it('should use the defaults for invalid values', () => {
+      expect(normalizeShortcutMap(undefined)).toEqual(DEFAULT_SHORTCUTS)
+      expect(normalizeShortcutMap('keys')).toEqual(DEFAULT_SHORTCUTS)
+    })
+  })
+
+  describe('isKeyForTarget', () => {
+    it('should leave keys typed in fields to the field', () => {
+      expect(isKeyForTarget(document.createElement('input'), 'ArrowLeft')).toBe(true)
+      expect(isKeyForTarget(document.createElement('div'), 'ArrowLeft')).toBe(false)
+      expect(isKeyForTarget(null, 'ArrowLeft')).toBe(false)
+    })
+
+    it('should leave Space and Enter on a button to the button', () => {
+      const button = document.createElement('button')
+      expect(isKeyForTarget(button, 'Space')).toBe(true)
+      expect(isKeyForTarget(button, 'ArrowLeft')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,242 @@
+/**
+ * Unit tests for the language model provider registry and adapters
+ *
+ * Tests cover:
+ * - Resolving the provider for a model
+ * - Settings model list built from the registry
+ * - Request/response mapping for complete and stream (fetch is mocked)
+ * - Error codes, Retry-After parsing and the timeout/retry policy
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  getProvider,
+  getProviderForModel,
+  modelRequiresApiKey,
+  callWithPolicy,
+  getRetryDelay,
+  isRetryableError,
+  DEFAULT_MODEL_CALL_POLICY,
+  LLM_PROVIDERS,
+} from '../llm'
+import { parseRetryAfter } from '../llm/http'
+import { DEFAULT_MODELS } from '../settings'
+
+/**
+ * Build a streaming response from server-sent event payloads
+ */
+function sseResponse(events: string[]) {
+  const body = events.map((event) => `data: ${event}\n\n`).join('')
+  return new Response(new TextEncoder().encode(body), { status: 200 })
+}
+
+describe('llm providers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getProviderForModel', () => {
+    it('should resolve providers by model name', () => {
+      expect(getProviderForModel('gemini-2.5-flash').id).toBe('gemini')
+      expect(getProviderForModel('claude-sonnet-4-5').id).toBe('anthropic')
+      expect(getProviderForModel('local:llama3.1').id).toBe('local')
+      expect(getProviderForModel('gpt-4o').id).toBe('openai')
+      expect(getProviderForModel('some-unknown-model').id).toBe('openai')
+    })
+
+    it('should not require an API key for local models', () => {
+      expect(modelRequiresApiKey('local:llama3.1')).toBe(false)
+      expect(modelRequiresApiKey('gpt-4o')).toBe(true)
+    })
+
+    it('should resolve every listed model to the provider that lists it', () => {
+      LLM_PROVIDERS.forEach((provider) => {
+        provider.models.forEach((model) => {
+          expect(getProviderForModel(model.value).id).toBe(provider.id)
+        })
+      })
+    })
+  })
+
+  it('should build DEFAULT_MODELS from the registry', () => {
+    expect(DEFAULT_MODELS).toEqual(LLM_PROVIDERS.flatMap((provider) => provider.models))
+    expect(DEFAULT_MODELS[0].value).toBe('gpt-4-turbo')
+  })
+
+  describe('complete', () => {
+    it('should send OpenAI chat completions and read the message', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({ choices: [{ message: { content: ' שָׁלוֹם ' } }] })
+      )
+
+      const result = await getProvider('openai')!.complete(
+        { model: 'gpt-4o', systemPrompt: 'system', userPrompt: 'user', temperature: 0.2 },
+        { apiKey: 'key' }
+      )
+
+      expect(result).toEqual({ success: true, text: 'שָׁלוֹם' })
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('https://api.openai.com/v1/chat/completions')
+      const body = JSON.parse(init!.body as string)
+      expect(body.messages).toEqual([
+        { role: 'system', content: 'system' },
+        { role: 'user', content: 'user' },
+      ])
+      expect(body.temperature).toBe(0.2)
+    })
+
+    it('should strip the local prefix and omit the auth header without a key', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({ choices: [{ message: { content: 'תשובה' } }] })
+      )
+
+      await getProvider('local')!.complete(
+        { model: 'local:llama3.1', userPrompt: 'user' },
+        { baseUrl: 'http://localhost:8080/v1/' }
+      )
+
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('http://localhost:8080/v1/chat/completions')
+      expect(JSON.parse(init!.body as string).model).toBe('llama3.1')
+      expect((init!.headers as Record<string, string>).Authorization).toBeUndefined()
+    })
+
+    it('should send Anthropic messages with a separate system prompt', async () => {
+      const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({ content: [{ type: 'text', text: 'תשובה' }] })
+      )
+
+      const result = await getProvider('anthropic')!.complete(
+        { model: 'claude-haiku-4-5', systemPrompt: 'system', userPrompt: 'user' },
+        { apiKey: 'key' }
+      )
+
+      expect(result.text).toBe('תשובה')
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string)
+      expect(body.system).toBe('system')
+      expect(body.messages).toEqual([{ role: 'user', content: 'user' }])
+    })
+
+    it('should return the API error message on failure', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({ error: { message: 'API key not valid' } }, { status: 400 })
+      )
+
+      const result = await getProvider('gemini')!.complete(
+        { model: 'gemini-2.5-flash', userPrompt: 'user' },
+        { apiKey: 'bad' }
+      )
+
+      expect(result).toMatchObject({
+        success: false,
+        status: 400,
+        code: 'invalid_request',
+        error: 'API key not valid',
+      })
+    })
+
+    it('should report rate limits with the Retry-After delay', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        Response.json({}, { status: 429, headers: { 'Retry-After': '3' } })
+      )
+
+      const result = await getProvider('openai')!.complete({ model: 'gpt-4o', userPrompt: 'user' }, { apiKey: 'key' })
+
+      expect(result).toMatchObject({ success: false, code: 'rate_limited', retryAfterMs: 3000 })
+      expect(isRetryableError(result.code)).toBe(true)
+    })
+  })
+
+  describe('stream', () => {
+    it('should report OpenAI deltas and return the full text', async () => {
+      vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        sseResponse([
+          JSON.stringify({ choices: [{ delta: { content: 'שָׁ' } }] }),
+          JSON.stringify({ choices: [{ delta: { content: 'לוֹם' } }] }),
+          '[DONE]',
+        ])
+      )
+      const deltas: string[] = []
+
+      const result = await getProvider('openai')!.stream(
+        { model: 'gpt-4o', userPrompt: 'user' },
+        { apiKey: 'key' },
+        (delta) => deltas.push(delta)
+      )
+
+      expect(deltas).toEqual(['שָׁ', 'לוֹם'])
+      expect(result.text).toBe('שָׁלוֹם')
+    })
+  })
+
+  describe('call policy', () => {
+    const fastPolicy = { initialDelayMs: 1, maxDelayMs: 50 }
+
+    it('should parse Retry-After seconds and dates', () => {
+      expect(parseRetryAfter('2')).toBe(2000)
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(10000)
+      expect(parseRetryAfter('soon')).toBeUndefined()
+      expect(parseRetryAfter(null)).toBeUndefined()
+    })
+
+    it('should back off exponentially and wait at least Retry-After', () => {
+      expect(getRetryDelay(0, DEFAULT_MODEL_CALL_POLICY)).toBe(1000)
+      expect(getRetryDelay(2, DEFAULT_MODEL_CALL_POLICY)).toBe(4000)
+      expect(getRetryDelay(0, DEFAULT_MODEL_CALL_POLICY, 5000)).toBe(5000)
+      expect(getRetryDelay(0, DEFAULT_MODEL_CALL_POLICY, 60000)).toBeNull()
+    })
+
+    it('should retry transport failures until the call succeeds', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const attempt = vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, code: 'server_error', error: 'שגיאה' })
+        .mockResolvedValueOnce({ success: false, code: 'rate_limited', retryAfterMs: 5, error: 'שגיאה' })
+        .mockResolvedValueOnce({ success: true, text: 'תשובה' })
+
+      const result = await callWithPolicy(attempt, { policy: fastPolicy })
+
+      expect(result).toEqual({ success: true, text: 'תשובה' })
+      expect(attempt).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry requests that fail the same way every time', async () => {
+      const attempt = vi.fn().mockResolvedValue({ success: false, code: 'auth_error', error: 'bad key' })
+
+      const result = await callWithPolicy(attempt, { policy: fastPolicy })
+
+      expect(result.code).toBe('auth_error')
+      expect(attempt).toHaveBeenCalledTimes(1)
+    })
+
+    it('should abort an attempt that times out', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const attempt = vi.fn(
+        (signal: AbortSignal) =>
+          new Promise<{ success: boolean; code: 'cancelled' }>((resolve) =>
+            signal.addEventListener('abort', () => resolve({ success: false, code: 'cancelled' }))
+          )
+      )
+
+      const result = await callWithPolicy(attempt, { policy: { ...fastPolicy, timeoutMs: 5, maxRetries: 1 } })
+
+      expect(result.code).toBe('timeout')
+      expect(attempt).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop when the caller cancels', async () => {
+      const controller = new AbortController()
+      const attempt = vi.fn(async () => {
+        controller.abort()
+        return { success: false, code: 'cancelled' as const, error: 'הבקשה בוטלה' }
+      })
+
+      const result = await callWithPolicy(attempt, { policy: fastPolicy, signal: controller.signal })
+
+      expect(result.code).toBe('cancelled')
+      expect(attempt).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the access rules of the model routes
+ *
+ * Tests cover:
+ * - Allowing only the configured model and prompts to anonymous callers
+ * - Counting model calls (one per chunk) against the hourly rate limit of each caller key
+ * - Reading the caller's IP address
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  getClientIp,
+  isConfiguredModelRequest,
+  resetRateLimits,
+  takeRateLimit,
+} from '../model-access-server'
+
+describe('model-access-server', () => {
+  const settings = {
+    niqqudModel: 'gpt-4o',
+    niqqudSystemPrompt: 'system',
+    niqqudUserPrompt: 'user {text}',
+    niqqudCompletionSystemPrompt: 'completion system',
+    niqqudCompletionUserPrompt: 'completion user {text}',
+    syllablesModel: 'gemini-2.0-flash',
+    syllablesPrompt: 'syllables',
+  }
+
+  describe('isConfiguredModelRequest', () => {
+    it('should allow the configured model with the configured or completion prompts', () => {
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4o', ['system', 'user {text}'], settings)).toBe(true)
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4o', ['completion system', 'completion user {text}'], settings)).toBe(true)
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4o', [undefined, ''], settings)).toBe(true)
+      expect(isConfiguredModelRequest('syllables', 'gemini-2.0-flash', ['syllables'], settings)).toBe(true)
+    })
+
+    it('should refuse other models and prompts', () => {
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4.1', ['system', 'user {text}'], settings)).toBe(false)
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4o', ['Write a poem', 'user {text}'], settings)).toBe(false)
+      // Prompts of the two pairs cannot be mixed
+      expect(isConfiguredModelRequest('niqqud', 'gpt-4o', ['system', 'completion user {text}'], settings)).toBe(false)
+      expect(isConfiguredModelRequest('syllables', 'gemini-2.0-flash', ['other'], settings)).toBe(false)
+    })
+  })
+
+  describe('takeRateLimit', () => {
+    beforeEach(() => {
+      resetRateLimits()
+    })
+
+    it('should refuse calls over the limit until the hour is over', () => {
+      expect(takeRateLimit(['ip:1.2.3.4'], 2, 1, 0)).toBeNull()
+      expect(takeRateLimit(['ip:1.2.3.4'], 2, 1, 1000)).toBeNull()
+      expect(takeRateLimit(['ip:1.2.3.4'], 2, 1, 2000)).toBe(60 * 60 * 1000 - 2000)
+      expect(takeRateLimit(['ip:5.6.7.8'], 2, 1, 2000)).toBeNull()
+      expect(takeRateLimit(['ip:1.2.3.4'], 2, 1, 60 * 60 * 1000)).toBeNull()
+    })
+
+    it('should limit each key of the caller', () => {
+      expect(takeRateLimit(['ip:1.2.3.4', 'cookie:a'], 2, 1, 0)).toBeNull()
+      expect(takeRateLimit(['ip:1.2.3.4', 'cookie:b'], 2, 1, 0)).toBeNull()
+      // The IP address is over its limit, although the cookie is new
+      expect(takeRateLimit(['ip:1.2.3.4', 'cookie:c'], 2, 1, 0)).not.toBeNull()
+      // The cookie is over its limit from another address
+      expect(takeRateLimit(['ip:5.6.7.8', 'cookie:a'], 2, 1, 0)).toBeNull()
+      expect(takeRateLimit(['ip:9.9.9.9', 'cookie:a'], 2, 1, 0)).not.toBeNull()
+    })
+  })
+
+  describe('takeRateLimit with chunked requests', () => {
+    beforeEach(() => {
+      resetRateLimits()
+    })
+
+    it('should count each chunk as a model call', () => {
+      expect(takeRateLimit(['user:a'], 10, 6, 0)).toBeNull()
+      expect(takeRateLimit(['user:a'], 10, 6, 0)).not.toBeNull()
+      expect(takeRateLimit(['user:a'], 10, 4, 0)).toBeNull()
+    })
+
+    it('should count more calls than the limit as the whole limit', () => {
+      expect(takeRateLimit(['user:a'], 10, 14, 0)).toBeNull()
+      expect(takeRateLimit(['user:a'], 10, 1, 0)).not.toBeNull()
+    })
+  })
+
+  describe('getClientIp', () => {
+    it('should prefer the address the host reports', () => {
+      expect(getClientIp({ ip: '9.9.9.9', headers: new Headers({ 'x-forwarded-for': '1.2.3.4' }) })).toBe('9.9.9.9')
+    })
+
+    it('should take the forwarded address our proxy added, not the ones the client sent', () => {
+      expect(getClientIp({ headers: new Headers({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1' }) })).toBe('10.0.0.1')
+      expect(getClientIp({ headers: new Headers({ 'x-real-ip': '5.6.7.8' }) })).toBe('5.6.7.8')
+      expect(getClientIp({ headers: new Headers() })).toBe('unknown')
+    })
+  })
+})
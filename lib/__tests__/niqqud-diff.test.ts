@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the word-level niqqud diff
+ *
+ * Tests cover:
+ * - Classification of word changes (added/changed niqqud, changed consonants)
+ * - Dropped and added words
+ * - Words the consonant guard restored
+ * - Building the final text from accept/reject decisions
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffNiqqudWords, applyNiqqudDiffDecisions } from '../niqqud-diff'
+import { guardConsonants } from '../consonant-guard'
+
+describe('niqqud diff', () => {
+  describe('diffNiqqudWords', () => {
+    it('should classify added and changed niqqud', () => {
+      const diffs = diffNiqqudWords('שָׁלוֹם עולם רַב', 'שָׁלוֹם עוֹלָם רָב')
+      expect(diffs.map((d) => d.change)).toEqual(['unchanged', 'niqqudAdded', 'niqqudChanged'])
+    })
+
+    it('should flag words with changed consonants', () => {
+      const diffs = diffNiqqudWords('הילד הלך', 'הַיֶּלֶד רָץ')
+      expect(diffs[1]).toMatchObject({ change: 'consonantsChanged', original: 'הלך', vocalized: 'רָץ' })
+    })
+
+    it('should report dropped and added words', () => {
+      expect(diffNiqqudWords('א ב ג', 'א ג').map((d) => d.change)).toEqual(['unchanged', 'wordRemoved', 'unchanged'])
+      expect(diffNiqqudWords('א ג', 'א ב ג').map((d) => d.change)).toEqual(['unchanged', 'wordAdded', 'unchanged'])
+    })
+  })
+
+  describe('restored words', () => {
+    it('should show the words the consonant guard restored as the model returned them', () => {
+      const original = 'הילד הלך הביתה היום'
+      const guard = guardConsonants(original, 'הַיֶּלֶד רָץ הַבַּיְתָה')
+      const diffs = diffNiqqudWords(original, guard.text, guard.mismatches)
+
+      expect(diffs.map((d) => d.change)).toEqual(['niqqudAdded', 'consonantsChanged', 'niqqudAdded', 'wordRemoved'])
+      expect(diffs[1]).toMatchObject({ original: 'הלך', vocalized: 'רָץ', restored: true })
+      expect(diffs[3]).toMatchObject({ original: 'היום', vocalized: null, restored: true })
+    })
+
+    it('should keep the restored words when rejected and take the model version when accepted', () => {
+      const original = 'הילד הלך'
+      const guard = guardConsonants(original, 'הַיֶּלֶד רָץ')
+      const diffs = diffNiqqudWords(original, guard.text, guard.mismatches)
+
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set([1]))).toBe('הַיֶּלֶד הלך')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set())).toBe('הַיֶּלֶד רָץ')
+    })
+  })
+
+  describe('applyNiqqudDiffDecisions', () => {
+    it('should use the model text when everything is accepted', () => {
+      const original = 'שלום\nעולם'
+      const diffs = diffNiqqudWords(original, 'שָׁלוֹם עוֹלָם')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set())).toBe('שָׁלוֹם\nעוֹלָם')
+    })
+
+    it('should keep the original word for rejected entries', () => {
+      const original = 'הילד הלך הביתה'
+      const diffs = diffNiqqudWords(original, 'הַיֶּלֶד רָץ הַבַּיְתָה')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set([1]))).toBe('הַיֶּלֶד הלך הַבַּיְתָה')
+    })
+
+    it('should include accepted added words and drop rejected ones', () => {
+      const original = 'א ג'
+      const diffs = diffNiqqudWords(original, 'א ב ג')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set())).toBe('א ב ג')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set([1]))).toBe('א ג')
+    })
+
+    it('should restore a dropped word when its removal is rejected', () => {
+      const original = 'א ב ג'
+      const diffs = diffNiqqudWords(original, 'א ג')
+      expect(applyNiqqudDiffDecisions(original, diffs, new Set([1]))).toBe('א ב ג')
+    })
+  })
+})
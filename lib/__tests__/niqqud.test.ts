@@ -6,6 +6,7 @@
  * - Removal of niqqud from text
  * - Status detection (none/partial/full)
  * - Helper functions (hasNiqqud, isFullyNiqqud)
+ * - Mark classification and selective stripping (te'amim, punctuation)
  */
 
 import { describe, it, expect } from 'vitest'
@@ -15,6 +16,14 @@ import {
   detectNiqqud,
   hasNiqqud,
   isFullyNiqqud,
+  getHebrewMarkType,
+  isHebrewLetter,
+  isVowelMark,
+  isCantillationMark,
+  isHebrewPunctuation,
+  stripHebrewMarks,
+  keepHebrewMarks,
+  removeCantillation,
 } from '../niqqud'
 
 describe('niqqud utilities', () => {
@@ -52,6 +61,90 @@ describe('niqqud utilities', () => {
       // Characters after the niqqud range
       expect(isNiqqudMark('\u05C8')).toBe(false) // Just after range
     })
+
+    it('should reject Hebrew punctuation from the marks block', () => {
+      expect(isNiqqudMark('\u05BE')).toBe(false) // Maqaf
+      expect(isNiqqudMark('\u05C0')).toBe(false) // Paseq
+      expect(isNiqqudMark('\u05C3')).toBe(false) // Sof pasuq
+      expect(isNiqqudMark('\u05C6')).toBe(false) // Nun hafukha
+    })
+
+    it('should accept cantillation, meteg and rafe as marks', () => {
+      expect(isNiqqudMark('\u0591')).toBe(true) // Etnahta
+      expect(isNiqqudMark('\u05BD')).toBe(true) // Meteg
+      expect(isNiqqudMark('\u05BF')).toBe(true) // Rafe
+    })
+  })
+
+  describe('getHebrewMarkType', () => {
+    it('should classify every category', () => {
+      expect(getHebrewMarkType('\u05B0')).toBe('vowel') // Sheva
+      expect(getHebrewMarkType('\u05BB')).toBe('vowel') // Qubuts
+      expect(getHebrewMarkType('\u05C7')).toBe('vowel') // Qamats qatan
+      expect(getHebrewMarkType('\u05BC')).toBe('dagesh')
+      expect(getHebrewMarkType('\u05C1')).toBe('shinDot')
+      expect(getHebrewMarkType('\u05C2')).toBe('sinDot')
+      expect(getHebrewMarkType('\u0591')).toBe('cantillation')
+      expect(getHebrewMarkType('\u05AF')).toBe('cantillation')
+      expect(getHebrewMarkType('\u05C4')).toBe('cantillation') // Upper dot
+      expect(getHebrewMarkType('\u05BD')).toBe('meteg')
+      expect(getHebrewMarkType('\u05BF')).toBe('rafe')
+      expect(getHebrewMarkType('\u05BE')).toBe('punctuation')
+      expect(getHebrewMarkType('\u05C3')).toBe('punctuation')
+    })
+
+    it('should return null outside the marks block', () => {
+      expect(getHebrewMarkType('א')).toBeNull()
+      expect(getHebrewMarkType('a')).toBeNull()
+      expect(getHebrewMarkType('')).toBeNull()
+      expect(getHebrewMarkType('\u0590')).toBeNull()
+      expect(getHebrewMarkType('\u05C8')).toBeNull()
+    })
+
+    it('should back the category predicates', () => {
+      expect(isVowelMark('\u05B8')).toBe(true)
+      expect(isVowelMark('\u05BC')).toBe(false)
+      expect(isCantillationMark('\u0596')).toBe(true)
+      expect(isCantillationMark('\u05B8')).toBe(false)
+      expect(isHebrewPunctuation('\u05BE')).toBe(true)
+      expect(isHebrewPunctuation('\u05BC')).toBe(false)
+    })
+  })
+
+  describe('isHebrewLetter', () => {
+    it('should accept letters and final forms', () => {
+      expect(isHebrewLetter('א')).toBe(true)
+      expect(isHebrewLetter('ת')).toBe(true)
+      expect(isHebrewLetter('ך')).toBe(true)
+    })
+
+    it('should reject marks, punctuation and non-Hebrew characters', () => {
+      expect(isHebrewLetter('\u05B8')).toBe(false)
+      expect(isHebrewLetter('\u05BE')).toBe(false)
+      expect(isHebrewLetter('\u05F3')).toBe(false) // Geresh
+      expect(isHebrewLetter('a')).toBe(false)
+      expect(isHebrewLetter('')).toBe(false)
+    })
+  })
+
+  describe('selective stripping', () => {
+    // בְּרֵאשִׁ֖ית with tipcha (U+0596) on the shin
+    const withTeamim = 'בְּרֵאשִׁ\u0596ית'
+
+    it('should remove te\'amim but keep vowels with removeCantillation', () => {
+      expect(removeCantillation(withTeamim)).toBe('בְּרֵאשִׁית')
+    })
+
+    it('should remove only the requested categories', () => {
+      expect(stripHebrewMarks('שָׁלוֹם', ['shinDot'])).toBe('שָלוֹם')
+      expect(stripHebrewMarks('בְּ', ['dagesh'])).toBe('בְ')
+      expect(stripHebrewMarks('שָׁלוֹם', [])).toBe('שָׁלוֹם')
+    })
+
+    it('should keep only the requested categories', () => {
+      expect(keepHebrewMarks(withTeamim, ['vowel'])).toBe('בְרֵאשִית')
+      expect(keepHebrewMarks('בֵּית־סֵפֶר', [])).toBe('בית־ספר')
+    })
   })
 
   describe('removeNiqqud', () => {
@@ -77,6 +170,15 @@ describe('niqqud utilities', () => {
       expect(removeNiqqud(mixedText)).toBe(expected)
     })
 
+    it('should preserve maqaf and sof pasuq', () => {
+      expect(removeNiqqud('בֵּית־הַסֵּפֶר')).toBe('בית־הספר')
+      expect(removeNiqqud('וַיְהִי־אוֹר׃')).toBe('ויהי־אור׃')
+    })
+
+    it('should remove cantillation marks as well', () => {
+      expect(removeNiqqud('בְּרֵאשִׁ\u0596ית')).toBe('בראשית')
+    })
+
     it('should remove all niqqud marks while preserving Hebrew letters', () => {
       // Complex example with multiple niqqud types
       const complexText = 'בְּרֵאשִׁית'
@@ -118,6 +220,15 @@ describe('niqqud utilities', () => {
       expect(['full', 'partial']).toContain(result)
     })
 
+    it('should not treat maqaf or sof pasuq as niqqud', () => {
+      expect(detectNiqqud('בית־ספר')).toBe('none')
+      expect(detectNiqqud('ויהי אור׃')).toBe('none')
+    })
+
+    it('should ignore detached punctuation when counting words', () => {
+      expect(detectNiqqud('שָׁלוֹם עוֹלָם ׃')).toBe('full')
+    })
+
     it('should handle mixed Hebrew and non-Hebrew text', () => {
       const mixedText = 'שָׁלוֹם world'
       const result = detectNiqqud(mixedText)
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for syncing cached results with the user's account
+ *
+ * Tests cover:
+ * - Planning downloads and uploads by timestamp
+ * - Downloading newer results into the local niqqud and syllables caches
+ * - Uploading results that are missing or older on the server
+ * - Anonymous users (no sync)
+ *
+ * The Supabase client is mocked; the caches use the in-memory store.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { supabaseState } = vi.hoisted(() => ({
+  supabaseState: {
+    user: null as { id: string } | null,
+    rows: [] as Array<Record<string, unknown>>,
+    upserted: [] as Array<Record<string, unknown>>,
+  },
+}))
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: async () => ({ data: { user: supabaseState.user }, error: null }),
+    },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          order: () => ({
+            range: async () => ({ data: supabaseState.rows, error: null }),
+          }),
+        }),
+      }),
+      upsert: async (rows: Array<Record<string, unknown>>) => {
+        supabaseState.upserted.push(...rows)
+        return { error: null }
+      },
+    }),
+  }),
+}))
+
+import {
+  planProcessedTextsSync,
+  pushProcessedTexts,
+  syncProcessedTexts,
+  ProcessedText,
+} from '../processed-texts-sync'
+import { clearAllNiqqudCache, loadNiqqudFromCache, saveNiqqudToCache } from '../niqqud-cache'
+import { clearAllSyllablesCache, loadSyllablesFromCache, saveSyllablesToCache } from '../syllables-cache'
+import { createTextHash } from '../syllables'
+
+const item = (textHash: string, updatedAt: number, kind: ProcessedText['kind'] = 'niqqud'): ProcessedText => ({
+  kind,
+  textHash,
+  text: textHash,
+  result: {},
+  updatedAt,
+})
+
+describe('processed texts sync', () => {
+  beforeEach(async () => {
+    supabaseState.user = { id: 'user-1' }
+    supabaseState.rows = []
+    supabaseState.upserted = []
+    localStorage.clear()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await clearAllNiqqudCache()
+    await clearAllSyllablesCache()
+  })
+
+  describe('planProcessedTextsSync', () => {
+    it('should copy missing results to the other side', () => {
+      const plan = planProcessedTextsSync([item('a', 1)], [item('b', 1)])
+      expect(plan.download.map((i) => i.textHash)).toEqual(['b'])
+      expect(plan.upload.map((i) => i.textHash)).toEqual(['a'])
+    })
+
+    it('should keep the newer result when both sides have one', () => {
+      const plan = planProcessedTextsSync([item('a', 5), item('b', 1), item('c', 3)], [item('a', 1), item('b', 5), item('c', 3)])
+      expect(plan.upload.map((i) => i.textHash)).toEqual(['a'])
+      expect(plan.download.map((i) => i.textHash)).toEqual(['b'])
+    })
+
+    it('should treat niqqud and syllables results of the same text separately', () => {
+      const plan = planProcessedTextsSync([item('a', 1, 'niqqud')], [item('a', 1, 'syllables')])
+      expect(plan.upload).toHaveLength(1)
+      expect(plan.download).toHaveLength(1)
+    })
+  })
+
+  it('should download newer results and upload results missing on the server', async () => {
+    const text = 'שלום רב'
+    supabaseState.rows = [
+      {
+        kind: 'niqqud',
+        text_hash: await createTextHash(text),
+        text,
+        result: { niqqudText: 'שָׁלוֹם רַב' },
+        updated_at: new Date(2000).toISOString(),
+      },
+    ]
+    await saveNiqqudToCache(text, 'שלום רב ישן', { updatedAt: 1000 })
+    await saveSyllablesToCache('לכל', { words: [{ word: 'לכל', syllables: ['ל', 'כל'] }] })
+
+    expect(await syncProcessedTexts()).toEqual({ downloaded: 1, uploaded: 1 })
+
+    // Found again with partial niqqud, since entries are keyed by the text without niqqud
+    expect(await loadNiqqudFromCache('שָׁלוֹם רב')).toBe('שָׁלוֹם רַב')
+    expect(supabaseState.upserted).toEqual([
+      expect.objectContaining({
+        user_id: 'user-1',
+        kind: 'syllables',
+        text: 'לכל',
+        result: { words: [{ word: 'לכל', syllables: ['ל', 'כל'] }] },
+      }),
+    ])
+    expect((await loadSyllablesFromCache('לכל'))?.words[0].syllables).toEqual(['ל', 'כל'])
+  })
+
+  it('should upload only results saved since the last upload', async () => {
+    await saveNiqqudToCache('שלום', 'שָׁלוֹם')
+    expect(await pushProcessedTexts()).toBe(1)
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await saveNiqqudToCache('רב', 'רַב')
+    expect(await pushProcessedTexts()).toBe(1)
+    expect(supabaseState.upserted.map((row) => row.text)).toEqual(['שלום', 'רב'])
+  })
+
+  it('should not sync for anonymous users', async () => {
+    supabaseState.user = null
+    await saveNiqqudToCache('שלום', 'שָׁלוֹם')
+
+    expect(await syncProcessedTexts()).toBeNull()
+    expect(await pushProcessedTexts()).toBeNull()
+    expect(supabaseState.upserted).toEqual([])
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for reading pyramids
+ *
+ * Tests cover:
+ * - Line lengths with different word jumps
+ * - Keeping no-break words with the next word
+ * - Splitting the text into sentences and lines
+ * - Laying out the pyramids as text with their source word indices
+ * - Taking the pyramid syllables from the text's syllables
+ * - Parsing the no-break words setting
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildReadingPyramids,
+  getPyramidLineLengths,
+  isNoBreakWord,
+  mapPyramidSyllables,
+  normalizeWordJump,
+  parseNoBreakWords,
+  renderReadingPyramids,
+} from '../reading-pyramid'
+
+const settings = { wordJump: 1, noBreakWords: ['של', 'את'] }
+
+describe('reading-pyramid', () => {
+  describe('getPyramidLineLengths', () => {
+    it('should add one word on each line', () => {
+      expect(getPyramidLineLengths(['הילד', 'הלך', 'לגן'], settings)).toEqual([1, 2, 3])
+    })
+
+    it('should add several words on each line and end with the whole sentence', () => {
+      const words = ['א', 'ב', 'ג', 'ד', 'ה']
+      expect(getPyramidLineLengths(words, { ...settings, wordJump: 2 })).toEqual([2, 4, 5])
+    })
+
+    it('should not end a line with a no-break word', () => {
+      // "את" and "של" stay with the word after them
+      const words = ['ראיתי', 'את', 'הכלב', 'של', 'דני']
+      expect(getPyramidLineLengths(words, settings)).toEqual([1, 3, 5])
+    })
+
+    it('should end the last line with a no-break word at the end of the sentence', () => {
+      expect(getPyramidLineLengths(['זה', 'של'], settings)).toEqual([1, 2])
+    })
+  })
+
+  describe('isNoBreakWord', () => {
+    it('should ignore niqqud and punctuation', () => {
+      expect(isNoBreakWord('אֶת', settings.noBreakWords)).toBe(true)
+      expect(isNoBreakWord('"של,', settings.noBreakWords)).toBe(true)
+      expect(isNoBreakWord('שלום', settings.noBreakWords)).toBe(false)
+    })
+  })
+
+  describe('buildReadingPyramids', () => {
+    it('should build a pyramid for each sentence', () => {
+      const pyramids = buildReadingPyramids('הילד הלך. הוא שמח!\nסוף', settings)
+
+      expect(pyramids.map((pyramid) => pyramid.words)).toEqual([['הילד', 'הלך.'], ['הוא', 'שמח!'], ['סוף']])
+      expect(pyramids.map((pyramid) => pyramid.firstWordIndex)).toEqual([0, 2, 4])
+    })
+
+    it('should return no pyramids for empty text', () => {
+      expect(buildReadingPyramids(' \n ', settings)).toEqual([])
+    })
+  })
+
+  describe('renderReadingPyramids', () => {
+    it('should put each pyramid line on its own text line', () => {
+      const pyramidText = renderReadingPyramids(buildReadingPyramids('הילד הלך. הוא שמח', settings))
+
+      expect(pyramidText.text).toBe('הילד\nהילד הלך.\nהוא\nהוא שמח')
+      expect(pyramidText.wordIndices).toEqual([0, 0, 1, 2, 2, 3])
+    })
+  })
+
+  describe('mapPyramidSyllables', () => {
+    it('should repeat the syllables of each source word', () => {
+      const syllablesData = {
+        words: [
+          { word: 'הַיֶּלֶד', syllables: ['הַ', 'יֶּ', 'לֶד'], start: 0, end: 8 },
+          { word: 'הָלַךְ', syllables: ['הָ', 'לַךְ'] },
+        ],
+      }
+
+      expect(mapPyramidSyllables(syllablesData, [0, 0, 1])).toEqual({
+        words: [
+          { word: 'הַיֶּלֶד', syllables: ['הַ', 'יֶּ', 'לֶד'] },
+          { word: 'הַיֶּלֶד', syllables: ['הַ', 'יֶּ', 'לֶד'] },
+          { word: 'הָלַךְ', syllables: ['הָ', 'לַךְ'] },
+        ],
+      })
+    })
+
+    it('should return null when a word has no syllables', () => {
+      expect(mapPyramidSyllables({ words: [] }, [0])).toBeNull()
+    })
+  })
+
+  describe('settings', () => {
+    it('should parse comma separated no-break words', () => {
+      expect(parseNoBreakWords(' של,את ,, של ')).toEqual(['של', 'את'])
+    })
+
+    it('should keep the word jump within its limits', () => {
+      expect(normalizeWordJump(0)).toBe(1)
+      expect(normalizeWordJump(2.7)).toBe(2)
+      expect(normalizeWordJump(50)).toBe(10)
+      expect(normalizeWordJump(NaN)).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the auto-advance reading tempo
+ *
+ * Tests cover:
+ * - Describing the highlighted word, syllable, letter, sentence or line
+ * - Step durations in words per minute and milliseconds per syllable
+ * - Extra time for long words and syllables
+ * - Nudging the tempo within its limits
+ * - Normalizing saved tempos and keeping them within the limits
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_READING_TEMPO,
+  describeReadingStep,
+  getStepDuration,
+  normalizeReadingTempo,
+  nudgeReadingTempo,
+  READING_TEMPO_LIMITS,
+  ReadingTempo,
+} from '../reading-tempo'
+
+const text = 'הַיֶּלֶד הלך לגן'
+const syllablesData = {
+  words: [
+    { word: 'הַיֶּלֶד', syllables: ['הַ', 'יֶּ', 'לֶד'] },
+    { word: 'הלך', syllables: ['ה', 'לך'] },
+    { word: 'לגן', syllables: ['לגן'] },
+  ],
+}
+
+const tempo: ReadingTempo = {
+  unit: 'wordsPerMinute',
+  wordsPerMinute: 60,
+  msPerSyllable: 400,
+  extraMsPerLetter: 100,
+  countdownSeconds: 3,
+}
+
+describe('reading-tempo', () => {
+  describe('describeReadingStep', () => {
+    it('should count the letters and syllables of a word', () => {
+      expect(describeReadingStep(text, syllablesData, { mode: 'words', wordIndex: 0 })).toEqual({
+        mode: 'words',
+        letters: 4,
+        syllables: 3,
+      })
+    })
+
+    it('should estimate the syllables of a word without syllables data', () => {
+      expect(describeReadingStep(text, null, { mode: 'words', wordIndex: 1 })).toEqual({
+        mode: 'words',
+        letters: 3,
+        syllables: 2,
+      })
+    })
+
+    it('should describe a syllable by its letters', () => {
+      expect(
+        describeReadingStep(text, syllablesData, { mode: 'syllables', wordIndex: 0, syllableIndex: 2 })
+      ).toEqual({ mode: 'syllables', letters: 2, syllables: 1 })
+    })
+
+    it('should describe a letter', () => {
+      expect(describeReadingStep(text, null, { mode: 'letters', wordIndex: 0, letterIndex: 5 })).toEqual({
+        mode: 'letters',
+        letters: 1,
+        syllables: 1,
+      })
+    })
+
+    it('should add up the words of a sentence or line', () => {
+      const range = { start: 0, end: 3 }
+      expect(describeReadingStep(text, syllablesData, { mode: 'sentences', wordIndex: 0 }, range)).toEqual({
+        mode: 'sentences',
+        letters: 10,
+        syllables: 6,
+        words: 3,
+      })
+    })
+  })
+
+  describe('getStepDuration', () => {
+    it('should divide a minute by the words per minute', () => {
+      expect(getStepDuration(tempo, { mode: 'words', letters: 3, syllables: 2 })).toBe(1000)
+    })
+
+    it('should add time for each letter beyond the usual word length', () => {
+      expect(getStepDuration(tempo, { mode: 'words', letters: 6, syllables: 3 })).toBe(1200)
+    })
+
+    it('should give a word its syllables time in milliseconds per syllable', () => {
+      const syllableTempo = { ...tempo, unit: 'msPerSyllable' as const }
+      expect(getStepDuration(syllableTempo, { mode: 'words', letters: 4, syllables: 3 })).toBe(1200)
+    })
+
+    it('should time syllables and letters', () => {
+      const syllableTempo = { ...tempo, unit: 'msPerSyllable' as const }
+      expect(getStepDuration(syllableTempo, { mode: 'syllables', letters: 3, syllables: 1 })).toBe(500)
+      expect(getStepDuration(syllableTempo, { mode: 'letters', letters: 1, syllables: 1 })).toBe(200)
+    })
+
+    it('should give a sentence or line the time of its words', () => {
+      const step = { mode: 'lines' as const, letters: 14, syllables: 6, words: 3 }
+      expect(getStepDuration(tempo, step)).toBe(3200)
+      expect(getStepDuration({ ...tempo, unit: 'msPerSyllable' }, step)).toBe(2600)
+    })
+  })
+
+  describe('nudgeReadingTempo', () => {
+    it('should add words per minute to go faster', () => {
+      expect(nudgeReadingTempo(tempo, 1).wordsPerMinute).toBe(70)
+      expect(nudgeReadingTempo(tempo, -1).wordsPerMinute).toBe(50)
+    })
+
+    it('should remove milliseconds per syllable to go faster', () => {
+      const syllableTempo = { ...tempo, unit: 'msPerSyllable' as const }
+      expect(nudgeReadingTempo(syllableTempo, 1).msPerSyllable).toBe(350)
+    })
+
+    it('should stay within the limits', () => {
+      const fastest = { ...tempo, wordsPerMinute: READING_TEMPO_LIMITS.wordsPerMinute.max }
+      expect(nudgeReadingTempo(fastest, 1).wordsPerMinute).toBe(READING_TEMPO_LIMITS.wordsPerMinute.max)
+    })
+  })
+
+  describe('normalizeReadingTempo', () => {
+    it('should fill in missing and invalid fields with the defaults', () => {
+      expect(normalizeReadingTempo({ unit: 'msPerSyllable', wordsPerMinute: 'fast' })).toEqual({
+        ...DEFAULT_READING_TEMPO,
+        unit: 'msPerSyllable',
+      })
+      expect(normalizeReadingTempo(null)).toEqual(DEFAULT_READING_TEMPO)
+    })
+
+    it('should keep every field within its limits', () => {
+      expect(
+        normalizeReadingTempo({
+          unit: 'wordsPerMinute',
+          wordsPerMinute: 0,
+          msPerSyllable: -200,
+          extraMsPerLetter: 10000,
+          countdownSeconds: -1,
+        })
+      ).toEqual({
+        unit: 'wordsPerMinute',
+        wordsPerMinute: READING_TEMPO_LIMITS.wordsPerMinute.min,
+        msPerSyllable: READING_TEMPO_LIMITS.msPerSyllable.min,
+        extraMsPerLetter: READING_TEMPO_LIMITS.extraMsPerLetter.max,
+        countdownSeconds: READING_TEMPO_LIMITS.countdownSeconds.min,
+      })
+    })
+
+    it('should give a finite step duration for a zero words per minute tempo', () => {
+      const saved = normalizeReadingTempo({ ...tempo, wordsPerMinute: 0 })
+      expect(getStepDuration(saved, { mode: 'words', letters: 3, syllables: 2 })).toBe(6000)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for sentences and lines
+ *
+ * Tests cover:
+ * - Splitting the text into sentences on punctuation and sof pasuq
+ * - Sentences never continuing past the end of a line
+ * - Grouping rendered words into visual lines
+ * - Finding the sentence or line of a word
+ */
+
+import { describe, it, expect } from 'vitest'
+import { findRangeIndex, getLineWords, getSentenceRanges, groupVisualLines, isPhraseMode } from '../reading-units'
+
+describe('reading-units', () => {
+  describe('isPhraseMode', () => {
+    it('should only match the sentences and lines modes', () => {
+      expect(isPhraseMode('sentences')).toBe(true)
+      expect(isPhraseMode('lines')).toBe(true)
+      expect(isPhraseMode('words')).toBe(false)
+    })
+  })
+
+  describe('getSentenceRanges', () => {
+    it('should end sentences at punctuation and sof pasuq', () => {
+      const lineWords = getLineWords('הילד הלך. האם בא? כן! וַיֹּאמֶר אֱלֹהִים׃ סוף')
+      expect(getSentenceRanges(lineWords)).toEqual([
+        { start: 0, end: 2 },
+        { start: 2, end: 4 },
+        { start: 4, end: 5 },
+        { start: 5, end: 7 },
+        { start: 7, end: 8 },
+      ])
+    })
+
+    it('should keep closing quotes with the sentence', () => {
+      const lineWords = getLineWords('אמר "שלום." ויצא')
+      expect(getSentenceRanges(lineWords)).toEqual([{ start: 0, end: 2 }, { start: 2, end: 3 }])
+    })
+
+    it('should end sentences at the end of a line and skip empty lines', () => {
+      const lineWords = getLineWords('כותרת\n\nהילד הלך. לגן')
+      expect(getSentenceRanges(lineWords)).toEqual([
+        { start: 0, end: 1 },
+        { start: 1, end: 3 },
+        { start: 3, end: 4 },
+      ])
+    })
+  })
+
+  describe('groupVisualLines', () => {
+    it('should start a line at each line of the text and at each wrap', () => {
+      const boxes = [
+        { lineIndex: 0, top: 0, height: 40 },
+        { lineIndex: 0, top: 2, height: 36 },
+        { lineIndex: 0, top: 48, height: 40 },
+        { lineIndex: 1, top: 96, height: 40 },
+      ]
+      expect(groupVisualLines(boxes)).toEqual([
+        { start: 0, end: 2 },
+        { start: 2, end: 3 },
+        { start: 3, end: 4 },
+      ])
+    })
+
+    it('should fall back to the lines of the text without layout', () => {
+      const boxes = [0, 0, 1].map((lineIndex) => ({ lineIndex, top: 0, height: 0 }))
+      expect(groupVisualLines(boxes)).toEqual([{ start: 0, end: 2 }, { start: 2, end: 3 }])
+    })
+  })
+
+  describe('findRangeIndex', () => {
+    it('should find the range containing a word', () => {
+      const ranges = [{ start: 0, end: 2 }, { start: 2, end: 5 }]
+      expect(findRangeIndex(ranges, 1)).toBe(0)
+      expect(findRangeIndex(ranges, 2)).toBe(1)
+      expect(findRangeIndex(ranges, 5)).toBe(-1)
+    })
+  })
+})
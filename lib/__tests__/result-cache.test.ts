@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the shared model result cache
+ *
+ * Tests cover:
+ * - Cache keys from the normalized text, model, prompt version and temperature
+ * - Reading and saving through the SQLite store (lib/db is mocked)
+ * - TTL handling and disabling the cache with a TTL of 0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { entries, settings } = vi.hoisted(() => ({
+  entries: new Map<string, { result: unknown; createdAt: string }>(),
+  settings: new Map<string, string>(),
+}))
+
+vi.mock('../db', () => ({
+  getCachedModelResult: (cacheKey: string, createdAfter: string) => {
+    const entry = entries.get(cacheKey)
+    return entry && entry.createdAt > createdAfter ? entry.result : null
+  },
+  saveCachedModelResult: (entry: { cacheKey: string; result: unknown }) => {
+    entries.set(entry.cacheKey, { result: entry.result, createdAt: new Date().toISOString() })
+    return true
+  },
+  purgeCachedModelResults: () => {
+    const count = entries.size
+    entries.clear()
+    return count
+  },
+  getModelResultCacheStats: () => ({ entries: entries.size, hits: 0, byTask: {} }),
+  getAppSetting: (key: string) => settings.get(key) ?? null,
+  saveAppSetting: (key: string, value: string) => {
+    settings.set(key, value)
+    return true
+  },
+}))
+
+import {
+  createPromptVersion,
+  createResultCacheKey,
+  getCachedResult,
+  getResultCacheBackend,
+  getResultCacheTtlHours,
+  purgeResultCache,
+  saveCachedResult,
+  setResultCacheTtlHours,
+  DEFAULT_RESULT_CACHE_TTL_HOURS,
+} from '../result-cache-server'
+
+describe('result cache', () => {
+  beforeEach(() => {
+    entries.clear()
+    settings.clear()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  describe('createResultCacheKey', () => {
+    const version = createPromptVersion('system', 'user')
+
+    it('should ignore differences in whitespace', () => {
+      const a = createResultCacheKey('niqqud', 'שלום  עולם\n', 'gpt-4o', version, 0.2)
+      const b = createResultCacheKey('niqqud', ' שלום\nעולם', 'gpt-4o', version, 0.2)
+      expect(a.cacheKey).toBe(b.cacheKey)
+    })
+
+    it('should separate tasks, models, prompts and temperatures', () => {
+      const base = createResultCacheKey('niqqud', 'שלום', 'gpt-4o', version, 0.2).cacheKey
+      expect(createResultCacheKey('syllables', 'שלום', 'gpt-4o', version, 0.2).cacheKey).not.toBe(base)
+      expect(createResultCacheKey('niqqud', 'שלום', 'gpt-4o-mini', version, 0.2).cacheKey).not.toBe(base)
+      expect(createResultCacheKey('niqqud', 'שלום', 'gpt-4o', createPromptVersion('other'), 0.2).cacheKey).not.toBe(base)
+      expect(createResultCacheKey('niqqud', 'שלום', 'gpt-4o', version, 1).cacheKey).not.toBe(base)
+      expect(createResultCacheKey('niqqud', 'שלום', 'gpt-4o', version).temperature).toBeNull()
+    })
+  })
+
+  it('should use SQLite without the Supabase service role key', () => {
+    expect(getResultCacheBackend()).toBe('sqlite')
+  })
+
+  it('should serve a saved result until it is purged', async () => {
+    const key = createResultCacheKey('niqqud', 'שלום', 'gpt-4o', createPromptVersion())
+
+    expect(await getCachedResult(key)).toBeNull()
+    await saveCachedResult(key, { niqqudText: 'שָׁלוֹם' })
+    expect(await getCachedResult(key)).toEqual({ niqqudText: 'שָׁלוֹם' })
+
+    expect(await purgeResultCache()).toBe(1)
+    expect(await getCachedResult(key)).toBeNull()
+  })
+
+  it('should use the default TTL until an admin sets one', async () => {
+    expect(await getResultCacheTtlHours()).toBe(DEFAULT_RESULT_CACHE_TTL_HOURS)
+    expect(await setResultCacheTtlHours(12)).toBe(true)
+    expect(await getResultCacheTtlHours()).toBe(12)
+  })
+
+  it('should neither read nor save results when the TTL is 0', async () => {
+    const key = createResultCacheKey('syllables', 'שלום', 'gpt-4o', createPromptVersion('prompt'))
+    await saveCachedResult(key, { syllablesData: { words: [] } })
+
+    await setResultCacheTtlHours(0)
+
+    expect(await getCachedResult(key)).toBeNull()
+    await saveCachedResult(createResultCacheKey('syllables', 'עולם', 'gpt-4o', createPromptVersion('prompt')), {})
+    expect(entries.size).toBe(1)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for server-side secret encryption
+ *
+ * Tests cover:
+ * - Encrypt/decrypt round trip
+ * - Values stored before encryption (plain text)
+ * - Missing or changed encryption secret
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  encryptSecret,
+  decryptSecret,
+  isEncryptedSecret,
+  isSecretEncryptionConfigured,
+} from '../secret-crypto'
+
+describe('secret crypto', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', 'test-secret')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('should round-trip a secret without storing it in plain text', () => {
+    const encrypted = encryptSecret('sk-test-key')
+
+    expect(encrypted).not.toContain('sk-test-key')
+    expect(isEncryptedSecret(encrypted!)).toBe(true)
+    expect(decryptSecret(encrypted)).toBe('sk-test-key')
+  })
+
+  it('should use a new IV for every encryption', () => {
+    expect(encryptSecret('sk-test-key')).not.toBe(encryptSecret('sk-test-key'))
+  })
+
+  it('should return values stored before encryption as they are', () => {
+    expect(decryptSecret('sk-legacy')).toBe('sk-legacy')
+    expect(decryptSecret('')).toBe('')
+    expect(decryptSecret(null)).toBe('')
+  })
+
+  it('should refuse to encrypt without a configured secret', () => {
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', '')
+
+    expect(isSecretEncryptionConfigured()).toBe(false)
+    expect(encryptSecret('sk-test-key')).toBeNull()
+    expect(encryptSecret('')).toBe('')
+  })
+
+  it('should not decrypt with a different secret', () => {
+    const encrypted = encryptSecret('sk-test-key')
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', 'other-secret')
+
+    expect(decryptSecret(encrypted)).toBe('')
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for streaming previews and the model stream format
+ *
+ * Tests cover:
+ * - Overlaying streamed niqqud words on the original text
+ * - Parsing complete lines of a streamed syllables response
+ * - Writing and reading newline-delimited stream events, including replaced text
+ */
+
+import { describe, it, expect } from 'vitest'
+import { overlayStreamedWords, parsePartialSyllablesResponse } from '../streaming-preview'
+import { createModelStreamResponse, readModelStream } from '../model-stream'
+
+describe('streaming previews', () => {
+  describe('overlayStreamedWords', () => {
+    it('should replace only complete streamed words', () => {
+      const original = 'שלום עולם\nמה נשמע'
+      expect(overlayStreamedWords(original, 'שָׁלוֹם עוֹ')).toBe('שָׁלוֹם עולם\nמה נשמע')
+      expect(overlayStreamedWords(original, 'שָׁלוֹם עוֹלָם\nמָה ')).toBe('שָׁלוֹם עוֹלָם\nמָה נשמע')
+    })
+
+    it('should return the original text before the first word completes', () => {
+      expect(overlayStreamedWords('שלום עולם', 'שָׁל')).toBe('שלום עולם')
+    })
+  })
+
+  describe('parsePartialSyllablesResponse', () => {
+    it('should parse complete lines and skip the line still arriving', () => {
+      const data = parsePartialSyllablesResponse('```\nשָׁ-לוֹם\nעוֹ-לָם\nמָ')
+      expect(data?.words.map((word) => word.syllables)).toEqual([
+        ['שָׁ', 'לוֹם'],
+        ['עוֹ', 'לָם'],
+      ])
+    })
+
+    it('should return null before a line completes', () => {
+      expect(parsePartialSyllablesResponse('שָׁ-לו')).toBeNull()
+    })
+  })
+
+  describe('model stream', () => {
+    it('should deliver deltas in order and the final result', async () => {
+      const response = createModelStreamResponse(async (onDelta) => {
+        onDelta('שָׁ')
+        onDelta('לוֹם')
+        return { success: true, niqqudText: 'שָׁלוֹם' }
+      })
+      const deltas: string[] = []
+
+      const result = await readModelStream(response, (delta) => deltas.push(delta))
+
+      expect(deltas).toEqual(['שָׁ', 'לוֹם'])
+      expect(result).toEqual({ success: true, niqqudText: 'שָׁלוֹם' })
+    })
+
+    it('should deliver replaced text', async () => {
+      const response = createModelStreamResponse(async (onDelta, _onProgress, onReplace) => {
+        onDelta('שָׁלוֹמִים')
+        onReplace('שָׁלוֹם')
+        return { success: true, niqqudText: 'שָׁלוֹם' }
+      })
+      const replaced: string[] = []
+
+      await readModelStream(response, () => {}, undefined, (text) => replaced.push(text))
+
+      expect(replaced).toEqual(['שָׁלוֹם'])
+    })
+  })
+})
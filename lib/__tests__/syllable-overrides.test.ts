@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the user's syllable corrections
+ *
+ * Tests cover:
+ * - Dictionary keys and entries of corrected words
+ * - Applying corrections to raw and anchored syllables data
+ * - Splitting and merging syllables
+ * - Validating a stored dictionary
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applySyllableOverrides,
+  createSyllableOverride,
+  getSyllableOverrideKey,
+  mergeSyllables,
+  normalizeSyllableOverrides,
+  splitSyllable,
+} from '../syllable-overrides'
+import { anchorSyllablesData } from '../syllables'
+
+describe('syllable-overrides', () => {
+  describe('getSyllableOverrideKey', () => {
+    it('should keep the letters and niqqud of a word without punctuation', () => {
+      expect(getSyllableOverrideKey('"שָׁלוֹם,')).toBe('שָׁלוֹם'.normalize('NFC'))
+      expect(getSyllableOverrideKey('שלום')).toBe('שלום')
+    })
+  })
+
+  describe('createSyllableOverride', () => {
+    it('should take the vocalized syllables from the word', () => {
+      expect(createSyllableOverride('יְלָדִים.', ['יל', 'דים'])).toEqual({
+        key: getSyllableOverrideKey('יְלָדִים'),
+        entry: { word: 'ילדים', syllables: ['יְלָ', 'דִים'].map((s) => s.normalize('NFC')) },
+      })
+    })
+
+    it('should reject syllables with other letters than the word', () => {
+      expect(createSyllableOverride('יְלָדִים', ['יל', 'ד'])).toBeNull()
+    })
+  })
+
+  describe('applySyllableOverrides', () => {
+    const overrides = { [getSyllableOverrideKey('יְלָדִים')]: { word: 'ילדים', syllables: ['יְלָ', 'דִים'] } }
+
+    it('should divide every occurrence of a corrected word, keeping its punctuation', () => {
+      const data = {
+        words: [
+          { word: 'ילדים', syllables: ['יְ', 'לָ', 'דִים'] },
+          { word: 'טובים', syllables: ['טוֹ', 'בִים'] },
+          { word: 'ילדים.', syllables: ['יְ', 'לָדִים.'] },
+        ],
+      }
+      expect(applySyllableOverrides(data, overrides).words.map((word) => word.syllables)).toEqual([
+        ['יְלָ', 'דִים'],
+        ['טוֹ', 'בִים'],
+        ['יְלָ', 'דִים.'],
+      ])
+    })
+
+    it('should update the offsets of anchored words', () => {
+      const text = 'הַ יְלָדִים'
+      const data = anchorSyllablesData(text, { words: [{ word: 'ה', syllables: ['הַ'] }, { word: 'ילדים', syllables: ['יְ', 'לָ', 'דִים'] }] })
+      const corrected = applySyllableOverrides(data, overrides)
+      expect(corrected.words[1].syllableSpans).toEqual([{ start: 3, end: 7 }, { start: 7, end: 11 }])
+      expect(corrected.words[1].syllableSpans!.map((span) => text.slice(span.start, span.end))).toEqual(['יְלָ', 'דִים'])
+    })
+
+    it('should return the same data when no word was corrected', () => {
+      const data = { words: [{ word: 'ילדים', syllables: ['יְלָ', 'דִים'] }] }
+      expect(applySyllableOverrides(data, overrides)).toBe(data)
+      expect(applySyllableOverrides(data, {})).toBe(data)
+    })
+  })
+
+  describe('splitSyllable and mergeSyllables', () => {
+    it('should split a syllable before a letter', () => {
+      expect(splitSyllable(['שָׁ', 'לוֹם'], 1, 3)).toEqual(['שָׁ', 'לוֹ', 'ם'])
+    })
+
+    it('should not split before the first letter or after the last', () => {
+      expect(splitSyllable(['שָׁ', 'לוֹם'], 1, 0)).toBeNull()
+      expect(splitSyllable(['"שָׁ', 'לוֹם'], 0, 1)).toBeNull()
+      expect(splitSyllable(['שָׁ', 'לוֹם'], 2, 1)).toBeNull()
+    })
+
+    it('should merge a syllable with the next one', () => {
+      expect(mergeSyllables(['שָׁ', 'לוֹ', 'ם'], 1)).toEqual(['שָׁ', 'לוֹם'])
+      expect(mergeSyllables(['שָׁ', 'לוֹם'], 1)).toBeNull()
+      expect(mergeSyllables(['שָׁ', 'לוֹם'], -1)).toBeNull()
+    })
+  })
+
+  describe('normalizeSyllableOverrides', () => {
+    it('should keep valid entries only', () => {
+      expect(normalizeSyllableOverrides({
+        'שָׁלוֹם': { word: 'x', syllables: ['שָׁ', 'לוֹם'] },
+        'עוֹלָם': { syllables: ['עוֹ'] },
+        'בַּיִת': null,
+      })).toEqual({ 'שָׁלוֹם': { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] } })
+      expect(normalizeSyllableOverrides('invalid')).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the persistent syllables cache
+ *
+ * Tests cover:
+ * - Saving and loading anchored (v2) entries
+ * - Least-recently-used eviction by entry count and size
+ * - Hash collisions (the stored text is compared on read)
+ * - Migration of legacy localStorage entries, including v1 data
+ *
+ * IndexedDB is not available in jsdom, so the in-memory store is used.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { hashOverride } = vi.hoisted(() => ({ hashOverride: { value: null as string | null } }))
+
+vi.mock('../syllables', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../syllables')>()
+  return {
+    ...actual,
+    createTextHash: async (text: string) => hashOverride.value ?? actual.createTextHash(text),
+  }
+})
+
+import {
+  clearAllSyllablesCache,
+  getSyllablesCacheUsage,
+  loadSyllablesFromCache,
+  migrateLegacySyllablesCache,
+  saveSyllablesToCache,
+} from '../syllables-cache'
+import { isAnchoredSyllablesData } from '../syllables'
+
+const modelData = {
+  words: [
+    { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+    { word: 'רב', syllables: ['רַב'] },
+  ],
+}
+
+describe('syllables cache', () => {
+  beforeEach(async () => {
+    hashOverride.value = null
+    localStorage.clear()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await clearAllSyllablesCache()
+  })
+
+  it('should save and load anchored data for the trimmed text', async () => {
+    await saveSyllablesToCache('  שָׁלוֹם רַב\n', modelData)
+
+    const loaded = await loadSyllablesFromCache('שָׁלוֹם רַב')
+    expect(loaded && isAnchoredSyllablesData(loaded)).toBe(true)
+    expect(loaded?.words.map((w) => w.syllables)).toEqual([['שָׁ', 'לוֹם'], ['רַב']])
+    expect(await loadSyllablesFromCache('שָׁלוֹם')).toBeNull()
+  })
+
+  it('should evict the least recently used entry when the entry limit is reached', async () => {
+    const limits = { maxEntries: 2, maxBytes: Number.MAX_SAFE_INTEGER }
+    const now = vi.spyOn(Date, 'now')
+
+    now.mockReturnValue(1000)
+    await saveSyllablesToCache('שלום', modelData, { limits })
+    now.mockReturnValue(2000)
+    await saveSyllablesToCache('רב', modelData, { limits })
+    now.mockReturnValue(3000)
+    await loadSyllablesFromCache('שלום')
+    now.mockReturnValue(4000)
+    await saveSyllablesToCache('לכל', modelData, { limits })
+    now.mockRestore()
+
+    expect(await loadSyllablesFromCache('רב')).toBeNull()
+    expect(await loadSyllablesFromCache('שלום')).not.toBeNull()
+    expect(await loadSyllablesFromCache('לכל')).not.toBeNull()
+  })
+
+  it('should keep the total size within the byte limit', async () => {
+    await saveSyllablesToCache('שלום', modelData)
+    const { bytes } = await getSyllablesCacheUsage()
+
+    const limits = { maxEntries: 100, maxBytes: bytes * 2 }
+    await saveSyllablesToCache('רב', modelData, { limits })
+    await saveSyllablesToCache('לכל', modelData, { limits })
+    await saveSyllablesToCache('מאוד', modelData, { limits })
+
+    const usage = await getSyllablesCacheUsage()
+    expect(usage.bytes).toBeLessThanOrEqual(limits.maxBytes)
+    expect(usage.entries).toBeLessThan(4)
+  })
+
+  it('should not return the entry of another text with the same hash', async () => {
+    hashOverride.value = 'collision'
+    await saveSyllablesToCache('שלום', modelData)
+
+    expect(await loadSyllablesFromCache('רב')).toBeNull()
+    expect(await loadSyllablesFromCache('שלום')).not.toBeNull()
+  })
+
+  it('should migrate legacy localStorage entries and remove the old keys', async () => {
+    const v1Text = 'שָׁלוֹם רַב'
+    const otherText = 'לְכָל'
+    localStorage.setItem('syllables_cache_abc', JSON.stringify({ text: v1Text, data: modelData, timestamp: 1 }))
+    localStorage.setItem(
+      'syllables_cache_all',
+      JSON.stringify({
+        syllables_cache_abc: { text: v1Text, data: modelData, timestamp: 1 },
+        syllables_cache_def: { text: otherText, data: { words: [] }, timestamp: 2 },
+      })
+    )
+    localStorage.setItem('syllables_cache_broken', '{')
+
+    expect(await migrateLegacySyllablesCache()).toBe(2)
+    expect(Object.keys(localStorage).filter((key) => key.startsWith('syllables_cache_'))).toEqual([])
+
+    const migrated = await loadSyllablesFromCache(v1Text)
+    expect(migrated && isAnchoredSyllablesData(migrated)).toBe(true)
+    expect(await loadSyllablesFromCache(otherText)).not.toBeNull()
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the rule-based syllabifier
+ *
+ * Tests cover:
+ * - Open and closed syllables
+ * - Shva na/nach heuristics
+ * - Dagesh chazak
+ * - Vav as holam male / shuruk
+ * - Furtive patach
+ * - Maqaf and punctuation handling
+ * - Cross-checking two syllable divisions
+ * - Offset-anchored (v2) format
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  syllabifyWord,
+  syllabifyText,
+  findSyllableDisagreements,
+  anchorSyllablesData,
+  SYLLABLES_DATA_VERSION,
+} from '../syllables'
+
+describe('rule-based syllabifier', () => {
+  describe('syllabifyWord', () => {
+    it('should divide open and closed syllables', () => {
+      expect(syllabifyWord('יְלָדִים')).toEqual(['יְ', 'לָ', 'דִים'])
+      expect(syllabifyWord('יִשְׂרָאֵל')).toEqual(['יִשְׂ', 'רָ', 'אֵל'])
+    })
+
+    it('should treat shva after a short vowel as nach', () => {
+      expect(syllabifyWord('מִשְׁפָּחָה')).toEqual(['מִשְׁ', 'פָּ', 'חָה'])
+      expect(syllabifyWord('כְּתַבְתֶּם')).toEqual(['כְּ', 'תַבְ', 'תֶּם'])
+    })
+
+    it('should treat shva after a long vowel as na', () => {
+      expect(syllabifyWord('שָׁמְרוּ')).toEqual(['שָׁ', 'מְ', 'רוּ'])
+    })
+
+    it('should treat shva under dagesh chazak as na', () => {
+      expect(syllabifyWord('הַמְּלָכִים')).toEqual(['הַ', 'מְּ', 'לָ', 'כִים'])
+    })
+
+    it('should keep final double shva in the last syllable', () => {
+      expect(syllabifyWord('אַתְּ')).toEqual(['אַתְּ'])
+    })
+
+    it('should read vav as holam male or shuruk', () => {
+      expect(syllabifyWord('שָׁלוֹם')).toEqual(['שָׁ', 'לוֹם'])
+      expect(syllabifyWord('מְאוֹד')).toEqual(['מְ', 'אוֹד'])
+      expect(syllabifyWord('הוּא')).toEqual(['הוּא'])
+      expect(syllabifyWord('וּבַיִת')).toEqual(['וּ', 'בַ', 'יִת'])
+    })
+
+    it('should read vav after a vowel as a consonant', () => {
+      expect(syllabifyWord('עָוֹן')).toEqual(['עָ', 'וֹן'])
+      expect(syllabifyWord('מִצְוָה')).toEqual(['מִצְ', 'וָה'])
+    })
+
+    it('should keep furtive patach in the previous syllable', () => {
+      expect(syllabifyWord('רוּחַ')).toEqual(['רוּחַ'])
+      expect(syllabifyWord('תַּפּוּחַ')).toEqual(['תַּ', 'פּוּחַ'])
+      expect(syllabifyWord('רֵיחַ')).toEqual(['רֵיחַ'])
+    })
+
+    it('should split words joined by maqaf and keep punctuation', () => {
+      expect(syllabifyWord('בֵּית־סֵפֶר,')).toEqual(['בֵּית־', 'סֵ', 'פֶר,'])
+      expect(syllabifyWord('"שָׁלוֹם"')).toEqual(['"שָׁ', 'לוֹם"'])
+    })
+  })
+
+  describe('syllabifyText', () => {
+    it('should return one entry per word with the clean word', () => {
+      const data = syllabifyText('שָׁלוֹם\nיְלָדִים')
+      expect(data.words).toEqual([
+        { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+        { word: 'ילדים', syllables: ['יְ', 'לָ', 'דִים'] },
+      ])
+    })
+  })
+
+  describe('findSyllableDisagreements', () => {
+    it('should list words divided differently', () => {
+      const rules = syllabifyText('שָׁלוֹם יְלָדִים')
+      const model = {
+        words: [
+          { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+          { word: 'ילדים', syllables: ['יְלָ', 'דִים'] },
+        ],
+      }
+      expect(findSyllableDisagreements(model, rules)).toEqual([1])
+    })
+  })
+})
+
+describe('anchored syllables data', () => {
+  const modelData = {
+    words: [
+      { word: 'שלום', syllables: ['שָׁ', 'לוֹם'] },
+      { word: 'רב', syllables: ['רַב'] },
+      { word: 'לכל', syllables: ['לְ', 'כָל'] },
+    ],
+  }
+
+  describe('anchorSyllablesData', () => {
+    it('should anchor words and syllables to offsets in the source text', () => {
+      const text = 'שָׁלוֹם רַב\nלְכָל'
+      const data = anchorSyllablesData(text, modelData)
+
+      expect(data.version).toBe(SYLLABLES_DATA_VERSION)
+      const [first, , third] = data.words
+      expect(text.slice(first.start, first.end)).toBe('שָׁלוֹם')
+      expect(first.syllableSpans.map((span) => text.slice(span.start, span.end))).toEqual(['שָׁ', 'לוֹם'])
+      expect(first.lineIndex).toBe(0)
+      expect(third.lineIndex).toBe(1)
+      expect(third.syllables).toEqual(['לְ', 'כָל'])
+    })
+
+    it('should slice syllables from clean and partial text', () => {
+      expect(anchorSyllablesData('שלום רב לכל', modelData).words.map((w) => w.syllables)).toEqual([
+        ['ש', 'לום'],
+        ['רב'],
+        ['ל', 'כל'],
+      ])
+      expect(anchorSyllablesData('שָׁלוֹם רב לכל', modelData).words[0].syllables).toEqual(['שָׁ', 'לוֹם'])
+    })
+
+    it('should count paragraphs separated by blank lines', () => {
+      const data = anchorSyllablesData('שלום\n\nרב\nלכל', modelData)
+      expect(data.words.map((w) => w.paragraphIndex)).toEqual([0, 1, 1])
+      expect(data.words.map((w) => w.lineIndex)).toEqual([0, 2, 3])
+    })
+
+    it('should keep words missing from the data as a single syllable', () => {
+      const data = anchorSyllablesData('שלום רב מאוד לכל', modelData)
+      expect(data.words).toHaveLength(4)
+      expect(data.words[2].syllables).toEqual(['מאוד'])
+      expect(data.words[3].syllables).toEqual(['ל', 'כל'])
+    })
+
+    it('should keep punctuation inside the word span', () => {
+      const data = anchorSyllablesData('שלום, רב לכל.', modelData)
+      expect(data.words[0].syllables).toEqual(['ש', 'לום,'])
+      expect(data.words[2].syllables).toEqual(['ל', 'כל.'])
+    })
+  })
+
+})
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for touch and pointer navigation
+ *
+ * Tests cover:
+ * - Telling taps, swipes and scrolling apart
+ * - Positions of tapped words, syllables and letters
+ */
+
+import { describe, it, expect } from 'vitest'
+import { classifyGesture, getElementPosition } from '../touch-navigation'
+
+const element = (html: string) => {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  return container.querySelector('[data-testid="target"]')!
+}
+
+describe('touch-navigation', () => {
+  describe('classifyGesture', () => {
+    it('should treat a press that barely moved as a tap', () => {
+      expect(classifyGesture(0, 0)).toBe('tap')
+      expect(classifyGesture(6, -6)).toBe('tap')
+    })
+
+    it('should move forward on a swipe to the left', () => {
+      expect(classifyGesture(-80, 10)).toBe('next')
+      expect(classifyGesture(80, -10)).toBe('prev')
+    })
+
+    it('should ignore short and mostly vertical moves', () => {
+      expect(classifyGesture(-30, 0)).toBeNull()
+      expect(classifyGesture(-80, 60)).toBeNull()
+    })
+  })
+
+  describe('getElementPosition', () => {
+    it('should find the position of a word', () => {
+      const word = element('<span data-element-type="word" data-word-index="3" data-testid="target">שלום</span>')
+      expect(getElementPosition(word, 'words')).toEqual({ mode: 'words', wordIndex: 3 })
+      expect(getElementPosition(word, 'sentences')).toEqual({ mode: 'sentences', wordIndex: 3 })
+    })
+
+    it('should find the position of a syllable from inside it', () => {
+      const inner = element(
+        '<span data-element-type="syllable" data-word-index="2" data-syllable-index="1"><b data-testid="target">לוֹם</b></span>'
+      )
+      expect(getElementPosition(inner, 'syllables')).toEqual({ mode: 'syllables', wordIndex: 2, syllableIndex: 1 })
+    })
+
+    it('should find the position of a letter', () => {
+      const letter = element(
+        '<span data-element-type="letter" data-word-index="0" data-syllable-index="0" data-letter-index="7" data-testid="target">ש</span>'
+      )
+      expect(getElementPosition(letter, 'letters')).toEqual({
+        mode: 'letters',
+        wordIndex: 0,
+        syllableIndex: 0,
+        letterIndex: 7,
+      })
+    })
+
+    it('should return null outside the text', () => {
+      expect(getElementPosition(element('<div data-testid="target"></div>'), 'words')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for text-to-speech
+ *
+ * Tests cover:
+ * - Choosing the vocalized words to speak
+ * - Text spoken for the highlighted word, syllable or letter
+ * - Mapping speech boundaries of a passage back to word indices
+ * - Replacing the speech adapter
+ * - The mock adapter's utterances, boundaries, end and errors
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  buildSpeechPassage,
+  createMockTtsAdapter,
+  getElementSpeech,
+  getPassageWordIndex,
+  getSpeechWords,
+  getTtsAdapter,
+  setTtsAdapter,
+  TTS_LANG,
+} from '../tts'
+import type { SyllablesData } from '../syllables'
+
+const options = { lang: TTS_LANG, rate: 1, pitch: 1 }
+
+describe('tts', () => {
+  afterEach(() => {
+    setTtsAdapter(null)
+  })
+
+  describe('getSpeechWords', () => {
+    it('should split the text into words', () => {
+      expect(getSpeechWords('הילד  הלך\nלגן')).toEqual(['הילד', 'הלך', 'לגן'])
+    })
+
+    it('should use the vocalized words when the word counts match', () => {
+      expect(getSpeechWords('הילד הלך', 'הַיֶּלֶד הָלַךְ')).toEqual(['הַיֶּלֶד', 'הָלַךְ'])
+    })
+
+    it('should keep the original words when the word counts differ', () => {
+      expect(getSpeechWords('הילד הלך לגן', 'הַיֶּלֶד הָלַךְ')).toEqual(['הילד', 'הלך', 'לגן'])
+    })
+  })
+
+  describe('getElementSpeech', () => {
+    const syllablesData: SyllablesData = {
+      words: [
+        { word: 'הַיֶּלֶד', syllables: ['הַ', 'יֶּ', 'לֶד'] },
+        { word: 'הָלַךְ', syllables: ['הָ', 'לַךְ'] },
+      ],
+    }
+    const speechWords = ['הַיֶּלֶד', 'הָלַךְ']
+
+    it('should speak the highlighted word', () => {
+      expect(getElementSpeech({ mode: 'words', wordIndex: 1 }, speechWords, null)).toBe('הָלַךְ')
+    })
+
+    it('should speak the highlighted syllable', () => {
+      expect(
+        getElementSpeech({ mode: 'syllables', wordIndex: 0, syllableIndex: 2 }, speechWords, syllablesData)
+      ).toBe('לֶד')
+    })
+
+    it('should speak the highlighted sentence or line', () => {
+      const range = { start: 0, end: 2 }
+      expect(getElementSpeech({ mode: 'sentences', wordIndex: 0 }, speechWords, null, range)).toBe('הַיֶּלֶד הָלַךְ')
+    })
+
+    it('should not speak without syllables data or for letters', () => {
+      expect(getElementSpeech({ mode: 'syllables', wordIndex: 0, syllableIndex: 0 }, speechWords, null)).toBeNull()
+      expect(getElementSpeech({ mode: 'letters', wordIndex: 0, letterIndex: 1 }, speechWords, syllablesData)).toBeNull()
+    })
+  })
+
+  describe('buildSpeechPassage', () => {
+    it('should join the words from the first word to the end', () => {
+      const passage = buildSpeechPassage(['אחת', 'שתיים', 'שלוש'], 1)
+      expect(passage.text).toBe('שתיים שלוש')
+      expect(passage.wordStarts).toEqual([0, 6])
+    })
+
+    it('should map boundaries to word indices in the text', () => {
+      const passage = buildSpeechPassage(['אחת', 'שתיים', 'שלוש'], 1)
+      expect(getPassageWordIndex(passage, 0)).toBe(1)
+      expect(getPassageWordIndex(passage, 6)).toBe(2)
+      expect(getPassageWordIndex(passage, 8)).toBe(2)
+    })
+  })
+
+  describe('adapters', () => {
+    it('should use the adapter that was set', () => {
+      const adapter = createMockTtsAdapter()
+      setTtsAdapter(adapter)
+      expect(getTtsAdapter()).toBe(adapter)
+    })
+
+    it('should cancel the previous adapter when replaced', () => {
+      const adapter = createMockTtsAdapter()
+      setTtsAdapter(adapter)
+      adapter.speak('שלום', options)
+      setTtsAdapter(createMockTtsAdapter())
+      expect(adapter.isSpeaking()).toBe(false)
+    })
+
+    it('should list the mock voices', async () => {
+      const voices = await createMockTtsAdapter().getVoices()
+      expect(voices.map((voice) => voice.lang)).toEqual(['he-IL', 'en-US'])
+    })
+
+    it('should report the boundaries of the remaining words and the end', () => {
+      const adapter = createMockTtsAdapter()
+      const onBoundary = vi.fn()
+      const onEnd = vi.fn()
+      adapter.speak('אחת שתיים שלוש', options, { onBoundary, onEnd })
+      adapter.reachWord(0)
+      adapter.finish()
+
+      expect(adapter.utterances).toEqual([{ text: 'אחת שתיים שלוש', options }])
+      expect(onBoundary.mock.calls.map(([boundary]) => boundary.charIndex)).toEqual([0, 4, 10])
+      expect(onEnd).toHaveBeenCalledTimes(1)
+      expect(adapter.isSpeaking()).toBe(false)
+    })
+
+    it('should report errors without ending the speech normally', () => {
+      const adapter = createMockTtsAdapter()
+      const onEnd = vi.fn()
+      const onError = vi.fn()
+      adapter.speak('שלום', options, { onEnd, onError })
+      adapter.fail('no voice')
+
+      expect(onError).toHaveBeenCalledWith(new Error('no voice'))
+      expect(onEnd).not.toHaveBeenCalled()
+    })
+
+    it('should follow an auto-read passage word by word', () => {
+      const adapter = createMockTtsAdapter()
+      const passage = buildSpeechPassage(['אחת', 'שתיים', 'שלוש'], 1)
+      const spokenWords: number[] = []
+      adapter.speak(passage.text, options, {
+        onBoundary: (boundary) => spokenWords.push(getPassageWordIndex(passage, boundary.charIndex)),
+      })
+      adapter.finish()
+
+      expect(spokenWords).toEqual([1, 2])
+    })
+  })
+})
@@ -43,12 +43,26 @@ const SETTINGS_KEY_MAP: Record<keyof AppSettings, string> = {
   wordSpacing: 'word_spacing',
   letterSpacing: 'letter_spacing',
   fontSize: 'font_size',
+  fontFamily: 'font_family',
   wordHighlightPadding: 'word_highlight_padding',
   syllableHighlightPadding: 'syllable_highlight_padding',
   letterHighlightPadding: 'letter_highlight_padding',
   wordHighlightColor: 'word_highlight_color',
   syllableHighlightColor: 'syllable_highlight_color',
   letterHighlightColor: 'letter_highlight_color',
+  // Reading pyramid settings
+  pyramidWordJump: 'pyramid_word_jump',
+  pyramidNoBreakWords: 'pyramid_no_break_words',
+  // Speech settings
+  ttsVoice: 'tts_voice',
+  ttsRate: 'tts_rate',
+  ttsPitch: 'tts_pitch',
+  ttsSpeakVocalized: 'tts_speak_vocalized',
+  // Reading ruler settings
+  focusMaskLines: 'focus_mask_lines',
+  focusMaskStyle: 'focus_mask_style',
+  focusMaskOpacity: 'focus_mask_opacity',
+  focusRulerColor: 'focus_ruler_color',
   // Legacy fields (for backward compatibility)
   apiKey: 'api_key',
   model: 'model',
@@ -64,6 +78,15 @@ const REVERSE_KEY_MAP: Record<string, keyof AppSettings> = Object.fromEntries(
   Object.entries(SETTINGS_KEY_MAP).map(([k, v]) => [v, k as keyof AppSettings])
 );
 
+/**
+ * Settings that must never be sent to non-admin users
+ */
+const SECRET_SETTINGS: ReadonlySet<keyof AppSettings> = new Set<keyof AppSettings>([
+  'apiKey',
+  'niqqudApiKey',
+  'syllablesApiKey',
+]);
+
 /**
  * Check if the current user is an admin
  * @returns true if user is authenticated and is an admin, false otherwise
@@ -242,7 +265,7 @@ export async function saveAppDefaults(defaults: Partial<AppSettings>): Promise<b
 /**
  * Get app defaults for use in settings (non-admin access)
  * This function can be called by any user to get fallback defaults
- * It does not require admin privileges
+ * It does not require admin privileges; API keys are left out
  * @returns Partial<AppSettings> with default values, or empty object if none exist
  */
 export async function getAppDefaultsForSettings(): Promise<Partial<AppSettings>> {
@@ -264,7 +287,7 @@ export async function getAppDefaultsForSettings(): Promise<Partial<AppSettings>>
     if (data) {
       for (const item of data) {
         const settingsKey = REVERSE_KEY_MAP[item.key];
-        if (settingsKey) {
+        if (settingsKey && !SECRET_SETTINGS.has(settingsKey)) {
           (settings as Record<string, unknown>)[settingsKey] = item.value;
         }
       }
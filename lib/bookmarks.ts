@@ -0,0 +1,200 @@
+/**
+ * Reading bookmarks and resume points
+ * A position (word, syllable or letter index) only makes sense for the text it
+ * was taken in. Each saved position therefore keeps an anchor: the word at the
+ * position and its neighbours. When the text was edited since, the position is
+ * moved to the nearest word that matches the anchor.
+ *
+ * Words are compared without niqqud and punctuation, so a position taken in one
+ * niqqud version is found in the others.
+ */
+
+import { CurrentPosition } from "./settings";
+import { isHebrewLetter, removeNiqqud } from "./niqqud";
+
+/**
+ * The word a position points at, and its surroundings
+ */
+export interface PositionAnchor {
+  word: string;          // Normalized word at the position
+  before: string[];      // Normalized words before it (nearest last)
+  after: string[];       // Normalized words after it (nearest first)
+  wordIndex: number;     // Index of the word when the anchor was taken
+  letterOffset?: number; // Letter within the word (letters mode, whose letter index counts from the start of the text)
+}
+
+/**
+ * A named position in a document
+ */
+export interface ReadingBookmark {
+  id: string;
+  name: string;
+  position: CurrentPosition;
+  anchor: PositionAnchor | null;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * Words of context kept on each side of the anchored word
+ */
+const ANCHOR_CONTEXT_WORDS = 2;
+
+/**
+ * Split text into words the way the reading view does (by whitespace)
+ */
+function getWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.trim().length > 0);
+}
+
+/**
+ * Word without niqqud and punctuation, for comparing versions of a text
+ */
+function normalizeWord(word: string): string {
+  return removeNiqqud(word).replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function countHebrewLetters(word: string): number {
+  return Array.from(word).filter(isHebrewLetter).length;
+}
+
+/**
+ * Find the word and the letter within it for a letter index counted from the start of the text
+ */
+function locateLetter(words: string[], letterIndex: number): { wordIndex: number; letterOffset: number } | null {
+  let remaining = letterIndex;
+  for (let i = 0; i < words.length; i++) {
+    const count = countHebrewLetters(words[i]);
+    if (remaining < count) {
+      return { wordIndex: i, letterOffset: remaining };
+    }
+    remaining -= count;
+  }
+  return null;
+}
+
+/**
+ * Anchor a position to the word it points at in the text
+ * @returns The anchor, or null when the position is outside the text
+ */
+export function createPositionAnchor(text: string, position: CurrentPosition): PositionAnchor | null {
+  const words = getWords(text);
+  let wordIndex = position.wordIndex;
+  let letterOffset: number | undefined;
+
+  if (position.mode === "letters") {
+    const located = locateLetter(words, position.letterIndex ?? 0);
+    if (!located) return null;
+    ({ wordIndex, letterOffset } = located);
+  }
+
+  if (wordIndex < 0 || wordIndex >= words.length) {
+    return null;
+  }
+
+  const normalized = words.map(normalizeWord);
+  return {
+    word: normalized[wordIndex],
+    before: normalized.slice(Math.max(0, wordIndex - ANCHOR_CONTEXT_WORDS), wordIndex),
+    after: normalized.slice(wordIndex + 1, wordIndex + 1 + ANCHOR_CONTEXT_WORDS),
+    wordIndex,
+    letterOffset,
+  };
+}
+
+/**
+ * Count context words that still surround a candidate word
+ */
+function scoreContext(normalized: string[], index: number, anchor: PositionAnchor): number {
+  let score = 0;
+  anchor.before.forEach((word, i) => {
+    if (normalized[index - anchor.before.length + i] === word) score++;
+  });
+  anchor.after.forEach((word, i) => {
+    if (normalized[index + 1 + i] === word) score++;
+  });
+  return score;
+}
+
+/**
+ * Find the word an anchor points at in a (possibly edited) text
+ * Words equal to the anchored word are candidates; the one with the most
+ * matching neighbours wins, and among those the one nearest the old index.
+ * When the word no longer exists, the old index is kept within the text.
+ */
+function findAnchoredWord(normalized: string[], anchor: PositionAnchor): { wordIndex: number; matched: boolean } {
+  let best: { index: number; score: number; distance: number } | null = null;
+  for (let index = 0; index < normalized.length; index++) {
+    if (normalized[index] !== anchor.word) continue;
+    const score = scoreContext(normalized, index, anchor);
+    const distance = Math.abs(index - anchor.wordIndex);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { index, score, distance };
+    }
+  }
+
+  if (best) {
+    return { wordIndex: best.index, matched: true };
+  }
+  return { wordIndex: Math.min(anchor.wordIndex, normalized.length - 1), matched: false };
+}
+
+/**
+ * Move a saved position to where its word is in the current text
+ * @param anchor - Anchor saved with the position (positions saved without one are only kept within the text)
+ * @returns The position in the current text, or null when the text is empty
+ */
+export function reanchorPosition(
+  text: string,
+  position: CurrentPosition,
+  anchor: PositionAnchor | null | undefined
+): CurrentPosition | null {
+  const words = getWords(text);
+  if (words.length === 0) {
+    return null;
+  }
+
+  if (!anchor) {
+    return position.mode === "letters" ? position : { ...position, wordIndex: Math.min(position.wordIndex, words.length - 1) };
+  }
+
+  const { wordIndex, matched } = findAnchoredWord(words.map(normalizeWord), anchor);
+
+  if (position.mode === "letters") {
+    const lettersBefore = words.slice(0, wordIndex).reduce((sum, word) => sum + countHebrewLetters(word), 0);
+    const lettersInWord = countHebrewLetters(words[wordIndex]);
+    const letterOffset = matched ? Math.min(anchor.letterOffset ?? 0, Math.max(0, lettersInWord - 1)) : 0;
+    return { mode: "letters", wordIndex: 0, letterIndex: lettersBefore + letterOffset };
+  }
+
+  return {
+    ...position,
+    wordIndex,
+    // The syllables of another word do not apply
+    syllableIndex: position.mode === "syllables" ? (matched ? position.syllableIndex ?? 0 : 0) : position.syllableIndex,
+  };
+}
+
+/**
+ * Create a bookmark at a position of the text
+ * @param name - Bookmark name (default: the word it points at)
+ */
+export function createBookmark(text: string, position: CurrentPosition, name?: string): ReadingBookmark {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name?.trim() || getBookmarkName(text, position),
+    position,
+    anchor: createPositionAnchor(text, position),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Default name of a new bookmark: the word it points at
+ */
+export function getBookmarkName(text: string, position: CurrentPosition): string {
+  const anchor = createPositionAnchor(text, position);
+  if (!anchor) {
+    return "סימנייה";
+  }
+  return `${removeNiqqud(getWords(text)[anchor.wordIndex])} (מילה ${anchor.wordIndex + 1})`;
+}
@@ -0,0 +1,275 @@
+/**
+ * IndexedDB storage for per-text caches (browser)
+ * Each cache is an object store of records keyed by a text hash. Records are
+ * evicted least-recently-used first once the entry or size limit is reached.
+ * Where IndexedDB is unavailable (server, private browsing, tests) an in-memory
+ * store is used instead, so callers never need to check.
+ */
+
+const DB_NAME = "hebrew-reader";
+const DB_VERSION = 3;
+
+/**
+ * Object stores of the database
+ * - v1: syllables
+ * - v2: niqqud
+ * - v3: audio (recordings attached to documents, see lib/document-audio.ts)
+ */
+export type BrowserCacheName = "syllables" | "niqqud" | "audio";
+const STORE_NAMES: BrowserCacheName[] = ["syllables", "niqqud", "audio"];
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number; // Approximate size of all entries (UTF-16 JSON)
+}
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 500,
+  maxBytes: 20 * 1024 * 1024,
+};
+
+/**
+ * Fields every cache record has
+ */
+export interface CacheRecord {
+  key: string; // Hash of the text
+  text: string; // Text the record is for, compared on read because different texts may share a hash
+  size: number;
+  createdAt: number;
+  updatedAt?: number; // When the result itself last changed, for sync conflicts (missing on early entries)
+  lastAccessed: number;
+}
+
+export interface CacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+export interface BrowserCacheStore<T extends CacheRecord> {
+  get: (key: string) => Promise<T | undefined>;
+  put: (record: T) => Promise<void>;
+  delete: (keys: string[]) => Promise<void>;
+  getAll: () => Promise<T[]>;
+  clear: () => Promise<void>;
+}
+
+function createMemoryStore<T extends CacheRecord>(records: Map<string, T>): BrowserCacheStore<T> {
+  return {
+    get: async (key) => records.get(key),
+    put: async (record) => {
+      records.set(record.key, record);
+    },
+    delete: async (keys) => keys.forEach((key) => records.delete(key)),
+    getAll: async () => Array.from(records.values()),
+    clear: async () => records.clear(),
+  };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_NAMES.forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "key" }).createIndex("lastAccessed", "lastAccessed");
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+}
+
+function createIndexedDbStore<T extends CacheRecord>(db: IDBDatabase, name: BrowserCacheName): BrowserCacheStore<T> {
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R> | void
+  ): Promise<R | undefined> => {
+    const transaction = db.transaction(name, mode);
+    const request = operation(transaction.objectStore(name));
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = request ? await requestToPromise(request) : undefined;
+    await done;
+    return result;
+  };
+
+  return {
+    get: (key) => run("readonly", (store) => store.get(key) as IDBRequest<T | undefined>),
+    put: async (record) => {
+      await run("readwrite", (store) => store.put(record));
+    },
+    delete: async (keys) => {
+      await run("readwrite", (store) => keys.forEach((key) => store.delete(key)));
+    },
+    getAll: async () => (await run("readonly", (store) => store.getAll() as IDBRequest<T[]>)) ?? [],
+    clear: async () => {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Records of the in-memory caches used when IndexedDB is unavailable, kept for the page's lifetime
+ */
+const memoryRecords = new Map<BrowserCacheName, Map<string, CacheRecord>>();
+
+/**
+ * Open the database once per page (null when IndexedDB is unavailable)
+ */
+function getDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      try {
+        if (typeof indexedDB === "undefined") {
+          throw new Error("IndexedDB is not available");
+        }
+        return await openDatabase();
+      } catch (error) {
+        console.warn("[BrowserCache] Using in-memory cache:", error);
+        return null;
+      }
+    })();
+  }
+  return databasePromise;
+}
+
+/**
+ * Open one of the caches
+ * Without IndexedDB every call returns the same in-memory store of the cache.
+ */
+export async function openBrowserCacheStore<T extends CacheRecord>(name: BrowserCacheName): Promise<BrowserCacheStore<T>> {
+  const db = await getDatabase();
+  if (db) {
+    return createIndexedDbStore<T>(db, name);
+  }
+  if (!memoryRecords.has(name)) {
+    memoryRecords.set(name, new Map());
+  }
+  return createMemoryStore(memoryRecords.get(name) as Map<string, T>);
+}
+
+/**
+ * Check whether the caches outlive the page (false when the in-memory store is used)
+ */
+export async function isBrowserCachePersistent(): Promise<boolean> {
+  return (await getDatabase()) !== null;
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22);
+}
+
+/**
+ * Approximate stored size of a record's payload
+ */
+export function estimateRecordSize(...values: unknown[]): number {
+  return values.reduce<number>(
+    (sum, value) => sum + (typeof value === "string" ? value.length : JSON.stringify(value).length) * 2,
+    0
+  );
+}
+
+export async function getCacheUsage<T extends CacheRecord>(store: BrowserCacheStore<T>): Promise<CacheUsage> {
+  const records = await store.getAll();
+  return { entries: records.length, bytes: records.reduce((sum, record) => sum + record.size, 0) };
+}
+
+/**
+ * Delete least-recently-used records until the cache is within the limits
+ * @param reserve - Entries/bytes to free in addition (room for the record being saved)
+ */
+async function evictRecords<T extends CacheRecord>(
+  store: BrowserCacheStore<T>,
+  limits: CacheLimits,
+  reserve: CacheUsage = { entries: 0, bytes: 0 }
+): Promise<number> {
+  const records = (await store.getAll()).sort((a, b) => a.lastAccessed - b.lastAccessed);
+  let count = records.length + reserve.entries;
+  let bytes = records.reduce((sum, record) => sum + record.size, 0) + reserve.bytes;
+
+  const evicted: string[] = [];
+  for (const record of records) {
+    if (count <= limits.maxEntries && bytes <= limits.maxBytes) {
+      break;
+    }
+    evicted.push(record.key);
+    count--;
+    bytes -= record.size;
+  }
+
+  if (evicted.length > 0) {
+    await store.delete(evicted);
+    console.log(`[BrowserCache] Evicted ${evicted.length} least recently used entries`);
+  }
+  return evicted.length;
+}
+
+/**
+ * Write a record, evicting old records first and again if the browser quota is hit
+ * A record of another text with the same key is replaced.
+ */
+export async function putCacheRecord<T extends CacheRecord>(
+  store: BrowserCacheStore<T>,
+  record: T,
+  limits: CacheLimits = DEFAULT_CACHE_LIMITS
+): Promise<void> {
+  const existing = await store.get(record.key);
+  if (existing) {
+    if (existing.text !== record.text) {
+      console.warn("[BrowserCache] Hash collision, replacing the entry of another text");
+    }
+    await store.delete([record.key]);
+  }
+  await evictRecords(store, limits, { entries: 1, bytes: record.size });
+
+  try {
+    await store.put(record);
+  } catch (error) {
+    if (!isQuotaExceeded(error)) {
+      throw error;
+    }
+    // The browser quota is smaller than our limit: free half of the records and retry once
+    const usage = await getCacheUsage(store);
+    await evictRecords(store, {
+      maxEntries: Math.floor(usage.entries / 2),
+      maxBytes: Math.floor(usage.bytes / 2),
+    });
+    await store.put(record);
+  }
+}
+
+/**
+ * Read the record of a text and mark it as recently used
+ * @returns The record, or undefined when the key holds another text (hash collision) or nothing
+ */
+export async function getCacheRecord<T extends CacheRecord>(
+  store: BrowserCacheStore<T>,
+  key: string,
+  text: string
+): Promise<T | undefined> {
+  const record = await store.get(key);
+  if (!record || record.text !== text) {
+    return undefined;
+  }
+  const touched = { ...record, lastAccessed: Date.now() };
+  await store.put(touched);
+  return touched;
+}
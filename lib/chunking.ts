@@ -0,0 +1,339 @@
+/**
+ * Splitting long texts into chunks for model calls and stitching the results
+ * Each model call has an output limit, so texts longer than one chunk are
+ * sent in pieces (by paragraph, then sentence, then word) and joined back
+ * with the original whitespace between them.
+ */
+
+/**
+ * Longest chunk sent to the model in one request (characters of input text)
+ * Vocalized or syllable-divided output is roughly twice as long as its input,
+ * which keeps each answer well below the 4000 output-token limit.
+ */
+export const DEFAULT_MAX_CHUNK_LENGTH = 1500;
+
+/**
+ * Chunks processed at the same time
+ */
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+/**
+ * Extra attempts for a chunk whose request failed
+ */
+export const DEFAULT_CHUNK_RETRIES = 2;
+
+/**
+ * A piece of the source text: text === source.slice(start, end)
+ * Chunks never start or end with whitespace; the whitespace between chunks
+ * stays in the source and is restored by stitchChunks.
+ */
+export interface TextChunk {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Split a span of the text at a boundary pattern into trimmed segments
+ * @param text - Source text
+ * @param start - Span start
+ * @param end - Span end
+ * @param boundary - Global pattern matching the separators to split at
+ */
+function splitSpan(text: string, start: number, end: number, boundary: RegExp): TextChunk[] {
+  const segments: TextChunk[] = [];
+  const span = text.slice(start, end);
+  let segmentStart = 0;
+
+  const pushSegment = (from: number, to: number) => {
+    const raw = span.slice(from, to);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const segmentStartInText = start + from + leading;
+      segments.push({ start: segmentStartInText, end: segmentStartInText + trimmed.length, text: trimmed });
+    }
+  };
+
+  for (const match of span.matchAll(boundary)) {
+    const separatorEnd = (match.index ?? 0) + match[0].length;
+    pushSegment(segmentStart, separatorEnd);
+    segmentStart = separatorEnd;
+  }
+  pushSegment(segmentStart, span.length);
+
+  return segments;
+}
+
+/**
+ * Boundaries tried in order when a segment is too long:
+ * blank lines (paragraphs), line breaks, sentence ends, then any whitespace
+ */
+const CHUNK_BOUNDARIES = [/\n[^\S\n]*\n\s*/g, /\n/g, /[.!?:׃](?=\s)/g, /\s+/g];
+
+/**
+ * Split a segment into pieces no longer than maxLength, using the finest boundary needed
+ */
+function splitSegment(text: string, segment: TextChunk, maxLength: number, level: number): TextChunk[] {
+  if (segment.text.length <= maxLength || level >= CHUNK_BOUNDARIES.length) {
+    return [segment];
+  }
+  return splitSpan(text, segment.start, segment.end, CHUNK_BOUNDARIES[level]).flatMap((piece) =>
+    splitSegment(text, piece, maxLength, level + 1)
+  );
+}
+
+/**
+ * Split text into chunks of at most maxLength characters
+ * Paragraphs are kept together when they fit; neighbouring pieces are merged
+ * back up to the limit so the number of requests stays small.
+ * @param text - Text to split
+ * @param maxLength - Longest chunk (a single longer word becomes its own chunk)
+ * @returns Chunks in text order (empty for blank text)
+ */
+export function splitTextIntoChunks(text: string, maxLength: number = DEFAULT_MAX_CHUNK_LENGTH): TextChunk[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  const start = text.indexOf(trimmed);
+  const pieces = splitSegment(text, { start, end: start + trimmed.length, text: trimmed }, maxLength, 0);
+
+  const chunks: TextChunk[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last && piece.end - last.start <= maxLength) {
+      last.end = piece.end;
+      last.text = text.slice(last.start, last.end);
+    } else {
+      chunks.push({ ...piece });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Text that goes before a chunk's output when stitching: the whitespace
+ * (or leading text) between the previous chunk and this one
+ */
+export function getChunkPrefix(text: string, chunks: TextChunk[], index: number): string {
+  return text.slice(index === 0 ? 0 : chunks[index - 1].end, chunks[index].start);
+}
+
+/**
+ * Join chunk outputs back into one text with the source whitespace between them
+ * @param text - Source text
+ * @param chunks - Chunks from splitTextIntoChunks
+ * @param outputs - Output for each chunk, in the same order
+ */
+export function stitchChunks(text: string, chunks: TextChunk[], outputs: string[]): string {
+  if (chunks.length === 0) {
+    return text;
+  }
+  const body = chunks.map((_, index) => getChunkPrefix(text, chunks, index) + outputs[index]).join("");
+  return body + text.slice(chunks[chunks.length - 1].end);
+}
+
+/**
+ * Run a worker over items with at most `limit` running at once
+ * @returns Results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext));
+  return results;
+}
+
+/**
+ * Run a request again while it fails, up to `retries` extra attempts
+ * Stops retrying once the signal is aborted or shouldRetry rejects the failure.
+ */
+export async function runWithRetries<T extends { success: boolean }>(
+  run: () => Promise<T>,
+  retries: number = DEFAULT_CHUNK_RETRIES,
+  signal?: AbortSignal,
+  shouldRetry: (result: T) => boolean = () => true
+): Promise<T> {
+  let result = await run();
+  for (
+    let attempt = 0;
+    attempt < retries && !result.success && !signal?.aborted && shouldRetry(result);
+    attempt++
+  ) {
+    result = await run();
+  }
+  return result;
+}
+
+export interface ChunkRunOptions<R> {
+  createCancelledResult: () => R; // Result of the chunks not started because the run was aborted
+  concurrency?: number; // Chunks processed at the same time (default: DEFAULT_CHUNK_CONCURRENCY)
+  retries?: number; // Extra attempts per failed chunk (default: DEFAULT_CHUNK_RETRIES)
+  signal?: AbortSignal; // Aborts all chunk requests
+  shouldRetry?: (result: R) => boolean; // Which failures are retried (default: all)
+  onChunkDone?: (index: number, result: R) => void; // Called when a chunk succeeds
+  onProgress?: (completed: number, total: number) => void; // Called with 0 first, then after each chunk
+}
+
+export interface ChunkRunResult<R> {
+  results: R[];
+  failedIndex?: number; // Chunk whose failure stopped the run
+}
+
+/**
+ * Run a request for each chunk with bounded parallelism and retries
+ * When a chunk fails after its retries, the requests still running are aborted
+ * and no new chunks are started.
+ * @param chunks - Chunks from splitTextIntoChunks
+ * @param run - Request for one chunk; must stop when the given signal aborts
+ * @param options - Cancelled result, parallelism, retries, cancellation and callbacks
+ */
+export async function runChunks<R extends { success: boolean }>(
+  chunks: TextChunk[],
+  run: (chunk: TextChunk, signal: AbortSignal, index: number) => Promise<R>,
+  options: ChunkRunOptions<R>
+): Promise<ChunkRunResult<R>> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener("abort", abort);
+  if (options.signal?.aborted) abort();
+
+  let completed = 0;
+  let failedIndex: number | undefined;
+  options.onProgress?.(0, chunks.length);
+
+  try {
+    const results = await mapWithConcurrency(
+      chunks,
+      options.concurrency ?? DEFAULT_CHUNK_CONCURRENCY,
+      async (chunk, index) => {
+        if (controller.signal.aborted) {
+          failedIndex ??= index;
+          return options.createCancelledResult();
+        }
+
+        const result = await runWithRetries(
+          () => run(chunk, controller.signal, index),
+          options.retries ?? DEFAULT_CHUNK_RETRIES,
+          controller.signal,
+          options.shouldRetry
+        );
+
+        if (!result.success) {
+          // The first failure is the real one; chunks failing after it were aborted by it
+          failedIndex ??= index;
+          abort();
+          return result;
+        }
+
+        options.onChunkDone?.(index, result);
+        options.onProgress?.(++completed, chunks.length);
+        return result;
+      }
+    );
+
+    return { results, failedIndex };
+  } finally {
+    options.signal?.removeEventListener("abort", abort);
+  }
+}
+
+export interface OrderedEmitter {
+  /** Record streamed output of a chunk; the first unfinished chunk's is emitted as it arrives */
+  delta: (index: number, delta: string) => void;
+  /** Drop the streamed output of a chunk that is requested again */
+  restart: (index: number) => void;
+  /** Record that the chunk at index finished with output */
+  complete: (index: number, output: string) => void;
+}
+
+/**
+ * Collect chunk outputs that finish in any order and emit them in text order
+ * Output streamed by the first unfinished chunk is emitted right away; later
+ * chunks' output waits until all earlier chunks are done. When a chunk finishes,
+ * the part of its output that was not streamed is emitted. If its output no
+ * longer starts with what was streamed (the answer was repaired, or retried after
+ * part of it was streamed), all output so far is sent again to onReplace.
+ * @param onEmit - Called with each piece of output in text order
+ * @param onReplace - Called with all output so far when streamed output changed
+ */
+export function createOrderedEmitter(
+  onEmit: (output: string, index: number) => void,
+  onReplace?: (output: string) => void
+): OrderedEmitter {
+  const pending = new Map<number, string>();
+  // Output streamed by each chunk (already emitted for the first unfinished chunk)
+  const streamed = new Map<number, string>();
+  // Chunks retried after part of their output was emitted; their new output is not streamed
+  const frozen = new Set<number>();
+  let nextIndex = 0;
+  let sent = "";
+
+  const emit = (output: string, index: number) => {
+    if (output) {
+      sent += output;
+      onEmit(output, index);
+    }
+  };
+
+  return {
+    delta: (index, delta) => {
+      if (index < nextIndex || frozen.has(index)) {
+        return;
+      }
+      streamed.set(index, (streamed.get(index) ?? "") + delta);
+      if (index === nextIndex) {
+        emit(delta, index);
+      }
+    },
+    restart: (index) => {
+      if (index === nextIndex && streamed.get(index)) {
+        frozen.add(index);
+      } else {
+        streamed.delete(index);
+      }
+    },
+    complete: (index, output) => {
+      pending.set(index, output);
+      while (pending.has(nextIndex)) {
+        const finished = pending.get(nextIndex)!;
+        const emitted = streamed.get(nextIndex) ?? "";
+        if (finished.startsWith(emitted)) {
+          emit(finished.slice(emitted.length), nextIndex);
+        } else {
+          sent = sent.slice(0, sent.length - emitted.length) + finished;
+          if (onReplace) {
+            onReplace(sent);
+          } else {
+            console.warn(`[Chunking] Streamed output of chunk ${nextIndex + 1} changed and cannot be replaced`);
+          }
+        }
+        pending.delete(nextIndex);
+        streamed.delete(nextIndex);
+        nextIndex++;
+        if (pending.has(nextIndex)) {
+          // Finished already: emitted whole on the next iteration
+          streamed.delete(nextIndex);
+        } else {
+          // The next chunk's output streamed so far can now be emitted
+          emit(streamed.get(nextIndex) ?? "", nextIndex);
+        }
+      }
+    },
+  };
+}
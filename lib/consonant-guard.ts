@@ -0,0 +1,341 @@
+/**
+ * Consonant-preservation guard for model output
+ *
+ * Language models asked to add niqqud or divide text into syllables sometimes
+ * change letters, drop words or "fix" spelling. Teachers print the result, so a
+ * silently replaced word is worse than a missing vowel.
+ *
+ * The guard aligns the input and output word by word on their consonant
+ * skeletons (text without niqqud and without punctuation):
+ * - Matching words take the model's vocalization
+ * - Words the model changed keep the original text
+ * - If too many words changed, the result is rejected instead of repaired
+ */
+
+import { removeNiqqud, isNiqqudMark, isHebrewLetter } from "./niqqud";
+import type { SyllableWord, SyllablesData } from "./syllables";
+
+/**
+ * Default share of words that may differ before the output is rejected
+ * Below this ratio the output is repaired; above it the guard fails.
+ */
+export const DEFAULT_MAX_CONSONANT_DRIFT = 0.2;
+
+/**
+ * One step in a word-level alignment between a source and a target sequence
+ * - match: the words have the same consonant skeleton
+ * - substitute: the model replaced the source word with a different word
+ * - delete: the model dropped the source word
+ * - insert: the model added a word that is not in the source
+ */
+export interface WordAlignmentStep {
+  type: "match" | "substitute" | "delete" | "insert";
+  sourceIndex: number | null;
+  targetIndex: number | null;
+}
+
+/**
+ * A word whose consonants the model changed
+ */
+export interface ConsonantMismatch {
+  type: "substitute" | "delete" | "insert";
+  /** Index of the word in the input (null for words the model inserted) */
+  wordIndex: number | null;
+  /** The input word (null for inserted words) */
+  original: string | null;
+  /** The word the model returned (null for dropped words) */
+  returned: string | null;
+}
+
+/**
+ * Result of running the guard on a niqqud response
+ */
+export interface ConsonantGuardResult {
+  /** False when the drift is above the allowed ratio - the output must not be used */
+  ok: boolean;
+  /** Output text with original consonants restored for mismatched words */
+  text: string;
+  /** True if at least one word was restored from the input */
+  repaired: boolean;
+  mismatches: ConsonantMismatch[];
+  /** mismatches / input words (0 when the input has no words) */
+  driftRatio: number;
+}
+
+/**
+ * Result of running the guard on a syllables response
+ */
+export interface SyllablesGuardResult {
+  ok: boolean;
+  /** Syllables data with exactly one entry per input word */
+  data: SyllablesData;
+  repaired: boolean;
+  mismatches: ConsonantMismatch[];
+  driftRatio: number;
+}
+
+/**
+ * Get the consonant skeleton of a word: no niqqud, no punctuation
+ * Punctuation is ignored so a comma the model added or dropped is not treated
+ * as a changed word.
+ */
+export function getConsonantSkeleton(word: string): string {
+  return removeNiqqud(word).replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Get the comparison key of a word
+ * Words without letters (e.g. a lone dash) are compared by their raw text, so
+ * the key is prefixed to keep it distinct from letter skeletons.
+ */
+function getAlignmentKey(word: string): string {
+  const skeleton = getConsonantSkeleton(word);
+  return skeleton.length > 0 ? skeleton : `#${removeNiqqud(word)}`;
+}
+
+/**
+ * Align two word sequences with a word-level edit distance
+ * Uses the classic dynamic-programming table (O(n*m)); texts in this app are at
+ * most a few pages, so the table stays small. Backtracking prefers matches, then
+ * substitutions, so a changed word is reported as one substitution rather than a
+ * delete + insert pair.
+ *
+ * @param source - Words of the original text
+ * @param target - Words returned by the model
+ * @returns Alignment steps in source order
+ */
+export function alignWords(source: string[], target: string[]): WordAlignmentStep[] {
+  const n = source.length;
+  const m = target.length;
+  const sourceKeys = source.map(getAlignmentKey);
+  const targetKeys = target.map(getAlignmentKey);
+  const wordsMatch = (i: number, j: number) => sourceKeys[i] === targetKeys[j];
+
+  // Fast path: same words in the same order (the common case)
+  if (n === m && sourceKeys.every((key, idx) => key === targetKeys[idx])) {
+    return sourceKeys.map((_, idx): WordAlignmentStep => ({ type: "match", sourceIndex: idx, targetIndex: idx }));
+  }
+
+  const width = m + 1;
+  const cost = new Uint32Array((n + 1) * (m + 1));
+
+  for (let i = 0; i <= n; i++) cost[i * width] = i;
+  for (let j = 0; j <= m; j++) cost[j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const diagonal = cost[(i - 1) * width + (j - 1)] + (wordsMatch(i - 1, j - 1) ? 0 : 1);
+      const up = cost[(i - 1) * width + j] + 1;
+      const left = cost[i * width + (j - 1)] + 1;
+      cost[i * width + j] = Math.min(diagonal, up, left);
+    }
+  }
+
+  const steps: WordAlignmentStep[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const current = cost[i * width + j];
+    if (i > 0 && j > 0) {
+      const isMatch = wordsMatch(i - 1, j - 1);
+      if (current === cost[(i - 1) * width + (j - 1)] + (isMatch ? 0 : 1)) {
+        steps.push({ type: isMatch ? "match" : "substitute", sourceIndex: i - 1, targetIndex: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && current === cost[(i - 1) * width + j] + 1) {
+      steps.push({ type: "delete", sourceIndex: i - 1, targetIndex: null });
+      i--;
+    } else {
+      steps.push({ type: "insert", sourceIndex: null, targetIndex: j - 1 });
+      j--;
+    }
+  }
+
+  return steps.reverse();
+}
+
+/**
+ * Copy the niqqud of a vocalized word onto a plain word with the same letters
+ * Non-mark characters (letters, punctuation) always come from the plain word, so
+ * the result is guaranteed to keep the original consonants and punctuation.
+ * If the vocalized word runs out of letters, the remaining plain text is kept as-is.
+ *
+ * @param vocalized - Word with niqqud (from the model)
+ * @param plain - Word whose characters must be preserved (from the input)
+ * @returns The plain word carrying the vocalized word's marks
+ */
+export function transplantNiqqud(vocalized: string, plain: string): string {
+  // Collect the marks that follow each letter of the vocalized word
+  const marksPerLetter: string[] = [];
+  for (const char of vocalized) {
+    if (isHebrewLetter(char)) {
+      marksPerLetter.push("");
+    } else if (isNiqqudMark(char) && marksPerLetter.length > 0) {
+      marksPerLetter[marksPerLetter.length - 1] += char;
+    }
+  }
+
+  let letterIndex = 0;
+  let result = "";
+  for (const char of plain) {
+    if (isNiqqudMark(char)) {
+      // Existing marks in the input are replaced by the model's marks
+      continue;
+    }
+    result += char;
+    if (isHebrewLetter(char)) {
+      result += marksPerLetter[letterIndex] ?? "";
+      letterIndex++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Turn alignment steps into mismatch records
+ */
+function collectMismatches(
+  steps: WordAlignmentStep[],
+  source: string[],
+  target: string[]
+): ConsonantMismatch[] {
+  return steps
+    .filter((step) => step.type !== "match")
+    .map((step) => ({
+      type: step.type as ConsonantMismatch["type"],
+      wordIndex: step.sourceIndex,
+      original: step.sourceIndex !== null ? source[step.sourceIndex] : null,
+      returned: step.targetIndex !== null ? target[step.targetIndex] : null,
+    }));
+}
+
+/**
+ * Decide whether a mismatch count is within the allowed drift
+ * At least one mismatch is always tolerated so short texts aren't rejected for a
+ * single changed word - that word is simply restored.
+ */
+function isWithinDrift(mismatchCount: number, wordCount: number, maxDriftRatio: number): boolean {
+  return mismatchCount <= Math.max(1, Math.floor(wordCount * maxDriftRatio));
+}
+
+/**
+ * Guard niqqud output against consonant changes and repair small drift
+ * The result is rebuilt from the input's own token stream, so whitespace and
+ * line breaks always follow the input even if the model reflowed the text.
+ *
+ * @param input - Text sent to the model
+ * @param output - Vocalized text returned by the model
+ * @param maxDriftRatio - Share of words allowed to differ (default 0.2)
+ * @returns Guard result; use `text` only when `ok` is true
+ */
+export function guardConsonants(
+  input: string,
+  output: string,
+  maxDriftRatio: number = DEFAULT_MAX_CONSONANT_DRIFT
+): ConsonantGuardResult {
+  // Odd indices are whitespace runs, even indices are words (possibly empty)
+  const inputTokens = input.split(/(\s+)/);
+  const inputWords = inputTokens.filter((_, idx) => idx % 2 === 0 && inputTokens[idx].length > 0);
+  const outputWords = output.split(/\s+/).filter((word) => word.length > 0);
+
+  const steps = alignWords(inputWords, outputWords);
+  const mismatches = collectMismatches(steps, inputWords, outputWords);
+
+  // Map each input word to its replacement (vocalized when matched, original otherwise)
+  const replacements = inputWords.slice();
+  for (const step of steps) {
+    if (step.type === "match" && step.sourceIndex !== null && step.targetIndex !== null) {
+      replacements[step.sourceIndex] = transplantNiqqud(
+        outputWords[step.targetIndex],
+        inputWords[step.sourceIndex]
+      );
+    }
+  }
+
+  let wordCursor = 0;
+  const text = inputTokens
+    .map((token, idx) => {
+      if (idx % 2 === 1 || token.length === 0) {
+        return token;
+      }
+      return replacements[wordCursor++];
+    })
+    .join("");
+
+  const driftRatio = inputWords.length > 0 ? mismatches.length / inputWords.length : 0;
+
+  return {
+    ok: isWithinDrift(mismatches.length, inputWords.length, maxDriftRatio),
+    text,
+    repaired: mismatches.length > 0,
+    mismatches,
+    driftRatio,
+  };
+}
+
+/**
+ * Combine the mismatches of consecutive chunks into one list for the whole text
+ * Word indices of each chunk are shifted by the number of words before it.
+ * @param chunkInputs - Text of each chunk, in order
+ * @param chunkMismatches - Mismatches reported for each chunk
+ */
+export function mergeChunkMismatches(
+  chunkInputs: string[],
+  chunkMismatches: ConsonantMismatch[][]
+): ConsonantMismatch[] {
+  let wordOffset = 0;
+  return chunkInputs.flatMap((input, idx) => {
+    const offset = wordOffset;
+    wordOffset += input.split(/\s+/).filter((word) => word.length > 0).length;
+    return (chunkMismatches[idx] ?? []).map((mismatch) => ({
+      ...mismatch,
+      wordIndex: mismatch.wordIndex !== null ? mismatch.wordIndex + offset : null,
+    }));
+  });
+}
+
+/**
+ * Guard syllables output against consonant changes and repair small drift
+ * Matched words keep the model's syllable division. Changed or dropped words are
+ * restored as a single undivided syllable with the original text; words the model
+ * added are removed. The returned data always has one entry per input word, which
+ * keeps word indices in sync with the displayed text.
+ *
+ * @param input - Text sent to the model
+ * @param data - Parsed syllables data from the model
+ * @param maxDriftRatio - Share of words allowed to differ (default 0.2)
+ */
+export function guardSyllablesConsonants(
+  input: string,
+  data: SyllablesData,
+  maxDriftRatio: number = DEFAULT_MAX_CONSONANT_DRIFT
+): SyllablesGuardResult {
+  const inputWords = input.split(/\s+/).filter((word) => word.length > 0);
+  const outputWords = data.words.map((entry) => entry.syllables.join(""));
+
+  const steps = alignWords(inputWords, outputWords);
+  const mismatches = collectMismatches(steps, inputWords, outputWords);
+
+  const words: SyllableWord[] = inputWords.map((word) => ({
+    word: removeNiqqud(word),
+    syllables: [word],
+  }));
+  for (const step of steps) {
+    if (step.type === "match" && step.sourceIndex !== null && step.targetIndex !== null) {
+      words[step.sourceIndex] = data.words[step.targetIndex];
+    }
+  }
+
+  const driftRatio = inputWords.length > 0 ? mismatches.length / inputWords.length : 0;
+
+  return {
+    ok: isWithinDrift(mismatches.length, inputWords.length, maxDriftRatio),
+    data: { ...data, words },
+    repaired: mismatches.length > 0,
+    mismatches,
+    driftRatio,
+  };
+}
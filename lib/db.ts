@@ -1,12 +1,35 @@
 /**
  * Database utilities
- * SQLite database for storing user settings
+ * SQLite database for storing user settings and the local model result cache
  */
 
 import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
-import { AppSettings, DEFAULT_MODELS, DEFAULT_NIQQUD_PROMPT, DEFAULT_SYLLABLES_PROMPT } from "./settings";
+import {
+  AppSettings,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_MODELS,
+  DEFAULT_NIQQUD_PROMPT,
+  DEFAULT_SYLLABLES_PROMPT,
+  DEFAULT_TTS_PITCH,
+  DEFAULT_TTS_RATE,
+  DEFAULT_TTS_SPEAK_VOCALIZED,
+  DEFAULT_TTS_VOICE,
+} from "./settings";
+import { DEFAULT_PYRAMID_NO_BREAK_WORDS, DEFAULT_PYRAMID_WORD_JUMP } from "./reading-pyramid";
+import {
+  DEFAULT_FOCUS_MASK_LINES,
+  DEFAULT_FOCUS_MASK_OPACITY,
+  DEFAULT_FOCUS_MASK_STYLE,
+  DEFAULT_FOCUS_RULER_COLOR,
+} from "./focus-mask";
+import { decryptSecret, encryptSecret } from "./secret-crypto";
+import type {
+  ResultCacheEntry,
+  ResultCacheFilter,
+  ResultCacheStats,
+} from "./result-cache-server";
 
 const DB_DIR = path.join(process.cwd(), "data");
 const DB_PATH = path.join(DB_DIR, "settings.db");
@@ -60,10 +83,49 @@ function initSchema(database: Database.Database): void {
   database.exec(`
     CREATE INDEX IF NOT EXISTS idx_user_settings_userId ON user_settings(userId)
   `);
+
+  // Model results shared by all users (see lib/result-cache-server.ts)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS model_result_cache (
+      cacheKey TEXT PRIMARY KEY,
+      task TEXT NOT NULL,
+      textHash TEXT NOT NULL,
+      model TEXT NOT NULL,
+      promptVersion TEXT NOT NULL,
+      temperature REAL,
+      result TEXT NOT NULL,
+      hits INTEGER DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      lastHitAt TEXT
+    )
+  `);
+
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_model_result_cache_createdAt ON model_result_cache(createdAt)
+  `);
+
+  // App-wide values managed by admins (e.g. the result cache TTL)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS app_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * API keys stored for a user
+ */
+export interface UserApiKeys {
+  niqqudApiKey: string;
+  syllablesApiKey: string;
 }
 
 /**
  * Get user settings from database
+ * API keys are stored encrypted and never returned here (see getUserApiKeys);
+ * the key fields are always empty.
  */
 export function getUserSettings(userId: string): AppSettings | null {
   try {
@@ -76,7 +138,7 @@ export function getUserSettings(userId: string): AppSettings | null {
     }
 
     return {
-      niqqudApiKey: row.niqqudApiKey || "",
+      niqqudApiKey: "",
       niqqudModel: row.niqqudModel || DEFAULT_MODELS[0].value,
       niqqudPrompt: row.niqqudPrompt || DEFAULT_NIQQUD_PROMPT,
       niqqudSystemPrompt: DEFAULT_NIQQUD_PROMPT.split('\n\n')[0],
@@ -84,7 +146,7 @@ export function getUserSettings(userId: string): AppSettings | null {
       niqqudTemperature: 0.2,
       niqqudCompletionSystemPrompt: `אתה מומחה בעברית ובניקוד. המשימה שלך היא להשלים את הניקוד בטקסט עברי שכבר מכיל ניקוד חלקי. שמור על הניקוד הקיים והוסף ניקוד רק למקומות שחסר.`,
       niqqudCompletionUserPrompt: `הטקסט הבא מכיל ניקוד חלקי. אנא השלם את הניקוד החסר בלבד. אל תסיר או תשנה את הניקוד הקיים. החזר רק את הטקסט המנוקד במלואו ללא הסברים נוספים.\n\n{text}`,
-      syllablesApiKey: row.syllablesApiKey || "",
+      syllablesApiKey: "",
       syllablesModel: row.syllablesModel || DEFAULT_MODELS[0].value,
       syllablesPrompt: row.syllablesPrompt || DEFAULT_SYLLABLES_PROMPT,
       syllablesTemperature: 0.2,
@@ -93,12 +155,23 @@ export function getUserSettings(userId: string): AppSettings | null {
       wordSpacing: 12,
       letterSpacing: 0,
       fontSize: 30,
+      fontFamily: DEFAULT_FONT_FAMILY,
       wordHighlightPadding: 4,
       syllableHighlightPadding: 3,
       letterHighlightPadding: 2,
       wordHighlightColor: "#fff176",
       syllableHighlightColor: "#fff176",
       letterHighlightColor: "#fff176",
+      pyramidWordJump: DEFAULT_PYRAMID_WORD_JUMP,
+      pyramidNoBreakWords: DEFAULT_PYRAMID_NO_BREAK_WORDS,
+      ttsVoice: DEFAULT_TTS_VOICE,
+      ttsRate: DEFAULT_TTS_RATE,
+      ttsPitch: DEFAULT_TTS_PITCH,
+      ttsSpeakVocalized: DEFAULT_TTS_SPEAK_VOCALIZED,
+      focusMaskLines: DEFAULT_FOCUS_MASK_LINES,
+      focusMaskStyle: DEFAULT_FOCUS_MASK_STYLE,
+      focusMaskOpacity: DEFAULT_FOCUS_MASK_OPACITY,
+      focusRulerColor: DEFAULT_FOCUS_RULER_COLOR,
     };
   } catch (error) {
     console.error("[DB] Error getting user settings:", error);
@@ -106,12 +179,55 @@ export function getUserSettings(userId: string): AppSettings | null {
   }
 }
 
+/**
+ * Get the decrypted API keys stored for a user (server-side use only)
+ * @returns Keys (empty strings when not set), or null if the user has no settings
+ */
+export function getUserApiKeys(userId: string): UserApiKeys | null {
+  try {
+    const database = getDb();
+    const stmt = database.prepare("SELECT niqqudApiKey, syllablesApiKey FROM user_settings WHERE userId = ?");
+    const row = stmt.get(userId) as { niqqudApiKey: string | null; syllablesApiKey: string | null } | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      niqqudApiKey: decryptSecret(row.niqqudApiKey),
+      syllablesApiKey: decryptSecret(row.syllablesApiKey),
+    };
+  } catch (error) {
+    console.error("[DB] Error getting user API keys:", error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt an API key from a settings update
+ * @returns Encrypted key, null to keep the stored key (not in the update)
+ * @throws Error if the key cannot be encrypted
+ */
+function encryptApiKeyUpdate(apiKey: string | undefined): string | null {
+  if (apiKey === undefined) {
+    return null;
+  }
+  const encrypted = encryptSecret(apiKey.trim());
+  if (encrypted === null) {
+    throw new Error("API key encryption is not configured");
+  }
+  return encrypted;
+}
+
 /**
  * Save user settings to database
+ * API keys are encrypted before they are stored.
  */
 export function saveUserSettings(userId: string, settings: Partial<AppSettings>): boolean {
   try {
     const database = getDb();
+    const niqqudApiKey = encryptApiKeyUpdate(settings.niqqudApiKey);
+    const syllablesApiKey = encryptApiKeyUpdate(settings.syllablesApiKey);
 
     // Check if user settings exist
     const existing = getUserSettings(userId);
@@ -132,10 +248,10 @@ export function saveUserSettings(userId: string, settings: Partial<AppSettings>)
       `);
 
       stmt.run(
-        settings.niqqudApiKey ?? null,
+        niqqudApiKey,
         settings.niqqudModel ?? null,
         settings.niqqudPrompt ?? null,
-        settings.syllablesApiKey ?? null,
+        syllablesApiKey,
         settings.syllablesModel ?? null,
         settings.syllablesPrompt ?? null,
         userId
@@ -156,10 +272,10 @@ export function saveUserSettings(userId: string, settings: Partial<AppSettings>)
 
       stmt.run(
         userId,
-        settings.niqqudApiKey ?? "",
+        niqqudApiKey ?? "",
         settings.niqqudModel ?? DEFAULT_MODELS[0].value,
         settings.niqqudPrompt ?? DEFAULT_NIQQUD_PROMPT,
-        settings.syllablesApiKey ?? "",
+        syllablesApiKey ?? "",
         settings.syllablesModel ?? DEFAULT_MODELS[0].value,
         settings.syllablesPrompt ?? DEFAULT_SYLLABLES_PROMPT
       );
@@ -172,6 +288,153 @@ export function saveUserSettings(userId: string, settings: Partial<AppSettings>)
   }
 }
 
+/**
+ * Get a cached model result
+ * @param cacheKey - Key from createResultCacheKey
+ * @param createdAfter - Entries created before this time (ISO string) are expired
+ * @returns Stored result, or null when missing or expired
+ */
+export function getCachedModelResult(cacheKey: string, createdAfter: string): unknown | null {
+  try {
+    const database = getDb();
+    const row = database
+      .prepare("SELECT result FROM model_result_cache WHERE cacheKey = ? AND createdAt > ?")
+      .get(cacheKey, createdAfter) as { result: string } | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    database
+      .prepare("UPDATE model_result_cache SET hits = hits + 1, lastHitAt = ? WHERE cacheKey = ?")
+      .run(new Date().toISOString(), cacheKey);
+
+    return JSON.parse(row.result);
+  } catch (error) {
+    console.error("[DB] Error getting cached model result:", error);
+    return null;
+  }
+}
+
+/**
+ * Save a model result to the cache (replaces an existing entry with the same key)
+ */
+export function saveCachedModelResult(entry: ResultCacheEntry): boolean {
+  try {
+    const database = getDb();
+    database
+      .prepare(`
+        INSERT OR REPLACE INTO model_result_cache (
+          cacheKey, task, textHash, model, promptVersion, temperature, result, hits, createdAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)
+      `)
+      .run(
+        entry.cacheKey,
+        entry.task,
+        entry.textHash,
+        entry.model,
+        entry.promptVersion,
+        entry.temperature,
+        JSON.stringify(entry.result),
+        new Date().toISOString()
+      );
+    return true;
+  } catch (error) {
+    console.error("[DB] Error saving cached model result:", error);
+    return false;
+  }
+}
+
+/**
+ * Delete cached model results
+ * @param filter - Limit to a task, a model or entries created before a time (all when empty)
+ * @returns Number of deleted entries, or null on error
+ */
+export function purgeCachedModelResults(filter: ResultCacheFilter = {}): number | null {
+  try {
+    const database = getDb();
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.task) {
+      conditions.push("task = ?");
+      params.push(filter.task);
+    }
+    if (filter.model) {
+      conditions.push("model = ?");
+      params.push(filter.model);
+    }
+    if (filter.createdBefore) {
+      conditions.push("createdAt <= ?");
+      params.push(filter.createdBefore);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const result = database.prepare(`DELETE FROM model_result_cache${where}`).run(...params);
+    return result.changes;
+  } catch (error) {
+    console.error("[DB] Error purging cached model results:", error);
+    return null;
+  }
+}
+
+/**
+ * Get entry and hit counts of the model result cache
+ */
+export function getModelResultCacheStats(): ResultCacheStats | null {
+  try {
+    const database = getDb();
+    const rows = database
+      .prepare("SELECT task, COUNT(*) AS entries, COALESCE(SUM(hits), 0) AS hits FROM model_result_cache GROUP BY task")
+      .all() as Array<{ task: string; entries: number; hits: number }>;
+
+    return {
+      entries: rows.reduce((sum, row) => sum + row.entries, 0),
+      hits: rows.reduce((sum, row) => sum + row.hits, 0),
+      byTask: Object.fromEntries(rows.map((row) => [row.task, row.entries])),
+    };
+  } catch (error) {
+    console.error("[DB] Error getting model result cache stats:", error);
+    return null;
+  }
+}
+
+/**
+ * Get an app-wide value set by an admin
+ * @returns Stored value, or null when not set
+ */
+export function getAppSetting(key: string): string | null {
+  try {
+    const database = getDb();
+    const row = database.prepare("SELECT value FROM app_settings WHERE key = ?").get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value ?? null;
+  } catch (error) {
+    console.error("[DB] Error getting app setting:", error);
+    return null;
+  }
+}
+
+/**
+ * Save an app-wide value
+ */
+export function saveAppSetting(key: string, value: string): boolean {
+  try {
+    const database = getDb();
+    database
+      .prepare(`
+        INSERT INTO app_settings (key, value, updatedAt) VALUES (?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updatedAt = CURRENT_TIMESTAMP
+      `)
+      .run(key, value);
+    return true;
+  } catch (error) {
+    console.error("[DB] Error saving app setting:", error);
+    return false;
+  }
+}
+
 /**
  * Close database connection
  */
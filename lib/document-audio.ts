@@ -0,0 +1,127 @@
+/**
+ * Audio recordings attached to documents (Client-side only)
+ * Recordings are kept in this browser (IndexedDB). Signed-in users' recordings
+ * are also uploaded to Supabase Storage, under the user's folder of the
+ * document-audio bucket, so the karaoke works on their other devices.
+ */
+
+'use client';
+
+import { createClient } from "@/lib/supabase/client";
+import { CacheRecord, isBrowserCachePersistent, openBrowserCacheStore } from "./browser-cache-store";
+import { DocumentAudio } from "./karaoke";
+
+const AUDIO_BUCKET = "document-audio";
+
+/**
+ * Largest recording that can be attached (a few minutes of compressed audio)
+ */
+export const MAX_AUDIO_BYTES = 50 * 1024 * 1024;
+
+interface AudioRecord extends CacheRecord {
+  blob: Blob;
+}
+
+/**
+ * The signed-in user's storage, or null for anonymous users
+ */
+async function getUserStorage() {
+  try {
+    const supabase = createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return user ? { bucket: supabase.storage.from(AUDIO_BUCKET), folder: user.id } : null;
+  } catch {
+    // Supabase is not configured - recordings stay in this browser
+    return null;
+  }
+}
+
+async function saveLocalAudio(id: string, blob: Blob): Promise<void> {
+  const store = await openBrowserCacheStore<AudioRecord>("audio");
+  const now = Date.now();
+  await store.put({ key: id, text: id, size: blob.size, createdAt: now, lastAccessed: now, blob });
+}
+
+/**
+ * Store a recording for a document
+ * Without IndexedDB the recording is only kept in memory, so it must be uploaded
+ * to the user's storage to still play after the page is reloaded.
+ * @throws When the file is not audio or is too large, or the recording cannot be stored
+ */
+export async function saveDocumentAudio(file: File): Promise<DocumentAudio> {
+  if (!file.type.startsWith("audio/")) {
+    throw new Error("הקובץ אינו קובץ שמע");
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    throw new Error(`קובץ השמע גדול מדי (עד ${MAX_AUDIO_BYTES / 1024 / 1024}MB)`);
+  }
+
+  const audio: DocumentAudio = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    type: file.type,
+  };
+  const persistent = await isBrowserCachePersistent();
+  const storage = await getUserStorage();
+  if (!persistent && !storage) {
+    throw new Error("לא ניתן לשמור הקלטות בדפדפן זה. התחבר כדי לשמור את ההקלטה בחשבון");
+  }
+  await saveLocalAudio(audio.id, file);
+
+  if (storage) {
+    const { error } = await storage.bucket.upload(`${storage.folder}/${audio.id}`, file, {
+      contentType: file.type,
+    });
+    if (error) {
+      console.warn("[Karaoke] Failed to upload the recording:", error);
+      if (!persistent) {
+        await (await openBrowserCacheStore<AudioRecord>("audio")).delete([audio.id]);
+        throw new Error("שמירת ההקלטה נכשלה. נסה שוב");
+      }
+      // The recording still plays in this browser
+    }
+  }
+  return audio;
+}
+
+/**
+ * Get the recording of a document (downloaded once on other devices)
+ * @returns The recording, or null when it is not in this browser or the user's storage
+ */
+export async function loadDocumentAudio(audio: DocumentAudio): Promise<Blob | null> {
+  const store = await openBrowserCacheStore<AudioRecord>("audio");
+  const record = await store.get(audio.id);
+  if (record) {
+    return record.blob;
+  }
+
+  const storage = await getUserStorage();
+  if (!storage) {
+    return null;
+  }
+  const { data, error } = await storage.bucket.download(`${storage.folder}/${audio.id}`);
+  if (error || !data) {
+    console.warn("[Karaoke] Failed to download the recording:", error);
+    return null;
+  }
+  await saveLocalAudio(audio.id, data);
+  return data;
+}
+
+/**
+ * Delete a recording from this browser and the user's storage
+ */
+export async function deleteDocumentAudio(audio: DocumentAudio): Promise<void> {
+  const store = await openBrowserCacheStore<AudioRecord>("audio");
+  await store.delete([audio.id]);
+
+  const storage = await getUserStorage();
+  if (storage) {
+    const { error } = await storage.bucket.remove([`${storage.folder}/${audio.id}`]);
+    if (error) {
+      console.warn("[Karaoke] Failed to delete the recording:", error);
+    }
+  }
+}
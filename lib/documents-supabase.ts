@@ -0,0 +1,162 @@
+/**
+ * Document library of signed-in users (Client-side only)
+ * Documents are stored per user in the documents table, so the library is the
+ * same on every device the user signs in on.
+ */
+
+'use client';
+
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/lib/supabase/database.types";
+import { CurrentPosition } from "./settings";
+import { SyllablesData } from "./syllables";
+import { PositionAnchor, ReadingBookmark } from "./bookmarks";
+import { DocumentAudio, WordTiming } from "./karaoke";
+import {
+  DocumentDisplayMode,
+  DocumentNiqqudVersions,
+  DocumentStore,
+  LibraryDocument,
+  localDocumentStore,
+  normalizeDocument,
+} from "./documents";
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  folder: string;
+  tags: string[];
+  text: string;
+  niqqud: Json | null;
+  syllables: Json | null;
+  display_mode: string;
+  position: Json | null;
+  position_anchor: Json | null;
+  bookmarks: Json | null;
+  audio: Json | null;
+  word_timings: Json | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * localStorage key marking that this device's local documents were copied to the user's account
+ */
+const LOCAL_IMPORT_KEY_PREFIX = "documents_imported_";
+
+function toRow(userId: string, document: LibraryDocument) {
+  return {
+    id: document.id,
+    user_id: userId,
+    title: document.title,
+    folder: document.folder,
+    tags: document.tags,
+    text: document.text,
+    niqqud: document.niqqud as unknown as Json,
+    // Offsets are recomputed from the text when the document is opened
+    syllables: document.syllables
+      ? { words: document.syllables.words.map(({ word, syllables }) => ({ word, syllables })) }
+      : null,
+    display_mode: document.displayMode,
+    position: document.position as unknown as Json,
+    position_anchor: document.positionAnchor as unknown as Json,
+    bookmarks: document.bookmarks as unknown as Json,
+    audio: document.audio as unknown as Json,
+    word_timings: document.wordTimings as unknown as Json,
+    created_at: document.createdAt,
+    updated_at: document.updatedAt,
+  };
+}
+
+function fromRow(row: DocumentRow): LibraryDocument {
+  return normalizeDocument({
+    id: row.id,
+    title: row.title,
+    folder: row.folder,
+    tags: row.tags ?? [],
+    text: row.text,
+    niqqud: row.niqqud as unknown as DocumentNiqqudVersions | null,
+    syllables: row.syllables as unknown as SyllablesData | null,
+    displayMode: row.display_mode as DocumentDisplayMode,
+    position: row.position as unknown as CurrentPosition | null,
+    positionAnchor: row.position_anchor as unknown as PositionAnchor | null,
+    bookmarks: row.bookmarks as unknown as ReadingBookmark[],
+    audio: row.audio as unknown as DocumentAudio | null,
+    wordTimings: row.word_timings as unknown as WordTiming[],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+}
+
+function createSupabaseDocumentStore(supabase: ReturnType<typeof createClient>, userId: string): DocumentStore {
+  return {
+    list: async () => {
+      const { data, error } = await supabase
+        .from("documents")
+        .select("*")
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false });
+      if (error) {
+        throw error;
+      }
+      return ((data ?? []) as DocumentRow[]).map(fromRow);
+    },
+    save: async (document) => {
+      const { error } = await supabase.from("documents").upsert(toRow(userId, document));
+      if (error) {
+        throw error;
+      }
+    },
+    delete: async (id) => {
+      const { error } = await supabase.from("documents").delete().eq("id", id).eq("user_id", userId);
+      if (error) {
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Copy the documents created on this device before signing in to the user's account (once per user)
+ * The local documents are kept, so they are still there after signing out.
+ */
+async function importLocalDocuments(store: DocumentStore, userId: string): Promise<void> {
+  const key = LOCAL_IMPORT_KEY_PREFIX + userId;
+  if (localStorage.getItem(key)) {
+    return;
+  }
+
+  const localDocuments = (await localDocumentStore.list()).filter((document) => document.text.trim());
+  for (const document of localDocuments) {
+    await store.save(document);
+  }
+  localStorage.setItem(key, new Date().toISOString());
+  if (localDocuments.length > 0) {
+    console.log(`[Documents] Imported ${localDocuments.length} local documents to the user's account`);
+  }
+}
+
+/**
+ * Get the document store of the current user
+ * Signed-in users get their Supabase library; anonymous users, or when Supabase
+ * is not configured or unreachable, get the local library.
+ */
+export async function getDocumentStore(): Promise<{ store: DocumentStore; storage: "local" | "supabase" }> {
+  try {
+    const supabase = createClient();
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+    if (error || !user) {
+      return { store: localDocumentStore, storage: "local" };
+    }
+
+    const store = createSupabaseDocumentStore(supabase, user.id);
+    await importLocalDocuments(store, user.id);
+    return { store, storage: "supabase" };
+  } catch (error) {
+    console.warn("[Documents] Using local documents:", error);
+    return { store: localDocumentStore, storage: "local" };
+  }
+}
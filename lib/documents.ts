@@ -0,0 +1,250 @@
+/**
+ * Document library
+ * A document is one text the user works on, with everything prepared for it:
+ * the niqqud versions, the syllables division, the display mode, the reading
+ * position and bookmarks (lib/bookmarks.ts), and a recording with its word
+ * timings (lib/karaoke.ts). Documents can be organized in folders and tagged.
+ *
+ * Anonymous users keep their documents in localStorage (localDocumentStore);
+ * signed-in users keep them in Supabase (lib/documents-supabase.ts).
+ */
+
+import { CurrentPosition } from "./settings";
+import { removeNiqqud } from "./niqqud";
+import { SyllablesData } from "./syllables";
+import { PositionAnchor, ReadingBookmark } from "./bookmarks";
+import { DocumentAudio, WordTiming } from "./karaoke";
+
+export type DocumentDisplayMode = "original" | "clean" | "full";
+
+/**
+ * Niqqud versions of a document's text (same shape as the useNiqqud cache)
+ */
+export interface DocumentNiqqudVersions {
+  original: string;     // Text as entered
+  clean: string;        // Text without niqqud
+  full: string | null;  // Full niqqud from the model or the user's review
+}
+
+export interface LibraryDocument {
+  id: string;
+  title: string;         // Empty for untitled documents (see getDocumentTitle)
+  folder: string;        // Empty when the document is not in a folder
+  tags: string[];
+  text: string;          // Text as entered (niqqud.original once the text was processed)
+  niqqud: DocumentNiqqudVersions | null;
+  syllables: SyllablesData | null; // Words and their syllables, without offsets
+  displayMode: DocumentDisplayMode;
+  position: CurrentPosition | null; // Where the user stopped reading (resume point)
+  positionAnchor: PositionAnchor | null; // Word at the resume point, to find it again after edits
+  bookmarks: ReadingBookmark[];
+  audio: DocumentAudio | null; // Recording of the text (karaoke)
+  wordTimings: WordTiming[];     // When each word is read in the recording
+  createdAt: string;     // ISO timestamps
+  updatedAt: string;
+}
+
+/**
+ * Fields of a document that can be changed after it is created
+ */
+export type DocumentChanges = Partial<Omit<LibraryDocument, "id" | "createdAt" | "updatedAt">>;
+
+/**
+ * Storage of a user's documents
+ */
+export interface DocumentStore {
+  list: () => Promise<LibraryDocument[]>;
+  save: (document: LibraryDocument) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+/**
+ * Words shown as the title of an untitled document
+ */
+const UNTITLED_TITLE_WORDS = 5;
+
+function createDocumentId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // Fallback for environments without crypto.randomUUID (RFC 4122 version 4 layout)
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Create a new document (not saved)
+ */
+export function createDocument(fields: DocumentChanges = {}): LibraryDocument {
+  const now = new Date().toISOString();
+  return {
+    title: "",
+    folder: "",
+    tags: [],
+    text: "",
+    niqqud: null,
+    syllables: null,
+    displayMode: "original",
+    position: null,
+    positionAnchor: null,
+    bookmarks: [],
+    audio: null,
+    wordTimings: [],
+    ...fields,
+    id: createDocumentId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Copy a document under a new id (not saved)
+ */
+export function duplicateDocument(document: LibraryDocument, title: string): LibraryDocument {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = document;
+  return createDocument({
+    ...fields,
+    title,
+    tags: [...fields.tags],
+    bookmarks: [...fields.bookmarks],
+    wordTimings: [...fields.wordTimings],
+  });
+}
+
+/**
+ * Fill in fields added after a document was saved (documents saved by older versions)
+ */
+export function normalizeDocument(document: LibraryDocument): LibraryDocument {
+  return {
+    ...document,
+    tags: document.tags ?? [],
+    positionAnchor: document.positionAnchor ?? null,
+    bookmarks: document.bookmarks ?? [],
+    audio: document.audio ?? null,
+    wordTimings: document.wordTimings ?? [],
+  };
+}
+
+/**
+ * Apply changes to a document
+ * @returns The changed document, or the same object when nothing changed (updatedAt is kept)
+ */
+export function applyDocumentChanges(document: LibraryDocument, changes: DocumentChanges): LibraryDocument {
+  const changed = (Object.keys(changes) as Array<keyof DocumentChanges>).some(
+    (key) => JSON.stringify(changes[key]) !== JSON.stringify(document[key])
+  );
+  if (!changed) {
+    return document;
+  }
+  return { ...document, ...changes, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Normalize tags entered by the user: trimmed, without empty or repeated tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)));
+}
+
+/**
+ * Title shown for a document: its title, or the first words of its text
+ */
+export function getDocumentTitle(document: LibraryDocument): string {
+  if (document.title.trim()) {
+    return document.title.trim();
+  }
+  const words = removeNiqqud(document.text).split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return "מסמך ללא שם";
+  }
+  return words.slice(0, UNTITLED_TITLE_WORDS).join(" ") + (words.length > UNTITLED_TITLE_WORDS ? "..." : "");
+}
+
+/**
+ * Check that syllables data was divided for the given text (same words, ignoring niqqud)
+ * Used to avoid storing a previous document's syllables while the next one is loading.
+ */
+export function syllablesMatchText(data: SyllablesData, text: string): boolean {
+  const dataWords = data.words.map((word) => removeNiqqud(word.word)).join(" ");
+  const textWords = removeNiqqud(text).split(/\s+/).filter(Boolean).join(" ");
+  return dataWords === textWords;
+}
+
+/**
+ * Find documents matching a search query
+ * Every word of the query must appear in the title, folder, tags or text.
+ * Niqqud is ignored on both sides, so "שלום" finds "שָׁלוֹם".
+ */
+export function searchDocuments(documents: LibraryDocument[], query: string): LibraryDocument[] {
+  const terms = removeNiqqud(query).toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return documents;
+  }
+
+  return documents.filter((document) => {
+    const haystack = removeNiqqud(
+      [document.title, document.folder, ...document.tags, document.text].join("\n")
+    ).toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+/**
+ * Folder names in use, sorted
+ */
+export function getDocumentFolders(documents: LibraryDocument[]): string[] {
+  return Array.from(new Set(documents.map((document) => document.folder).filter(Boolean))).sort((a, b) =>
+    a.localeCompare(b, "he")
+  );
+}
+
+/**
+ * Tags in use, sorted
+ */
+export function getDocumentTags(documents: LibraryDocument[]): string[] {
+  return Array.from(new Set(documents.flatMap((document) => document.tags))).sort((a, b) =>
+    a.localeCompare(b, "he")
+  );
+}
+
+/**
+ * Sort documents with the most recently changed first
+ */
+export function sortDocumentsByUpdate(documents: LibraryDocument[]): LibraryDocument[] {
+  return [...documents].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * localStorage key prefix of a document (one key per document, so saving the
+ * document being read does not rewrite the whole library)
+ */
+const LOCAL_DOCUMENT_KEY_PREFIX = "library_document_";
+
+/**
+ * Document store of anonymous users (this browser only)
+ */
+export const localDocumentStore: DocumentStore = {
+  list: async () => {
+    if (typeof window === "undefined") return [];
+
+    const documents: LibraryDocument[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(LOCAL_DOCUMENT_KEY_PREFIX)) continue;
+      try {
+        documents.push(normalizeDocument(JSON.parse(localStorage.getItem(key) || "") as LibraryDocument));
+      } catch (error) {
+        console.warn("[Documents] Skipping unreadable document:", key, error);
+      }
+    }
+    return sortDocumentsByUpdate(documents);
+  },
+  save: async (document) => {
+    localStorage.setItem(LOCAL_DOCUMENT_KEY_PREFIX + document.id, JSON.stringify(document));
+  },
+  delete: async (id) => {
+    localStorage.removeItem(LOCAL_DOCUMENT_KEY_PREFIX + id);
+  },
+};
@@ -0,0 +1,205 @@
+/**
+ * Undo/redo history of the home page
+ * Before the text is edited, cleared, vocalized, divided into syllables or
+ * corrected, a snapshot of its state is recorded. Undo restores the snapshot
+ * and keeps the state it replaced for redo. The history of each document is
+ * kept in sessionStorage, so it survives reloads and switching documents but
+ * not the session.
+ */
+
+import { DocumentDisplayMode, DocumentNiqqudVersions } from "./documents";
+import { SyllablesData, SyllableWord } from "./syllables";
+
+export const MAX_EDIT_HISTORY = 30;
+export const MAX_EDIT_HISTORY_DOCUMENTS = 10;
+export const EDIT_HISTORY_STORAGE_KEY = "edit_history";
+// Storage keys of the saved histories, least recently saved first
+const EDIT_HISTORY_KEYS_STORAGE_KEY = `${EDIT_HISTORY_STORAGE_KEY}_keys`;
+
+/**
+ * State of the text that an edit can change
+ */
+export interface EditSnapshot {
+  niqqud: DocumentNiqqudVersions | null; // null when there is no text
+  displayMode: DocumentDisplayMode;
+  syllables: SyllablesData | null;       // Words and their syllables, without offsets
+  isSyllablesActive: boolean;
+}
+
+/**
+ * Change an edit made to the user's syllable dictionary (lib/syllable-overrides.ts)
+ * The dictionary is not part of the snapshots, so undo puts back `before` and redo `after`.
+ */
+export interface SyllableOverrideChange {
+  key: string;
+  before: SyllableWord | null; // null: the word was not in the dictionary
+  after: SyllableWord | null;
+}
+
+export interface EditHistoryEntry {
+  label: string;          // What the edit did, e.g. "ניקוי הטקסט"
+  snapshot: EditSnapshot; // State before the edit (after it, on the redo stack)
+  syllableOverride?: SyllableOverrideChange;
+}
+
+export interface EditHistory {
+  undo: EditHistoryEntry[]; // Oldest first
+  redo: EditHistoryEntry[]; // Most recently undone last
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { undo: [], redo: [] };
+
+/**
+ * Edits with the same label made this soon after an entry's first edit are
+ * undone with it (typing a word is a single edit, not one per letter)
+ */
+export const MERGE_WINDOW_MS = 1000;
+
+/**
+ * The latest entry: its label and when its first edit was recorded
+ */
+export interface MergeableEdit {
+  label: string;
+  startedAt: number;
+}
+
+/**
+ * Check whether an edit is merged into the latest entry
+ * The window is measured from the entry's first edit, so continuous typing is
+ * split into entries of MERGE_WINDOW_MS rather than undone as one paragraph.
+ */
+export function shouldMergeEdit(last: MergeableEdit | null, label: string, now: number): boolean {
+  return !!last && last.label === label && now - last.startedAt < MERGE_WINDOW_MS;
+}
+
+export function snapshotsEqual(a: EditSnapshot, b: EditSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Record the state before an edit
+ * A new edit cannot be redone over, so the redo stack is dropped; the oldest
+ * entries are dropped beyond MAX_EDIT_HISTORY.
+ */
+export function pushEdit(history: EditHistory, entry: EditHistoryEntry): EditHistory {
+  return { undo: [...history.undo, entry].slice(-MAX_EDIT_HISTORY), redo: [] };
+}
+
+/**
+ * Take the latest entry from one stack and keep the current state on the other
+ * Entries equal to the current state (edits that failed or changed nothing) are
+ * skipped, unless they changed the syllable dictionary.
+ */
+function moveEdit(
+  from: EditHistoryEntry[],
+  to: EditHistoryEntry[],
+  current: EditSnapshot
+): { from: EditHistoryEntry[]; to: EditHistoryEntry[]; entry: EditHistoryEntry } | null {
+  const remaining = [...from];
+  let entry = remaining.pop();
+  while (entry && !entry.syllableOverride && snapshotsEqual(entry.snapshot, current)) {
+    entry = remaining.pop();
+  }
+  if (!entry) {
+    return null;
+  }
+  const moved: EditHistoryEntry = { label: entry.label, snapshot: current };
+  if (entry.syllableOverride) {
+    moved.syllableOverride = entry.syllableOverride;
+  }
+  return { from: remaining, to: [...to, moved], entry };
+}
+
+/**
+ * Undo the latest edit
+ * @returns The history and the entry whose snapshot to restore, or null when there is nothing to undo
+ */
+export function undoEdit(
+  history: EditHistory,
+  current: EditSnapshot
+): { history: EditHistory; entry: EditHistoryEntry } | null {
+  const moved = moveEdit(history.undo, history.redo, current);
+  return moved && { history: { undo: moved.from, redo: moved.to }, entry: moved.entry };
+}
+
+/**
+ * Redo the latest undone edit
+ * @returns The history and the entry whose snapshot to restore, or null when there is nothing to redo
+ */
+export function redoEdit(
+  history: EditHistory,
+  current: EditSnapshot
+): { history: EditHistory; entry: EditHistoryEntry } | null {
+  const moved = moveEdit(history.redo, history.undo, current);
+  return moved && { history: { undo: moved.to, redo: moved.from }, entry: moved.entry };
+}
+
+/**
+ * Storage key of a document's history (null: the text outside the library)
+ */
+function getEditHistoryKey(documentId: string | null): string {
+  return documentId === null ? `${EDIT_HISTORY_STORAGE_KEY}_text` : `${EDIT_HISTORY_STORAGE_KEY}_doc_${documentId}`;
+}
+
+function loadEditHistoryKeys(): string[] {
+  try {
+    const keys = JSON.parse(sessionStorage.getItem(EDIT_HISTORY_KEYS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(keys) ? keys.filter((key): key is string => typeof key === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load the session's history of a document (null: the text outside the library)
+ */
+export function loadEditHistory(documentId: string | null): EditHistory {
+  if (typeof window === "undefined") {
+    return EMPTY_EDIT_HISTORY;
+  }
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(getEditHistoryKey(documentId)) ?? "null");
+    if (saved && Array.isArray(saved.undo) && Array.isArray(saved.redo)) {
+      return { undo: saved.undo, redo: saved.redo };
+    }
+  } catch {
+    // Invalid JSON - start a new history
+  }
+  return EMPTY_EDIT_HISTORY;
+}
+
+/**
+ * Save the history of a document for the session
+ * The histories of the MAX_EDIT_HISTORY_DOCUMENTS documents saved last are kept.
+ * When sessionStorage is full, the other documents' histories are dropped, then
+ * the oldest entries of this one, until it fits.
+ */
+export function saveEditHistory(documentId: string | null, history: EditHistory): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  const key = getEditHistoryKey(documentId);
+  const keys = [...loadEditHistoryKeys().filter((saved) => saved !== key), key];
+  const dropKeys = (count: number) => {
+    keys.splice(0, count).forEach((dropped) => sessionStorage.removeItem(dropped));
+  };
+  dropKeys(Math.max(0, keys.length - MAX_EDIT_HISTORY_DOCUMENTS));
+
+  let undo = history.undo;
+  for (;;) {
+    try {
+      sessionStorage.setItem(key, JSON.stringify({ undo, redo: history.redo }));
+      sessionStorage.setItem(EDIT_HISTORY_KEYS_STORAGE_KEY, JSON.stringify(keys));
+      return;
+    } catch (error) {
+      if (keys.length > 1) {
+        dropKeys(1);
+      } else if (undo.length > 0) {
+        undo = undo.slice(1);
+      } else {
+        console.warn("[EditHistory] Failed to save the history:", error);
+        return;
+      }
+    }
+  }
+}
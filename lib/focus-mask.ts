@@ -0,0 +1,101 @@
+/**
+ * Reading ruler (focus mask)
+ * Dims or blurs the reading view except for a window of lines: the line of the
+ * highlighted element and the lines after it. A ruler marks the window, which
+ * moves with the highlight so the reader does not lose the line.
+ * Lines are the lines of the rendered text as wrapped on screen.
+ */
+
+export type FocusMaskStyle = "dim" | "blur";
+
+export const DEFAULT_FOCUS_MASK_LINES = 1;
+export const MAX_FOCUS_MASK_LINES = 5;
+export const DEFAULT_FOCUS_MASK_STYLE: FocusMaskStyle = "dim";
+export const DEFAULT_FOCUS_MASK_OPACITY = 0.7;
+export const DEFAULT_FOCUS_RULER_COLOR = "#fef9c3"; // Light yellow
+
+export interface FocusMaskSettings {
+  lines: number;         // Lines left visible, from the highlighted line on
+  style: FocusMaskStyle; // Dim or blur the other lines
+  opacity: number;       // Mask opacity (0 = lines stay visible, 1 = lines are hidden)
+  rulerColor: string;    // Background of the visible lines
+}
+
+export const DEFAULT_FOCUS_MASK_SETTINGS: FocusMaskSettings = {
+  lines: DEFAULT_FOCUS_MASK_LINES,
+  style: DEFAULT_FOCUS_MASK_STYLE,
+  opacity: DEFAULT_FOCUS_MASK_OPACITY,
+  rulerColor: DEFAULT_FOCUS_RULER_COLOR,
+};
+
+/**
+ * Clamp a window size to a whole number of lines between 1 and MAX_FOCUS_MASK_LINES
+ */
+export function normalizeFocusMaskLines(lines: number): number {
+  if (!Number.isFinite(lines)) {
+    return DEFAULT_FOCUS_MASK_LINES;
+  }
+  return Math.min(MAX_FOCUS_MASK_LINES, Math.max(1, Math.round(lines)));
+}
+
+/**
+ * Clamp a mask opacity between 0 and 1
+ */
+export function normalizeFocusMaskOpacity(opacity: number): number {
+  if (!Number.isFinite(opacity)) {
+    return DEFAULT_FOCUS_MASK_OPACITY;
+  }
+  return Math.min(1, Math.max(0, opacity));
+}
+
+/**
+ * Vertical extent of a rendered element or line (px)
+ */
+export interface LineBand {
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Lines of rendered elements
+ * Elements are on the same line when their top is above the middle of the
+ * line's first element; a line reaches down to its lowest element.
+ */
+export function groupLineBands(boxes: LineBand[]): LineBand[] {
+  const bands: (LineBand & { middle: number })[] = [];
+  [...boxes]
+    .sort((a, b) => a.top - b.top)
+    .forEach((box) => {
+      const band = bands[bands.length - 1];
+      if (band && box.top <= band.middle) {
+        band.bottom = Math.max(band.bottom, box.bottom);
+      } else {
+        bands.push({ top: box.top, bottom: box.bottom, middle: (box.top + box.bottom) / 2 });
+      }
+    });
+  return bands.map(({ top, bottom }) => ({ top, bottom }));
+}
+
+/**
+ * Extent of the visible window: the lines of the focused elements (a sentence
+ * may cover several) and the lines after them
+ * At the end of the text the window keeps its size by starting on an earlier line.
+ * @returns The window, or null when the elements are on none of the lines
+ */
+export function getFocusWindow(bands: LineBand[], focused: LineBand[], lines: number): LineBand | null {
+  const indices = focused
+    .map((box) => {
+      const middle = (box.top + box.bottom) / 2;
+      return bands.findIndex((band) => middle >= band.top && middle <= band.bottom);
+    })
+    .filter((index) => index !== -1);
+  if (indices.length === 0) {
+    return null;
+  }
+
+  const first = Math.min(...indices);
+  const last = Math.max(...indices);
+  const size = Math.min(Math.max(normalizeFocusMaskLines(lines), last - first + 1), bands.length);
+  const start = Math.min(first, bands.length - size);
+  return { top: bands[start].top, bottom: bands[start + size - 1].bottom };
+}
@@ -0,0 +1,264 @@
+/**
+ * Karaoke: recorded audio of a document with word timings
+ * A teacher attaches a recording of the passage to a document, then either
+ * imports word timings (WebVTT, SRT or JSON) or marks them by tapping while the
+ * audio plays. During playback the highlight follows the word being read.
+ *
+ * Timings point at words by their index in the document text (split by
+ * whitespace, like the reading view), so they stay with the document's words
+ * rather than with the timing file's spelling (with or without niqqud).
+ */
+
+/**
+ * Audio file attached to a document
+ * The file itself is kept in the browser (IndexedDB) and, for signed-in users,
+ * in Supabase Storage (lib/document-audio.ts).
+ */
+export interface DocumentAudio {
+  id: string;
+  name: string; // File name, shown to the user
+  type: string; // MIME type
+}
+
+/**
+ * When a word is read in the recording (seconds from the start)
+ */
+export interface WordTiming {
+  wordIndex: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Timed text from a timing file, before it is matched to the document's words
+ */
+interface TimedText {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type WordTimingsFormat = "vtt" | "srt" | "json";
+
+export interface ImportedWordTimings {
+  timings: WordTiming[];
+  fileWordCount: number; // Words in the timing file (differs from the text's when the file is for another text)
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const CUE_TIMES = new RegExp(`(${TIMESTAMP.source})\\s*-->\\s*(${TIMESTAMP.source})`);
+// Inline timestamps of WebVTT karaoke cues: "<00:00:01.200>"
+const INLINE_TIMESTAMP = new RegExp(`<(${TIMESTAMP.source})>`, "g");
+
+/**
+ * Seconds of a "hh:mm:ss.mmm" / "mm:ss.mmm" (WebVTT) or "hh:mm:ss,mmm" (SRT) timestamp
+ */
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours ?? "0", 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, "0"), 10) / 1000
+  );
+}
+
+function getWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.trim().length > 0);
+}
+
+/**
+ * Text of a cue without markup (<c>, <v Speaker>, <b> and the like)
+ */
+function stripCueTags(text: string): string {
+  return text.replace(/<[^>]*>/g, "");
+}
+
+/**
+ * Split a cue into timed parts at its inline timestamps (WebVTT karaoke)
+ * A cue without inline timestamps is a single part.
+ */
+function splitCue(payload: string, start: number, end: number): TimedText[] {
+  const parts: TimedText[] = [];
+  let partStart = start;
+  let lastIndex = 0;
+  for (const match of Array.from(payload.matchAll(INLINE_TIMESTAMP))) {
+    const time = parseTimestamp(match[1]);
+    parts.push({ text: stripCueTags(payload.slice(lastIndex, match.index)), start: partStart, end: time });
+    partStart = time;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push({ text: stripCueTags(payload.slice(lastIndex)), start: partStart, end });
+  return parts.filter((part) => part.text.trim());
+}
+
+/**
+ * Cues of a WebVTT or SRT file (blocks separated by blank lines, with a "-->" line)
+ */
+function parseCues(content: string): TimedText[] {
+  const cues: TimedText[] = [];
+  for (const block of content.replace(/\r\n?/g, "\n").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timesLine = lines.findIndex((line) => line.includes("-->"));
+    if (timesLine === -1) continue; // Header, NOTE, STYLE or cue number only
+
+    const match = lines[timesLine].match(CUE_TIMES);
+    if (!match) {
+      throw new Error(`Invalid cue timing: ${lines[timesLine]}`);
+    }
+    const start = parseTimestamp(match[1]);
+    const end = parseTimestamp(match[6]);
+    cues.push(...splitCue(lines.slice(timesLine + 1).join(" "), start, end));
+  }
+  return cues;
+}
+
+/**
+ * Words of a JSON timing file
+ * Accepted shapes: [{ "word", "start", "end" }] or { "words": [...] }, times in
+ * seconds. "text" may be used instead of "word".
+ */
+function parseJsonTimings(content: string): TimedText[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("Invalid JSON");
+  }
+
+  const items = Array.isArray(data) ? data : (data as { words?: unknown })?.words;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected an array of words or an object with a "words" array');
+  }
+
+  return items.map((item, index) => {
+    const { word, text, start, end } = (item ?? {}) as Record<string, unknown>;
+    const value = typeof word === "string" ? word : text;
+    if (typeof value !== "string" || typeof start !== "number" || typeof end !== "number") {
+      throw new Error(`Word ${index + 1} needs a word, a start and an end`);
+    }
+    return { text: value, start, end };
+  });
+}
+
+/**
+ * Format of a timing file, from its name or else its content
+ */
+export function detectWordTimingsFormat(fileName: string, content: string): WordTimingsFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "vtt" || extension === "srt" || extension === "json") {
+    return extension;
+  }
+  const trimmed = content.trim();
+  if (trimmed.startsWith("WEBVTT")) return "vtt";
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+  return "srt";
+}
+
+/**
+ * Import word timings from a timing file
+ * Cues with several words share their time between the words, in proportion to
+ * the words' length. The file's words are matched to the text's words in order.
+ */
+export function importWordTimings(content: string, format: WordTimingsFormat, text: string): ImportedWordTimings {
+  const timedTexts = format === "json" ? parseJsonTimings(content) : parseCues(content);
+
+  const fileWords: TimedText[] = [];
+  for (const timed of timedTexts) {
+    const words = getWords(timed.text);
+    const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+    let start = timed.start;
+    let length = 0;
+    words.forEach((word, index) => {
+      length += word.length;
+      const end =
+        index === words.length - 1 ? timed.end : timed.start + ((timed.end - timed.start) * length) / totalLength;
+      fileWords.push({ text: word, start, end });
+      start = end;
+    });
+  }
+  if (fileWords.length === 0) {
+    throw new Error("The file has no timed words");
+  }
+
+  const wordCount = getWords(text).length;
+  const timings = fileWords
+    .slice(0, wordCount)
+    .map((word, wordIndex) => ({ wordIndex, start: word.start, end: word.end }));
+  return { timings, fileWordCount: fileWords.length };
+}
+
+/**
+ * Export word timings as JSON (the format importWordTimings reads)
+ */
+export function exportWordTimings(timings: WordTiming[], text: string): string {
+  const words = getWords(text);
+  return JSON.stringify(
+    {
+      words: timings.map((timing) => ({
+        word: words[timing.wordIndex] ?? "",
+        start: Math.round(timing.start * 1000) / 1000,
+        end: Math.round(timing.end * 1000) / 1000,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Word being read at a playback time
+ * Between two words the previous word stays highlighted; before the first word nothing is.
+ */
+export function getWordAtTime(timings: WordTiming[], time: number): number | null {
+  let low = 0;
+  let high = timings.length - 1;
+  let found: WordTiming | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (timings[middle].start <= time) {
+      found = timings[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found ? found.wordIndex : null;
+}
+
+/**
+ * Add a tap mark: the next word starts at the given time and the previous word ends there
+ * @param wordCount - Words in the text; taps after the last word are ignored
+ */
+export function addTapMark(timings: WordTiming[], time: number, wordCount: number): WordTiming[] {
+  const wordIndex = timings.length > 0 ? timings[timings.length - 1].wordIndex + 1 : 0;
+  if (wordIndex >= wordCount) {
+    return timings;
+  }
+  const marked = timings.map((timing, index) =>
+    index === timings.length - 1 ? { ...timing, end: Math.max(timing.start, time) } : timing
+  );
+  return [...marked, { wordIndex, start: time, end: time }];
+}
+
+/**
+ * Remove the last tap mark (the word was tapped too early)
+ */
+export function removeLastTapMark(timings: WordTiming[]): WordTiming[] {
+  return timings.slice(0, -1);
+}
+
+/**
+ * End the last marked word when marking stops
+ */
+export function finishTapMarks(timings: WordTiming[], time: number): WordTiming[] {
+  if (timings.length === 0) {
+    return timings;
+  }
+  const last = timings[timings.length - 1];
+  return [...timings.slice(0, -1), { ...last, end: Math.max(last.start, time) }];
+}
@@ -0,0 +1,192 @@
+/**
+ * Keyboard shortcuts of the reading view
+ * Each action is bound to any number of key combinations, so switch devices,
+ * foot pedals (which usually send PageDown or Space) and number pads can drive
+ * the reading. Combinations are written as modifiers and a key, e.g. "Shift+Tab",
+ * "Ctrl+Home" or "Space"; the key is the KeyboardEvent key.
+ */
+
+export type ShortcutAction =
+  | "next"
+  | "prev"
+  | "up"
+  | "down"
+  | "jumpToStart"
+  | "playPause"
+  | "toggleNiqqud"
+  | "cycleNavigationMode";
+
+export type ShortcutMap = Record<ShortcutAction, string[]>;
+
+/**
+ * Actions in the order they are listed in the settings
+ */
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: "next", label: "לרכיב הבא" },
+  { action: "prev", label: "לרכיב הקודם" },
+  { action: "up", label: "לשורה הקודמת" },
+  { action: "down", label: "לשורה הבאה" },
+  { action: "jumpToStart", label: "לתחילת הטקסט" },
+  { action: "playPause", label: "הפעלה / השהיה של מצב ניגון" },
+  { action: "toggleNiqqud", label: "החלפת תצוגת הניקוד" },
+  { action: "cycleNavigationMode", label: "החלפת סוג הקפיצה" },
+];
+
+/**
+ * Keys of the reading view before shortcuts could be changed
+ * (Hebrew is read right to left, so ArrowLeft moves forward)
+ */
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  next: ["ArrowLeft", "Tab"],
+  prev: ["ArrowRight", "Shift+Tab"],
+  up: ["ArrowUp"],
+  down: ["ArrowDown"],
+  jumpToStart: ["Home"],
+  playPause: ["Space"],
+  toggleNiqqud: [],
+  cycleNavigationMode: [],
+};
+
+/**
+ * Keys that cannot be bound: Escape cancels recording a new key, and the page
+ * undoes edits with Ctrl+Z and redoes them with Ctrl+Y or Ctrl+Shift+Z
+ */
+const RESERVED_KEYS = new Set([
+  "Escape",
+  "Ctrl+z",
+  "Ctrl+y",
+  "Ctrl+Shift+z",
+  "Meta+z",
+  "Meta+y",
+  "Meta+Shift+z",
+]);
+
+/**
+ * Keys the page takes while marking karaoke timings: Space marks the next word
+ * and Backspace takes the last mark back, so actions bound to them don't run then
+ */
+export const KARAOKE_MARKING_KEYS = ["Space", "Backspace"];
+
+const MODIFIER_KEYS = new Set(["Control", "Alt", "Shift", "Meta", "AltGraph", "CapsLock", "Fn"]);
+
+/**
+ * The key combination of a key press
+ * Shift is only part of the combination for keys without a character of their
+ * own (Shift+Tab); for characters it is already part of the key ("!" rather than "1").
+ * @returns The combination, or null for a modifier key pressed alone
+ */
+export function getKeyCombo(event: Pick<KeyboardEvent, "key" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">): string | null {
+  if (MODIFIER_KEYS.has(event.key)) {
+    return null;
+  }
+  const isCharacter = event.key.length === 1;
+  const key = event.key === " " ? "Space" : isCharacter ? event.key.toLowerCase() : event.key;
+  const modifiers = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && !isCharacter && "Shift",
+    event.metaKey && "Meta",
+  ].filter(Boolean);
+  return [...modifiers, key].join("+");
+}
+
+/**
+ * The action a key combination is bound to
+ */
+export function findShortcutAction(shortcuts: ShortcutMap, combo: string): ShortcutAction | null {
+  const entry = (Object.entries(shortcuts) as [ShortcutAction, string[]][]).find(([, combos]) =>
+    combos.includes(combo)
+  );
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Check whether a key combination can be bound to an action
+ * @returns null when it can, otherwise why not: the key is reserved, the
+ * action it is already bound to, or that karaoke marking takes it (it can
+ * still be bound, but does not work while marking)
+ */
+export function getShortcutConflict(
+  shortcuts: ShortcutMap,
+  action: ShortcutAction,
+  combo: string
+): { reserved: true } | { action: ShortcutAction } | { karaokeMarking: true } | null {
+  if (RESERVED_KEYS.has(combo)) {
+    return { reserved: true };
+  }
+  const boundAction = findShortcutAction(shortcuts, combo);
+  if (boundAction && boundAction !== action) {
+    return { action: boundAction };
+  }
+  return KARAOKE_MARKING_KEYS.includes(combo) ? { karaokeMarking: true } : null;
+}
+
+/**
+ * Bind a key combination to an action, taking it from any other action
+ */
+export function bindShortcut(shortcuts: ShortcutMap, action: ShortcutAction, combo: string): ShortcutMap {
+  const next = { ...shortcuts };
+  for (const [boundAction, combos] of Object.entries(next) as [ShortcutAction, string[]][]) {
+    if (combos.includes(combo)) {
+      next[boundAction] = combos.filter((bound) => bound !== combo);
+    }
+  }
+  next[action] = [...next[action], combo];
+  return next;
+}
+
+/**
+ * Remove a key combination from an action
+ */
+export function unbindShortcut(shortcuts: ShortcutMap, action: ShortcutAction, combo: string): ShortcutMap {
+  return { ...shortcuts, [action]: shortcuts[action].filter((bound) => bound !== combo) };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Space: "רווח",
+  PageDown: "Page Down",
+  PageUp: "Page Up",
+};
+
+/**
+ * Label of a key combination for the settings
+ */
+export function formatKeyCombo(combo: string): string {
+  return combo
+    .split("+")
+    .map((part) => KEY_LABELS[part] ?? part)
+    .join(" + ");
+}
+
+/**
+ * Fill in the actions missing from saved shortcuts with their default keys
+ */
+export function normalizeShortcutMap(value: unknown): ShortcutMap {
+  const saved = (value && typeof value === "object" ? value : {}) as Partial<Record<ShortcutAction, unknown>>;
+  const shortcuts = { ...DEFAULT_SHORTCUTS };
+  for (const { action } of SHORTCUT_ACTIONS) {
+    const combos = saved[action];
+    if (Array.isArray(combos)) {
+      shortcuts[action] = combos.filter((combo): combo is string => typeof combo === "string" && combo.length > 0);
+    }
+  }
+  return shortcuts;
+}
+
+/**
+ * Whether a key press belongs to the element it happened in rather than to the
+ * reading view: typing in a field, or Space/Enter pressing a button
+ */
+export function isKeyForTarget(target: EventTarget | null, combo: string): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable) {
+    return true;
+  }
+  return target.tagName === "BUTTON" && (combo === "Space" || combo === "Enter");
+}
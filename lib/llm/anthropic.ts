@@ -0,0 +1,138 @@
+/**
+ * Anthropic Messages API adapter
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  failedResponseResult,
+  keyValidationFromModelList,
+  parseEventData,
+  readServerSentEvents,
+  requestErrorResult,
+  textResult,
+} from "./http";
+import { LLMCompletionRequest, LLMProvider, LLMProviderConfig } from "./types";
+
+interface MessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+}
+
+interface AnthropicModelListResponse {
+  data?: Array<{ id: string; display_name?: string }>;
+}
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const getBaseUrl = (config: LLMProviderConfig) =>
+  (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+const getHeaders = (config: LLMProviderConfig): Record<string, string> => ({
+  "Content-Type": "application/json",
+  "x-api-key": config.apiKey ?? "",
+  "anthropic-version": ANTHROPIC_VERSION,
+});
+
+function buildBody(request: LLMCompletionRequest, stream: boolean) {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    ...(request.systemPrompt && { system: request.systemPrompt }),
+    messages: [{ role: "user", content: request.userPrompt }],
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(stream && { stream: true }),
+  };
+}
+
+const listModels: LLMProvider["listModels"] = async (config) => {
+  try {
+    const response = await fetch(`${getBaseUrl(config)}/models`, {
+      headers: getHeaders(config),
+    });
+    if (!response.ok) {
+      const failed = await failedResponseResult("Anthropic", response);
+      return { success: false, error: failed.error };
+    }
+    const data: AnthropicModelListResponse = await response.json();
+    return {
+      success: true,
+      models: (data.data ?? []).map((model) => ({
+        value: model.id,
+        label: `${model.display_name || model.id} (Anthropic)`,
+      })),
+    };
+  } catch (error) {
+    return { success: false, error: requestErrorResult(error).error };
+  }
+};
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: true,
+  models: [
+    { value: "claude-sonnet-4-5", label: "Claude Sonnet 4.5 (Anthropic)" },
+    { value: "claude-haiku-4-5", label: "Claude Haiku 4.5 (Anthropic)" },
+    { value: "claude-opus-4-1", label: "Claude Opus 4.1 (Anthropic)" },
+  ],
+  matchesModel: (model) => model.startsWith("claude-"),
+
+  async complete(request, config) {
+    try {
+      const response = await fetch(`${getBaseUrl(config)}/messages`, {
+        method: "POST",
+        headers: getHeaders(config),
+        body: JSON.stringify(buildBody(request, false)),
+        signal: request.signal,
+      });
+      if (!response.ok) {
+        return failedResponseResult("Anthropic", response);
+      }
+      const data: MessagesResponse = await response.json();
+      const text = (data.content ?? [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+      return textResult(text);
+    } catch (error) {
+      return requestErrorResult(error);
+    }
+  },
+
+  async stream(request, config, onDelta) {
+    try {
+      const response = await fetch(`${getBaseUrl(config)}/messages`, {
+        method: "POST",
+        headers: getHeaders(config),
+        body: JSON.stringify(buildBody(request, true)),
+        signal: request.signal,
+      });
+      if (!response.ok) {
+        return failedResponseResult("Anthropic", response);
+      }
+      let text = "";
+      await readServerSentEvents(response, (data) => {
+        const event = parseEventData<MessagesStreamEvent>(data);
+        if (event?.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+          text += event.delta.text;
+          onDelta(event.delta.text);
+        }
+      });
+      return textResult(text);
+    } catch (error) {
+      return requestErrorResult(error);
+    }
+  },
+
+  listModels,
+
+  async validateKey(config) {
+    return keyValidationFromModelList(await listModels(config));
+  },
+};
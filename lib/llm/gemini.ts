@@ -0,0 +1,158 @@
+/**
+ * Google Gemini generateContent adapter
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  failedResponseResult,
+  keyValidationFromModelList,
+  parseEventData,
+  readServerSentEvents,
+  requestErrorResult,
+  textResult,
+} from "./http";
+import { LLMCompletionRequest, LLMProvider, LLMProviderConfig } from "./types";
+
+interface GenerateContentResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+}
+
+interface GeminiModelListResponse {
+  models?: Array<{
+    name: string;
+    displayName?: string;
+    supportedGenerationMethods?: string[];
+  }>;
+}
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+const getBaseUrl = (config: LLMProviderConfig) =>
+  (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+// The key is sent in a header rather than the query string, so it stays out of URLs and logs
+const getHeaders = (config: LLMProviderConfig): Record<string, string> => ({
+  "Content-Type": "application/json",
+  "x-goog-api-key": config.apiKey ?? "",
+});
+
+const getCandidateText = (data: GenerateContentResponse | null) =>
+  data?.candidates?.[0]?.content?.parts?.[0]?.text;
+
+/**
+ * Build the generateContent body
+ * The system prompt is sent in the same message as the user prompt,
+ * as the services always did for Gemini.
+ */
+function buildBody(request: LLMCompletionRequest) {
+  const prompt = request.systemPrompt
+    ? `${request.systemPrompt}\n\n${request.userPrompt}`
+    : request.userPrompt;
+
+  return {
+    contents: [
+      {
+        parts: [
+          {
+            text: prompt,
+          },
+        ],
+      },
+    ],
+    generationConfig: {
+      maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    },
+  };
+}
+
+const listModels: LLMProvider["listModels"] = async (config) => {
+  try {
+    const response = await fetch(getBaseUrl(config), { headers: getHeaders(config) });
+    if (!response.ok) {
+      const failed = await failedResponseResult("Google", response);
+      return { success: false, error: failed.error };
+    }
+    const data: GeminiModelListResponse = await response.json();
+    return {
+      success: true,
+      models: (data.models ?? [])
+        .filter((model) => model.supportedGenerationMethods?.includes("generateContent") ?? true)
+        .map((model) => {
+          const value = model.name.replace(/^models\//, "");
+          return { value, label: `${model.displayName || value} (Google)` };
+        }),
+    };
+  } catch (error) {
+    return { success: false, error: requestErrorResult(error).error };
+  }
+};
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  label: "Google",
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: true,
+  models: [
+    { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash (Google)" },
+    { value: "gemini-2.0-flash-exp", label: "Gemini 2.0 Flash (Google)" },
+    { value: "gemini-1.5-pro", label: "Gemini 1.5 Pro (Google)" },
+    { value: "gemini-1.5-flash", label: "Gemini 1.5 Flash (Google)" },
+  ],
+  matchesModel: (model) => model.startsWith("gemini-"),
+
+  async complete(request, config) {
+    try {
+      const response = await fetch(
+        `${getBaseUrl(config)}/${request.model}:generateContent`,
+        {
+          method: "POST",
+          headers: getHeaders(config),
+          body: JSON.stringify(buildBody(request)),
+          signal: request.signal,
+        }
+      );
+      if (!response.ok) {
+        return failedResponseResult("Google", response);
+      }
+      const data: GenerateContentResponse = await response.json();
+      return textResult(getCandidateText(data));
+    } catch (error) {
+      return requestErrorResult(error);
+    }
+  },
+
+  async stream(request, config, onDelta) {
+    try {
+      const response = await fetch(
+        `${getBaseUrl(config)}/${request.model}:streamGenerateContent?alt=sse`,
+        {
+          method: "POST",
+          headers: getHeaders(config),
+          body: JSON.stringify(buildBody(request)),
+          signal: request.signal,
+        }
+      );
+      if (!response.ok) {
+        return failedResponseResult("Google", response);
+      }
+      let text = "";
+      await readServerSentEvents(response, (data) => {
+        const delta = getCandidateText(parseEventData<GenerateContentResponse>(data));
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      });
+      return textResult(text);
+    } catch (error) {
+      return requestErrorResult(error);
+    }
+  },
+
+  listModels,
+
+  async validateKey(config) {
+    return keyValidationFromModelList(await listModels(config));
+  },
+};
@@ -0,0 +1,143 @@
+/**
+ * HTTP helpers shared by the provider adapters
+ */
+
+import { LLMCompletionResult, LLMErrorCode, LLMKeyValidationResult, LLMModelListResult } from "./types";
+
+export const DEFAULT_MAX_TOKENS = 4000;
+
+/**
+ * Map the HTTP status of a failed response to an error code
+ */
+export function errorCodeForStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 403) return "auth_error";
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "invalid_request";
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date)
+ * @returns Delay in milliseconds, or undefined when missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Build a failed result from a non-OK response
+ * Uses the provider's error message when the body has one.
+ * @param providerLabel - Provider name for the log
+ * @param response - Failed response
+ */
+export async function failedResponseResult(
+  providerLabel: string,
+  response: Response
+): Promise<LLMCompletionResult> {
+  const errorData = await response.json().catch(() => ({}));
+  console.error(`[LLM] ${providerLabel} API error`, {
+    status: response.status,
+    statusText: response.statusText,
+    errorData,
+  });
+  return {
+    success: false,
+    code: errorCodeForStatus(response.status),
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    error:
+      errorData.error?.message ||
+      `שגיאת API: ${response.status} ${response.statusText}`,
+  };
+}
+
+/**
+ * Build a failed result from a thrown fetch error
+ */
+export function requestErrorResult(error: unknown): LLMCompletionResult {
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return { success: false, code: "cancelled", error: "הבקשה בוטלה" };
+  }
+  // fetch rejects with a TypeError when the server cannot be reached
+  return {
+    success: false,
+    code: "network_error",
+    error: error instanceof Error ? error.message : "שגיאה לא צפויה בעת קריאה למודל",
+  };
+}
+
+/**
+ * Return the trimmed text of a completion, or an invalid-response error
+ */
+export function textResult(text: unknown): LLMCompletionResult {
+  if (typeof text !== "string" || text.trim().length === 0) {
+    return { success: false, code: "invalid_response", error: "תגובה לא תקינה מהמודל" };
+  }
+  return { success: true, text: text.trim() };
+}
+
+/**
+ * Read a server-sent events body, calling onData with each `data:` payload
+ * @param response - Streaming response
+ * @param onData - Called with the payload of every data line
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("data:")) {
+      onData(trimmed.slice("data:".length).trim());
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(flushLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    flushLine(buffer);
+  }
+}
+
+/**
+ * Parse a JSON event payload, ignoring malformed or keep-alive events
+ */
+export function parseEventData<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a key by listing models, which every provider supports cheaply
+ */
+export function keyValidationFromModelList(result: LLMModelListResult): LLMKeyValidationResult {
+  return result.success ? { valid: true } : { valid: false, error: result.error };
+}
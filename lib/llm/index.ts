@@ -0,0 +1,68 @@
+/**
+ * Language model provider registry
+ * Services resolve the provider for the selected model here, and the settings
+ * model pickers are built from the providers' model lists.
+ */
+
+import { anthropicProvider } from "./anthropic";
+import { geminiProvider } from "./gemini";
+import { localProvider, openAIProvider } from "./openai";
+import { LLMModelOption, LLMProvider, LLMProviderId } from "./types";
+
+export * from "./types";
+export { LOCAL_MODEL_PREFIX, createOpenAICompatibleProvider } from "./openai";
+export {
+  DEFAULT_MODEL_CALL_POLICY,
+  callWithPolicy,
+  errorCodeFields,
+  getModelCallPolicyFromEnv,
+  getRetryDelay,
+  isModelOutputError,
+  isRetryableError,
+  isTransportError,
+} from "./policy";
+export type { ModelCallPolicy } from "./policy";
+
+/**
+ * Registered providers, in the order their models are listed
+ * OpenAI is matched last because it accepts any model name.
+ */
+export const LLM_PROVIDERS: LLMProvider[] = [
+  openAIProvider,
+  geminiProvider,
+  anthropicProvider,
+  localProvider,
+];
+
+/**
+ * Get a provider by id
+ */
+export function getProvider(id: LLMProviderId): LLMProvider | undefined {
+  return LLM_PROVIDERS.find((provider) => provider.id === id);
+}
+
+/**
+ * Get the provider that serves a model
+ * @param model - Model value from settings
+ * @returns Matching provider (OpenAI for unknown model names)
+ */
+export function getProviderForModel(model: string): LLMProvider {
+  return (
+    LLM_PROVIDERS.find((provider) => provider !== openAIProvider && provider.matchesModel(model)) ??
+    openAIProvider
+  );
+}
+
+/**
+ * Check whether calls to a model need an API key (local models do not)
+ */
+export function modelRequiresApiKey(model: string): boolean {
+  return getProviderForModel(model).requiresApiKey;
+}
+
+/**
+ * All models offered in the settings, grouped by provider
+ */
+export function getRegisteredModels(): LLMModelOption[] {
+  return LLM_PROVIDERS.flatMap((provider) => provider.models);
+}
@@ -0,0 +1,207 @@
+/**
+ * OpenAI chat completions adapter
+ * Also used for OpenAI-compatible local servers (Ollama, llama.cpp, LM Studio).
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  failedResponseResult,
+  keyValidationFromModelList,
+  parseEventData,
+  readServerSentEvents,
+  requestErrorResult,
+  textResult,
+} from "./http";
+import {
+  LLMCompletionRequest,
+  LLMModelOption,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderId,
+} from "./types";
+
+interface OpenAICompatibleOptions {
+  id: LLMProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  models: LLMModelOption[];
+  matchesModel: (model: string) => boolean;
+  /** Model name sent to the API for a settings model value */
+  toApiModel?: (model: string) => string;
+  /** Settings model value for a model name returned by the API */
+  fromApiModel?: (model: string) => string;
+  /** Whether the server accepts max_completion_tokens (older servers only know max_tokens) */
+  useMaxCompletionTokens: boolean;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+/**
+ * Create a provider for an API that speaks the OpenAI chat completions format
+ * @param options - Provider identity, defaults and model name mapping
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const toApiModel = options.toApiModel ?? ((model: string) => model);
+  const fromApiModel = options.fromApiModel ?? ((model: string) => model);
+
+  const getBaseUrl = (config: LLMProviderConfig) =>
+    (config.baseUrl || options.defaultBaseUrl).replace(/\/+$/, "");
+
+  const getHeaders = (config: LLMProviderConfig): Record<string, string> => ({
+    "Content-Type": "application/json",
+    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+  });
+
+  const buildBody = (request: LLMCompletionRequest, stream: boolean) => {
+    const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+    return {
+      model: toApiModel(request.model),
+      messages: [
+        ...(request.systemPrompt ? [{ role: "system", content: request.systemPrompt }] : []),
+        { role: "user", content: request.userPrompt },
+      ],
+      ...(options.useMaxCompletionTokens
+        ? { max_completion_tokens: maxTokens }
+        : { max_tokens: maxTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(stream && { stream: true }),
+    };
+  };
+
+  const listModels: LLMProvider["listModels"] = async (config) => {
+    try {
+      const response = await fetch(`${getBaseUrl(config)}/models`, {
+        headers: getHeaders(config),
+      });
+      if (!response.ok) {
+        const failed = await failedResponseResult(options.label, response);
+        return { success: false, error: failed.error };
+      }
+      const data: ModelListResponse = await response.json();
+      return {
+        success: true,
+        models: (data.data ?? []).map((model) => ({
+          value: fromApiModel(model.id),
+          label: `${model.id} (${options.label})`,
+        })),
+      };
+    } catch (error) {
+      return { success: false, error: requestErrorResult(error).error };
+    }
+  };
+
+  return {
+    id: options.id,
+    label: options.label,
+    defaultBaseUrl: options.defaultBaseUrl,
+    requiresApiKey: options.requiresApiKey,
+    models: options.models,
+    matchesModel: options.matchesModel,
+
+    async complete(request, config) {
+      try {
+        const response = await fetch(`${getBaseUrl(config)}/chat/completions`, {
+          method: "POST",
+          headers: getHeaders(config),
+          body: JSON.stringify(buildBody(request, false)),
+          signal: request.signal,
+        });
+        if (!response.ok) {
+          return failedResponseResult(options.label, response);
+        }
+        const data: ChatCompletionResponse = await response.json();
+        return textResult(data.choices?.[0]?.message?.content);
+      } catch (error) {
+        return requestErrorResult(error);
+      }
+    },
+
+    async stream(request, config, onDelta) {
+      try {
+        const response = await fetch(`${getBaseUrl(config)}/chat/completions`, {
+          method: "POST",
+          headers: getHeaders(config),
+          body: JSON.stringify(buildBody(request, true)),
+          signal: request.signal,
+        });
+        if (!response.ok) {
+          return failedResponseResult(options.label, response);
+        }
+        let text = "";
+        await readServerSentEvents(response, (data) => {
+          if (data === "[DONE]") return;
+          const delta = parseEventData<ChatCompletionChunk>(data)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        });
+        return textResult(text);
+      } catch (error) {
+        return requestErrorResult(error);
+      }
+    },
+
+    listModels,
+
+    async validateKey(config) {
+      return keyValidationFromModelList(await listModels(config));
+    },
+  };
+}
+
+/**
+ * OpenAI (api.openai.com)
+ */
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  label: "OpenAI",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  requiresApiKey: true,
+  models: [
+    { value: "gpt-4-turbo", label: "GPT-4 Turbo (OpenAI)" },
+    { value: "gpt-5-nano", label: "GPT-5 Nano (OpenAI)" },
+    { value: "gpt-5-mini", label: "GPT-5 Mini (OpenAI)" },
+    { value: "gpt-4o", label: "GPT-4o (OpenAI)" },
+    { value: "gpt-4", label: "GPT-4 (OpenAI)" },
+    { value: "gpt-3.5-turbo", label: "GPT-3.5 Turbo (OpenAI)" },
+  ],
+  // OpenAI is the fallback for any model no other provider claims
+  matchesModel: () => true,
+  useMaxCompletionTokens: true,
+});
+
+/**
+ * Prefix marking models served by a local OpenAI-compatible endpoint
+ */
+export const LOCAL_MODEL_PREFIX = "local:";
+
+/**
+ * Local OpenAI-compatible endpoint (Ollama, llama.cpp server, LM Studio)
+ * Model values are the server's model names prefixed with "local:".
+ */
+export const localProvider = createOpenAICompatibleProvider({
+  id: "local",
+  label: "Local",
+  defaultBaseUrl: process.env.NEXT_PUBLIC_LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+  requiresApiKey: false,
+  models: [
+    { value: `${LOCAL_MODEL_PREFIX}llama3.1`, label: "Llama 3.1 (Local)" },
+    { value: `${LOCAL_MODEL_PREFIX}qwen2.5`, label: "Qwen 2.5 (Local)" },
+  ],
+  matchesModel: (model) => model.startsWith(LOCAL_MODEL_PREFIX),
+  toApiModel: (model) => model.slice(LOCAL_MODEL_PREFIX.length),
+  fromApiModel: (model) => `${LOCAL_MODEL_PREFIX}${model}`,
+  useMaxCompletionTokens: false,
+});
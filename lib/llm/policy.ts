@@ -0,0 +1,194 @@
+/**
+ * Timeout, retry and cancellation policy for model calls
+ * Transport failures (rate limits, 5xx, network errors, timeouts) are retried
+ * with exponential backoff that respects the provider's Retry-After header.
+ */
+
+import { LLMCompletionResult, LLMErrorCode } from "./types";
+
+export interface ModelCallPolicy {
+  timeoutMs: number; // Time without any response data before an attempt is aborted
+  maxRetries: number; // Extra attempts after a transport failure
+  initialDelayMs: number; // Backoff before the first retry (doubles on each retry)
+  maxDelayMs: number; // Longest wait between attempts; a longer Retry-After fails the call
+}
+
+export const DEFAULT_MODEL_CALL_POLICY: ModelCallPolicy = {
+  timeoutMs: 60000,
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Failures that the policy retries: repeating the same request may succeed
+ */
+const TRANSPORT_ERROR_CODES: LLMErrorCode[] = ["rate_limited", "server_error", "network_error", "timeout"];
+
+/**
+ * Failures where a new model answer may succeed (handled by the chunk retries)
+ */
+const OUTPUT_ERROR_CODES: LLMErrorCode[] = ["invalid_response", "consonant_drift"];
+
+/**
+ * Check whether an error is a transport failure retried by the call policy
+ */
+export function isTransportError(code: LLMErrorCode | undefined): boolean {
+  return !!code && TRANSPORT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Check whether a bad model answer caused the error (retrying asks for a new answer)
+ */
+export function isModelOutputError(code: LLMErrorCode | undefined): boolean {
+  return !!code && OUTPUT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Check whether trying the same request again later may succeed
+ * Cancelled, invalid and unauthorized requests fail the same way every time.
+ */
+export function isRetryableError(code: LLMErrorCode | undefined): boolean {
+  return isTransportError(code) || isModelOutputError(code);
+}
+
+/**
+ * Read the policy overrides from the environment (server-side)
+ * MODEL_TIMEOUT_MS and MODEL_MAX_RETRIES; invalid values are ignored.
+ */
+export function getModelCallPolicyFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Partial<ModelCallPolicy> {
+  const policy: Partial<ModelCallPolicy> = {};
+  const timeoutMs = Number(env.MODEL_TIMEOUT_MS);
+  const maxRetries = Number(env.MODEL_MAX_RETRIES);
+  if (env.MODEL_TIMEOUT_MS && Number.isFinite(timeoutMs) && timeoutMs > 0) {
+    policy.timeoutMs = timeoutMs;
+  }
+  if (env.MODEL_MAX_RETRIES && Number.isInteger(maxRetries) && maxRetries >= 0) {
+    policy.maxRetries = maxRetries;
+  }
+  return policy;
+}
+
+/**
+ * Delay before a retry: exponential backoff, or the provider's Retry-After if longer
+ * @param attempt - Retry number, starting at 0
+ * @returns Delay in milliseconds, or null when Retry-After is longer than maxDelayMs
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: ModelCallPolicy,
+  retryAfterMs?: number
+): number | null {
+  if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+    return null;
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** attempt);
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+/**
+ * Wait for a delay, resolving early when the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * One model call made under the policy
+ * @param signal - Aborts on cancellation or timeout; pass it to the provider
+ * @param onActivity - Call whenever response data arrives to restart the timeout
+ */
+export type ModelCallAttempt = (
+  signal: AbortSignal,
+  onActivity: () => void
+) => Promise<LLMCompletionResult>;
+
+export interface ModelCallOptions {
+  policy?: Partial<ModelCallPolicy>;
+  signal?: AbortSignal; // Cancels the call, including a wait between attempts
+  /** Retrying is only safe until output reached the caller (e.g. streamed deltas) */
+  canRetry?: () => boolean;
+}
+
+/**
+ * Make a model call with a timeout per attempt and retries on transport failures
+ * @param attempt - Makes one request to the provider
+ * @param options - Policy overrides, cancellation signal and retry guard
+ * @returns Result of the last attempt; code is "timeout" or "cancelled" when aborted
+ */
+export async function callWithPolicy(
+  attempt: ModelCallAttempt,
+  options: ModelCallOptions = {}
+): Promise<LLMCompletionResult> {
+  const policy = { ...DEFAULT_MODEL_CALL_POLICY, ...options.policy };
+
+  for (let retry = 0; ; retry++) {
+    if (options.signal?.aborted) {
+      return { success: false, code: "cancelled", error: "הבקשה בוטלה" };
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener("abort", abort);
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimeout = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+    };
+
+    restartTimeout();
+    let result: LLMCompletionResult;
+    try {
+      result = await attempt(controller.signal, restartTimeout);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", abort);
+    }
+
+    if (timedOut && !result.success) {
+      console.warn(`[LLM] Model call timed out after ${policy.timeoutMs}ms`);
+      result = { success: false, code: "timeout", error: "המודל לא הגיב בזמן. נסה שוב מאוחר יותר" };
+    }
+
+    if (
+      result.success ||
+      !isTransportError(result.code) ||
+      retry >= policy.maxRetries ||
+      (options.canRetry && !options.canRetry())
+    ) {
+      return result;
+    }
+
+    const delay = getRetryDelay(retry, policy, result.retryAfterMs);
+    if (delay === null) {
+      return result;
+    }
+
+    console.warn(`[LLM] Retrying model call in ${delay}ms`, { code: result.code, status: result.status });
+    await wait(delay, options.signal);
+  }
+}
+
+/**
+ * Error code fields of a failed service response
+ */
+export function errorCodeFields(code: LLMErrorCode): { code: LLMErrorCode; retryable: boolean } {
+  return { code, retryable: isRetryableError(code) };
+}
@@ -0,0 +1,89 @@
+/**
+ * Shared types for language model providers
+ */
+
+export type LLMProviderId = "openai" | "gemini" | "anthropic" | "local";
+
+export interface LLMModelOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Connection settings passed to every provider call
+ */
+export interface LLMProviderConfig {
+  apiKey?: string;
+  baseUrl?: string; // Optional custom API base URL (defaults to the provider's URL)
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a model call failed
+ * Transport failures (rate_limited, server_error, network_error, timeout) are
+ * retried by the call policy; see isRetryableError for what callers may retry.
+ */
+export type LLMErrorCode =
+  | "invalid_request" // Empty text, no model or prompt, or a 4xx from the provider
+  | "missing_api_key"
+  | "auth_error" // 401/403 from the provider
+  | "rate_limited" // 429
+  | "server_error" // 5xx
+  | "network_error" // The provider could not be reached
+  | "timeout"
+  | "cancelled"
+  | "invalid_response" // Empty or unparseable model output
+  | "consonant_drift" // The model changed too many words
+  | "unexpected_error"; // An error thrown while handling the response
+
+export interface LLMCompletionResult {
+  success: boolean;
+  text?: string;
+  error?: string;
+  code?: LLMErrorCode; // Set when success is false
+  status?: number; // HTTP status of a failed request
+  retryAfterMs?: number; // Delay requested by the provider's Retry-After header
+}
+
+export interface LLMModelListResult {
+  success: boolean;
+  models?: LLMModelOption[];
+  error?: string;
+}
+
+export interface LLMKeyValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * A language model backend
+ * Calls never throw: failures are reported in the result, like the services.
+ */
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  /** Models shown in the settings model pickers */
+  models: LLMModelOption[];
+  /** Whether a model value belongs to this provider */
+  matchesModel: (model: string) => boolean;
+  complete: (request: LLMCompletionRequest, config: LLMProviderConfig) => Promise<LLMCompletionResult>;
+  /** Like complete, calling onDelta with each chunk of text as it arrives */
+  stream: (
+    request: LLMCompletionRequest,
+    config: LLMProviderConfig,
+    onDelta: (delta: string) => void
+  ) => Promise<LLMCompletionResult>;
+  listModels: (config: LLMProviderConfig) => Promise<LLMModelListResult>;
+  validateKey: (config: LLMProviderConfig) => Promise<LLMKeyValidationResult>;
+}
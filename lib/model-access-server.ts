@@ -0,0 +1,202 @@
+/**
+ * Access rules for the model routes (Server-side only)
+ * The routes call paid models with the deployment's API keys, so:
+ * - The env keys are only used for signed-in users; others need their own key
+ * - Callers who are not signed in may only use the configured (or admin default)
+ *   model and prompts
+ * - Model calls are rate limited per signed-in user, or per IP address and
+ *   anonymous user cookie
+ * This file should only be imported in API routes or other server code
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getAppDefaultsForSettings } from "./admin-defaults-server";
+import { errorCodeFields } from "./llm";
+import type { ModelTask } from "./model-keys-server";
+import { AppSettings, getSettings } from "./settings";
+import { getUserIdFromRequest } from "./user";
+
+/**
+ * Model calls allowed per hour (env: MODEL_RATE_LIMIT_PER_HOUR, MODEL_RATE_LIMIT_ANONYMOUS_PER_HOUR)
+ */
+export const DEFAULT_MODEL_RATE_LIMIT = 100;
+export const DEFAULT_ANONYMOUS_MODEL_RATE_LIMIT = 20;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Who is calling a model route
+ */
+export interface ModelCaller {
+  isSignedIn: boolean;
+  /** Signed-in user ("user:<id>"), or IP address ("ip:<address>") and cookie ("cookie:<id>"); each has its own limit */
+  rateLimitKeys: string[];
+}
+
+/**
+ * Calls counted in the current window of each caller
+ */
+const rateLimitWindows = new Map<string, { start: number; count: number }>();
+
+/**
+ * Get the caller's IP address
+ * The address the host reports (request.ip) is used when there is one. Otherwise
+ * the last x-forwarded-for entry is taken: it was added by our proxy, while the
+ * entries before it are whatever the client sent.
+ */
+export function getClientIp(request: { ip?: string; headers: Headers }): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return request.ip || forwarded || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Identify the caller of a model route by the Supabase session
+ * Without Supabase configuration every caller is anonymous.
+ */
+export async function getModelCaller(request: NextRequest): Promise<ModelCaller> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (user) {
+      return { isSignedIn: true, rateLimitKeys: [`user:${user.id}`] };
+    }
+  } catch {
+    // No Supabase configuration or session - anonymous
+  }
+  // The cookie can be dropped, so it only adds a limit to the one of the IP address
+  const anonymousId = getUserIdFromRequest(request.headers.get("cookie") || "");
+  return {
+    isSignedIn: false,
+    rateLimitKeys: [`ip:${getClientIp(request)}`, ...(anonymousId ? [`cookie:${anonymousId}`] : [])],
+  };
+}
+
+/**
+ * Check whether a request uses the configured model and prompts of a task
+ * An empty prompt is allowed: the service then uses its built-in prompt.
+ * @param prompts - Niqqud: [systemPrompt, userPrompt]; syllables: [prompt]
+ * @param settings - Configured settings (see getConfiguredModelSettings)
+ */
+export function isConfiguredModelRequest(
+  task: ModelTask,
+  model: string,
+  prompts: Array<string | undefined>,
+  settings: Partial<AppSettings>
+): boolean {
+  const allowedPrompts =
+    task === "niqqud"
+      ? [
+          [settings.niqqudSystemPrompt, settings.niqqudUserPrompt],
+          [settings.niqqudCompletionSystemPrompt, settings.niqqudCompletionUserPrompt],
+        ]
+      : [[settings.syllablesPrompt]];
+  const configuredModel = task === "niqqud" ? settings.niqqudModel : settings.syllablesModel;
+
+  return (
+    model === configuredModel &&
+    allowedPrompts.some((allowed) =>
+      prompts.every((prompt, idx) => !prompt?.trim() || prompt.trim() === allowed[idx]?.trim())
+    )
+  );
+}
+
+/**
+ * Get the settings anonymous callers may use: the admin defaults over the built-in defaults
+ */
+export async function getConfiguredModelSettings(): Promise<Partial<AppSettings>> {
+  return { ...getSettings(), ...(await getAppDefaultsForSettings()) };
+}
+
+/**
+ * Count model calls against the hourly limit of each of the caller's keys
+ * The calls are only counted when they fit in every key's limit. More calls than
+ * the limit are counted as the whole limit, so such a request can still be made.
+ * @param calls - Model calls the request makes (one per chunk of a long text)
+ * @returns null when the calls are allowed, or the time until the windows allow them
+ */
+export function takeRateLimit(
+  keys: string[],
+  limit: number,
+  calls: number = 1,
+  now: number = Date.now()
+): number | null {
+  const cost = Math.min(calls, limit);
+  const windows = keys.map((key) => {
+    let current = rateLimitWindows.get(key);
+    if (!current || now - current.start >= RATE_LIMIT_WINDOW_MS) {
+      current = { start: now, count: 0 };
+      rateLimitWindows.set(key, current);
+    }
+    return current;
+  });
+  const full = windows.filter((current) => current.count + cost > limit);
+  if (full.length > 0) {
+    return Math.max(...full.map((current) => current.start + RATE_LIMIT_WINDOW_MS - now));
+  }
+  windows.forEach((current) => {
+    current.count += cost;
+  });
+  return null;
+}
+
+/**
+ * Forget all counted calls (used by tests)
+ */
+export function resetRateLimits(): void {
+  rateLimitWindows.clear();
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+/**
+ * Refuse model requests that callers who are not signed in may not make
+ * @returns A 403 response, or null when the request is allowed
+ */
+export async function checkModelRequestAllowed(
+  caller: ModelCaller,
+  task: ModelTask,
+  model: string,
+  prompts: Array<string | undefined>
+): Promise<NextResponse | null> {
+  if (caller.isSignedIn || isConfiguredModelRequest(task, model, prompts, await getConfiguredModelSettings())) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      success: false,
+      error: "יש להתחבר כדי להשתמש במודל או בפרומפט שאינם בהגדרות ברירת המחדל",
+      ...errorCodeFields("invalid_request"),
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Count a request's model calls against the caller's rate limit
+ * @param calls - Model calls the request makes: one per chunk (see splitTextIntoChunks)
+ * @returns A 429 response, or null when the calls are allowed
+ */
+export function checkModelRateLimit(caller: ModelCaller, calls: number = 1): NextResponse | null {
+  const limit = caller.isSignedIn
+    ? readLimit("MODEL_RATE_LIMIT_PER_HOUR", DEFAULT_MODEL_RATE_LIMIT)
+    : readLimit("MODEL_RATE_LIMIT_ANONYMOUS_PER_HOUR", DEFAULT_ANONYMOUS_MODEL_RATE_LIMIT);
+  const retryAfterMs = takeRateLimit(caller.rateLimitKeys, limit, calls);
+  if (retryAfterMs === null) {
+    return null;
+  }
+  const minutes = Math.ceil(retryAfterMs / 60000);
+  return NextResponse.json(
+    {
+      success: false,
+      error: `נשלחו יותר מדי בקשות למודל. נסה שוב בעוד ${minutes} דקות`,
+      ...errorCodeFields("rate_limited"),
+    },
+    { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * API key resolution for model calls (Server-side only)
+ * Keys never reach the browser: the model routes look them up here.
+ * This file should only be imported in API routes or other server code
+ */
+
+import { getUserApiKeys } from "./db";
+import { getProviderForModel, LLMProviderId } from "./llm";
+
+export type ModelTask = "niqqud" | "syllables";
+
+/**
+ * Environment variables holding a key per task
+ * NEXT_PUBLIC_* names are still read for deployments configured before the proxy routes.
+ */
+const TASK_ENV_KEYS: Record<ModelTask, string[]> = {
+  niqqud: ["NIQQUD_API_KEY", "NEXT_PUBLIC_NIQQUD_API_KEY"],
+  syllables: ["SYLLABLES_API_KEY", "NEXT_PUBLIC_SYLLABLES_API_KEY"],
+};
+
+/**
+ * Environment variables holding a key per provider (shared by both tasks)
+ */
+const PROVIDER_ENV_KEYS: Record<LLMProviderId, string[]> = {
+  openai: ["OPENAI_API_KEY"],
+  gemini: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  local: ["LOCAL_LLM_API_KEY"],
+};
+
+function readEnv(names: string[]): string {
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return "";
+}
+
+/**
+ * Get the API key to use for a model call
+ * Order: the user's own stored key, the task key from env, the provider key from env.
+ * The env keys are paid for by the deployment, so they are only used for signed-in users.
+ * @param task - Which feature is calling the model
+ * @param model - Selected model (picks the provider key)
+ * @param userId - User ID from the user_id cookie, if any
+ * @param useEnvKeys - Whether the caller may use the env keys (signed in)
+ * @returns API key, or empty string if none is configured
+ */
+export function resolveApiKey(task: ModelTask, model: string, userId: string | null, useEnvKeys: boolean): string {
+  if (userId) {
+    const userKeys = getUserApiKeys(userId);
+    const userKey = task === "niqqud" ? userKeys?.niqqudApiKey : userKeys?.syllablesApiKey;
+    if (userKey) {
+      return userKey;
+    }
+  }
+
+  if (!useEnvKeys) {
+    return "";
+  }
+  return readEnv(TASK_ENV_KEYS[task]) || readEnv(PROVIDER_ENV_KEYS[getProviderForModel(model).id]);
+}
+
+/**
+ * Check whether a model call for the task can run without asking the user for a key
+ */
+export function hasApiKey(task: ModelTask, model: string, userId: string | null, useEnvKeys: boolean): boolean {
+  return !getProviderForModel(model).requiresApiKey || resolveApiKey(task, model, userId, useEnvKeys) !== "";
+}
@@ -0,0 +1,139 @@
+/**
+ * Client for the server-side model routes (/api/niqqud, /api/syllables)
+ * The browser sends the text, model and prompts; API keys stay on the server.
+ */
+
+import type { NiqqudServiceResponse } from "@/services/niqqud-service";
+import type { SyllablesServiceResponse } from "@/services/syllables-service";
+import { migrateLocalApiKeysToServer } from "./settings";
+import { readModelStream, ModelProgressCallback } from "./model-stream";
+import { errorCodeFields, LLMErrorCode } from "./llm";
+
+/**
+ * Longest text accepted by the model routes
+ */
+export const MAX_MODEL_TEXT_LENGTH = 20000;
+
+export interface NiqqudRequest {
+  model: string;
+  temperature?: number;
+  systemPrompt?: string;
+  userPrompt?: string;
+}
+
+export interface SyllablesRequest {
+  model: string;
+  prompt: string;
+  temperature?: number;
+}
+
+export interface ModelProxyOptions {
+  /** Streams the model output: called with each chunk of text as it arrives */
+  onDelta?: (delta: string) => void;
+  /** Replaces all text streamed so far (a streamed part of a long text was repaired or retried) */
+  onReplace?: (text: string) => void;
+  /** Long texts are processed in chunks: called with the number of finished chunks */
+  onProgress?: ModelProgressCallback;
+  /** Aborts the request (and the model call on the server) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress of a long text processed in chunks
+ */
+export interface ModelProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ModelProxyResult {
+  /** No API key is configured for the user or on the server */
+  missingApiKey?: boolean;
+}
+
+/**
+ * POST a request to a model route and read the service response
+ */
+async function postToModelRoute<
+  T extends { success: boolean; error?: string; code?: LLMErrorCode; retryable?: boolean }
+>(
+  url: string,
+  body: Record<string, unknown>,
+  options: ModelProxyOptions
+): Promise<T & ModelProxyResult> {
+  // Keys saved in localStorage by older versions are moved to the server first
+  await migrateLocalApiKeysToServer();
+
+  const stream = !!(options.onDelta || options.onProgress);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify({ ...body, ...(stream && { stream: true }) }),
+      signal: options.signal,
+    });
+
+    // Errors before the model call (bad request, missing key) are always plain JSON
+    const isStream = response.ok && stream && !!response.body;
+    const result = (
+      isStream
+        ? await readModelStream<T>(response, options.onDelta ?? (() => {}), options.onProgress, options.onReplace)
+        : await response.json().catch(() => null)
+    ) as T | null;
+
+    if (!result) {
+      return {
+        success: false,
+        ...errorCodeFields("server_error"),
+        error: `שגיאת שרת: ${response.status} ${response.statusText}`,
+      } as T & ModelProxyResult;
+    }
+
+    return {
+      ...result,
+      ...(result.code === "missing_api_key" && { missingApiKey: true }),
+    };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { success: false, ...errorCodeFields("cancelled"), error: "הבקשה בוטלה" } as T & ModelProxyResult;
+    }
+    console.error(`[ModelProxy] Request to ${url} failed`, error);
+    return {
+      success: false,
+      ...errorCodeFields("network_error"),
+      error: "לא ניתן להתחבר לשרת. בדוק את החיבור ונסה שוב",
+    } as T & ModelProxyResult;
+  }
+}
+
+/**
+ * Add niqqud to text through the server
+ * @param text - Hebrew text
+ * @param request - Model and prompts from the settings
+ * @param options - Streaming and progress callbacks and abort signal
+ */
+export function requestNiqqud(
+  text: string,
+  request: NiqqudRequest,
+  options: ModelProxyOptions = {}
+): Promise<NiqqudServiceResponse & ModelProxyResult> {
+  return postToModelRoute<NiqqudServiceResponse>("/api/niqqud", { text, ...request }, options);
+}
+
+/**
+ * Divide text into syllables through the server
+ * @param text - Hebrew text
+ * @param request - Model and prompt from the settings
+ * @param options - Streaming and progress callbacks and abort signal
+ */
+export function requestSyllables(
+  text: string,
+  request: SyllablesRequest,
+  options: ModelProxyOptions = {}
+): Promise<SyllablesServiceResponse & ModelProxyResult> {
+  return postToModelRoute<SyllablesServiceResponse>("/api/syllables", { text, ...request }, options);
+}
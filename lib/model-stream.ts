@@ -0,0 +1,125 @@
+/**
+ * Streaming format shared by the model routes and their client
+ * A streamed response is newline-delimited JSON: any number of "delta" events
+ * with text as the model produces it, "replace" events when text already sent
+ * changed and "progress" events for texts sent in chunks, then one "result"
+ * event with the final service response.
+ */
+
+import { errorCodeFields } from "./llm";
+
+export type ModelStreamEvent<T> =
+  | { type: "delta"; text: string }
+  | { type: "replace"; text: string } // All text streamed so far, replacing the deltas before it
+  | { type: "progress"; completed: number; total: number }
+  | { type: "result"; result: T };
+
+export type ModelProgressCallback = (completed: number, total: number) => void;
+
+export const MODEL_STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+/**
+ * Create a streamed route response (server-side)
+ * @param run - Runs the service, calling onDelta for each chunk of text,
+ *   onProgress for each finished text chunk and onReplace when text already
+ *   streamed changed; resolves with the final result
+ */
+export function createModelStreamResponse<T>(
+  run: (
+    onDelta: (delta: string) => void,
+    onProgress: ModelProgressCallback,
+    onReplace: (text: string) => void
+  ) => Promise<T>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ModelStreamEvent<T>) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const result = await run(
+          (text) => send({ type: "delta", text }),
+          (completed, total) => send({ type: "progress", completed, total }),
+          (text) => send({ type: "replace", text })
+        );
+        send({ type: "result", result });
+      } catch (error) {
+        console.error("[ModelStream] Streamed request failed", error);
+        send({
+          type: "result",
+          result: {
+            success: false,
+            ...errorCodeFields("unexpected_error"),
+            error: "שגיאה לא צפויה בעת קריאה למודל",
+          } as T,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": MODEL_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+/**
+ * Read a streamed route response (client-side)
+ * @param response - Response from a model route called with stream: true
+ * @param onDelta - Called with each chunk of model text
+ * @param onProgress - Called with the progress of texts sent in chunks
+ * @param onReplace - Called with all text so far when text already streamed changed
+ * @returns Final service response, or null if the stream ended without one
+ */
+export async function readModelStream<T>(
+  response: Response,
+  onDelta: (delta: string) => void,
+  onProgress?: ModelProgressCallback,
+  onReplace?: (text: string) => void
+): Promise<T | null> {
+  if (!response.body) {
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: T | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      const event = JSON.parse(line) as ModelStreamEvent<T>;
+      if (event.type === "delta") {
+        onDelta(event.text);
+      } else if (event.type === "replace") {
+        onReplace?.(event.text);
+      } else if (event.type === "progress") {
+        onProgress?.(event.completed, event.total);
+      } else if (event.type === "result") {
+        result = event.result;
+      }
+    } catch {
+      console.warn("[ModelStream] Ignoring malformed stream line");
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer + decoder.decode());
+  return result;
+}
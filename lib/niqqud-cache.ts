@@ -0,0 +1,119 @@
+/**
+ * Persistent niqqud cache (browser)
+ * Keeps the fully vocalized version of every text the model (or the user's
+ * review) produced, keyed by the hash of the text without niqqud, so the same
+ * text is found again whether it is entered with partial niqqud or none.
+ * Entries are stored in IndexedDB (lib/browser-cache-store.ts) with LRU eviction.
+ */
+
+import { removeNiqqud } from "./niqqud";
+import { createTextHash } from "./syllables";
+import {
+  BrowserCacheStore,
+  CacheLimits,
+  CacheRecord,
+  DEFAULT_CACHE_LIMITS,
+  estimateRecordSize,
+  getCacheRecord,
+  openBrowserCacheStore,
+  putCacheRecord,
+} from "./browser-cache-store";
+
+export interface NiqqudCacheEntry extends CacheRecord {
+  niqqudText: string; // Fully vocalized text (`text` is the trimmed text without niqqud)
+}
+
+export interface NiqqudCacheSaveOptions {
+  limits?: CacheLimits; // Entry and size limits (least recently used entries are evicted)
+  updatedAt?: number; // When the result was produced (default: now; kept when syncing)
+}
+
+let storePromise: Promise<BrowserCacheStore<NiqqudCacheEntry>> | null = null;
+
+function getStore(): Promise<BrowserCacheStore<NiqqudCacheEntry>> {
+  storePromise ??= openBrowserCacheStore<NiqqudCacheEntry>("niqqud");
+  return storePromise;
+}
+
+/**
+ * Text an entry is stored under: trimmed and without niqqud
+ */
+export function getNiqqudCacheText(text: string): string {
+  return removeNiqqud(text).trim();
+}
+
+/**
+ * Save the fully vocalized version of a text
+ * @param text - Text as entered (any niqqud)
+ * @param niqqudText - Fully vocalized text
+ */
+export async function saveNiqqudToCache(
+  text: string,
+  niqqudText: string,
+  options: NiqqudCacheSaveOptions = {}
+): Promise<void> {
+  try {
+    const cacheText = getNiqqudCacheText(text);
+    if (!cacheText) {
+      return;
+    }
+    const now = Date.now();
+    await putCacheRecord(
+      await getStore(),
+      {
+        key: await createTextHash(cacheText),
+        text: cacheText,
+        niqqudText,
+        size: estimateRecordSize(cacheText, niqqudText),
+        createdAt: now,
+        updatedAt: options.updatedAt ?? now,
+        lastAccessed: now,
+      },
+      options.limits ?? DEFAULT_CACHE_LIMITS
+    );
+  } catch (error) {
+    console.error("[NiqqudCache] Failed to save to cache:", error);
+  }
+}
+
+/**
+ * Load the fully vocalized version of a text
+ * @returns Vocalized text, or null when the text is not cached
+ */
+export async function loadNiqqudFromCache(text: string): Promise<string | null> {
+  try {
+    const cacheText = getNiqqudCacheText(text);
+    if (!cacheText) {
+      return null;
+    }
+    // Different texts may share a hash: only the stored text's entry matches
+    const entry = await getCacheRecord(await getStore(), await createTextHash(cacheText), cacheText);
+    return entry?.niqqudText ?? null;
+  } catch (error) {
+    console.error("[NiqqudCache] Failed to load from cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Get all cached entries (used to sync the cache with the user's account)
+ */
+export async function getAllNiqqudCacheEntries(): Promise<NiqqudCacheEntry[]> {
+  try {
+    return await (await getStore()).getAll();
+  } catch (error) {
+    console.error("[NiqqudCache] Failed to read cache entries:", error);
+    return [];
+  }
+}
+
+/**
+ * Clear all cached niqqud results
+ */
+export async function clearAllNiqqudCache(): Promise<void> {
+  try {
+    await (await getStore()).clear();
+  } catch (error) {
+    console.error("[NiqqudCache] Failed to clear cache:", error);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Word-level diff between original text and its vocalized version
+ *
+ * Used by the review view on the home page: every word of the original text is
+ * paired with the word the model returned, classified by what changed, and the
+ * user can accept or reject each word before the result becomes the `full`
+ * version in the niqqud cache.
+ */
+
+import { hasNiqqud } from "./niqqud";
+import { alignWords, ConsonantMismatch } from "./consonant-guard";
+
+/**
+ * What the model did to a word
+ * - unchanged: identical text
+ * - niqqudAdded: the original word had no niqqud, the model added it
+ * - niqqudChanged: the original word had niqqud and the model changed it
+ * - consonantsChanged: the model replaced the word with different letters
+ * - wordRemoved: the model dropped the word
+ * - wordAdded: the model added a word that is not in the original
+ */
+export type NiqqudWordChange =
+  | "unchanged"
+  | "niqqudAdded"
+  | "niqqudChanged"
+  | "consonantsChanged"
+  | "wordRemoved"
+  | "wordAdded";
+
+/**
+ * One aligned word pair in the diff
+ */
+export interface NiqqudWordDiff {
+  /** Position in the diff list (stable key for accept/reject decisions) */
+  index: number;
+  /** Index of the word in the original text (null for words the model added) */
+  sourceIndex: number | null;
+  /** Original word (null for words the model added) */
+  original: string | null;
+  /** Word returned by the model (null for words the model dropped) */
+  vocalized: string | null;
+  change: NiqqudWordChange;
+  /** The consonant guard kept the original word instead of the model's (see diffNiqqudWords) */
+  restored?: boolean;
+}
+
+/**
+ * Split text into words, ignoring whitespace
+ */
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.length > 0);
+}
+
+/**
+ * Build a word-level diff between the original and the vocalized text
+ * Words are aligned on their consonant skeleton, so a word whose only change is
+ * niqqud is paired with its original, and a word with changed letters is reported
+ * as consonantsChanged.
+ *
+ * The server's consonant guard already put back the original of every word the
+ * model changed or dropped, so those words only show up through `mismatches`:
+ * they are reported with the model's version and marked `restored`.
+ *
+ * @param original - Text as the user entered it (may have partial niqqud)
+ * @param vocalized - Text returned by the model
+ * @param mismatches - Words the consonant guard restored (indices refer to `original`)
+ * @returns Diff entries in reading order
+ */
+export function diffNiqqudWords(
+  original: string,
+  vocalized: string,
+  mismatches: ConsonantMismatch[] = []
+): NiqqudWordDiff[] {
+  const originalWords = splitWords(original);
+  const vocalizedWords = splitWords(vocalized);
+
+  return alignWords(originalWords, vocalizedWords).map((step, index) => {
+    const originalWord = step.sourceIndex !== null ? originalWords[step.sourceIndex] : null;
+    const vocalizedWord = step.targetIndex !== null ? vocalizedWords[step.targetIndex] : null;
+
+    const mismatch =
+      step.type === "match"
+        ? mismatches.find(
+            (candidate) =>
+              candidate.type !== "insert" &&
+              candidate.wordIndex === step.sourceIndex &&
+              candidate.original === originalWord
+          )
+        : undefined;
+    if (mismatch) {
+      return {
+        index,
+        sourceIndex: step.sourceIndex,
+        original: originalWord,
+        vocalized: mismatch.returned,
+        change: mismatch.type === "substitute" ? "consonantsChanged" : "wordRemoved",
+        restored: true,
+      };
+    }
+
+    let change: NiqqudWordChange;
+    if (step.type === "substitute") {
+      change = "consonantsChanged";
+    } else if (step.type === "delete") {
+      change = "wordRemoved";
+    } else if (step.type === "insert") {
+      change = "wordAdded";
+    } else if (originalWord === vocalizedWord) {
+      change = "unchanged";
+    } else if (originalWord !== null && hasNiqqud(originalWord)) {
+      change = "niqqudChanged";
+    } else {
+      change = "niqqudAdded";
+    }
+
+    return {
+      index,
+      sourceIndex: step.sourceIndex,
+      original: originalWord,
+      vocalized: vocalizedWord,
+      change,
+    };
+  });
+}
+
+/**
+ * Build the final text from the diff and the user's decisions
+ * The original text's whitespace and line breaks are kept. For each word:
+ * - accepted: the model's word is used (a dropped word stays dropped)
+ * - rejected: the original word is used (an added word is left out)
+ *
+ * @param original - Text the diff was built from
+ * @param diffs - Result of diffNiqqudWords(original, vocalized)
+ * @param rejected - Diff indices the user rejected
+ * @returns Text to store as the full niqqud version
+ */
+export function applyNiqqudDiffDecisions(
+  original: string,
+  diffs: NiqqudWordDiff[],
+  rejected: ReadonlySet<number>
+): string {
+  const originalWords = splitWords(original);
+  // Each original word slot collects the text that replaces it
+  const slots = originalWords.slice();
+  // Words added before the first original word
+  let leading = "";
+
+  let lastSourceIndex: number | null = null;
+  for (const diff of diffs) {
+    const isRejected = rejected.has(diff.index);
+
+    if (diff.sourceIndex === null) {
+      if (isRejected || !diff.vocalized) continue;
+      if (lastSourceIndex === null) {
+        leading += `${diff.vocalized} `;
+      } else {
+        slots[lastSourceIndex] = slots[lastSourceIndex]
+          ? `${slots[lastSourceIndex]} ${diff.vocalized}`
+          : diff.vocalized;
+      }
+      continue;
+    }
+
+    lastSourceIndex = diff.sourceIndex;
+    slots[diff.sourceIndex] = isRejected ? originalWords[diff.sourceIndex] : diff.vocalized ?? "";
+  }
+
+  // Odd indices are whitespace runs, even indices are words (possibly empty)
+  let wordCursor = 0;
+  const text = original
+    .split(/(\s+)/)
+    .map((token, idx) => {
+      if (idx % 2 === 1 || token.length === 0) {
+        return token;
+      }
+      return slots[wordCursor++];
+    })
+    .join("");
+
+  return leading + text;
+}
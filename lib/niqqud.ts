@@ -3,10 +3,36 @@
  * 
  * Niqqud marks are Hebrew diacritical marks used to indicate vowels.
  * Unicode range: U+0591 to U+05C7
+ * 
+ * Not everything in that range is a combining mark. The block also contains
+ * punctuation characters (maqaf, paseq, sof pasuq, nun hafukha) that are part
+ * of the text itself and must survive niqqud removal. Each code point is
+ * therefore classified into a HebrewMarkType, and the strip helpers work on
+ * those categories instead of on the raw range.
  */
 
 export type NiqqudStatus = "none" | "partial" | "full";
 
+/**
+ * Category of a character in the Hebrew points/marks block
+ * - vowel: vowel points (sheva, hataf vowels, hiriq ... qubuts, qamats qatan)
+ * - dagesh: dagesh / mappiq / shuruk dot (U+05BC)
+ * - shinDot / sinDot: the dot distinguishing ש from שׂ
+ * - cantillation: te'amim (accents) and editorial upper/lower dots
+ * - meteg: meteg / silluq (U+05BD)
+ * - rafe: rafe stroke (U+05BF)
+ * - punctuation: maqaf, paseq, sof pasuq, nun hafukha (not combining marks)
+ */
+export type HebrewMarkType =
+  | "vowel"
+  | "dagesh"
+  | "shinDot"
+  | "sinDot"
+  | "cantillation"
+  | "meteg"
+  | "rafe"
+  | "punctuation";
+
 /**
  * Hebrew niqqud marks Unicode ranges
  */
@@ -14,24 +40,150 @@ const NIQQUD_RANGES = [
   [0x0591, 0x05c7], // Main niqqud range
 ];
 
+/**
+ * Classification of the Hebrew marks block, as [start, end, type] ranges
+ * Ordered by code point; every code point in U+0591-U+05C7 is covered exactly once
+ */
+const HEBREW_MARK_RANGES: Array<[number, number, HebrewMarkType]> = [
+  [0x0591, 0x05af, "cantillation"], // Etnahta ... Masora circle
+  [0x05b0, 0x05bb, "vowel"], // Sheva ... Qubuts
+  [0x05bc, 0x05bc, "dagesh"], // Dagesh / Mappiq / Shuruk
+  [0x05bd, 0x05bd, "meteg"], // Meteg
+  [0x05be, 0x05be, "punctuation"], // Maqaf
+  [0x05bf, 0x05bf, "rafe"], // Rafe
+  [0x05c0, 0x05c0, "punctuation"], // Paseq
+  [0x05c1, 0x05c1, "shinDot"], // Shin dot
+  [0x05c2, 0x05c2, "sinDot"], // Sin dot
+  [0x05c3, 0x05c3, "punctuation"], // Sof pasuq
+  [0x05c4, 0x05c5, "cantillation"], // Upper / lower dot
+  [0x05c6, 0x05c6, "punctuation"], // Nun hafukha
+  [0x05c7, 0x05c7, "vowel"], // Qamats qatan
+];
+
+/**
+ * Every mark type except punctuation - what removeNiqqud strips
+ */
+const ALL_COMBINING_MARK_TYPES: HebrewMarkType[] = [
+  "vowel",
+  "dagesh",
+  "shinDot",
+  "sinDot",
+  "cantillation",
+  "meteg",
+  "rafe",
+];
+
+/**
+ * Classify a character from the Hebrew marks block
+ * @param char - A single character (only the first code unit is inspected)
+ * @returns The mark type, or null if the character is not in U+0591-U+05C7
+ */
+export function getHebrewMarkType(char: string): HebrewMarkType | null {
+  const code = char.charCodeAt(0);
+  if (!NIQQUD_RANGES.some(([start, end]) => code >= start && code <= end)) {
+    return null;
+  }
+  for (const [start, end, type] of HEBREW_MARK_RANGES) {
+    if (code >= start && code <= end) {
+      return type;
+    }
+  }
+  return null;
+}
+
 /**
  * Check if a character is a Hebrew niqqud mark
+ * Any combining mark counts (vowels, dagesh, shin/sin dots, meteg, rafe and
+ * cantillation). Punctuation from the same Unicode block does not.
  */
 export function isNiqqudMark(char: string): boolean {
+  const type = getHebrewMarkType(char);
+  return type !== null && type !== "punctuation";
+}
+
+/**
+ * Check if a character is a Hebrew vowel point (including qamats qatan)
+ */
+export function isVowelMark(char: string): boolean {
+  return getHebrewMarkType(char) === "vowel";
+}
+
+/**
+ * Check if a character is a cantillation mark (ta'am)
+ */
+export function isCantillationMark(char: string): boolean {
+  return getHebrewMarkType(char) === "cantillation";
+}
+
+/**
+ * Check if a character is Hebrew punctuation from the marks block
+ * (maqaf, paseq, sof pasuq, nun hafukha)
+ */
+export function isHebrewPunctuation(char: string): boolean {
+  return getHebrewMarkType(char) === "punctuation";
+}
+
+/**
+ * Check if a character is a Hebrew letter (א-ת, including final forms and the
+ * Yiddish ligatures). Marks and punctuation are not letters.
+ */
+export function isHebrewLetter(char: string): boolean {
   const code = char.charCodeAt(0);
-  return NIQQUD_RANGES.some(([start, end]) => code >= start && code <= end);
+  return (code >= 0x05d0 && code <= 0x05ea) || (code >= 0x05ef && code <= 0x05f2);
 }
 
 /**
- * Remove all niqqud marks from Hebrew text
+ * Remove only the given categories of marks from Hebrew text
+ * Characters of other categories, letters and non-Hebrew text are left untouched.
+ * @param text - Hebrew text
+ * @param types - Mark categories to remove
+ * @returns Text without the selected marks
  */
-export function removeNiqqud(text: string): string {
+export function stripHebrewMarks(text: string, types: HebrewMarkType[]): string {
+  if (types.length === 0) {
+    return text;
+  }
   return text
     .split("")
-    .filter((char) => !isNiqqudMark(char))
+    .filter((char) => {
+      const type = getHebrewMarkType(char);
+      return type === null || !types.includes(type);
+    })
     .join("");
 }
 
+/**
+ * Remove every mark category except the given ones
+ * Useful for e.g. keeping vowels and shin/sin dots while dropping everything else.
+ * Punctuation is never removed by this function.
+ * @param text - Hebrew text
+ * @param types - Mark categories to keep
+ * @returns Text containing only the selected marks
+ */
+export function keepHebrewMarks(text: string, types: HebrewMarkType[]): string {
+  return stripHebrewMarks(
+    text,
+    ALL_COMBINING_MARK_TYPES.filter((type) => !types.includes(type))
+  );
+}
+
+/**
+ * Remove cantillation marks (te'amim) while keeping vowels, dagesh and dots
+ * Biblical texts copied from sources like Sefaria carry te'amim that are noise
+ * for beginning readers.
+ */
+export function removeCantillation(text: string): string {
+  return stripHebrewMarks(text, ["cantillation"]);
+}
+
+/**
+ * Remove all niqqud marks from Hebrew text
+ * Punctuation such as maqaf (־) and sof pasuq (׃) is preserved.
+ */
+export function removeNiqqud(text: string): string {
+  return stripHebrewMarks(text, ALL_COMBINING_MARK_TYPES);
+}
+
 /**
  * Detect niqqud status in Hebrew text
  * @param text - Hebrew text to analyze
@@ -47,7 +199,9 @@ export function detectNiqqud(text: string): NiqqudStatus {
     .split(/\s+/)
     .filter((word) => word.length > 0)
     .map((word) => word.replace(/[^\u0590-\u05FF]/g, "")) // Keep only Hebrew characters
-    .filter((word) => word.length > 0);
+    // Skip tokens made only of marks/punctuation (e.g. a detached sof pasuq "׃")
+    // so they don't count as words without niqqud
+    .filter((word) => word.split("").some(isHebrewLetter));
 
   if (words.length === 0) {
     return "none";
@@ -0,0 +1,271 @@
+/**
+ * Sync of the local niqqud and syllables caches with the user's Supabase account (Client-side only)
+ * Results are stored per user in the processed_texts table, so texts prepared
+ * on one device (a teacher's laptop) are found on another (the classroom computer).
+ * When both sides have a result for the same text, the newer one wins.
+ * Anonymous users keep their results on the device only.
+ */
+
+'use client';
+
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/lib/supabase/database.types";
+import { SyllablesData } from "./syllables";
+import { getAllSyllablesCacheEntries, saveSyllablesToCache } from "./syllables-cache";
+import { getAllNiqqudCacheEntries, saveNiqqudToCache } from "./niqqud-cache";
+
+export type ProcessedTextKind = "niqqud" | "syllables";
+
+/**
+ * A cached result in the form stored in processed_texts
+ */
+export interface ProcessedText {
+  kind: ProcessedTextKind;
+  textHash: string; // Key of the local cache entry
+  text: string;
+  result: Json; // { niqqudText } or { words: [{ word, syllables }] }
+  updatedAt: number; // When the result was produced (ms)
+}
+
+export interface ProcessedTextsSyncResult {
+  downloaded: number;
+  uploaded: number;
+}
+
+interface ProcessedTextRow {
+  kind: ProcessedTextKind;
+  text_hash: string;
+  text: string;
+  result: Json;
+  updated_at: string;
+}
+
+/**
+ * Rows requested per page when downloading and per upsert when uploading
+ */
+const SYNC_PAGE_SIZE = 500;
+
+/**
+ * localStorage key of the time the user's results were last uploaded from this device
+ */
+const LAST_UPLOAD_KEY_PREFIX = "processed_texts_last_upload_";
+
+function getIdentity(item: Pick<ProcessedText, "kind" | "textHash">): string {
+  return `${item.kind}:${item.textHash}`;
+}
+
+/**
+ * Decide what to download and upload
+ * Results present on one side only are copied to the other; for results on both
+ * sides the newer one replaces the older.
+ */
+export function planProcessedTextsSync(
+  local: ProcessedText[],
+  remote: ProcessedText[]
+): { download: ProcessedText[]; upload: ProcessedText[] } {
+  const localByIdentity = new Map(local.map((item) => [getIdentity(item), item]));
+  const remoteByIdentity = new Map(remote.map((item) => [getIdentity(item), item]));
+
+  const download = remote.filter((item) => {
+    const localItem = localByIdentity.get(getIdentity(item));
+    return !localItem || item.updatedAt > localItem.updatedAt;
+  });
+  const upload = local.filter((item) => {
+    const remoteItem = remoteByIdentity.get(getIdentity(item));
+    return !remoteItem || item.updatedAt > remoteItem.updatedAt;
+  });
+
+  return { download, upload };
+}
+
+/**
+ * Collect the local cache entries of both kinds
+ */
+async function getLocalProcessedTexts(): Promise<ProcessedText[]> {
+  const [syllablesEntries, niqqudEntries] = await Promise.all([
+    getAllSyllablesCacheEntries(),
+    getAllNiqqudCacheEntries(),
+  ]);
+
+  return [
+    ...syllablesEntries.map((entry) => ({
+      kind: "syllables" as const,
+      textHash: entry.key,
+      text: entry.text,
+      // Offsets are recomputed from the text when downloaded
+      result: { words: entry.data.words.map(({ word, syllables }) => ({ word, syllables })) },
+      updatedAt: entry.updatedAt ?? entry.createdAt,
+    })),
+    ...niqqudEntries.map((entry) => ({
+      kind: "niqqud" as const,
+      textHash: entry.key,
+      text: entry.text,
+      result: { niqqudText: entry.niqqudText },
+      updatedAt: entry.updatedAt ?? entry.createdAt,
+    })),
+  ];
+}
+
+/**
+ * Write a downloaded result into the local cache, keeping its timestamp
+ */
+async function saveLocalProcessedText(item: ProcessedText): Promise<void> {
+  const result = item.result as { niqqudText?: string; words?: SyllablesData["words"] };
+  if (item.kind === "niqqud" && typeof result.niqqudText === "string") {
+    await saveNiqqudToCache(item.text, result.niqqudText, { updatedAt: item.updatedAt });
+  } else if (item.kind === "syllables" && Array.isArray(result.words)) {
+    await saveSyllablesToCache(item.text, { words: result.words }, { updatedAt: item.updatedAt });
+  }
+}
+
+function toRow(userId: string, item: ProcessedText) {
+  return {
+    user_id: userId,
+    kind: item.kind,
+    text_hash: item.textHash,
+    text: item.text,
+    result: item.result,
+    updated_at: new Date(item.updatedAt).toISOString(),
+  };
+}
+
+function fromRow(row: ProcessedTextRow): ProcessedText {
+  return {
+    kind: row.kind,
+    textHash: row.text_hash,
+    text: row.text,
+    result: row.result,
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Get the Supabase client and signed-in user, or null for anonymous users
+ */
+async function getSignedInClient(): Promise<{ supabase: SupabaseClient; userId: string } | null> {
+  let supabase: SupabaseClient;
+  try {
+    supabase = createClient();
+  } catch {
+    // Supabase is not configured
+    return null;
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  return error || !user ? null : { supabase, userId: user.id };
+}
+
+async function uploadProcessedTexts(supabase: SupabaseClient, userId: string, items: ProcessedText[]): Promise<void> {
+  for (let i = 0; i < items.length; i += SYNC_PAGE_SIZE) {
+    const rows = items.slice(i, i + SYNC_PAGE_SIZE).map((item) => toRow(userId, item));
+    const { error } = await supabase.from("processed_texts").upsert(rows, { onConflict: "user_id,kind,text_hash" });
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+async function downloadProcessedTexts(supabase: SupabaseClient, userId: string): Promise<ProcessedText[]> {
+  const items: ProcessedText[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("processed_texts")
+      .select("kind, text_hash, text, result, updated_at")
+      .eq("user_id", userId)
+      .order("text_hash")
+      .range(from, from + SYNC_PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    items.push(...((data ?? []) as ProcessedTextRow[]).map(fromRow));
+    if (!data || data.length < SYNC_PAGE_SIZE) {
+      return items;
+    }
+  }
+}
+
+function getLastUpload(userId: string): number {
+  try {
+    return Number(localStorage.getItem(LAST_UPLOAD_KEY_PREFIX + userId)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function setLastUpload(userId: string, time: number): void {
+  try {
+    localStorage.setItem(LAST_UPLOAD_KEY_PREFIX + userId, String(time));
+  } catch (error) {
+    console.warn("[ProcessedTexts] Failed to save last upload time:", error);
+  }
+}
+
+let runningSync: Promise<ProcessedTextsSyncResult | null> | null = null;
+
+/**
+ * Sync the local caches with the signed-in user's account in both directions
+ * Concurrent calls share one run.
+ * @returns Number of downloaded and uploaded results, or null when not signed in or on error
+ */
+export function syncProcessedTexts(): Promise<ProcessedTextsSyncResult | null> {
+  runningSync ??= (async () => {
+    try {
+      const client = await getSignedInClient();
+      if (!client) {
+        return null;
+      }
+
+      const startedAt = Date.now();
+      const [local, remote] = await Promise.all([
+        getLocalProcessedTexts(),
+        downloadProcessedTexts(client.supabase, client.userId),
+      ]);
+      const { download, upload } = planProcessedTextsSync(local, remote);
+
+      for (const item of download) {
+        await saveLocalProcessedText(item);
+      }
+      await uploadProcessedTexts(client.supabase, client.userId, upload);
+      setLastUpload(client.userId, startedAt);
+
+      console.log("[ProcessedTexts] Synced", { downloaded: download.length, uploaded: upload.length });
+      return { downloaded: download.length, uploaded: upload.length };
+    } catch (error) {
+      console.error("[ProcessedTexts] Error syncing processed texts:", error);
+      return null;
+    } finally {
+      runningSync = null;
+    }
+  })();
+  return runningSync;
+}
+
+/**
+ * Upload results saved on this device since the last upload (signed-in users only)
+ * Called after a new result is cached; the server keeps the newer result on conflict.
+ * @returns Number of uploaded results, or null when not signed in or on error
+ */
+export async function pushProcessedTexts(): Promise<number | null> {
+  try {
+    const client = await getSignedInClient();
+    if (!client) {
+      return null;
+    }
+
+    const startedAt = Date.now();
+    const lastUpload = getLastUpload(client.userId);
+    const changed = (await getLocalProcessedTexts()).filter((item) => item.updatedAt > lastUpload);
+
+    await uploadProcessedTexts(client.supabase, client.userId, changed);
+    setLastUpload(client.userId, startedAt);
+    return changed.length;
+  } catch (error) {
+    console.error("[ProcessedTexts] Error uploading processed texts:", error);
+    return null;
+  }
+}
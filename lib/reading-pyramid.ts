@@ -0,0 +1,150 @@
+/**
+ * Reading pyramids
+ * A reading pyramid repeats a sentence line by line, each line adding words
+ * (wordJump) to the line before it, until the whole sentence is read:
+ *
+ *   הילד
+ *   הילד הלך
+ *   הילד הלך לגן.
+ *
+ * A line never ends with a no-break word (short conjunctions and prepositions
+ * such as "של" or "את"); the word after it is added to the line as well.
+ * Ported from the standalone hebrew_reading_pyramid.html page.
+ */
+
+import { removeNiqqud } from "./niqqud";
+import { SyllablesData } from "./syllables";
+import { getLineWords, getSentenceRanges } from "./reading-units";
+
+export const DEFAULT_PYRAMID_WORD_JUMP = 1;
+export const MAX_PYRAMID_WORD_JUMP = 10;
+export const DEFAULT_PYRAMID_NO_BREAK_WORDS = [
+  "או", "את", "של", "עם", "אם", "כי", "אז", "גם", "רק", "עוד", "כל", "אל", "על",
+  "מה", "זה", "זו", "הם", "היא", "הוא", "אני", "אתה", "ו", "אך", "אבל", "למרות",
+];
+
+export interface ReadingPyramidSettings {
+  wordJump: number;       // Words added on each line
+  noBreakWords: string[]; // Words kept on the same line as the word after them
+}
+
+/**
+ * Pyramid of one sentence
+ */
+export interface ReadingPyramid {
+  words: string[];        // Words of the sentence
+  firstWordIndex: number; // Index of the sentence's first word in the text
+  lineLengths: number[];  // Number of words on each line
+}
+
+/**
+ * Text of the pyramids, one pyramid line per text line, ready for the reading view
+ */
+export interface ReadingPyramidText {
+  text: string;
+  wordIndices: number[]; // For each word of the pyramid text, its index in the source text
+}
+
+function normalizeWord(word: string): string {
+  return removeNiqqud(word).replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Parse a comma separated list of no-break words, as entered in the settings
+ */
+export function parseNoBreakWords(value: string): string[] {
+  return Array.from(new Set(value.split(",").map((word) => word.trim()).filter(Boolean)));
+}
+
+/**
+ * Format no-break words for the settings input
+ */
+export function formatNoBreakWords(words: string[]): string {
+  return words.join(", ");
+}
+
+/**
+ * Clamp a word jump to a whole number of words between 1 and MAX_PYRAMID_WORD_JUMP
+ */
+export function normalizeWordJump(wordJump: number): number {
+  if (!Number.isFinite(wordJump)) {
+    return DEFAULT_PYRAMID_WORD_JUMP;
+  }
+  return Math.min(MAX_PYRAMID_WORD_JUMP, Math.max(1, Math.floor(wordJump)));
+}
+
+/**
+ * Check if a word is a no-break word (niqqud and punctuation are ignored)
+ */
+export function isNoBreakWord(word: string, noBreakWords: string[]): boolean {
+  const normalized = normalizeWord(word);
+  return normalized.length > 0 && noBreakWords.some((noBreakWord) => normalizeWord(noBreakWord) === normalized);
+}
+
+/**
+ * Number of words on each line of a sentence's pyramid
+ */
+export function getPyramidLineLengths(words: string[], settings: ReadingPyramidSettings): number[] {
+  const wordJump = normalizeWordJump(settings.wordJump);
+  const lineLengths: number[] = [];
+  let length = Math.min(wordJump, words.length);
+
+  while (length > 0) {
+    // Keep no-break words with the word after them
+    while (length < words.length && isNoBreakWord(words[length - 1], settings.noBreakWords)) {
+      length++;
+    }
+    lineLengths.push(length);
+    if (length >= words.length) {
+      break;
+    }
+    length = Math.min(length + wordJump, words.length);
+  }
+
+  return lineLengths;
+}
+
+/**
+ * Build a pyramid for each sentence of the text
+ * Sentences end with ".", "!", "?" or sof pasuq and never continue past the end
+ * of a line (lib/reading-units.ts).
+ */
+export function buildReadingPyramids(text: string, settings: ReadingPyramidSettings): ReadingPyramid[] {
+  const lineWords = getLineWords(text);
+  const words = lineWords.flat();
+  return getSentenceRanges(lineWords).map(({ start, end }) => {
+    const sentence = words.slice(start, end);
+    return { words: sentence, firstWordIndex: start, lineLengths: getPyramidLineLengths(sentence, settings) };
+  });
+}
+
+/**
+ * Lay out pyramids as text, one pyramid line per text line
+ */
+export function renderReadingPyramids(pyramids: ReadingPyramid[]): ReadingPyramidText {
+  const lines: string[] = [];
+  const wordIndices: number[] = [];
+
+  for (const pyramid of pyramids) {
+    for (const length of pyramid.lineLengths) {
+      lines.push(pyramid.words.slice(0, length).join(" "));
+      for (let i = 0; i < length; i++) {
+        wordIndices.push(pyramid.firstWordIndex + i);
+      }
+    }
+  }
+
+  return { text: lines.join("\n"), wordIndices };
+}
+
+/**
+ * Syllables of the pyramid text, taken from the syllables of the source text
+ * @returns null when a word of the pyramid has no syllables in the source data
+ */
+export function mapPyramidSyllables(syllablesData: SyllablesData, wordIndices: number[]): SyllablesData | null {
+  const words = wordIndices.map((index) => syllablesData.words[index]);
+  if (words.some((word) => !word)) {
+    return null;
+  }
+  return { words: words.map(({ word, syllables }) => ({ word, syllables })) };
+}
@@ -0,0 +1,166 @@
+/**
+ * Reading tempo for auto-advance (play) mode
+ * The highlight stays on each element (word, syllable, letter, sentence or line)
+ * for a time derived from the tempo: either words per minute, or milliseconds
+ * per syllable. Longer words and syllables get extra time per letter.
+ */
+
+import type { CurrentPosition } from "./settings";
+import type { SyllablesData } from "./syllables";
+import { isHebrewLetter } from "./niqqud";
+import { isPhraseMode, WordRange } from "./reading-units";
+
+export type ReadingTempoUnit = "wordsPerMinute" | "msPerSyllable";
+
+export interface ReadingTempo {
+  unit: ReadingTempoUnit;
+  wordsPerMinute: number;
+  msPerSyllable: number;
+  extraMsPerLetter: number; // Added for each letter beyond the usual length of a word/syllable
+  countdownSeconds: number; // Countdown before playing starts (0 = start at once)
+}
+
+export const DEFAULT_READING_TEMPO: ReadingTempo = {
+  unit: "wordsPerMinute",
+  wordsPerMinute: 60,
+  msPerSyllable: 500,
+  extraMsPerLetter: 50,
+  countdownSeconds: 3,
+};
+
+export const READING_TEMPO_LIMITS = {
+  wordsPerMinute: { min: 10, max: 300, step: 10 },
+  msPerSyllable: { min: 100, max: 3000, step: 50 },
+  extraMsPerLetter: { min: 0, max: 500, step: 10 },
+  countdownSeconds: { min: 0, max: 10, step: 1 },
+};
+
+/**
+ * Letters of a word/syllable read without extra time
+ */
+const USUAL_WORD_LETTERS = 4;
+const USUAL_SYLLABLE_LETTERS = 2;
+
+/**
+ * Syllables per word assumed when the tempo is in words per minute
+ */
+const AVERAGE_SYLLABLES_PER_WORD = 2;
+
+/**
+ * The element the highlight is on
+ */
+export interface ReadingStep {
+  mode: CurrentPosition["mode"];
+  letters: number;   // Hebrew letters of the element
+  syllables: number; // Syllables of the element (1 for a syllable or letter)
+  words?: number;    // Words of a sentence or line
+}
+
+function countHebrewLetters(text: string): number {
+  return Array.from(text).filter(isHebrewLetter).length;
+}
+
+function describeWord(
+  textWords: string[],
+  syllablesData: SyllablesData | null,
+  wordIndex: number
+): { letters: number; syllables: number } {
+  const dataWord = syllablesData?.words[wordIndex];
+  const letters = countHebrewLetters(dataWord?.word ?? textWords[wordIndex] ?? "");
+  return { letters, syllables: dataWord?.syllables.length || Math.max(1, Math.round(letters / 2)) };
+}
+
+/**
+ * Describe the element at a position of the text
+ * Syllable counts come from the syllables data when available, otherwise they
+ * are estimated from the word length.
+ * @param range - Words of the highlighted sentence or line (in those modes)
+ */
+export function describeReadingStep(
+  text: string,
+  syllablesData: SyllablesData | null,
+  position: CurrentPosition,
+  range?: WordRange | null
+): ReadingStep {
+  if (position.mode === "letters") {
+    return { mode: "letters", letters: 1, syllables: 1 };
+  }
+
+  const textWords = text.split(/\s+/).filter(Boolean);
+  if (isPhraseMode(position.mode)) {
+    const { start, end } = range ?? { start: position.wordIndex, end: position.wordIndex + 1 };
+    const step: ReadingStep = { mode: position.mode, letters: 0, syllables: 0, words: end - start };
+    for (let wordIndex = start; wordIndex < end; wordIndex++) {
+      const word = describeWord(textWords, syllablesData, wordIndex);
+      step.letters += word.letters;
+      step.syllables += word.syllables;
+    }
+    return step;
+  }
+
+  const dataWord = syllablesData?.words[position.wordIndex];
+  if (position.mode === "syllables" && dataWord) {
+    const syllable = dataWord.syllables[position.syllableIndex ?? 0] ?? "";
+    return { mode: "syllables", letters: countHebrewLetters(syllable), syllables: 1 };
+  }
+
+  return { mode: "words", ...describeWord(textWords, syllablesData, position.wordIndex) };
+}
+
+/**
+ * Time to stay on an element (ms)
+ */
+export function getStepDuration(tempo: ReadingTempo, step: ReadingStep): number {
+  const msPerSyllable =
+    tempo.unit === "msPerSyllable" ? tempo.msPerSyllable : 60000 / tempo.wordsPerMinute / AVERAGE_SYLLABLES_PER_WORD;
+
+  let duration: number;
+  if (step.mode === "letters") {
+    duration = msPerSyllable / 2;
+  } else if (step.mode === "syllables") {
+    duration = msPerSyllable + tempo.extraMsPerLetter * Math.max(0, step.letters - USUAL_SYLLABLE_LETTERS);
+  } else {
+    // A sentence or line gets the time of its words
+    const words = step.words ?? 1;
+    const base = tempo.unit === "msPerSyllable" ? msPerSyllable * step.syllables : (60000 / tempo.wordsPerMinute) * words;
+    duration = base + tempo.extraMsPerLetter * Math.max(0, step.letters - USUAL_WORD_LETTERS * words);
+  }
+  return Math.round(duration);
+}
+
+/**
+ * Make the tempo faster (+1) or slower (-1) by one step of its unit
+ */
+export function nudgeReadingTempo(tempo: ReadingTempo, direction: 1 | -1): ReadingTempo {
+  if (tempo.unit === "wordsPerMinute") {
+    const { min, max, step } = READING_TEMPO_LIMITS.wordsPerMinute;
+    return { ...tempo, wordsPerMinute: Math.min(max, Math.max(min, tempo.wordsPerMinute + direction * step)) };
+  }
+  // Fewer milliseconds per syllable is faster
+  const { min, max, step } = READING_TEMPO_LIMITS.msPerSyllable;
+  return { ...tempo, msPerSyllable: Math.min(max, Math.max(min, tempo.msPerSyllable - direction * step)) };
+}
+
+/**
+ * Fill in missing or invalid fields of a saved tempo with the defaults, and
+ * keep the numbers within READING_TEMPO_LIMITS
+ */
+export function normalizeReadingTempo(value: unknown): ReadingTempo {
+  const saved = (value && typeof value === "object" ? value : {}) as Partial<ReadingTempo>;
+  const numberField = (field: keyof typeof READING_TEMPO_LIMITS): number => {
+    const fieldValue = saved[field];
+    if (typeof fieldValue !== "number" || !Number.isFinite(fieldValue)) {
+      return DEFAULT_READING_TEMPO[field];
+    }
+    const { min, max } = READING_TEMPO_LIMITS[field];
+    return Math.min(max, Math.max(min, fieldValue));
+  };
+
+  return {
+    unit: saved.unit === "msPerSyllable" ? "msPerSyllable" : "wordsPerMinute",
+    wordsPerMinute: numberField("wordsPerMinute"),
+    msPerSyllable: numberField("msPerSyllable"),
+    extraMsPerLetter: numberField("extraMsPerLetter"),
+    countdownSeconds: numberField("countdownSeconds"),
+  };
+}
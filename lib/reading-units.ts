@@ -0,0 +1,95 @@
+/**
+ * Sentences and lines, for whole-phrase reading practice
+ * In the "sentences" and "lines" navigation modes the highlight covers a whole
+ * sentence or a whole visual line (the text as wrapped on screen). A position
+ * in these modes points at the first word of the sentence or line, so it stays
+ * valid when the text is wrapped differently or shown in another niqqud version.
+ */
+
+import type { NavigationMode } from "./settings";
+
+export type PhraseMode = "sentences" | "lines";
+
+/**
+ * Words of a sentence or line (end is exclusive)
+ */
+export interface WordRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A word ending a sentence: ".", "!", "?" or sof pasuq, optionally followed by
+ * closing quotes or brackets
+ */
+const SENTENCE_END = /[.!?׃][)"'״׳]*$/;
+
+export function isPhraseMode(mode: NavigationMode): mode is PhraseMode {
+  return mode === "sentences" || mode === "lines";
+}
+
+/**
+ * Words of each line of a text (lines are separated by "\n")
+ */
+export function getLineWords(text: string): string[][] {
+  return text.split("\n").map((line) => line.split(/\s+/).filter(Boolean));
+}
+
+/**
+ * Sentences of a text, as ranges of word indices
+ * Sentences end with a sentence-ending word and never continue past the end of a line.
+ */
+export function getSentenceRanges(lineWords: string[][]): WordRange[] {
+  const ranges: WordRange[] = [];
+  let wordIndex = 0;
+  for (const words of lineWords) {
+    let start = wordIndex;
+    for (const word of words) {
+      wordIndex++;
+      if (SENTENCE_END.test(word)) {
+        ranges.push({ start, end: wordIndex });
+        start = wordIndex;
+      }
+    }
+    if (start < wordIndex) {
+      ranges.push({ start, end: wordIndex });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Layout of a rendered word
+ */
+export interface WordBox {
+  lineIndex: number; // Line of the text the word is on
+  top: number;       // Offset of the word from the top of the text (px)
+  height: number;
+}
+
+/**
+ * Visual lines of rendered words (in word order), as ranges of word indices
+ * A word starts a new visual line when it is on another line of the text, or
+ * when it is wrapped below the middle of the line's first word.
+ */
+export function groupVisualLines(boxes: WordBox[]): WordRange[] {
+  const ranges: WordRange[] = [];
+  let lineBox: WordBox | null = null;
+  boxes.forEach((box, index) => {
+    const wrapped = lineBox !== null && box.top > lineBox.top + lineBox.height / 2;
+    if (!lineBox || box.lineIndex !== lineBox.lineIndex || wrapped) {
+      ranges.push({ start: index, end: index + 1 });
+      lineBox = box;
+    } else {
+      ranges[ranges.length - 1].end = index + 1;
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Index of the range containing a word (-1 when no range does)
+ */
+export function findRangeIndex(ranges: WordRange[], wordIndex: number): number {
+  return ranges.findIndex((range) => wordIndex >= range.start && wordIndex < range.end);
+}
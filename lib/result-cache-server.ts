@@ -0,0 +1,345 @@
+/**
+ * Shared model result cache (Server-side only)
+ * Niqqud and syllables results are stored once for all users, keyed by the
+ * normalized text hash, model, prompt version and temperature, so a text read
+ * by a whole class is sent to the model only once.
+ * Uses Supabase when the service role key is configured and the local SQLite
+ * database (lib/db.ts) otherwise.
+ * This file should only be imported in API routes or other server code
+ */
+
+import { createHash } from "crypto";
+import {
+  getAppSetting,
+  getCachedModelResult,
+  getModelResultCacheStats,
+  purgeCachedModelResults,
+  saveAppSetting,
+  saveCachedModelResult,
+} from "./db";
+import type { ModelTask } from "./model-keys-server";
+import type { Json } from "./supabase/database.types";
+import { createAdminClient, isServiceRoleConfigured } from "./supabase/admin";
+
+/**
+ * Default time an entry is served before the model is called again
+ */
+export const DEFAULT_RESULT_CACHE_TTL_HOURS = 24 * 30;
+
+/**
+ * Key of the TTL in app_defaults (Supabase) or app_settings (SQLite)
+ */
+const TTL_SETTING_KEY = "result_cache_ttl_hours";
+
+export type ResultCacheBackend = "sqlite" | "supabase";
+
+export interface ResultCacheKey {
+  cacheKey: string;
+  task: ModelTask;
+  textHash: string;
+  model: string;
+  promptVersion: string;
+  temperature: number | null;
+}
+
+export interface ResultCacheEntry extends ResultCacheKey {
+  result: unknown;
+}
+
+export interface ResultCacheFilter {
+  task?: ModelTask;
+  model?: string;
+  createdBefore?: string; // ISO timestamp
+}
+
+export interface ResultCacheStats {
+  entries: number;
+  hits: number;
+  byTask: Partial<Record<ModelTask, number>>;
+}
+
+/**
+ * Storage used by the cache
+ */
+interface ResultCacheStore {
+  get: (cacheKey: string, createdAfter: string) => Promise<unknown | null>;
+  set: (entry: ResultCacheEntry) => Promise<boolean>;
+  purge: (filter: ResultCacheFilter) => Promise<number | null>;
+  stats: () => Promise<ResultCacheStats | null>;
+  getTtlHours: () => Promise<number | null>;
+  setTtlHours: (hours: number) => Promise<boolean>;
+}
+
+/**
+ * Normalize text before hashing: Unicode NFC and collapsed whitespace
+ * Texts that differ only in spacing or line breaks share an entry; results are
+ * fitted back to the requested text's whitespace when served.
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Create a short version id for the prompts sent with a request
+ * Editing a prompt changes the version, so results of the old prompt are not reused.
+ */
+export function createPromptVersion(...prompts: Array<string | undefined>): string {
+  return sha256(JSON.stringify(prompts.map((prompt) => prompt ?? ""))).slice(0, 16);
+}
+
+/**
+ * Create the cache key of a model request
+ * @param task - niqqud or syllables
+ * @param text - Text sent to the model
+ * @param model - Model value from settings
+ * @param promptVersion - Version from createPromptVersion
+ * @param temperature - Requested temperature (undefined uses the provider default)
+ */
+export function createResultCacheKey(
+  task: ModelTask,
+  text: string,
+  model: string,
+  promptVersion: string,
+  temperature?: number
+): ResultCacheKey {
+  const textHash = sha256(normalizeCacheText(text));
+  const normalizedTemperature = typeof temperature === "number" ? temperature : null;
+  return {
+    cacheKey: sha256([task, textHash, model, promptVersion, normalizedTemperature ?? ""].join("|")),
+    task,
+    textHash,
+    model,
+    promptVersion,
+    temperature: normalizedTemperature,
+  };
+}
+
+const sqliteStore: ResultCacheStore = {
+  get: async (cacheKey, createdAfter) => getCachedModelResult(cacheKey, createdAfter),
+  set: async (entry) => saveCachedModelResult(entry),
+  purge: async (filter) => purgeCachedModelResults(filter),
+  stats: async () => getModelResultCacheStats(),
+  getTtlHours: async () => {
+    const value = getAppSetting(TTL_SETTING_KEY);
+    return value === null ? null : Number(value);
+  },
+  setTtlHours: async (hours) => saveAppSetting(TTL_SETTING_KEY, String(hours)),
+};
+
+const supabaseStore: ResultCacheStore = {
+  async get(cacheKey, createdAfter) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from("model_result_cache")
+      .select("result, hits")
+      .eq("cache_key", cacheKey)
+      .gt("created_at", createdAfter)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error("[ResultCache] Error reading entry:", error);
+      return null;
+    }
+
+    await supabase
+      .from("model_result_cache")
+      .update({ hits: data.hits + 1, last_hit_at: new Date().toISOString() })
+      .eq("cache_key", cacheKey);
+
+    return data.result;
+  },
+
+  async set(entry) {
+    const { error } = await createAdminClient()
+      .from("model_result_cache")
+      .upsert(
+        {
+          cache_key: entry.cacheKey,
+          task: entry.task,
+          text_hash: entry.textHash,
+          model: entry.model,
+          prompt_version: entry.promptVersion,
+          temperature: entry.temperature,
+          result: entry.result as Json,
+          hits: 0,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "cache_key" }
+      );
+
+    if (error) {
+      console.error("[ResultCache] Error saving entry:", error);
+      return false;
+    }
+    return true;
+  },
+
+  async purge(filter) {
+    // DELETE needs a condition: every row has a cache key
+    let query = createAdminClient()
+      .from("model_result_cache")
+      .delete({ count: "exact" })
+      .not("cache_key", "is", null);
+    if (filter.task) query = query.eq("task", filter.task);
+    if (filter.model) query = query.eq("model", filter.model);
+    if (filter.createdBefore) query = query.lte("created_at", filter.createdBefore);
+
+    const { count, error } = await query;
+    if (error) {
+      console.error("[ResultCache] Error purging entries:", error);
+      return null;
+    }
+    return count ?? 0;
+  },
+
+  async stats() {
+    const supabase = createAdminClient();
+    const tasks: ModelTask[] = ["niqqud", "syllables"];
+    const counts = await Promise.all(
+      tasks.map((task) =>
+        supabase.from("model_result_cache").select("cache_key", { count: "exact", head: true }).eq("task", task)
+      )
+    );
+    const { data: hitRows, error } = await supabase.from("model_result_cache").select("hits").gt("hits", 0);
+
+    if (error || counts.some((count) => count.error)) {
+      console.error("[ResultCache] Error reading stats:", error ?? counts.find((count) => count.error)?.error);
+      return null;
+    }
+
+    const byTask: Partial<Record<ModelTask, number>> = {};
+    tasks.forEach((task, idx) => {
+      byTask[task] = counts[idx].count ?? 0;
+    });
+    return {
+      entries: tasks.reduce((sum, task) => sum + (byTask[task] ?? 0), 0),
+      hits: (hitRows ?? []).reduce((sum, row) => sum + row.hits, 0),
+      byTask,
+    };
+  },
+
+  async getTtlHours() {
+    const { data } = await createAdminClient()
+      .from("app_defaults")
+      .select("value")
+      .eq("key", TTL_SETTING_KEY)
+      .maybeSingle();
+    return data ? Number(data.value) : null;
+  },
+
+  async setTtlHours(hours) {
+    const { error } = await createAdminClient()
+      .from("app_defaults")
+      .upsert({ key: TTL_SETTING_KEY, value: hours }, { onConflict: "key" });
+    if (error) {
+      console.error("[ResultCache] Error saving TTL:", error);
+      return false;
+    }
+    return true;
+  },
+};
+
+/**
+ * Get the storage backend in use
+ */
+export function getResultCacheBackend(): ResultCacheBackend {
+  return isServiceRoleConfigured() ? "supabase" : "sqlite";
+}
+
+function getStore(): ResultCacheStore {
+  return getResultCacheBackend() === "supabase" ? supabaseStore : sqliteStore;
+}
+
+/**
+ * Get the cache TTL set by an admin
+ * @returns TTL in hours (0 means the cache is disabled)
+ */
+export async function getResultCacheTtlHours(): Promise<number> {
+  try {
+    const hours = await getStore().getTtlHours();
+    return hours !== null && Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_RESULT_CACHE_TTL_HOURS;
+  } catch (error) {
+    console.error("[ResultCache] Error getting TTL:", error);
+    return DEFAULT_RESULT_CACHE_TTL_HOURS;
+  }
+}
+
+/**
+ * Save the cache TTL (admins only - check before calling)
+ * @param hours - TTL in hours; 0 disables the cache
+ */
+export async function setResultCacheTtlHours(hours: number): Promise<boolean> {
+  try {
+    return await getStore().setTtlHours(hours);
+  } catch (error) {
+    console.error("[ResultCache] Error saving TTL:", error);
+    return false;
+  }
+}
+
+/**
+ * Get a cached result that is not older than the TTL
+ * @returns Cached result, or null on a miss (or when the cache is disabled)
+ */
+export async function getCachedResult<T>(key: ResultCacheKey): Promise<T | null> {
+  try {
+    const ttlHours = await getResultCacheTtlHours();
+    if (ttlHours === 0) {
+      return null;
+    }
+    const createdAfter = new Date(Date.now() - ttlHours * 60 * 60 * 1000).toISOString();
+    const result = await getStore().get(key.cacheKey, createdAfter);
+    if (result) {
+      console.log(`[ResultCache] Hit for ${key.task}`, { model: key.model });
+    }
+    return (result as T) ?? null;
+  } catch (error) {
+    console.error("[ResultCache] Error reading cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Save a successful result for later requests
+ * Failures are logged only: a request never fails because of the cache.
+ */
+export async function saveCachedResult(key: ResultCacheKey, result: unknown): Promise<void> {
+  try {
+    if ((await getResultCacheTtlHours()) === 0) {
+      return;
+    }
+    await getStore().set({ ...key, result });
+  } catch (error) {
+    console.error("[ResultCache] Error saving cache:", error);
+  }
+}
+
+/**
+ * Delete cached results (admins only - check before calling)
+ * @param filter - Limit to a task, a model or older entries (all when empty)
+ * @returns Number of deleted entries, or null on error
+ */
+export async function purgeResultCache(filter: ResultCacheFilter = {}): Promise<number | null> {
+  try {
+    return await getStore().purge(filter);
+  } catch (error) {
+    console.error("[ResultCache] Error purging cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Get entry and hit counts (admins only - check before calling)
+ */
+export async function getResultCacheStats(): Promise<ResultCacheStats | null> {
+  try {
+    return await getStore().stats();
+  } catch (error) {
+    console.error("[ResultCache] Error getting stats:", error);
+    return null;
+  }
+}
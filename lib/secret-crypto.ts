@@ -0,0 +1,95 @@
+/**
+ * Encryption for secrets stored on the server (Server-side only)
+ * Per-user API keys are stored with AES-256-GCM, keyed by API_KEY_ENCRYPTION_SECRET.
+ * This file should only be imported in API routes or other server code
+ */
+
+import crypto from "crypto";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+
+/**
+ * Derive the 32-byte encryption key from the configured secret
+ * @returns Key, or null if API_KEY_ENCRYPTION_SECRET is not set
+ */
+function getEncryptionKey(): Buffer | null {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    return null;
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Check whether secrets can be encrypted on this server
+ */
+export function isSecretEncryptionConfigured(): boolean {
+  return getEncryptionKey() !== null;
+}
+
+/**
+ * Check whether a stored value was produced by encryptSecret
+ */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage
+ * @param plainText - Secret to encrypt (empty string is stored as empty)
+ * @returns Encrypted value, or null if encryption is not configured
+ */
+export function encryptSecret(plainText: string): string | null {
+  if (!plainText) {
+    return "";
+  }
+
+  const key = getEncryptionKey();
+  if (!key) {
+    console.error("[SecretCrypto] API_KEY_ENCRYPTION_SECRET is not set, refusing to store secret");
+    return null;
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return `${ENCRYPTED_PREFIX}${[iv, tag, encrypted].map((part) => part.toString("base64")).join(":")}`;
+}
+
+/**
+ * Decrypt a stored secret
+ * Values stored before encryption was introduced are returned as they are.
+ * @param stored - Value from storage
+ * @returns Plain secret, or empty string if it cannot be decrypted
+ */
+export function decryptSecret(stored: string | null | undefined): string {
+  if (!stored) {
+    return "";
+  }
+
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+
+  const key = getEncryptionKey();
+  if (!key) {
+    console.error("[SecretCrypto] API_KEY_ENCRYPTION_SECRET is not set, cannot decrypt secret");
+    return "";
+  }
+
+  try {
+    const [iv, tag, encrypted] = stored
+      .slice(ENCRYPTED_PREFIX.length)
+      .split(":")
+      .map((part) => Buffer.from(part, "base64"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  } catch (error) {
+    console.error("[SecretCrypto] Failed to decrypt secret:", error);
+    return "";
+  }
+}
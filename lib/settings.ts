@@ -8,13 +8,41 @@ import {
   saveUserPreferencesClient,
   isAuthenticatedClient,
 } from './user-preferences-client';
+import { getRegisteredModels } from './llm';
+import { normalizeReadingTempo, ReadingTempo } from './reading-tempo';
+import { normalizeShortcutMap, ShortcutMap } from './keyboard-shortcuts';
+import { normalizeSyllableOverrides, SyllableOverrides } from './syllable-overrides';
+import {
+  DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  DEFAULT_PYRAMID_WORD_JUMP,
+  formatNoBreakWords,
+  normalizeWordJump,
+  parseNoBreakWords,
+  ReadingPyramidSettings,
+} from './reading-pyramid';
+import {
+  DEFAULT_FOCUS_MASK_LINES,
+  DEFAULT_FOCUS_MASK_OPACITY,
+  DEFAULT_FOCUS_MASK_STYLE,
+  DEFAULT_FOCUS_RULER_COLOR,
+  FocusMaskSettings,
+  FocusMaskStyle,
+  normalizeFocusMaskLines,
+  normalizeFocusMaskOpacity,
+} from './focus-mask';
+
+/**
+ * What the highlight moves by in the reading view
+ * Sentences and lines highlight whole phrases (lib/reading-units.ts).
+ */
+export type NavigationMode = "words" | "syllables" | "letters" | "sentences" | "lines";
 
 /**
  * Current position in syllables navigation
  */
 export interface CurrentPosition {
-  mode: "words" | "syllables" | "letters";
-  wordIndex: number;      // Always required - which word is selected
+  mode: NavigationMode;
+  wordIndex: number;      // Always required - which word is selected (first word of the sentence/line)
   syllableIndex?: number; // Which syllable (if mode = syllables)
   letterIndex?: number;   // Which letter (if mode = letters)
 }
@@ -51,9 +79,25 @@ export const SETTINGS_KEYS = {
   WORD_HIGHLIGHT_COLOR: "word_highlight_color",
   SYLLABLE_HIGHLIGHT_COLOR: "syllable_highlight_color",
   LETTER_HIGHLIGHT_COLOR: "letter_highlight_color",
+  // Reading pyramid settings
+  PYRAMID_WORD_JUMP: "pyramid_word_jump",
+  PYRAMID_NO_BREAK_WORDS: "pyramid_no_break_words", // Comma separated
+  // Speech settings
+  TTS_VOICE: "tts_voice",
+  TTS_RATE: "tts_rate",
+  TTS_PITCH: "tts_pitch",
+  TTS_SPEAK_VOCALIZED: "tts_speak_vocalized",
+  // Reading ruler settings
+  FOCUS_MASK_LINES: "focus_mask_lines",
+  FOCUS_MASK_STYLE: "focus_mask_style",
+  FOCUS_MASK_OPACITY: "focus_mask_opacity",
+  FOCUS_RULER_COLOR: "focus_ruler_color",
   // Navigation settings
   SYLLABLES_CURRENT_POSITION: "syllables_current_position",
   SYLLABLES_RAW_RESPONSE: "syllables_raw_response",
+  READING_TEMPO: "reading_tempo", // Auto-advance tempo (JSON)
+  KEYBOARD_SHORTCUTS: "keyboard_shortcuts", // Keys of the reading view (JSON)
+  SYLLABLE_OVERRIDES: "syllable_overrides", // The user's syllable corrections (JSON)
   // Cache settings for localStorage persistence and future Supabase sync
   NIQQUD_CACHE_ORIGINAL: "niqqud_cache_original",
   NIQQUD_CACHE_CLEAN: "niqqud_cache_clean",
@@ -93,24 +137,26 @@ export interface AppSettings {
   wordHighlightColor: string;
   syllableHighlightColor: string;
   letterHighlightColor: string;
+  // Reading pyramid settings
+  pyramidWordJump: number;
+  pyramidNoBreakWords: string[];
+  // Speech settings
+  ttsVoice: string; // Voice id ("" = a Hebrew voice chosen automatically)
+  ttsRate: number;
+  ttsPitch: number;
+  ttsSpeakVocalized: boolean; // Speak the full niqqud version for correct pronunciation
+  // Reading ruler settings
+  focusMaskLines: number;
+  focusMaskStyle: FocusMaskStyle;
+  focusMaskOpacity: number;
+  focusRulerColor: string;
 }
 
 /**
- * Default model options
+ * Default model options, built from the registered language model providers
  * The first model in the array is used as the default model
  */
-export const DEFAULT_MODELS = [
-  { value: "gpt-4-turbo", label: "GPT-4 Turbo (OpenAI)" },
-  { value: "gpt-5-nano", label: "GPT-5 Nano (OpenAI)" },
-  { value: "gpt-5-mini", label: "GPT-5 Mini (OpenAI)" },
-  { value: "gpt-4o", label: "GPT-4o (OpenAI)" },
-  { value: "gpt-4", label: "GPT-4 (OpenAI)" },
-  { value: "gpt-3.5-turbo", label: "GPT-3.5 Turbo (OpenAI)" },
-  { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash (Google)" },
-  { value: "gemini-2.0-flash-exp", label: "Gemini 2.0 Flash (Google)" },
-  { value: "gemini-1.5-pro", label: "Gemini 1.5 Pro (Google)" },
-  { value: "gemini-1.5-flash", label: "Gemini 1.5 Flash (Google)" },
-];
+export const DEFAULT_MODELS = getRegisteredModels();
 
 /**
  * Default prompts for regular niqqud addition (no niqqud at all)
@@ -229,25 +275,16 @@ export const DEFAULT_SYLLABLE_HIGHLIGHT_COLOR = "#fff176"; // Light yellow
 export const DEFAULT_LETTER_HIGHLIGHT_COLOR = "#fff176"; // Light yellow
 
 /**
- * Get settings from localStorage
- */
-/**
- * Check if a model is a Google Gemini model
+ * Default speech settings
  */
-export function isGoogleModel(model: string): boolean {
-  return model.startsWith("gemini-");
-}
+export const DEFAULT_TTS_VOICE = ""; // Automatic Hebrew voice
+export const DEFAULT_TTS_RATE = 1;
+export const DEFAULT_TTS_PITCH = 1;
+export const DEFAULT_TTS_SPEAK_VOCALIZED = true;
 
 /**
- * Get API URL for a given model
+ * Get settings from localStorage
  */
-export function getApiUrl(model: string): string {
-  if (isGoogleModel(model)) {
-    return "https://generativelanguage.googleapis.com/v1beta/models";
-  }
-  return "https://api.openai.com/v1/chat/completions";
-}
-
 // Get default API keys from environment variables
 function getDefaultNiqqudApiKey(): string {
   if (typeof window === "undefined") {
@@ -294,6 +331,16 @@ export function getSettings(): AppSettings {
       wordHighlightColor: DEFAULT_WORD_HIGHLIGHT_COLOR,
       syllableHighlightColor: DEFAULT_SYLLABLE_HIGHLIGHT_COLOR,
       letterHighlightColor: DEFAULT_LETTER_HIGHLIGHT_COLOR,
+      pyramidWordJump: DEFAULT_PYRAMID_WORD_JUMP,
+      pyramidNoBreakWords: DEFAULT_PYRAMID_NO_BREAK_WORDS,
+      ttsVoice: DEFAULT_TTS_VOICE,
+      ttsRate: DEFAULT_TTS_RATE,
+      ttsPitch: DEFAULT_TTS_PITCH,
+      ttsSpeakVocalized: DEFAULT_TTS_SPEAK_VOCALIZED,
+      focusMaskLines: DEFAULT_FOCUS_MASK_LINES,
+      focusMaskStyle: DEFAULT_FOCUS_MASK_STYLE,
+      focusMaskOpacity: DEFAULT_FOCUS_MASK_OPACITY,
+      focusRulerColor: DEFAULT_FOCUS_RULER_COLOR,
     };
   }
 
@@ -302,12 +349,9 @@ export function getSettings(): AppSettings {
   const legacyModel = localStorage.getItem(SETTINGS_KEYS.MODEL);
 
   // If legacy settings exist but new ones don't, migrate them
-  // Also check for environment variables as default (NEXT_PUBLIC_ prefix required for client-side access)
-  const defaultNiqqudApiKey = process.env.NEXT_PUBLIC_NIQQUD_API_KEY || "";
-  const defaultSyllablesApiKey = process.env.NEXT_PUBLIC_SYLLABLES_API_KEY || "";
-
+  // API keys are only found here until migrateLocalApiKeysToServer moves them to the server
   const niqqudApiKey =
-    localStorage.getItem(SETTINGS_KEYS.NIQQUD_API_KEY) || legacyApiKey || defaultNiqqudApiKey;
+    localStorage.getItem(SETTINGS_KEYS.NIQQUD_API_KEY) || legacyApiKey || "";
   const niqqudModel =
     localStorage.getItem(SETTINGS_KEYS.NIQQUD_MODEL) || legacyModel || DEFAULT_MODELS[0].value;
   const niqqudPrompt =
@@ -324,7 +368,7 @@ export function getSettings(): AppSettings {
   const niqqudCompletionUserPrompt =
     localStorage.getItem(SETTINGS_KEYS.NIQQUD_COMPLETION_USER_PROMPT) || DEFAULT_NIQQUD_COMPLETION_USER_PROMPT;
 
-  const syllablesApiKey = localStorage.getItem(SETTINGS_KEYS.SYLLABLES_API_KEY) || legacyApiKey || defaultSyllablesApiKey;
+  const syllablesApiKey = localStorage.getItem(SETTINGS_KEYS.SYLLABLES_API_KEY) || legacyApiKey || "";
   const syllablesModel =
     localStorage.getItem(SETTINGS_KEYS.SYLLABLES_MODEL) || legacyModel || DEFAULT_MODELS[0].value;
   const syllablesTemperature = parseFloat(
@@ -380,6 +424,32 @@ export function getSettings(): AppSettings {
   const syllableHighlightColor = localStorage.getItem(SETTINGS_KEYS.SYLLABLE_HIGHLIGHT_COLOR) || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR;
   const letterHighlightColor = localStorage.getItem(SETTINGS_KEYS.LETTER_HIGHLIGHT_COLOR) || DEFAULT_LETTER_HIGHLIGHT_COLOR;
 
+  // Reading pyramid settings
+  const pyramidWordJump = normalizeWordJump(
+    parseInt(localStorage.getItem(SETTINGS_KEYS.PYRAMID_WORD_JUMP) || String(DEFAULT_PYRAMID_WORD_JUMP), 10)
+  );
+  const savedNoBreakWords = localStorage.getItem(SETTINGS_KEYS.PYRAMID_NO_BREAK_WORDS);
+  const pyramidNoBreakWords =
+    savedNoBreakWords !== null ? parseNoBreakWords(savedNoBreakWords) : DEFAULT_PYRAMID_NO_BREAK_WORDS;
+
+  // Speech settings
+  const ttsVoice = localStorage.getItem(SETTINGS_KEYS.TTS_VOICE) || DEFAULT_TTS_VOICE;
+  const ttsRate = parseFloat(localStorage.getItem(SETTINGS_KEYS.TTS_RATE) || String(DEFAULT_TTS_RATE));
+  const ttsPitch = parseFloat(localStorage.getItem(SETTINGS_KEYS.TTS_PITCH) || String(DEFAULT_TTS_PITCH));
+  const savedSpeakVocalized = localStorage.getItem(SETTINGS_KEYS.TTS_SPEAK_VOCALIZED);
+  const ttsSpeakVocalized = savedSpeakVocalized !== null ? savedSpeakVocalized === "true" : DEFAULT_TTS_SPEAK_VOCALIZED;
+
+  // Reading ruler settings
+  const focusMaskLines = normalizeFocusMaskLines(
+    parseInt(localStorage.getItem(SETTINGS_KEYS.FOCUS_MASK_LINES) || String(DEFAULT_FOCUS_MASK_LINES), 10)
+  );
+  const focusMaskStyle: FocusMaskStyle =
+    localStorage.getItem(SETTINGS_KEYS.FOCUS_MASK_STYLE) === "blur" ? "blur" : DEFAULT_FOCUS_MASK_STYLE;
+  const focusMaskOpacity = normalizeFocusMaskOpacity(
+    parseFloat(localStorage.getItem(SETTINGS_KEYS.FOCUS_MASK_OPACITY) || String(DEFAULT_FOCUS_MASK_OPACITY))
+  );
+  const focusRulerColor = localStorage.getItem(SETTINGS_KEYS.FOCUS_RULER_COLOR) || DEFAULT_FOCUS_RULER_COLOR;
+
   return {
     apiKey: legacyApiKey || "", // Keep for backward compatibility
     model: legacyModel || DEFAULT_MODELS[0].value, // Keep for backward compatibility
@@ -407,6 +477,16 @@ export function getSettings(): AppSettings {
     wordHighlightColor,
     syllableHighlightColor,
     letterHighlightColor,
+    pyramidWordJump,
+    pyramidNoBreakWords,
+    ttsVoice,
+    ttsRate,
+    ttsPitch,
+    ttsSpeakVocalized,
+    focusMaskLines,
+    focusMaskStyle,
+    focusMaskOpacity,
+    focusRulerColor,
   };
 }
 
@@ -418,20 +498,14 @@ export function saveSettings(settings: Partial<AppSettings>): void {
     return;
   }
 
-  // Legacy fields (for backward compatibility)
-  if (settings.apiKey !== undefined) {
-    localStorage.setItem(SETTINGS_KEYS.API_KEY, settings.apiKey);
-  }
+  // API keys are never stored in the browser (see saveApiKeysToServer)
 
+  // Legacy fields (for backward compatibility)
   if (settings.model !== undefined) {
     localStorage.setItem(SETTINGS_KEYS.MODEL, settings.model);
   }
 
   // Niqqud settings
-  if (settings.niqqudApiKey !== undefined) {
-    localStorage.setItem(SETTINGS_KEYS.NIQQUD_API_KEY, settings.niqqudApiKey);
-  }
-
   if (settings.niqqudModel !== undefined) {
     localStorage.setItem(SETTINGS_KEYS.NIQQUD_MODEL, settings.niqqudModel);
   }
@@ -461,10 +535,6 @@ export function saveSettings(settings: Partial<AppSettings>): void {
   }
 
   // Syllables settings
-  if (settings.syllablesApiKey !== undefined) {
-    localStorage.setItem(SETTINGS_KEYS.SYLLABLES_API_KEY, settings.syllablesApiKey);
-  }
-
   if (settings.syllablesModel !== undefined) {
     localStorage.setItem(SETTINGS_KEYS.SYLLABLES_MODEL, settings.syllablesModel);
   }
@@ -521,6 +591,49 @@ export function saveSettings(settings: Partial<AppSettings>): void {
   if (settings.letterHighlightColor !== undefined) {
     localStorage.setItem(SETTINGS_KEYS.LETTER_HIGHLIGHT_COLOR, settings.letterHighlightColor);
   }
+
+  // Reading pyramid settings
+  if (settings.pyramidWordJump !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.PYRAMID_WORD_JUMP, String(normalizeWordJump(settings.pyramidWordJump)));
+  }
+
+  if (settings.pyramidNoBreakWords !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.PYRAMID_NO_BREAK_WORDS, formatNoBreakWords(settings.pyramidNoBreakWords));
+  }
+
+  // Speech settings
+  if (settings.ttsVoice !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.TTS_VOICE, settings.ttsVoice);
+  }
+
+  if (settings.ttsRate !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.TTS_RATE, String(settings.ttsRate));
+  }
+
+  if (settings.ttsPitch !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.TTS_PITCH, String(settings.ttsPitch));
+  }
+
+  if (settings.ttsSpeakVocalized !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.TTS_SPEAK_VOCALIZED, String(settings.ttsSpeakVocalized));
+  }
+
+  // Reading ruler settings
+  if (settings.focusMaskLines !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.FOCUS_MASK_LINES, String(normalizeFocusMaskLines(settings.focusMaskLines)));
+  }
+
+  if (settings.focusMaskStyle !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.FOCUS_MASK_STYLE, settings.focusMaskStyle);
+  }
+
+  if (settings.focusMaskOpacity !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.FOCUS_MASK_OPACITY, String(normalizeFocusMaskOpacity(settings.focusMaskOpacity)));
+  }
+
+  if (settings.focusRulerColor !== undefined) {
+    localStorage.setItem(SETTINGS_KEYS.FOCUS_RULER_COLOR, settings.focusRulerColor);
+  }
 }
 
 /**
@@ -564,6 +677,22 @@ export function clearSettings(): void {
   localStorage.removeItem(SETTINGS_KEYS.SYLLABLE_HIGHLIGHT_COLOR);
   localStorage.removeItem(SETTINGS_KEYS.LETTER_HIGHLIGHT_COLOR);
 
+  // Reading pyramid keys
+  localStorage.removeItem(SETTINGS_KEYS.PYRAMID_WORD_JUMP);
+  localStorage.removeItem(SETTINGS_KEYS.PYRAMID_NO_BREAK_WORDS);
+
+  // Speech keys
+  localStorage.removeItem(SETTINGS_KEYS.TTS_VOICE);
+  localStorage.removeItem(SETTINGS_KEYS.TTS_RATE);
+  localStorage.removeItem(SETTINGS_KEYS.TTS_PITCH);
+  localStorage.removeItem(SETTINGS_KEYS.TTS_SPEAK_VOCALIZED);
+
+  // Reading ruler keys
+  localStorage.removeItem(SETTINGS_KEYS.FOCUS_MASK_LINES);
+  localStorage.removeItem(SETTINGS_KEYS.FOCUS_MASK_STYLE);
+  localStorage.removeItem(SETTINGS_KEYS.FOCUS_MASK_OPACITY);
+  localStorage.removeItem(SETTINGS_KEYS.FOCUS_RULER_COLOR);
+
   // Navigation keys
   localStorage.removeItem(SETTINGS_KEYS.SYLLABLES_CURRENT_POSITION);
   localStorage.removeItem(SETTINGS_KEYS.SYLLABLES_RAW_RESPONSE);
@@ -663,6 +792,16 @@ export async function fetchSettingsFromServer(): Promise<AppSettings> {
       wordHighlightColor: serverSettings.wordHighlightColor || DEFAULT_WORD_HIGHLIGHT_COLOR,
       syllableHighlightColor: serverSettings.syllableHighlightColor || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR,
       letterHighlightColor: serverSettings.letterHighlightColor || DEFAULT_LETTER_HIGHLIGHT_COLOR,
+      pyramidWordJump: serverSettings.pyramidWordJump || DEFAULT_PYRAMID_WORD_JUMP,
+      pyramidNoBreakWords: serverSettings.pyramidNoBreakWords ?? DEFAULT_PYRAMID_NO_BREAK_WORDS,
+      ttsVoice: serverSettings.ttsVoice || DEFAULT_TTS_VOICE,
+      ttsRate: serverSettings.ttsRate || DEFAULT_TTS_RATE,
+      ttsPitch: serverSettings.ttsPitch || DEFAULT_TTS_PITCH,
+      ttsSpeakVocalized: serverSettings.ttsSpeakVocalized ?? DEFAULT_TTS_SPEAK_VOCALIZED,
+      focusMaskLines: serverSettings.focusMaskLines || DEFAULT_FOCUS_MASK_LINES,
+      focusMaskStyle: serverSettings.focusMaskStyle || DEFAULT_FOCUS_MASK_STYLE,
+      focusMaskOpacity: serverSettings.focusMaskOpacity ?? DEFAULT_FOCUS_MASK_OPACITY,
+      focusRulerColor: serverSettings.focusRulerColor || DEFAULT_FOCUS_RULER_COLOR,
     };
   } catch (error) {
     console.warn("[Settings] Failed to fetch from server, using localStorage:", error);
@@ -722,6 +861,111 @@ export async function saveSettingsToServer(settings: Partial<AppSettings>): Prom
   }
 }
 
+/**
+ * API key status reported by the server (the keys themselves are never sent back)
+ */
+export interface ApiKeyStatus {
+  hasNiqqudApiKey: boolean;
+  hasSyllablesApiKey: boolean;
+}
+
+/**
+ * Save API keys on the server, where they are stored encrypted
+ * Empty keys are skipped so a blank input keeps the stored key.
+ * @returns Error message, or null on success
+ */
+export async function saveApiKeysToServer(
+  keys: Pick<AppSettings, "niqqudApiKey" | "syllablesApiKey">
+): Promise<string | null> {
+  const body: Partial<AppSettings> = {};
+  if (keys.niqqudApiKey.trim()) {
+    body.niqqudApiKey = keys.niqqudApiKey.trim();
+  }
+  if (keys.syllablesApiKey.trim()) {
+    body.syllablesApiKey = keys.syllablesApiKey.trim();
+  }
+
+  if (Object.keys(body).length === 0) {
+    return null;
+  }
+
+  try {
+    const response = await fetch("/api/settings", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      return result.error || `API error: ${response.status}`;
+    }
+
+    return null;
+  } catch (error) {
+    console.error("[Settings] Failed to save API keys to server:", error);
+    return error instanceof Error ? error.message : "Failed to save API keys";
+  }
+}
+
+/**
+ * Move API keys saved in localStorage by older versions to the server
+ * The local copies are removed once the server has stored them.
+ */
+export async function migrateLocalApiKeysToServer(): Promise<void> {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const legacyApiKey = localStorage.getItem(SETTINGS_KEYS.API_KEY) || "";
+  const niqqudApiKey = localStorage.getItem(SETTINGS_KEYS.NIQQUD_API_KEY) || legacyApiKey;
+  const syllablesApiKey = localStorage.getItem(SETTINGS_KEYS.SYLLABLES_API_KEY) || legacyApiKey;
+
+  if (!niqqudApiKey && !syllablesApiKey) {
+    return;
+  }
+
+  const error = await saveApiKeysToServer({ niqqudApiKey, syllablesApiKey });
+  if (error) {
+    console.warn("[Settings] Could not move API keys to the server:", error);
+    return;
+  }
+
+  localStorage.removeItem(SETTINGS_KEYS.API_KEY);
+  localStorage.removeItem(SETTINGS_KEYS.NIQQUD_API_KEY);
+  localStorage.removeItem(SETTINGS_KEYS.SYLLABLES_API_KEY);
+  console.log("[Settings] Moved API keys from localStorage to the server");
+}
+
+/**
+ * Ask the server whether API keys are available for the current user
+ * (the user's own keys or keys configured on the server)
+ */
+export async function fetchApiKeyStatus(): Promise<ApiKeyStatus> {
+  try {
+    const response = await fetch("/api/settings", {
+      method: "GET",
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return {
+      hasNiqqudApiKey: result.hasNiqqudApiKey === true,
+      hasSyllablesApiKey: result.hasSyllablesApiKey === true,
+    };
+  } catch (error) {
+    console.warn("[Settings] Failed to fetch API key status:", error);
+    return { hasNiqqudApiKey: false, hasSyllablesApiKey: false };
+  }
+}
+
 /**
  * Get wordSpacing preference
  * For authenticated users: prefers preferences from Supabase
@@ -817,6 +1061,196 @@ export async function saveFontFamily(fontFamily: string): Promise<void> {
   }
 }
 
+/**
+ * Get the auto-advance reading tempo
+ * For authenticated users: from Supabase preferences (falls back to localStorage)
+ * For unauthenticated users: from localStorage
+ */
+export async function getReadingTempo(): Promise<ReadingTempo> {
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    const preferences = await getUserPreferencesClient();
+    if (preferences?.readingTempo !== undefined) {
+      return normalizeReadingTempo(preferences.readingTempo);
+    }
+  }
+
+  if (typeof window !== "undefined") {
+    const saved = localStorage.getItem(SETTINGS_KEYS.READING_TEMPO);
+    if (saved !== null) {
+      try {
+        return normalizeReadingTempo(JSON.parse(saved));
+      } catch {
+        // Invalid JSON - use the default
+      }
+    }
+  }
+
+  return normalizeReadingTempo(undefined);
+}
+
+/**
+ * Save the auto-advance reading tempo
+ * For authenticated users: saves to both Supabase preferences and localStorage
+ * For unauthenticated users: saves only to localStorage
+ */
+export async function saveReadingTempo(readingTempo: ReadingTempo): Promise<void> {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(SETTINGS_KEYS.READING_TEMPO, JSON.stringify(readingTempo));
+  }
+
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    await saveUserPreferencesClient({ readingTempo });
+  }
+}
+
+/**
+ * Get the keyboard shortcuts of the reading view
+ * For authenticated users: from Supabase preferences (falls back to localStorage)
+ * For unauthenticated users: from localStorage
+ */
+export async function getKeyboardShortcuts(): Promise<ShortcutMap> {
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    const preferences = await getUserPreferencesClient();
+    if (preferences?.keyboardShortcuts !== undefined) {
+      return normalizeShortcutMap(preferences.keyboardShortcuts);
+    }
+  }
+
+  if (typeof window !== "undefined") {
+    const saved = localStorage.getItem(SETTINGS_KEYS.KEYBOARD_SHORTCUTS);
+    if (saved !== null) {
+      try {
+        return normalizeShortcutMap(JSON.parse(saved));
+      } catch {
+        // Invalid JSON - use the defaults
+      }
+    }
+  }
+
+  return normalizeShortcutMap(undefined);
+}
+
+/**
+ * Save the keyboard shortcuts of the reading view
+ * For authenticated users: saves to both Supabase preferences and localStorage
+ * For unauthenticated users: saves only to localStorage
+ */
+export async function saveKeyboardShortcuts(keyboardShortcuts: ShortcutMap): Promise<void> {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(SETTINGS_KEYS.KEYBOARD_SHORTCUTS, JSON.stringify(keyboardShortcuts));
+  }
+
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    await saveUserPreferencesClient({ keyboardShortcuts });
+  }
+}
+
+/**
+ * Get the user's syllable corrections
+ * For authenticated users: from Supabase preferences (falls back to localStorage)
+ * For unauthenticated users: from localStorage
+ */
+export async function getSyllableOverrides(): Promise<SyllableOverrides> {
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    const preferences = await getUserPreferencesClient();
+    if (preferences?.syllableOverrides !== undefined) {
+      return normalizeSyllableOverrides(preferences.syllableOverrides);
+    }
+  }
+
+  if (typeof window !== "undefined") {
+    const saved = localStorage.getItem(SETTINGS_KEYS.SYLLABLE_OVERRIDES);
+    if (saved !== null) {
+      try {
+        return normalizeSyllableOverrides(JSON.parse(saved));
+      } catch {
+        // Invalid JSON - no corrections
+      }
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Save the user's syllable corrections
+ * For authenticated users: saves to both Supabase preferences and localStorage
+ * For unauthenticated users: saves only to localStorage
+ */
+export async function saveSyllableOverrides(syllableOverrides: SyllableOverrides): Promise<void> {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(SETTINGS_KEYS.SYLLABLE_OVERRIDES, JSON.stringify(syllableOverrides));
+  }
+
+  const isAuth = await isAuthenticatedClient();
+  if (isAuth) {
+    await saveUserPreferencesClient({ syllableOverrides });
+  }
+}
+
+/**
+ * Get the reading pyramid settings
+ * The user's own settings (localStorage) take precedence; settings the user never
+ * changed come from the app defaults set by administrators.
+ */
+export async function getReadingPyramidSettings(): Promise<ReadingPyramidSettings> {
+  const settings = getSettings();
+  const hasUserWordJump =
+    typeof window !== "undefined" && localStorage.getItem(SETTINGS_KEYS.PYRAMID_WORD_JUMP) !== null;
+  const hasUserNoBreakWords =
+    typeof window !== "undefined" && localStorage.getItem(SETTINGS_KEYS.PYRAMID_NO_BREAK_WORDS) !== null;
+  if (hasUserWordJump && hasUserNoBreakWords) {
+    return { wordJump: settings.pyramidWordJump, noBreakWords: settings.pyramidNoBreakWords };
+  }
+
+  const appDefaults = await getAppDefaults();
+  return {
+    wordJump: hasUserWordJump
+      ? settings.pyramidWordJump
+      : normalizeWordJump((appDefaults.pyramidWordJump as number) ?? DEFAULT_PYRAMID_WORD_JUMP),
+    noBreakWords: hasUserNoBreakWords
+      ? settings.pyramidNoBreakWords
+      : (appDefaults.pyramidNoBreakWords as string[]) ?? DEFAULT_PYRAMID_NO_BREAK_WORDS,
+  };
+}
+
+/**
+ * Get the reading ruler settings
+ * As with the pyramid settings, settings the user never changed come from the
+ * app defaults set by administrators.
+ */
+export async function getFocusMaskSettings(): Promise<FocusMaskSettings> {
+  const settings = getSettings();
+  const hasUserSetting = (key: string) => typeof window !== "undefined" && localStorage.getItem(key) !== null;
+  const keys = [
+    SETTINGS_KEYS.FOCUS_MASK_LINES,
+    SETTINGS_KEYS.FOCUS_MASK_STYLE,
+    SETTINGS_KEYS.FOCUS_MASK_OPACITY,
+    SETTINGS_KEYS.FOCUS_RULER_COLOR,
+  ];
+  const appDefaults: Partial<AppSettings> = keys.every(hasUserSetting) ? {} : await getAppDefaults();
+
+  return {
+    lines: hasUserSetting(SETTINGS_KEYS.FOCUS_MASK_LINES)
+      ? settings.focusMaskLines
+      : normalizeFocusMaskLines((appDefaults.focusMaskLines as number) ?? DEFAULT_FOCUS_MASK_LINES),
+    style: hasUserSetting(SETTINGS_KEYS.FOCUS_MASK_STYLE)
+      ? settings.focusMaskStyle
+      : appDefaults.focusMaskStyle === "blur" ? "blur" : DEFAULT_FOCUS_MASK_STYLE,
+    opacity: hasUserSetting(SETTINGS_KEYS.FOCUS_MASK_OPACITY)
+      ? settings.focusMaskOpacity
+      : normalizeFocusMaskOpacity((appDefaults.focusMaskOpacity as number) ?? DEFAULT_FOCUS_MASK_OPACITY),
+    rulerColor: hasUserSetting(SETTINGS_KEYS.FOCUS_RULER_COLOR)
+      ? settings.focusRulerColor
+      : (appDefaults.focusRulerColor as string) || DEFAULT_FOCUS_RULER_COLOR,
+  };
+}
+
 /**
  * Get app defaults from server API
  * This function fetches site-wide default values set by administrators
@@ -886,6 +1320,16 @@ export async function getSettingsWithDefaults(): Promise<AppSettings> {
     wordHighlightColor: userSettings.wordHighlightColor || (appDefaults.wordHighlightColor as string) || DEFAULT_WORD_HIGHLIGHT_COLOR,
     syllableHighlightColor: userSettings.syllableHighlightColor || (appDefaults.syllableHighlightColor as string) || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR,
     letterHighlightColor: userSettings.letterHighlightColor || (appDefaults.letterHighlightColor as string) || DEFAULT_LETTER_HIGHLIGHT_COLOR,
+    pyramidWordJump: userSettings.pyramidWordJump ?? (appDefaults.pyramidWordJump as number) ?? DEFAULT_PYRAMID_WORD_JUMP,
+    pyramidNoBreakWords: userSettings.pyramidNoBreakWords ?? (appDefaults.pyramidNoBreakWords as string[]) ?? DEFAULT_PYRAMID_NO_BREAK_WORDS,
+    ttsVoice: userSettings.ttsVoice || (appDefaults.ttsVoice as string) || DEFAULT_TTS_VOICE,
+    ttsRate: userSettings.ttsRate ?? (appDefaults.ttsRate as number) ?? DEFAULT_TTS_RATE,
+    ttsPitch: userSettings.ttsPitch ?? (appDefaults.ttsPitch as number) ?? DEFAULT_TTS_PITCH,
+    ttsSpeakVocalized: userSettings.ttsSpeakVocalized ?? (appDefaults.ttsSpeakVocalized as boolean) ?? DEFAULT_TTS_SPEAK_VOCALIZED,
+    focusMaskLines: userSettings.focusMaskLines ?? (appDefaults.focusMaskLines as number) ?? DEFAULT_FOCUS_MASK_LINES,
+    focusMaskStyle: userSettings.focusMaskStyle || (appDefaults.focusMaskStyle as FocusMaskStyle) || DEFAULT_FOCUS_MASK_STYLE,
+    focusMaskOpacity: userSettings.focusMaskOpacity ?? (appDefaults.focusMaskOpacity as number) ?? DEFAULT_FOCUS_MASK_OPACITY,
+    focusRulerColor: userSettings.focusRulerColor || (appDefaults.focusRulerColor as string) || DEFAULT_FOCUS_RULER_COLOR,
   };
 }
 
@@ -925,6 +1369,16 @@ export async function resetToDefaults(): Promise<boolean> {
       wordHighlightColor: (defaults.wordHighlightColor as string) || DEFAULT_WORD_HIGHLIGHT_COLOR,
       syllableHighlightColor: (defaults.syllableHighlightColor as string) || DEFAULT_SYLLABLE_HIGHLIGHT_COLOR,
       letterHighlightColor: (defaults.letterHighlightColor as string) || DEFAULT_LETTER_HIGHLIGHT_COLOR,
+      pyramidWordJump: (defaults.pyramidWordJump as number) ?? DEFAULT_PYRAMID_WORD_JUMP,
+      pyramidNoBreakWords: (defaults.pyramidNoBreakWords as string[]) ?? DEFAULT_PYRAMID_NO_BREAK_WORDS,
+      ttsVoice: (defaults.ttsVoice as string) || DEFAULT_TTS_VOICE,
+      ttsRate: (defaults.ttsRate as number) ?? DEFAULT_TTS_RATE,
+      ttsPitch: (defaults.ttsPitch as number) ?? DEFAULT_TTS_PITCH,
+      ttsSpeakVocalized: (defaults.ttsSpeakVocalized as boolean) ?? DEFAULT_TTS_SPEAK_VOCALIZED,
+      focusMaskLines: (defaults.focusMaskLines as number) ?? DEFAULT_FOCUS_MASK_LINES,
+      focusMaskStyle: (defaults.focusMaskStyle as FocusMaskStyle) || DEFAULT_FOCUS_MASK_STYLE,
+      focusMaskOpacity: (defaults.focusMaskOpacity as number) ?? DEFAULT_FOCUS_MASK_OPACITY,
+      focusRulerColor: (defaults.focusRulerColor as string) || DEFAULT_FOCUS_RULER_COLOR,
     };
 
     // Save reset values to localStorage
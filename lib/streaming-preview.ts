@@ -0,0 +1,56 @@
+/**
+ * Previews of partial model output while a response is streaming
+ */
+
+import { parseSyllablesResponse, SyllablesData } from "./syllables";
+
+/**
+ * Keep only the complete part of a streamed response, up to the last separator
+ * The text after it may be a word or line that is still arriving.
+ * @param partial - Model output received so far
+ * @param upToLastSeparator - Greedy pattern matching up to the last separator
+ */
+function completePart(partial: string, upToLastSeparator: RegExp): string {
+  return partial.match(upToLastSeparator)?.[0] ?? "";
+}
+
+/**
+ * Show streamed niqqud over the original text
+ * Complete words from the stream replace the original words in order; the rest
+ * of the original text (and all of its whitespace) is kept as it is.
+ * @param original - Text sent to the model
+ * @param partial - Model output received so far
+ * @returns Text to display while streaming
+ */
+export function overlayStreamedWords(original: string, partial: string): string {
+  const streamedWords = completePart(partial, /^[\s\S]*\s/).split(/\s+/).filter((word) => word.length > 0);
+  if (streamedWords.length === 0) {
+    return original;
+  }
+
+  let wordIndex = 0;
+  return original
+    .split(/(\s+)/)
+    .map((token) => {
+      if (token.length === 0 || /^\s+$/.test(token)) {
+        return token;
+      }
+      const streamed = streamedWords[wordIndex++];
+      return streamed ?? token;
+    })
+    .join("");
+}
+
+/**
+ * Parse the complete lines of a streamed syllables response
+ * @param partial - Model output received so far
+ * @returns Syllables for the words received so far, or null if none are complete
+ */
+export function parsePartialSyllablesResponse(partial: string): SyllablesData | null {
+  // Drop an unterminated markdown fence so the complete lines still parse
+  const complete = completePart(partial, /^[\s\S]*\n/).replace(/^\s*```[a-z]*\s*\n/, "");
+  if (!complete.trim()) {
+    return null;
+  }
+  return parseSyllablesResponse(complete);
+}
@@ -0,0 +1,32 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+
+/**
+ * Check whether the service role key is configured (server-side tables are used)
+ */
+export function isServiceRoleConfigured() {
+  return !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY)
+}
+
+/**
+ * Supabase client with the service role key (Server-side only)
+ * Bypasses row level security, so it must only be used in API routes for
+ * tables that users never access directly (e.g. model_result_cache).
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      'Missing Supabase service role environment variables. Please check your environment variables.'
+    )
+  }
+
+  return createSupabaseClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
@@ -60,6 +60,132 @@ export type Database = {
         }
         Relationships: []
       }
+      documents: {
+        Row: {
+          audio: Json | null
+          bookmarks: Json
+          created_at: string
+          display_mode: string
+          folder: string
+          id: string
+          niqqud: Json | null
+          position: Json | null
+          position_anchor: Json | null
+          syllables: Json | null
+          tags: string[]
+          text: string
+          title: string
+          updated_at: string
+          user_id: string
+          word_timings: Json
+        }
+        Insert: {
+          audio?: Json | null
+          bookmarks?: Json
+          created_at?: string
+          display_mode?: string
+          folder?: string
+          id: string
+          niqqud?: Json | null
+          position?: Json | null
+          position_anchor?: Json | null
+          syllables?: Json | null
+          tags?: string[]
+          text?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+          word_timings?: Json
+        }
+        Update: {
+          audio?: Json | null
+          bookmarks?: Json
+          created_at?: string
+          display_mode?: string
+          folder?: string
+          id?: string
+          niqqud?: Json | null
+          position?: Json | null
+          position_anchor?: Json | null
+          syllables?: Json | null
+          tags?: string[]
+          text?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          word_timings?: Json
+        }
+        Relationships: []
+      }
+      model_result_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          hits: number
+          last_hit_at: string | null
+          model: string
+          prompt_version: string
+          result: Json
+          task: string
+          temperature: number | null
+          text_hash: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          hits?: number
+          last_hit_at?: string | null
+          model: string
+          prompt_version: string
+          result: Json
+          task: string
+          temperature?: number | null
+          text_hash: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          hits?: number
+          last_hit_at?: string | null
+          model?: string
+          prompt_version?: string
+          result?: Json
+          task?: string
+          temperature?: number | null
+          text_hash?: string
+        }
+        Relationships: []
+      }
+      processed_texts: {
+        Row: {
+          created_at: string
+          kind: string
+          result: Json
+          text: string
+          text_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          kind: string
+          result: Json
+          text: string
+          text_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          kind?: string
+          result?: Json
+          text?: string
+          text_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
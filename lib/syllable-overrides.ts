@@ -0,0 +1,138 @@
+/**
+ * Syllable corrections made by the user
+ * When a word is divided wrongly, the user splits or merges its syllables in
+ * syllables view. The corrected word is kept in a per-user dictionary keyed by
+ * the vocalized word, and later divisions of that word use it instead of the
+ * model's (or the rule-based syllabifier's) result.
+ */
+
+import { removeNiqqud } from "./niqqud";
+import { SyllablesData, SyllableWord, splitWordAtSyllables } from "./syllables";
+
+/**
+ * Corrected words keyed by the vocalized word (see getSyllableOverrideKey)
+ */
+export type SyllableOverrides = Record<string, SyllableWord>;
+
+const BASE_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Dictionary key of a word: its letters and niqqud, without punctuation
+ * Marks are put in canonical order, so the same word typed differently matches.
+ */
+export function getSyllableOverrideKey(word: string): string {
+  return word.normalize("NFC").replace(/[^\p{L}\p{M}\p{N}]/gu, "");
+}
+
+/**
+ * Create the dictionary entry of a corrected word
+ * @param word - The vocalized word as it appears in the text
+ * @param syllables - Its corrected syllables (any niqqud version of the word)
+ * @returns The key and entry, or null if the syllables don't have the word's letters
+ */
+export function createSyllableOverride(
+  word: string,
+  syllables: string[]
+): { key: string; entry: SyllableWord } | null {
+  const key = getSyllableOverrideKey(word);
+  const spans = key ? splitWordAtSyllables(key, syllables) : null;
+  if (!spans) {
+    return null;
+  }
+  return {
+    key,
+    entry: { word: removeNiqqud(key), syllables: spans.map((span) => key.slice(span.start, span.end)) },
+  };
+}
+
+/**
+ * Divide the words found in the dictionary as the user corrected them
+ * Syllables are still sliced out of each word, so its niqqud and punctuation are
+ * kept; offsets of anchored words are updated too.
+ * @returns The same data when no word was corrected
+ */
+export function applySyllableOverrides(data: SyllablesData, overrides: SyllableOverrides): SyllablesData {
+  if (Object.keys(overrides).length === 0) {
+    return data;
+  }
+
+  let changed = false;
+  const words = data.words.map((entry) => {
+    const text = entry.syllables.join("");
+    const override = overrides[getSyllableOverrideKey(text)];
+    const spans = override && splitWordAtSyllables(text, override.syllables);
+    if (!spans) {
+      return entry;
+    }
+    const syllables = spans.map((span) => text.slice(span.start, span.end));
+    if (syllables.join("-") === entry.syllables.join("-")) {
+      return entry;
+    }
+    changed = true;
+    const start = entry.start;
+    return {
+      ...entry,
+      syllables,
+      ...(start !== undefined && {
+        syllableSpans: spans.map((span) => ({ start: start + span.start, end: start + span.end })),
+      }),
+    };
+  });
+
+  return changed ? { ...data, words } : data;
+}
+
+/**
+ * Split a syllable before one of its letters
+ * @param charIndex - Index in the syllable of the letter that opens the new syllable
+ * @returns The new syllables, or null when both parts would not have letters
+ */
+export function splitSyllable(syllables: string[], syllableIndex: number, charIndex: number): string[] | null {
+  const syllable = syllables[syllableIndex];
+  if (syllable === undefined) {
+    return null;
+  }
+  const before = syllable.slice(0, charIndex);
+  const after = syllable.slice(charIndex);
+  if (!BASE_CHARACTER.test(before) || !BASE_CHARACTER.test(after)) {
+    return null;
+  }
+  return [...syllables.slice(0, syllableIndex), before, after, ...syllables.slice(syllableIndex + 1)];
+}
+
+/**
+ * Merge a syllable with the one after it
+ * @returns The new syllables, or null when it is the last syllable
+ */
+export function mergeSyllables(syllables: string[], syllableIndex: number): string[] | null {
+  if (syllableIndex < 0 || syllableIndex >= syllables.length - 1) {
+    return null;
+  }
+  return [
+    ...syllables.slice(0, syllableIndex),
+    syllables[syllableIndex] + syllables[syllableIndex + 1],
+    ...syllables.slice(syllableIndex + 2),
+  ];
+}
+
+/**
+ * Validate a stored dictionary, dropping invalid entries
+ */
+export function normalizeSyllableOverrides(value: unknown): SyllableOverrides {
+  const overrides: SyllableOverrides = {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return overrides;
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    const syllables = (entry as Partial<SyllableWord> | null)?.syllables;
+    if (
+      Array.isArray(syllables) &&
+      syllables.length > 0 &&
+      syllables.every((syllable) => typeof syllable === "string") &&
+      syllables.join("") === key
+    ) {
+      overrides[key] = { word: removeNiqqud(key), syllables };
+    }
+  }
+  return overrides;
+}
@@ -0,0 +1,259 @@
+/**
+ * Persistent syllables cache (browser)
+ * Entries are stored in IndexedDB (lib/browser-cache-store.ts), keyed by the
+ * SHA-256 hash of the trimmed text, and evicted least-recently-used first once
+ * the entry or size limit is reached.
+ * Entries written to localStorage by earlier versions are moved here on first use.
+ */
+
+import {
+  AnchoredSyllablesData,
+  SyllablesData,
+  anchorSyllablesData,
+  createTextHash,
+  isAnchoredSyllablesData,
+} from "./syllables";
+import {
+  BrowserCacheStore,
+  CacheLimits,
+  CacheRecord,
+  CacheUsage,
+  DEFAULT_CACHE_LIMITS,
+  estimateRecordSize,
+  getCacheRecord,
+  getCacheUsage,
+  openBrowserCacheStore,
+  putCacheRecord,
+} from "./browser-cache-store";
+
+/**
+ * Prefix of the localStorage keys used before the IndexedDB cache
+ * (one key per text plus the `syllables_cache_all` copy of all of them)
+ */
+const LEGACY_KEY_PREFIX = "syllables_cache_";
+
+export interface SyllablesCacheEntry extends CacheRecord {
+  data: AnchoredSyllablesData;
+}
+
+export interface SyllablesCacheSaveOptions {
+  limits?: CacheLimits; // Entry and size limits (least recently used entries are evicted)
+  updatedAt?: number; // When the result was produced (default: now; kept when syncing)
+}
+
+type SyllablesCacheStore = BrowserCacheStore<SyllablesCacheEntry>;
+
+let storePromise: Promise<SyllablesCacheStore> | null = null;
+
+/**
+ * Open the cache store once per page and move legacy localStorage entries into it
+ */
+function getStore(): Promise<SyllablesCacheStore> {
+  if (!storePromise) {
+    storePromise = (async () => {
+      const store = await openBrowserCacheStore<SyllablesCacheEntry>("syllables");
+      await migrateLegacyEntries(store);
+      return store;
+    })();
+  }
+  return storePromise;
+}
+
+/**
+ * Write the anchored entry of a (trimmed) text
+ */
+async function putEntry(
+  store: SyllablesCacheStore,
+  text: string,
+  data: SyllablesData,
+  options: SyllablesCacheSaveOptions = {}
+): Promise<void> {
+  const anchored = anchorSyllablesData(text, data);
+  const now = Date.now();
+  await putCacheRecord(
+    store,
+    {
+      key: await createTextHash(text),
+      text,
+      data: anchored,
+      size: estimateRecordSize(text, anchored),
+      createdAt: now,
+      updatedAt: options.updatedAt ?? now,
+      lastAccessed: now,
+    },
+    options.limits ?? DEFAULT_CACHE_LIMITS
+  );
+}
+
+/**
+ * Move entries saved in localStorage by earlier versions into the store
+ * Each text is kept once (the per-text keys and `syllables_cache_all` overlap)
+ * and the localStorage keys are removed afterwards.
+ */
+async function migrateLegacyEntries(store: SyllablesCacheStore): Promise<number> {
+  if (typeof localStorage === "undefined") {
+    return 0;
+  }
+
+  const legacyKeys: string[] = [];
+  const entries = new Map<string, { text: string; data: SyllablesData; timestamp?: number }>();
+
+  const collect = (value: unknown) => {
+    const entry = value as { text?: unknown; data?: SyllablesData; timestamp?: number } | null;
+    if (entry && typeof entry.text === "string" && Array.isArray(entry.data?.words)) {
+      const text = entry.text.trim();
+      const known = entries.get(text);
+      if (!known || (entry.timestamp ?? 0) > (known.timestamp ?? 0)) {
+        entries.set(text, { text, data: entry.data, timestamp: entry.timestamp });
+      }
+    }
+  };
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(LEGACY_KEY_PREFIX)) {
+      legacyKeys.push(key);
+    }
+  }
+
+  for (const key of legacyKeys) {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || "null");
+      if (key === `${LEGACY_KEY_PREFIX}all`) {
+        Object.values((parsed as Record<string, unknown>) || {}).forEach(collect);
+      } else {
+        collect(parsed);
+      }
+    } catch (error) {
+      console.warn(`[SyllablesCache] Skipping unreadable legacy entry ${key}:`, error);
+    }
+  }
+
+  if (legacyKeys.length === 0) {
+    return 0;
+  }
+
+  let migrated = 0;
+  for (const entry of entries.values()) {
+    try {
+      await putEntry(store, entry.text, entry.data, { updatedAt: entry.timestamp });
+      migrated++;
+    } catch (error) {
+      console.warn("[SyllablesCache] Failed to migrate legacy entry:", error);
+    }
+  }
+
+  legacyKeys.forEach((key) => localStorage.removeItem(key));
+  console.log(`[SyllablesCache] Migrated ${migrated} entries from localStorage`);
+  return migrated;
+}
+
+/**
+ * Move legacy localStorage entries into the cache now
+ * Runs automatically when the cache is first used; safe to call again.
+ * @returns Number of migrated texts
+ */
+export async function migrateLegacySyllablesCache(): Promise<number> {
+  try {
+    return await migrateLegacyEntries(await getStore());
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to migrate legacy cache:", error);
+    return 0;
+  }
+}
+
+/**
+ * Save syllables data for a text
+ * Data is anchored to the (trimmed) text before saving, so entries are always v2.
+ */
+export async function saveSyllablesToCache(
+  text: string,
+  data: SyllablesData,
+  options: SyllablesCacheSaveOptions = {}
+): Promise<void> {
+  try {
+    await putEntry(await getStore(), text.trim(), data, options);
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to save to cache:", error);
+  }
+}
+
+/**
+ * Load syllables data for a text
+ * Reading an entry marks it as recently used.
+ * @returns Anchored data, or null when the text is not cached
+ */
+export async function loadSyllablesFromCache(text: string): Promise<AnchoredSyllablesData | null> {
+  try {
+    const store = await getStore();
+    const trimmed = text.trim();
+    // Different texts may share a hash: only the stored text's entry matches
+    const entry = await getCacheRecord(store, await createTextHash(trimmed), trimmed);
+    if (!entry) {
+      return null;
+    }
+
+    if (!isAnchoredSyllablesData(entry.data)) {
+      const migrated = anchorSyllablesData(entry.text, entry.data);
+      await store.put({ ...entry, data: migrated });
+      return migrated;
+    }
+    return entry.data;
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to load from cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Get all cached entries (used to sync the cache with the user's account)
+ */
+export async function getAllSyllablesCacheEntries(): Promise<SyllablesCacheEntry[]> {
+  try {
+    return await (await getStore()).getAll();
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to read cache entries:", error);
+    return [];
+  }
+}
+
+/**
+ * Clear the cached syllables of a text
+ */
+export async function clearSyllablesCache(text: string): Promise<void> {
+  try {
+    const store = await getStore();
+    const trimmed = text.trim();
+    const key = await createTextHash(trimmed);
+    const entry = await store.get(key);
+    if (entry && entry.text === trimmed) {
+      await store.delete([key]);
+    }
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to clear cache:", error);
+  }
+}
+
+/**
+ * Clear all cached syllables
+ */
+export async function clearAllSyllablesCache(): Promise<void> {
+  try {
+    await (await getStore()).clear();
+    console.log("[SyllablesCache] Cleared all cache entries");
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to clear all cache:", error);
+  }
+}
+
+/**
+ * Get the number of cached texts and their approximate size in bytes
+ */
+export async function getSyllablesCacheUsage(): Promise<CacheUsage> {
+  try {
+    return await getCacheUsage(await getStore());
+  } catch (error) {
+    console.error("[SyllablesCache] Failed to read cache usage:", error);
+    return { entries: 0, bytes: 0 };
+  }
+}
@@ -1,17 +1,67 @@
 /**
  * Hebrew syllables division utilities
- * Handles parsing, caching, and formatting of syllable division data
+ * Handles parsing, anchoring, and formatting of syllable division data
+ * (the persistent cache is in lib/syllables-cache.ts)
  */
 
+import { removeNiqqud, isNiqqudMark, isHebrewLetter } from "./niqqud";
+import { alignWords } from "./consonant-guard";
+
+/**
+ * Current version of the syllables data format
+ * - v1: words with niqqud-stripped `word` and `syllables` strings only
+ * - v2: every word and syllable is anchored to character offsets in the source
+ *   text, with the line and paragraph the word is on
+ */
+export const SYLLABLES_DATA_VERSION = 2;
+
+/**
+ * Character range in a source text (end is exclusive)
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
 export interface SyllableWord {
   word: string;
   syllables: string[];
+  /** Offsets of the word in the source text (v2) */
+  start?: number;
+  end?: number;
+  /** Offsets of each syllable in the source text, parallel to `syllables` (v2) */
+  syllableSpans?: TextSpan[];
+  /** Zero-based line of the word (lines are separated by "\n") (v2) */
+  lineIndex?: number;
+  /** Zero-based paragraph of the word (paragraphs are separated by blank lines) (v2) */
+  paragraphIndex?: number;
 }
 
 export interface SyllablesData {
+  /** Format version - missing on v1 entries and raw model output */
+  version?: number;
   words: SyllableWord[];
 }
 
+/**
+ * A word whose offsets and line/paragraph index are known
+ */
+export interface AnchoredSyllableWord extends SyllableWord {
+  start: number;
+  end: number;
+  syllableSpans: TextSpan[];
+  lineIndex: number;
+  paragraphIndex: number;
+}
+
+/**
+ * Syllables data anchored to a specific source text (v2)
+ */
+export interface AnchoredSyllablesData extends SyllablesData {
+  version: typeof SYLLABLES_DATA_VERSION;
+  words: AnchoredSyllableWord[];
+}
+
 /**
  * Create a hash from text for cache key generation
  * Uses Web Crypto API for SHA-256 hashing
@@ -49,27 +99,6 @@ export async function createTextHash(text: string): Promise<string> {
   }
 }
 
-/**
- * Synchronous version of createTextHash for cases where async is not needed
- */
-export function createTextHashSync(text: string): string {
-  let hash = 0;
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
-}
-
-/**
- * Get cache key for syllables data
- */
-export function getSyllablesCacheKey(text: string): string {
-  const hash = createTextHashSync(text);
-  return `syllables_cache_${hash}`;
-}
-
 /**
  * Parse syllables response from language model
  * Handles text format: each line is a word with syllables separated by hyphens
@@ -138,10 +167,10 @@ export function parseSyllablesResponse(
 
         // Remove separators from the original word to get the base word
         // This is an approximation - we'll use the syllables joined together
-        const baseWord = syllables.join("").replace(/[\u0591-\u05C7]/g, ""); // Remove niqqud marks for comparison
+        const baseWord = removeNiqqud(syllables.join("")); // Remove niqqud marks for comparison
 
         // If we can't extract a clean base word, use the first syllable without niqqud
-        const word = baseWord || syllables[0].replace(/[\u0591-\u05C7]/g, "") || wordText.replace(/[-*\s]/g, "");
+        const word = baseWord || removeNiqqud(syllables[0]) || wordText.replace(/[-*\s]/g, "");
 
         validWords.push({
           word: word,
@@ -183,184 +212,399 @@ export function formatSyllablesForDisplay(
   }));
 }
 
+// Niqqud code points used by the rule-based syllabifier
+const SHVA = "\u05B0";
+const HATAF_VOWELS = ["\u05B1", "\u05B2", "\u05B3"];
+// Tsere, qamats, holam, holam haser for vav
+// Qamats is treated as gadol unless written as qamats qatan (U+05C7)
+const LONG_VOWELS = ["\u05B5", "\u05B8", "\u05B9", "\u05BA"];
+// Hiriq, segol, patach, qubuts, qamats qatan
+const SHORT_VOWELS = ["\u05B4", "\u05B6", "\u05B7", "\u05BB", "\u05C7"];
+const HIRIQ = "\u05B4";
+const TSERE = "\u05B5";
+const PATACH = "\u05B7";
+const HOLAM_MARKS = ["\u05B9", "\u05BA"];
+const DAGESH = "\u05BC";
+const MAQAF = "\u05BE";
+const BEGADKEFET = "בגדכפת";
+const MATRES_LECTIONIS = "אהי";
+const FURTIVE_GUTTURALS = "חע";
+
 /**
- * Save syllables data to localStorage
+ * A Hebrew letter with the marks and punctuation that follow it
  */
-export function saveSyllablesToCache(
-  text: string,
-  data: SyllablesData
-): void {
-  if (typeof window === "undefined") {
-    return;
-  }
+interface LetterCluster {
+  letter: string;
+  marks: string;
+  /** Letter, marks and any trailing non-letter characters, in original order */
+  text: string;
+}
 
-  try {
-    const cacheKey = getSyllablesCacheKey(text);
-    const cacheData = {
-      text: text.trim(),
-      data,
-      timestamp: Date.now(),
-    };
-    localStorage.setItem(cacheKey, JSON.stringify(cacheData));
-  } catch (error) {
-    console.error("[Syllables] Failed to save to cache:", error);
+/**
+ * Split a word into letter clusters
+ * Characters before the first letter (e.g. an opening quote) are returned separately.
+ */
+function splitIntoClusters(word: string): { leading: string; clusters: LetterCluster[] } {
+  let leading = "";
+  const clusters: LetterCluster[] = [];
+
+  for (const char of word) {
+    const current = clusters[clusters.length - 1];
+    if (isHebrewLetter(char)) {
+      clusters.push({ letter: char, marks: "", text: char });
+    } else if (!current) {
+      leading += char;
+    } else {
+      if (isNiqqudMark(char)) {
+        current.marks += char;
+      }
+      current.text += char;
+    }
   }
+
+  return { leading, clusters };
+}
+
+function hasMark(cluster: LetterCluster, marks: string | string[]): boolean {
+  const list = Array.isArray(marks) ? marks : [marks];
+  return list.some((mark) => cluster.marks.includes(mark));
 }
 
 /**
- * Load syllables data from localStorage cache
+ * Whether the cluster carries a full or hataf vowel of its own
  */
-export function loadSyllablesFromCache(
-  text: string
-): SyllablesData | null {
-  if (typeof window === "undefined") {
-    return null;
+function hasVowel(cluster: LetterCluster): boolean {
+  return hasMark(cluster, [...LONG_VOWELS, ...SHORT_VOWELS, ...HATAF_VOWELS]);
+}
+
+/**
+ * Whether a vav at this position is a vowel letter (holam male or shuruk)
+ * rather than a consonant: the preceding letter has no vowel of its own, or
+ * (for shuruk) the vav opens the word.
+ */
+function isVowelVav(clusters: LetterCluster[], index: number): boolean {
+  const cluster = clusters[index];
+  if (cluster.letter !== "ו" || hasMark(cluster, SHVA)) {
+    return false;
   }
 
-  try {
-    const cacheKey = getSyllablesCacheKey(text);
-    const cached = localStorage.getItem(cacheKey);
+  const previous = clusters[index - 1];
+  const previousHasVowel = !!previous && (hasVowel(previous) || hasMark(previous, SHVA));
 
-    if (!cached) {
-      return null;
-    }
+  const isShuruk = hasMark(cluster, DAGESH) && !hasVowel(cluster);
+  if (isShuruk) {
+    return !previousHasVowel;
+  }
 
-    const cacheData = JSON.parse(cached) as {
-      text: string;
-      data: SyllablesData;
-      timestamp: number;
-    };
+  const isHolamMale = hasMark(cluster, HOLAM_MARKS) && !hasMark(cluster, [...SHORT_VOWELS, ...HATAF_VOWELS]);
+  return isHolamMale && !!previous && !previousHasVowel;
+}
 
-    // Verify that cached text matches current text
-    if (cacheData.text.trim() !== text.trim()) {
-      return null;
+/**
+ * Whether the letter before `index` ends a syllable with a long vowel
+ * Covers vowel letters (holam male, shuruk), long vowel marks, and hiriq/tsere
+ * followed by a silent yod.
+ */
+function precededByLongVowel(clusters: LetterCluster[], index: number): boolean {
+  let previousIndex = index - 1;
+  let previous = clusters[previousIndex];
+  if (!previous) return false;
+
+  // Skip a silent mater lectionis (bare yod/aleph/heh) back to the vowel it extends
+  if (previous.marks.length === 0 && MATRES_LECTIONIS.includes(previous.letter) && previousIndex > 0) {
+    const carrier = clusters[previousIndex - 1];
+    if (previous.letter === "י" && hasMark(carrier, [HIRIQ, TSERE])) {
+      return true;
     }
-
-    return cacheData.data;
-  } catch (error) {
-    console.error("[Syllables] Failed to load from cache:", error);
-    return null;
+    previousIndex -= 1;
+    previous = carrier;
   }
+
+  return isVowelVav(clusters, previousIndex) || hasMark(previous, LONG_VOWELS);
 }
 
 /**
- * Clear syllables cache for a specific text
+ * Whether the dagesh in the cluster at `index` is a dagesh chazak (doubling)
+ * A dagesh in a non-begadkefet letter is always chazak (except mappiq heh and
+ * shuruk); in a begadkefet letter it is chazak only after a vowel.
  */
-export function clearSyllablesCache(text: string): void {
-  if (typeof window === "undefined") {
-    return;
+function hasDageshChazak(clusters: LetterCluster[], index: number): boolean {
+  const cluster = clusters[index];
+  if (index === 0 || !hasMark(cluster, DAGESH) || isVowelVav(clusters, index)) {
+    return false;
   }
+  if (cluster.letter === "ה" && index === clusters.length - 1) {
+    return false; // Mappiq
+  }
+  if (!BEGADKEFET.includes(cluster.letter)) {
+    return true;
+  }
+  const previous = clusters[index - 1];
+  return hasVowel(previous) || isVowelVav(clusters, index - 1);
+}
 
-  try {
-    const cacheKey = getSyllablesCacheKey(text);
-    localStorage.removeItem(cacheKey);
-  } catch (error) {
-    console.error("[Syllables] Failed to clear cache:", error);
+/**
+ * Decide whether the shva on the cluster at `index` is a shva na (opens a syllable)
+ * Heuristics, in order:
+ * - Shva on the last letter, or on the first of two final shvas → nach
+ * - Shva on the first letter → na
+ * - Second of two consecutive shvas → na
+ * - Shva on a letter with dagesh chazak → na
+ * - Shva on the first of two identical letters → na
+ * - Shva after a long vowel → na
+ * - Otherwise → nach
+ */
+function isShvaNa(clusters: LetterCluster[], index: number): boolean {
+  const last = clusters.length - 1;
+  if (index === last) return false;
+  if (index === last - 1 && hasMark(clusters[last], SHVA)) return false;
+  if (index === 0) return true;
+  if (hasMark(clusters[index - 1], SHVA)) return true;
+  if (hasDageshChazak(clusters, index)) return true;
+  if (clusters[index + 1].letter === clusters[index].letter) return true;
+  return precededByLongVowel(clusters, index);
+}
+
+/**
+ * Whether the last cluster is a guttural with furtive patach (e.g. רוּחַ)
+ * The patach is read before the guttural, so it doesn't open a syllable.
+ */
+function isFurtivePatach(clusters: LetterCluster[], index: number): boolean {
+  const cluster = clusters[index];
+  if (index !== clusters.length - 1 || index === 0 || !hasMark(cluster, PATACH)) {
+    return false;
   }
+  const isGuttural =
+    FURTIVE_GUTTURALS.includes(cluster.letter) || (cluster.letter === "ה" && hasMark(cluster, DAGESH));
+  return isGuttural && precededByLongVowel(clusters, index);
 }
 
 /**
- * Clear all syllables cache entries from localStorage
+ * Divide a single maqaf-free word into syllables
  */
-export function clearAllSyllablesCache(): void {
-  if (typeof window === "undefined") {
-    return;
+function syllabifySimpleWord(word: string): string[] {
+  const { leading, clusters } = splitIntoClusters(word);
+  if (clusters.length === 0) {
+    return word.length > 0 ? [word] : [];
   }
 
-  try {
-    const keysToRemove: string[] = [];
+  const syllables: string[] = [];
+  clusters.forEach((cluster, index) => {
+    const next = clusters[index + 1];
+    let opensSyllable: boolean;
+
+    if (isVowelVav(clusters, index)) {
+      // Shuruk at the start of a word is a syllable of its own (וּ)
+      opensSyllable = index === 0;
+    } else if (isFurtivePatach(clusters, index)) {
+      opensSyllable = false;
+    } else if (hasVowel(cluster)) {
+      opensSyllable = true;
+    } else if (hasMark(cluster, SHVA)) {
+      opensSyllable = isShvaNa(clusters, index);
+    } else {
+      // A bare letter opens a syllable only when a vowel letter follows it (לוֹ, רוּ)
+      opensSyllable = !!next && isVowelVav(clusters, index + 1);
+    }
+
+    if (opensSyllable || syllables.length === 0) {
+      syllables.push(cluster.text);
+    } else {
+      syllables[syllables.length - 1] += cluster.text;
+    }
+  });
+
+  syllables[0] = leading + syllables[0];
+  return syllables;
+}
 
-    // Iterate through all localStorage keys
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith("syllables_cache_")) {
-        keysToRemove.push(key);
+/**
+ * Divide a vocalized word into syllables using Hebrew phonology rules
+ * Words joined by maqaf are divided separately; the maqaf stays on the last
+ * syllable of the first word. Punctuation stays attached to its syllable.
+ * @param word - Word with full niqqud
+ * @returns Syllables in reading order (joined, they equal the input word)
+ */
+export function syllabifyWord(word: string): string[] {
+  const parts = word.split(MAQAF);
+  const syllables: string[] = [];
+
+  parts.forEach((part, index) => {
+    const partSyllables = syllabifySimpleWord(part);
+    if (index < parts.length - 1) {
+      if (partSyllables.length === 0) {
+        partSyllables.push("");
       }
+      partSyllables[partSyllables.length - 1] += MAQAF;
     }
+    syllables.push(...partSyllables.filter((syllable) => syllable.length > 0));
+  });
 
-    // Remove all syllables cache keys
-    keysToRemove.forEach((key) => {
-      localStorage.removeItem(key);
-    });
+  return syllables;
+}
 
-    console.log(`[Syllables] Cleared ${keysToRemove.length} cache entries`);
-  } catch (error) {
-    console.error("[Syllables] Failed to clear all cache:", error);
+/**
+ * Divide fully vocalized text into syllables without calling a language model
+ * Rule-based: handles shva na/nach heuristics, dagesh chazak, furtive patach and
+ * vav as holam/shuruk. Results are only reliable for text with full niqqud.
+ * @param text - Text with full niqqud
+ * @returns Syllables data in the same format as parseSyllablesResponse
+ */
+export function syllabifyText(text: string): SyllablesData {
+  const words = text
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .map((word) => ({
+      word: removeNiqqud(word),
+      syllables: syllabifyWord(word),
+    }));
+
+  return { words };
+}
+
+/**
+ * Find words whose syllable division differs between two results
+ * Used to cross-check model output against the rule-based syllabifier.
+ * Words are compared by index, so both results must describe the same text.
+ * @returns Indices of the words that were divided differently
+ */
+export function findSyllableDisagreements(
+  first: SyllablesData,
+  second: SyllablesData
+): number[] {
+  const disagreements: number[] = [];
+  const count = Math.max(first.words.length, second.words.length);
+
+  for (let i = 0; i < count; i++) {
+    const a = first.words[i]?.syllables.join("-");
+    const b = second.words[i]?.syllables.join("-");
+    if (a !== b) {
+      disagreements.push(i);
+    }
   }
+
+  return disagreements;
+}
+
+/**
+ * Count the characters that take part in alignment (letters and digits)
+ */
+function countBaseCharacters(text: string): number {
+  return (text.match(/[\p{L}\p{N}]/gu) || []).length;
 }
 
 /**
- * Save all syllables cache entries to a centralized location in localStorage
- * This enables future sync with Supabase or other external storage
+ * Split a word of the source text at the same letter boundaries as `syllables`
+ * The syllables may carry different niqqud than the word (e.g. full niqqud
+ * syllables on a clean word), so boundaries are found by counting letters only.
+ * Marks and punctuation stay with the letter before them; leading punctuation
+ * goes to the first syllable.
+ *
+ * @param word - Word as it appears in the source text
+ * @param syllables - Syllables with the same letters as the word
+ * @returns Spans relative to the word, or null if the letters don't line up
  */
-export function saveSyllablesCacheToStorage(): void {
-  if (typeof window === "undefined") {
-    return;
+export function splitWordAtSyllables(word: string, syllables: string[]): TextSpan[] | null {
+  const counts = syllables.map(countBaseCharacters).filter((count) => count > 0);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (counts.length === 0 || total !== countBaseCharacters(word)) {
+    return null;
   }
 
-  try {
-    const allCacheEntries: Record<string, { text: string; data: SyllablesData; timestamp: number }> = {};
-
-    // Collect all syllables cache entries
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith("syllables_cache_")) {
-        const cached = localStorage.getItem(key);
-        if (cached) {
-          try {
-            const cacheData = JSON.parse(cached) as {
-              text: string;
-              data: SyllablesData;
-              timestamp: number;
-            };
-            allCacheEntries[key] = cacheData;
-          } catch (e) {
-            console.warn(`[Syllables] Failed to parse cache entry ${key}:`, e);
-          }
-        }
-      }
+  const spans: TextSpan[] = [];
+  let start = 0;
+  let seen = 0;
+  let boundaryIndex = 0;
+  let boundary = counts[0];
+
+  for (let i = 0; i < word.length; i++) {
+    if (!/[\p{L}\p{N}]/u.test(word[i])) continue;
+    if (seen === boundary && boundaryIndex < counts.length - 1) {
+      // This letter opens the next syllable
+      spans.push({ start, end: i });
+      start = i;
+      boundaryIndex++;
+      boundary += counts[boundaryIndex];
     }
-
-    // Save all entries to a centralized key for future sync
-    localStorage.setItem("syllables_cache_all", JSON.stringify(allCacheEntries));
-    console.log(`[Syllables] Saved ${Object.keys(allCacheEntries).length} cache entries to centralized storage`);
-  } catch (error) {
-    console.error("[Syllables] Failed to save cache to storage:", error);
+    seen++;
   }
+  spans.push({ start, end: word.length });
+
+  return spans;
 }
 
 /**
- * Load all syllables cache entries from centralized storage
- * This is useful for syncing with Supabase or other external storage
+ * Anchor syllables data to a source text
+ * Words of `data` are aligned with the words of `text` on their consonant
+ * skeleton, so the same data can be anchored to the full, clean or original
+ * (partial niqqud) version of a text. Syllable strings are taken from `text`,
+ * which makes the result match the displayed niqqud exactly.
+ *
+ * Every word of `text` gets an entry: words the model dropped or changed become
+ * a single undivided syllable, and words the model added are ignored. Works for
+ * v1 entries too, which is how old cache entries are migrated.
+ *
+ * @param text - Source text the offsets refer to
+ * @param data - Syllables data (any version)
+ * @returns v2 syllables data anchored to `text`
  */
-export function loadSyllablesCacheFromStorage(): void {
-  if (typeof window === "undefined") {
-    return;
+export function anchorSyllablesData(text: string, data: SyllablesData): AnchoredSyllablesData {
+  const sourceWords: Array<{ text: string; start: number; lineIndex: number; paragraphIndex: number }> = [];
+  const wordPattern = /\S+/g;
+  let lineIndex = 0;
+  let paragraphIndex = 0;
+  let previousEnd = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const gap = text.slice(previousEnd, match.index);
+    const newlines = (gap.match(/\n/g) || []).length;
+    lineIndex += newlines;
+    if (sourceWords.length > 0 && /\n[^\S\n]*\n/.test(gap)) {
+      paragraphIndex++;
+    }
+    sourceWords.push({ text: match[0], start: match.index, lineIndex, paragraphIndex });
+    previousEnd = match.index + match[0].length;
   }
 
-  try {
-    const allCacheEntriesStr = localStorage.getItem("syllables_cache_all");
-    if (!allCacheEntriesStr) {
-      return;
+  const dataWords = data.words.map((entry) => entry.syllables.join(""));
+  const matchedSyllables: Array<string[] | null> = sourceWords.map(() => null);
+  for (const step of alignWords(sourceWords.map((word) => word.text), dataWords)) {
+    if (step.type === "match" && step.sourceIndex !== null && step.targetIndex !== null) {
+      matchedSyllables[step.sourceIndex] = data.words[step.targetIndex].syllables;
     }
+  }
 
-    const allCacheEntries = JSON.parse(allCacheEntriesStr) as Record<
-      string,
-      { text: string; data: SyllablesData; timestamp: number }
-    >;
-
-    // Restore all cache entries
-    Object.entries(allCacheEntries).forEach(([key, cacheData]) => {
-      try {
-        localStorage.setItem(key, JSON.stringify(cacheData));
-      } catch (e) {
-        console.warn(`[Syllables] Failed to restore cache entry ${key}:`, e);
-      }
-    });
+  const words: AnchoredSyllableWord[] = sourceWords.map((sourceWord, idx) => {
+    const syllables = matchedSyllables[idx];
+    const relativeSpans = (syllables && splitWordAtSyllables(sourceWord.text, syllables)) || [
+      { start: 0, end: sourceWord.text.length },
+    ];
+    const syllableSpans = relativeSpans.map((span) => ({
+      start: sourceWord.start + span.start,
+      end: sourceWord.start + span.end,
+    }));
+
+    return {
+      word: removeNiqqud(sourceWord.text),
+      syllables: syllableSpans.map((span) => text.slice(span.start, span.end)),
+      start: sourceWord.start,
+      end: sourceWord.start + sourceWord.text.length,
+      syllableSpans,
+      lineIndex: sourceWord.lineIndex,
+      paragraphIndex: sourceWord.paragraphIndex,
+    };
+  });
 
-    console.log(`[Syllables] Loaded ${Object.keys(allCacheEntries).length} cache entries from centralized storage`);
-  } catch (error) {
-    console.error("[Syllables] Failed to load cache from storage:", error);
-  }
+  return { version: SYLLABLES_DATA_VERSION, words };
 }
 
+/**
+ * Check whether syllables data is in the current (anchored) format
+ */
+export function isAnchoredSyllablesData(data: SyllablesData): data is AnchoredSyllablesData {
+  return (
+    data.version === SYLLABLES_DATA_VERSION &&
+    data.words.every((word) => word.syllableSpans !== undefined && word.lineIndex !== undefined)
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Touch and pointer navigation of the reading view
+ * On tablets there are no arrow keys: a horizontal swipe moves to the next or
+ * previous element, a tap moves the highlight to the tapped element and a long
+ * press opens the details of the word.
+ */
+
+import type { CurrentPosition, NavigationMode } from "./settings";
+import { isPhraseMode } from "./reading-units";
+
+export const SWIPE_MIN_DISTANCE = 50; // px
+export const TAP_MAX_DISTANCE = 10;   // px, a press moving further is not a tap
+export const LONG_PRESS_DELAY = 500;  // ms
+
+export type PointerGesture = "tap" | "next" | "prev";
+
+/**
+ * The gesture of a press that moved by (dx, dy)
+ * Hebrew is read right to left, so swiping left (dx < 0) moves forward.
+ * A mostly vertical move is scrolling, not a gesture.
+ * @returns The gesture, or null when the move is neither a tap nor a swipe
+ */
+export function classifyGesture(dx: number, dy: number): PointerGesture | null {
+  if (Math.hypot(dx, dy) <= TAP_MAX_DISTANCE) {
+    return "tap";
+  }
+  if (Math.abs(dx) >= SWIPE_MIN_DISTANCE && Math.abs(dx) > 2 * Math.abs(dy)) {
+    return dx < 0 ? "next" : "prev";
+  }
+  return null;
+}
+
+/**
+ * Position of a rendered word, syllable or letter (or of the element it is in)
+ * A word in the sentences or lines mode stands for its sentence or line.
+ * @returns The position, or null when the element is not part of the text
+ */
+export function getElementPosition(element: Element, navigationMode: NavigationMode): CurrentPosition | null {
+  const target = element.closest<HTMLElement>("[data-element-type]");
+  if (!target) {
+    return null;
+  }
+  const index = (name: string) => Number(target.getAttribute(`data-${name}-index`) ?? 0);
+
+  switch (target.getAttribute("data-element-type")) {
+    case "word":
+      return { mode: isPhraseMode(navigationMode) ? navigationMode : "words", wordIndex: index("word") };
+    case "syllable":
+      return { mode: "syllables", wordIndex: index("word"), syllableIndex: index("syllable") };
+    case "letter":
+      return {
+        mode: "letters",
+        wordIndex: index("word"),
+        syllableIndex: index("syllable"),
+        letterIndex: index("letter"),
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Text-to-speech
+ * The reading view speaks the highlighted word, syllable, sentence or line through a TTS adapter.
+ * The Web Speech adapter is used by default; tests (and other speech engines)
+ * plug in their own adapter with setTtsAdapter.
+ */
+
+import type { CurrentPosition } from "../settings";
+import type { SyllablesData } from "../syllables";
+import { isPhraseMode, WordRange } from "../reading-units";
+import { TtsAdapter } from "./types";
+import { createWebSpeechAdapter } from "./web-speech";
+
+export * from "./types";
+export { createWebSpeechAdapter } from "./web-speech";
+export { createMockTtsAdapter } from "./mock";
+export type { MockTtsAdapter } from "./mock";
+
+export const TTS_LANG = "he-IL";
+
+let activeAdapter: TtsAdapter | null = null;
+
+/**
+ * Get the adapter used for speech (the Web Speech adapter unless another was set)
+ */
+export function getTtsAdapter(): TtsAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createWebSpeechAdapter();
+  }
+  return activeAdapter;
+}
+
+/**
+ * Replace the adapter used for speech (null restores the default)
+ */
+export function setTtsAdapter(adapter: TtsAdapter | null): void {
+  activeAdapter?.cancel();
+  activeAdapter = adapter;
+}
+
+/**
+ * Words to speak for a text
+ * The vocalized version (cache.full) is used when it has the same number of
+ * words, so the speech engine pronounces the words correctly.
+ */
+export function getSpeechWords(text: string, vocalizedText: string | null = null): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (!vocalizedText) {
+    return words;
+  }
+  const vocalizedWords = vocalizedText.split(/\s+/).filter(Boolean);
+  return vocalizedWords.length === words.length ? vocalizedWords : words;
+}
+
+/**
+ * Text to speak for a highlighted element
+ * Syllables come from the syllables data (divided on the vocalized text);
+ * single letters are not spoken.
+ * @param range - Words of the highlighted sentence or line (in those modes)
+ */
+export function getElementSpeech(
+  position: CurrentPosition,
+  speechWords: string[],
+  syllablesData: SyllablesData | null,
+  range?: WordRange | null
+): string | null {
+  if (isPhraseMode(position.mode)) {
+    const { start, end } = range ?? { start: position.wordIndex, end: position.wordIndex + 1 };
+    return speechWords.slice(start, end).join(" ") || null;
+  }
+  if (position.mode === "syllables") {
+    return syllablesData?.words[position.wordIndex]?.syllables[position.syllableIndex ?? 0] ?? null;
+  }
+  if (position.mode === "words") {
+    return speechWords[position.wordIndex] ?? null;
+  }
+  return null;
+}
+
+/**
+ * Text read aloud in one utterance, from a word to the end of the text
+ */
+export interface SpeechPassage {
+  text: string;
+  firstWordIndex: number; // Index in the text of the passage's first word
+  wordStarts: number[];   // Offset of each word in the passage text
+}
+
+export function buildSpeechPassage(speechWords: string[], firstWordIndex: number): SpeechPassage {
+  const words = speechWords.slice(Math.max(0, firstWordIndex));
+  const wordStarts: number[] = [];
+  let offset = 0;
+  for (const word of words) {
+    wordStarts.push(offset);
+    offset += word.length + 1;
+  }
+  return { text: words.join(" "), firstWordIndex: Math.max(0, firstWordIndex), wordStarts };
+}
+
+/**
+ * Index in the text of the word a speech boundary points at
+ */
+export function getPassageWordIndex(passage: SpeechPassage, charIndex: number): number {
+  let index = 0;
+  while (index + 1 < passage.wordStarts.length && passage.wordStarts[index + 1] <= charIndex) {
+    index++;
+  }
+  return passage.firstWordIndex + index;
+}
@@ -0,0 +1,71 @@
+/**
+ * Mock text-to-speech adapter for tests
+ * Records what is spoken; tests drive the speech with reachWord, finish and fail.
+ */
+
+import { TtsAdapter, TtsSpeakHandlers, TtsSpeakOptions, TtsVoice } from "./types";
+
+export interface MockTtsAdapter extends TtsAdapter {
+  /** Everything spoken, in order */
+  utterances: Array<{ text: string; options: TtsSpeakOptions }>;
+  /** Whether an utterance is being spoken */
+  isSpeaking: () => boolean;
+  /** Report the boundary of a word (zero-based) of the current utterance */
+  reachWord: (wordIndex: number) => void;
+  /** Report the boundaries of the remaining words, then end the current utterance */
+  finish: () => void;
+  /** End the current utterance with an error */
+  fail: (message?: string) => void;
+}
+
+const MOCK_VOICES: TtsVoice[] = [
+  { id: "mock-he", name: "Mock Hebrew", lang: "he-IL" },
+  { id: "mock-en", name: "Mock English", lang: "en-US" },
+];
+
+export function createMockTtsAdapter(voices: TtsVoice[] = MOCK_VOICES): MockTtsAdapter {
+  const utterances: MockTtsAdapter["utterances"] = [];
+  let current: { text: string; handlers: TtsSpeakHandlers; nextWord: number } | null = null;
+
+  const getWordBoundaries = (text: string) =>
+    Array.from(text.matchAll(/\S+/g), (match) => ({ charIndex: match.index ?? 0, charLength: match[0].length }));
+
+  const reachWord = (wordIndex: number) => {
+    if (!current) return;
+    const boundary = getWordBoundaries(current.text)[wordIndex];
+    if (!boundary) return;
+    current.nextWord = wordIndex + 1;
+    current.handlers.onBoundary?.(boundary);
+  };
+
+  return {
+    id: "mock",
+    utterances,
+    isSupported: () => true,
+    getVoices: async () => voices,
+    speak: (text, options, handlers = {}) => {
+      utterances.push({ text, options });
+      current = { text, handlers, nextWord: 0 };
+    },
+    cancel: () => {
+      current = null;
+    },
+    isSpeaking: () => current !== null,
+    reachWord,
+    finish: () => {
+      if (!current) return;
+      const wordCount = getWordBoundaries(current.text).length;
+      for (let i = current.nextWord; i < wordCount && current; i++) {
+        reachWord(i);
+      }
+      const finished = current;
+      current = null;
+      finished?.handlers.onEnd?.();
+    },
+    fail: (message = "Mock speech error") => {
+      const failed = current;
+      current = null;
+      failed?.handlers.onError?.(new Error(message));
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Shared types for text-to-speech adapters
+ */
+
+export type TtsAdapterId = "web-speech" | "mock";
+
+export interface TtsVoice {
+  id: string;   // Stable id saved in the settings (the voice URI for Web Speech)
+  name: string;
+  lang: string; // BCP 47 language tag, e.g. "he-IL"
+}
+
+export interface TtsSpeakOptions {
+  voiceId?: string; // Empty or unknown: the adapter picks a voice for the language
+  lang: string;
+  rate: number;     // 1 = normal speed
+  pitch: number;    // 1 = normal pitch
+}
+
+/**
+ * A word boundary reached while speaking (offsets in the spoken text)
+ */
+export interface TtsBoundary {
+  charIndex: number;
+  charLength: number;
+}
+
+export interface TtsSpeakHandlers {
+  onBoundary?: (boundary: TtsBoundary) => void;
+  onEnd?: () => void; // Speech finished (not called when cancelled)
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A speech engine
+ * speak() replaces anything being spoken, so only one utterance plays at a time.
+ */
+export interface TtsAdapter {
+  id: TtsAdapterId;
+  isSupported: () => boolean;
+  getVoices: () => Promise<TtsVoice[]>;
+  speak: (text: string, options: TtsSpeakOptions, handlers?: TtsSpeakHandlers) => void;
+  cancel: () => void;
+}
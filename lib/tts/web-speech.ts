@@ -0,0 +1,109 @@
+/**
+ * Web Speech API adapter (speechSynthesis in the browser)
+ * Voices are provided by the operating system or the browser; a Hebrew voice
+ * is chosen when the saved voice is not available on this device.
+ */
+
+import { TtsAdapter, TtsSpeakHandlers, TtsSpeakOptions, TtsVoice } from "./types";
+
+/**
+ * Time to wait for the browser to load its voices (Chrome loads them asynchronously)
+ */
+const VOICES_TIMEOUT_MS = 1500;
+
+const getSynthesis = (): SpeechSynthesis | null =>
+  typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+
+function loadVoices(synthesis: SpeechSynthesis): Promise<SpeechSynthesisVoice[]> {
+  const voices = synthesis.getVoices();
+  if (voices.length > 0) {
+    return Promise.resolve(voices);
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      synthesis.removeEventListener("voiceschanged", done);
+      resolve(synthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+    synthesis.addEventListener("voiceschanged", done);
+  });
+}
+
+/**
+ * Pick the saved voice, or the first voice of the language
+ */
+function selectVoice(
+  voices: SpeechSynthesisVoice[],
+  options: TtsSpeakOptions
+): SpeechSynthesisVoice | undefined {
+  const language = options.lang.split("-")[0].toLowerCase();
+  return (
+    voices.find((voice) => options.voiceId && voice.voiceURI === options.voiceId) ??
+    voices.find((voice) => voice.lang.toLowerCase().startsWith(language))
+  );
+}
+
+export function createWebSpeechAdapter(): TtsAdapter {
+  let voices: SpeechSynthesisVoice[] = [];
+  // The utterance being spoken; events of replaced utterances are ignored
+  let current: SpeechSynthesisUtterance | null = null;
+
+  return {
+    id: "web-speech",
+    isSupported: () => getSynthesis() !== null && typeof SpeechSynthesisUtterance !== "undefined",
+    getVoices: async (): Promise<TtsVoice[]> => {
+      const synthesis = getSynthesis();
+      if (!synthesis) return [];
+      voices = await loadVoices(synthesis);
+      return voices.map((voice) => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+    },
+    speak: (text: string, options: TtsSpeakOptions, handlers: TtsSpeakHandlers = {}) => {
+      const synthesis = getSynthesis();
+      if (!synthesis) {
+        handlers.onError?.(new Error("Speech synthesis is not supported"));
+        return;
+      }
+
+      current = null;
+      synthesis.cancel();
+      if (voices.length === 0) {
+        voices = synthesis.getVoices();
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = options.lang;
+      utterance.rate = options.rate;
+      utterance.pitch = options.pitch;
+      const voice = selectVoice(voices, options);
+      if (voice) {
+        utterance.voice = voice;
+      }
+
+      utterance.onboundary = (event) => {
+        if (current !== utterance || event.name !== "word") return;
+        handlers.onBoundary?.({ charIndex: event.charIndex, charLength: event.charLength ?? 0 });
+      };
+      utterance.onend = () => {
+        if (current !== utterance) return;
+        current = null;
+        handlers.onEnd?.();
+      };
+      utterance.onerror = (event) => {
+        if (current !== utterance) return;
+        current = null;
+        // Cancelling (speak() or cancel()) is not an error
+        if (event.error === "canceled" || event.error === "interrupted") return;
+        handlers.onError?.(new Error(`Speech failed: ${event.error}`));
+      };
+
+      current = utterance;
+      synthesis.speak(utterance);
+    },
+    cancel: () => {
+      current = null;
+      getSynthesis()?.cancel();
+    },
+  };
+}
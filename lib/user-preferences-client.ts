@@ -7,6 +7,9 @@
 'use client';
 
 import { createClient } from '@/lib/supabase/client';
+import type { ReadingTempo } from './reading-tempo';
+import type { ShortcutMap } from './keyboard-shortcuts';
+import type { SyllableOverrides } from './syllable-overrides';
 
 /**
  * Type definition for user preferences
@@ -15,6 +18,9 @@ import { createClient } from '@/lib/supabase/client';
 export interface UserPreferences {
   wordSpacing?: number;
   fontFamily?: string; // Font family preference (e.g., "Inter", "Frank Ruhl Libre")
+  readingTempo?: ReadingTempo; // Auto-advance tempo
+  keyboardShortcuts?: ShortcutMap; // Keys of the reading view
+  syllableOverrides?: SyllableOverrides; // Syllable corrections keyed by vocalized word
   // Add more preferences here as needed
 }
 
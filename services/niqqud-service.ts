@@ -2,8 +2,24 @@
  * Service for adding niqqud to Hebrew text using language model API
  */
 
-import { isGoogleModel, getApiUrl } from "@/lib/settings";
+import {
+  callWithPolicy,
+  errorCodeFields,
+  getProviderForModel,
+  isModelOutputError,
+  LLMErrorCode,
+  ModelCallPolicy,
+} from "@/lib/llm";
 import { hasNiqqud, removeNiqqud } from "@/lib/niqqud";
+import { guardConsonants, mergeChunkMismatches, ConsonantMismatch } from "@/lib/consonant-guard";
+import {
+  createOrderedEmitter,
+  getChunkPrefix,
+  runChunks,
+  splitTextIntoChunks,
+  stitchChunks,
+  DEFAULT_MAX_CHUNK_LENGTH,
+} from "@/lib/chunking";
 
 // Debug: Verify imports
 if (typeof hasNiqqud !== "function") {
@@ -14,10 +30,16 @@ if (typeof removeNiqqud !== "function") {
 }
 
 export interface NiqqudServiceConfig {
-  apiKey: string;
+  apiKey?: string; // Not needed for local models
   model: string;
-  apiUrl?: string; // Optional custom API URL
+  apiUrl?: string; // Optional custom API base URL (defaults to the provider's URL)
   temperature?: number; // Optional temperature (default: 1.0)
+  signal?: AbortSignal; // Aborts the model request
+  policy?: Partial<ModelCallPolicy>; // Timeout and retry overrides (default: DEFAULT_MODEL_CALL_POLICY)
+  onDelta?: (delta: string) => void; // Streams the response: called with each chunk as it arrives
+  onReplace?: (text: string) => void; // Replaces all streamed text (a streamed part of a long text changed)
+  onProgress?: (completed: number, total: number) => void; // Progress of long texts sent in chunks
+  maxChunkLength?: number; // Longest text sent in one request (default: DEFAULT_MAX_CHUNK_LENGTH)
   systemPrompt?: string; // Optional system-level instructions
   userPrompt?: string; // Optional user message template (with {text} placeholder)
 }
@@ -26,306 +48,191 @@ export interface NiqqudServiceResponse {
   success: boolean;
   niqqudText?: string;
   error?: string;
+  code?: LLMErrorCode; // Why the request failed
+  retryable?: boolean; // Whether trying again may succeed
+  mismatches?: ConsonantMismatch[]; // Words the model changed (repaired or rejected)
+  cached?: boolean; // Served from the shared result cache without a model call
 }
 
 /**
- * Add niqqud to Hebrew text using language model API
+ * Check that the model kept the original consonants
+ * Small drift is repaired by restoring the original words; large drift fails
+ * so a text with replaced words never reaches the user.
+ * @param text - Text sent to the model
+ * @param niqqudText - Text returned by the model
+ * @returns Final service response
+ */
+function guardNiqqudResponse(text: string, niqqudText: string): NiqqudServiceResponse {
+  const consonantGuard = guardConsonants(text, niqqudText);
+
+  if (!consonantGuard.ok) {
+    console.error("[NiqqudService] Model changed too many words", {
+      mismatches: consonantGuard.mismatches.length,
+      driftRatio: consonantGuard.driftRatio,
+    });
+    return {
+      success: false,
+      ...errorCodeFields("consonant_drift"),
+      error: `המודל שינה אותיות ב-${consonantGuard.mismatches.length} מילים בטקסט. נסה שוב או בחר מודל אחר`,
+      mismatches: consonantGuard.mismatches,
+    };
+  }
+
+  if (consonantGuard.repaired) {
+    console.warn("[NiqqudService] Restored words changed by the model", {
+      mismatches: consonantGuard.mismatches,
+    });
+  }
+
+  return {
+    success: true,
+    niqqudText: consonantGuard.text,
+    mismatches: consonantGuard.mismatches,
+  };
+}
+
+/**
+ * Add niqqud to one chunk of text with a single model request
  * @param text - Hebrew text without niqqud
  * @param config - API configuration
  * @returns Promise with niqqud text or error
  */
-export async function addNiqqud(
+async function addNiqqudToChunk(
   text: string,
   config: NiqqudServiceConfig
 ): Promise<NiqqudServiceResponse> {
   if (!text || text.trim().length === 0) {
     return {
       success: false,
+      ...errorCodeFields("invalid_request"),
       error: "טקסט ריק",
     };
   }
 
-  if (!config.apiKey || config.apiKey.trim().length === 0) {
+  if (!config.model || config.model.trim().length === 0) {
     return {
       success: false,
-      error: "API Key לא הוגדר. אנא הגדר ב-הגדרות",
+      ...errorCodeFields("invalid_request"),
+      error: "מודל שפה לא נבחר. אנא בחר מודל ב-הגדרות",
     };
   }
 
-  if (!config.model || config.model.trim().length === 0) {
+  const provider = getProviderForModel(config.model);
+
+  if (provider.requiresApiKey && (!config.apiKey || config.apiKey.trim().length === 0)) {
     return {
       success: false,
-      error: "מודל שפה לא נבחר. אנא בחר מודל ב-הגדרות",
+      ...errorCodeFields("missing_api_key"),
+      error: "API Key לא הוגדר. אנא הגדר ב-הגדרות",
     };
   }
 
   try {
-    const isGoogle = isGoogleModel(config.model);
-    const apiUrl = config.apiUrl || getApiUrl(config.model);
-
-    let requestBody: unknown;
-    let headers: Record<string, string>;
-
-    if (isGoogle) {
-      // Google Gemini API format
-      const modelUrl = `${apiUrl}/${config.model}:generateContent?key=${config.apiKey}`;
-
-      // Use configurable prompts or fall back to defaults
-      const systemPrompt = config.systemPrompt || "אתה מומחה בעברית. המשימה שלך היא להוסיף ניקוד מלא לטקסט עברי. החזר רק את הטקסט המנוקד ללא הסברים נוספים.";
-      const userPromptTemplate = config.userPrompt || `הוסף ניקוד מלא לטקסט הבא:\n\n{text}`;
-      const userPrompt = userPromptTemplate.replace('{text}', text);
-
-      // For Google API, combine system and user prompts
-      const combinedPrompt = `${systemPrompt}\n\n${userPrompt}`;
-
-      requestBody = {
-        contents: [
-          {
-            parts: [
-              {
-                text: combinedPrompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 4000,
-          ...(config.temperature !== undefined && { temperature: config.temperature }),
-        },
-      };
-      headers = {
-        "Content-Type": "application/json",
-      };
-
-      const response = await fetch(modelUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error("[NiqqudService] Google API error", {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-        });
-        return {
-          success: false,
-          error:
-            errorData.error?.message ||
-            `שגיאת API: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const data = await response.json();
-
-      if (
-        !data.candidates ||
-        !data.candidates[0] ||
-        !data.candidates[0].content ||
-        !data.candidates[0].content.parts ||
-        !data.candidates[0].content.parts[0] ||
-        !data.candidates[0].content.parts[0].text
-      ) {
-        return {
-          success: false,
-          error: "תגובה לא תקינה מהמודל",
+    // Use configurable prompts or fall back to defaults
+    const systemPrompt = config.systemPrompt || "אתה מומחה בעברית. המשימה שלך היא להוסיף ניקוד מלא לטקסט עברי. החזר רק את הטקסט המנוקד ללא הסברים נוספים.";
+    const userPromptTemplate = config.userPrompt || `הוסף ניקוד מלא לטקסט הבא:\n\n{text}`;
+    const userPrompt = userPromptTemplate.replace('{text}', text);
+
+    const providerConfig = { apiKey: config.apiKey, baseUrl: config.apiUrl };
+    // A streamed attempt is not retried once text reached the caller
+    let hasStreamed = false;
+    const completion = await callWithPolicy(
+      (signal, onActivity) => {
+        const completionRequest = {
+          model: config.model,
+          systemPrompt,
+          userPrompt,
+          temperature: config.temperature,
+          signal,
         };
-      }
-
-      const niqqudText = data.candidates[0].content.parts[0].text.trim();
-
-      console.log("[NiqqudService] Google API response received", {
-        originalLength: text.length,
-        returnedLength: niqqudText.length,
-        hasNiqqudFunction: typeof hasNiqqud,
-      });
-
-      // Validate that the returned text actually has niqqud
-      if (!niqqudText || niqqudText.length === 0) {
-        console.error("[NiqqudService] Empty response from model");
-        return {
-          success: false,
-          error: "המודל החזיר תגובה ריקה",
-        };
-      }
-
-      try {
-        // Check if the returned text is the same as the original (no changes)
-        const normalizedOriginal = removeNiqqud(text.trim());
-        const normalizedReturned = removeNiqqud(niqqudText.trim());
-
-        console.log("[NiqqudService] Normalized comparison", {
-          originalNormalized: normalizedOriginal.substring(0, 50),
-          returnedNormalized: normalizedReturned.substring(0, 50),
-          areSame: normalizedOriginal === normalizedReturned,
-        });
-
-        if (normalizedOriginal === normalizedReturned && !hasNiqqud(niqqudText)) {
-          console.error("[NiqqudService] Model returned same text without niqqud");
-          return {
-            success: false,
-            error: "המודל החזיר את אותו הטקסט ללא ניקוד",
-          };
+        if (!config.onDelta) {
+          return provider.complete(completionRequest, providerConfig);
         }
-
-        // Check if the returned text actually has niqqud
-        const hasNiqqudResult = hasNiqqud(niqqudText);
-        console.log("[NiqqudService] Niqqud check result", {
-          hasNiqqud: hasNiqqudResult,
-          textPreview: niqqudText.substring(0, 50),
+        return provider.stream(completionRequest, providerConfig, (delta) => {
+          hasStreamed = true;
+          onActivity();
+          config.onDelta!(delta);
         });
+      },
+      { policy: config.policy, signal: config.signal, canRetry: () => !hasStreamed }
+    );
 
-        if (!hasNiqqudResult) {
-          console.error("[NiqqudService] Model returned text without niqqud");
-          return {
-            success: false,
-            error: "המודל החזיר טקסט ללא ניקוד. נסה שוב או בחר מודל אחר",
-          };
-        }
-      } catch (validationError) {
-        console.error("[NiqqudService] Validation error", validationError);
-        return {
-          success: false,
-          error: `שגיאה בוולידציה: ${validationError instanceof Error ? validationError.message : "שגיאה לא צפויה"}`,
-        };
-      }
-
+    if (!completion.success || completion.text === undefined) {
       return {
-        success: true,
-        niqqudText,
+        success: false,
+        ...errorCodeFields(completion.code ?? "invalid_response"),
+        error: completion.error || "תגובה לא תקינה מהמודל",
       };
-    } else {
-      // OpenAI API format
-
-      // Use configurable prompts or fall back to defaults
-      const systemPrompt = config.systemPrompt || "אתה מומחה בעברית. המשימה שלך היא להוסיף ניקוד מלא לטקסט עברי. החזר רק את הטקסט המנוקד ללא הסברים נוספים.";
-      const userPromptTemplate = config.userPrompt || `הוסף ניקוד מלא לטקסט הבא:\n\n{text}`;
-      const userPrompt = userPromptTemplate.replace('{text}', text);
+    }
 
-      requestBody = {
-        model: config.model,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
-        max_completion_tokens: 4000,
-        ...(config.temperature !== undefined && { temperature: config.temperature }),
-      };
-      headers = {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
-      };
+    const niqqudText = completion.text;
 
-      const response = await fetch(apiUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
-      });
+    console.log(`[NiqqudService] ${provider.label} API response received`, {
+      originalLength: text.length,
+      returnedLength: niqqudText.length,
+      hasNiqqudFunction: typeof hasNiqqud,
+    });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error("[NiqqudService] OpenAI API error", {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-        });
-        return {
-          success: false,
-          error:
-            errorData.error?.message ||
-            `שגיאת API: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const data = await response.json();
-
-      if (
-        !data.choices ||
-        !data.choices[0] ||
-        !data.choices[0].message ||
-        !data.choices[0].message.content
-      ) {
-        return {
-          success: false,
-          error: "תגובה לא תקינה מהמודל",
-        };
-      }
+    // Validate that the returned text actually has niqqud
+    if (!niqqudText || niqqudText.length === 0) {
+      console.error("[NiqqudService] Empty response from model");
+      return {
+        success: false,
+        ...errorCodeFields("invalid_response"),
+        error: "המודל החזיר תגובה ריקה",
+      };
+    }
 
-      const niqqudText = data.choices[0].message.content.trim();
+    try {
+      // Check if the returned text is the same as the original (no changes)
+      const normalizedOriginal = removeNiqqud(text.trim());
+      const normalizedReturned = removeNiqqud(niqqudText.trim());
 
-      console.log("[NiqqudService] OpenAI API response received", {
-        originalLength: text.length,
-        returnedLength: niqqudText.length,
-        hasNiqqudFunction: typeof hasNiqqud,
+      console.log("[NiqqudService] Normalized comparison", {
+        originalNormalized: normalizedOriginal.substring(0, 50),
+        returnedNormalized: normalizedReturned.substring(0, 50),
+        areSame: normalizedOriginal === normalizedReturned,
       });
 
-      // Validate that the returned text actually has niqqud
-      if (!niqqudText || niqqudText.length === 0) {
-        console.error("[NiqqudService] Empty response from model");
+      if (normalizedOriginal === normalizedReturned && !hasNiqqud(niqqudText)) {
+        console.error("[NiqqudService] Model returned same text without niqqud");
         return {
           success: false,
-          error: "המודל החזיר תגובה ריקה",
+          ...errorCodeFields("invalid_response"),
+          error: "המודל החזיר את אותו הטקסט ללא ניקוד",
         };
       }
 
-      try {
-        // Check if the returned text is the same as the original (no changes)
-        const normalizedOriginal = removeNiqqud(text.trim());
-        const normalizedReturned = removeNiqqud(niqqudText.trim());
-
-        console.log("[NiqqudService] Normalized comparison", {
-          originalNormalized: normalizedOriginal.substring(0, 50),
-          returnedNormalized: normalizedReturned.substring(0, 50),
-          areSame: normalizedOriginal === normalizedReturned,
-        });
-
-        if (normalizedOriginal === normalizedReturned && !hasNiqqud(niqqudText)) {
-          console.error("[NiqqudService] Model returned same text without niqqud");
-          return {
-            success: false,
-            error: "המודל החזיר את אותו הטקסט ללא ניקוד",
-          };
-        }
-
-        // Check if the returned text actually has niqqud
-        const hasNiqqudResult = hasNiqqud(niqqudText);
-        console.log("[NiqqudService] Niqqud check result", {
-          hasNiqqud: hasNiqqudResult,
-          textPreview: niqqudText.substring(0, 50),
-        });
+      // Check if the returned text actually has niqqud
+      const hasNiqqudResult = hasNiqqud(niqqudText);
+      console.log("[NiqqudService] Niqqud check result", {
+        hasNiqqud: hasNiqqudResult,
+        textPreview: niqqudText.substring(0, 50),
+      });
 
-        if (!hasNiqqudResult) {
-          console.error("[NiqqudService] Model returned text without niqqud");
-          return {
-            success: false,
-            error: "המודל החזיר טקסט ללא ניקוד. נסה שוב או בחר מודל אחר",
-          };
-        }
-      } catch (validationError) {
-        console.error("[NiqqudService] Validation error", validationError);
+      if (!hasNiqqudResult) {
+        console.error("[NiqqudService] Model returned text without niqqud");
         return {
           success: false,
-          error: `שגיאה בוולידציה: ${validationError instanceof Error ? validationError.message : "שגיאה לא צפויה"}`,
+          ...errorCodeFields("invalid_response"),
+          error: "המודל החזיר טקסט ללא ניקוד. נסה שוב או בחר מודל אחר",
         };
       }
-
+    } catch (validationError) {
+      console.error("[NiqqudService] Validation error", validationError);
       return {
-        success: true,
-        niqqudText,
+        success: false,
+        ...errorCodeFields("invalid_response"),
+        error: `שגיאה בוולידציה: ${validationError instanceof Error ? validationError.message : "שגיאה לא צפויה"}`,
       };
     }
+
+    return guardNiqqudResponse(text, niqqudText);
   } catch (error) {
     console.error("[NiqqudService] Unexpected error", error);
     return {
       success: false,
+      ...errorCodeFields("unexpected_error"),
       error:
         error instanceof Error
           ? error.message
@@ -334,3 +241,81 @@ export async function addNiqqud(
   }
 }
 
+/**
+ * Add niqqud to Hebrew text using language model API
+ * Texts longer than one chunk are split by paragraph/sentence and the chunks are
+ * sent in parallel (with retries); the results are stitched back with the
+ * original whitespace. When streaming, the first unfinished chunk streams as its
+ * answer arrives and later chunks follow once the chunks before them are done,
+ * so the output always arrives in text order.
+ * @param text - Hebrew text without niqqud
+ * @param config - API configuration
+ * @returns Promise with niqqud text or error
+ */
+export async function addNiqqud(
+  text: string,
+  config: NiqqudServiceConfig
+): Promise<NiqqudServiceResponse> {
+  const chunks = splitTextIntoChunks(text, config.maxChunkLength ?? DEFAULT_MAX_CHUNK_LENGTH);
+
+  if (chunks.length <= 1) {
+    return addNiqqudToChunk(text, config);
+  }
+
+  console.log("[NiqqudService] Sending text in chunks", {
+    textLength: text.length,
+    chunks: chunks.length,
+  });
+
+  const stream = createOrderedEmitter((output) => config.onDelta?.(output), config.onReplace);
+  const { results, failedIndex } = await runChunks(
+    chunks,
+    (chunk, signal, index) => {
+      stream.restart(index);
+      let prefix = getChunkPrefix(text, chunks, index);
+      return addNiqqudToChunk(chunk.text, {
+        ...config,
+        signal,
+        onProgress: undefined,
+        onReplace: undefined,
+        onDelta:
+          config.onDelta &&
+          ((delta) => {
+            stream.delta(index, prefix + delta);
+            prefix = "";
+          }),
+      });
+    },
+    {
+      createCancelledResult: (): NiqqudServiceResponse => ({
+        success: false,
+        ...errorCodeFields("cancelled"),
+        error: "הבקשה בוטלה",
+      }),
+      signal: config.signal,
+      // Transport errors were already retried by the call policy; retry bad answers only
+      shouldRetry: (result) => isModelOutputError(result.code),
+      onProgress: config.onProgress,
+      onChunkDone: (index, result) =>
+        stream.complete(index, getChunkPrefix(text, chunks, index) + result.niqqudText),
+    }
+  );
+
+  if (failedIndex !== undefined) {
+    const failed = results[failedIndex];
+    return {
+      ...failed,
+      error: `שגיאה בחלק ${failedIndex + 1} מתוך ${chunks.length}: ${failed.error || "שגיאה לא צפויה בעת קריאה למודל"}`,
+    };
+  }
+
+  const niqqudText = stitchChunks(text, chunks, results.map((result) => result.niqqudText ?? ""));
+  return {
+    success: true,
+    niqqudText,
+    mismatches: mergeChunkMismatches(
+      chunks.map((chunk) => chunk.text),
+      results.map((result) => result.mismatches ?? [])
+    ),
+  };
+}
@@ -2,15 +2,34 @@
  * Service for dividing Hebrew text into syllables using language model API
  */
 
-import { isGoogleModel, getApiUrl } from "@/lib/settings";
-import { parseSyllablesResponse, SyllablesData } from "@/lib/syllables";
+import {
+  callWithPolicy,
+  errorCodeFields,
+  getProviderForModel,
+  isModelOutputError,
+  LLMErrorCode,
+  ModelCallPolicy,
+} from "@/lib/llm";
+import { anchorSyllablesData, parseSyllablesResponse, SyllablesData } from "@/lib/syllables";
+import { guardSyllablesConsonants, mergeChunkMismatches, ConsonantMismatch } from "@/lib/consonant-guard";
+import {
+  createOrderedEmitter,
+  runChunks,
+  splitTextIntoChunks,
+  DEFAULT_MAX_CHUNK_LENGTH,
+} from "@/lib/chunking";
 
 export interface SyllablesServiceConfig {
-  apiKey: string;
+  apiKey?: string; // Not needed for local models
   model: string;
   prompt: string;
-  apiUrl?: string; // Optional custom API URL
+  apiUrl?: string; // Optional custom API base URL (defaults to the provider's URL)
   temperature?: number; // Optional temperature (default: 1.0)
+  signal?: AbortSignal; // Aborts the model request
+  policy?: Partial<ModelCallPolicy>; // Timeout and retry overrides (default: DEFAULT_MODEL_CALL_POLICY)
+  onDelta?: (delta: string) => void; // Streams the response (texts sent in chunks: each chunk's lines once it is done)
+  onProgress?: (completed: number, total: number) => void; // Progress of long texts sent in chunks
+  maxChunkLength?: number; // Longest text sent in one request (default: DEFAULT_MAX_CHUNK_LENGTH)
 }
 
 export interface SyllablesServiceResponse {
@@ -18,246 +37,179 @@ export interface SyllablesServiceResponse {
   syllablesData?: SyllablesData;
   rawResponse?: string; // Raw response from the model for debugging
   error?: string;
+  code?: LLMErrorCode; // Why the request failed
+  retryable?: boolean; // Whether trying again may succeed
+  mismatches?: ConsonantMismatch[]; // Words the model changed (repaired or rejected)
+  cached?: boolean; // Served from the shared result cache without a model call
 }
 
 /**
- * Divide Hebrew text into syllables using language model API
+ * System instructions sent with the configured syllables prompt
+ */
+const SYLLABLES_SYSTEM_PROMPT =
+  "אתה מומחה בעברית. המשימה שלך היא לחלק טקסט עברי להברות. החזר רק את הטקסט המחולק להברות בפורמט המבוקש ללא הסברים נוספים.";
+
+/**
+ * Check that the syllables returned by the model spell the original words
+ * Small drift is repaired (changed words are kept undivided with their original
+ * text); large drift fails with the list of changed words.
+ * @param text - Text sent to the model
+ * @param syllablesData - Parsed model response
+ * @param responseText - Raw model response
+ * @returns Final service response
+ */
+function guardSyllablesResponse(
+  text: string,
+  syllablesData: SyllablesData,
+  responseText: string
+): SyllablesServiceResponse {
+  const guard = guardSyllablesConsonants(text, syllablesData);
+
+  if (!guard.ok) {
+    console.error("[SyllablesService] Model changed too many words", {
+      mismatches: guard.mismatches.length,
+      driftRatio: guard.driftRatio,
+    });
+    return {
+      success: false,
+      ...errorCodeFields("consonant_drift"),
+      rawResponse: responseText,
+      error: `המודל שינה אותיות ב-${guard.mismatches.length} מילים בטקסט. נסה שוב או בחר מודל אחר`,
+      mismatches: guard.mismatches,
+    };
+  }
+
+  if (guard.repaired) {
+    console.warn("[SyllablesService] Restored words changed by the model", {
+      mismatches: guard.mismatches,
+    });
+  }
+
+  return {
+    success: true,
+    syllablesData: guard.data,
+    rawResponse: responseText,
+    mismatches: guard.mismatches,
+  };
+}
+
+/**
+ * Divide one chunk of text into syllables with a single model request
  * @param text - Hebrew text to divide
  * @param config - API configuration including prompt
  * @returns Promise with syllables data or error
  */
-export async function divideIntoSyllables(
+async function divideChunkIntoSyllables(
   text: string,
   config: SyllablesServiceConfig
 ): Promise<SyllablesServiceResponse> {
   if (!text || text.trim().length === 0) {
     return {
       success: false,
+      ...errorCodeFields("invalid_request"),
       error: "טקסט ריק",
     };
   }
 
-  if (!config.apiKey || config.apiKey.trim().length === 0) {
+  if (!config.model || config.model.trim().length === 0) {
     return {
       success: false,
-      error: "API Key לא הוגדר. אנא הגדר ב-הגדרות",
+      ...errorCodeFields("invalid_request"),
+      error: "מודל שפה לא נבחר. אנא בחר מודל ב-הגדרות",
     };
   }
 
-  if (!config.model || config.model.trim().length === 0) {
+  const provider = getProviderForModel(config.model);
+
+  if (provider.requiresApiKey && (!config.apiKey || config.apiKey.trim().length === 0)) {
     return {
       success: false,
-      error: "מודל שפה לא נבחר. אנא בחר מודל ב-הגדרות",
+      ...errorCodeFields("missing_api_key"),
+      error: "API Key לא הוגדר. אנא הגדר ב-הגדרות",
     };
   }
 
   if (!config.prompt || config.prompt.trim().length === 0) {
     return {
       success: false,
+      ...errorCodeFields("invalid_request"),
       error: "פרומפט לא הוגדר. אנא הגדר פרומפט ב-הגדרות",
     };
   }
 
   try {
-    const isGoogle = isGoogleModel(config.model);
-    const apiUrl = config.apiUrl || getApiUrl(config.model);
-
     // Replace {text} placeholder in prompt
     const formattedPrompt = config.prompt.replace(/{text}/g, text);
 
-    let requestBody: unknown;
-    let headers: Record<string, string>;
-
-    if (isGoogle) {
-      // Google Gemini API format
-      const modelUrl = `${apiUrl}/${config.model}:generateContent?key=${config.apiKey}`;
-      requestBody = {
-        contents: [
-          {
-            parts: [
-              {
-                text: formattedPrompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 4000,
-          ...(config.temperature !== undefined && { temperature: config.temperature }),
-        },
-      };
-      headers = {
-        "Content-Type": "application/json",
-      };
-
-      const response = await fetch(modelUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error("[SyllablesService] Google API error", {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-        });
-        return {
-          success: false,
-          error:
-            errorData.error?.message ||
-            `שגיאת API: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const data = await response.json();
-
-      if (
-        !data.candidates ||
-        !data.candidates[0] ||
-        !data.candidates[0].content ||
-        !data.candidates[0].content.parts ||
-        !data.candidates[0].content.parts[0] ||
-        !data.candidates[0].content.parts[0].text
-      ) {
-        return {
-          success: false,
-          error: "תגובה לא תקינה מהמודל",
-        };
-      }
-
-      const responseText = data.candidates[0].content.parts[0].text.trim();
-
-      console.log("[SyllablesService] Google API response received", {
-        originalLength: text.length,
-        responseLength: responseText.length,
-      });
-
-      // Validate that the returned text is not empty
-      if (!responseText || responseText.length === 0) {
-        console.error("[SyllablesService] Empty response from model");
-        return {
-          success: false,
-          rawResponse: responseText || "",
-          error: "המודל החזיר תגובה ריקה",
-        };
-      }
-
-      // Parse the text response
-      const syllablesData = parseSyllablesResponse(responseText);
-
-      if (!syllablesData) {
-        console.error("[SyllablesService] Failed to parse syllables data");
-        return {
-          success: false,
-          rawResponse: responseText,
-          error: "המודל החזיר תגובה לא תקינה. נסה שוב או בחר מודל אחר",
+    const providerConfig = { apiKey: config.apiKey, baseUrl: config.apiUrl };
+    // A streamed attempt is not retried once text reached the caller
+    let hasStreamed = false;
+    const completion = await callWithPolicy(
+      (signal, onActivity) => {
+        const completionRequest = {
+          model: config.model,
+          systemPrompt: SYLLABLES_SYSTEM_PROMPT,
+          userPrompt: formattedPrompt,
+          temperature: config.temperature,
+          signal,
         };
-      }
+        if (!config.onDelta) {
+          return provider.complete(completionRequest, providerConfig);
+        }
+        return provider.stream(completionRequest, providerConfig, (delta) => {
+          hasStreamed = true;
+          onActivity();
+          config.onDelta!(delta);
+        });
+      },
+      { policy: config.policy, signal: config.signal, canRetry: () => !hasStreamed }
+    );
 
+    if (!completion.success || completion.text === undefined) {
       return {
-        success: true,
-        syllablesData,
-        rawResponse: responseText,
-      };
-    } else {
-      // OpenAI API format
-      requestBody = {
-        model: config.model,
-        messages: [
-          {
-            role: "system",
-            content:
-              "אתה מומחה בעברית. המשימה שלך היא לחלק טקסט עברי להברות. החזר רק את הטקסט המחולק להברות בפורמט המבוקש ללא הסברים נוספים.",
-          },
-          {
-            role: "user",
-            content: formattedPrompt,
-          },
-        ],
-        max_completion_tokens: 4000,
-        ...(config.temperature !== undefined && { temperature: config.temperature }),
-      };
-      headers = {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
+        success: false,
+        ...errorCodeFields(completion.code ?? "invalid_response"),
+        error: completion.error || "תגובה לא תקינה מהמודל",
       };
+    }
 
-      const response = await fetch(apiUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error("[SyllablesService] OpenAI API error", {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-        });
-        return {
-          success: false,
-          error:
-            errorData.error?.message ||
-            `שגיאת API: ${response.status} ${response.statusText}`,
-        };
-      }
-
-      const data = await response.json();
-
-      if (
-        !data.choices ||
-        !data.choices[0] ||
-        !data.choices[0].message ||
-        !data.choices[0].message.content
-      ) {
-        return {
-          success: false,
-          error: "תגובה לא תקינה מהמודל",
-        };
-      }
-
-      const responseText = data.choices[0].message.content.trim();
-
-      console.log("[SyllablesService] OpenAI API response received", {
-        originalLength: text.length,
-        responseLength: responseText.length,
-      });
+    const responseText = completion.text;
 
-      // Validate that the returned text is not empty
-      if (!responseText || responseText.length === 0) {
-        console.error("[SyllablesService] Empty response from model");
-        return {
-          success: false,
-          rawResponse: responseText || "",
-          error: "המודל החזיר תגובה ריקה",
-        };
-      }
+    console.log(`[SyllablesService] ${provider.label} API response received`, {
+      originalLength: text.length,
+      responseLength: responseText.length,
+    });
 
-      // Parse the text response
-      const syllablesData = parseSyllablesResponse(responseText);
+    // Validate that the returned text is not empty
+    if (!responseText || responseText.length === 0) {
+      console.error("[SyllablesService] Empty response from model");
+      return {
+        success: false,
+        ...errorCodeFields("invalid_response"),
+        rawResponse: responseText || "",
+        error: "המודל החזיר תגובה ריקה",
+      };
+    }
 
-      if (!syllablesData) {
-        console.error("[SyllablesService] Failed to parse syllables data");
-        return {
-          success: false,
-          rawResponse: responseText,
-          error: "המודל החזיר תגובה לא תקינה. נסה שוב או בחר מודל אחר",
-        };
-      }
+    // Parse the text response
+    const syllablesData = parseSyllablesResponse(responseText);
 
+    if (!syllablesData) {
+      console.error("[SyllablesService] Failed to parse syllables data");
       return {
-        success: true,
-        syllablesData,
+        success: false,
+        ...errorCodeFields("invalid_response"),
         rawResponse: responseText,
+        error: "המודל החזיר תגובה לא תקינה. נסה שוב או בחר מודל אחר",
       };
     }
+
+    return guardSyllablesResponse(text, syllablesData, responseText);
   } catch (error) {
     console.error("[SyllablesService] Unexpected error", error);
     return {
       success: false,
+      ...errorCodeFields("unexpected_error"),
       error:
         error instanceof Error
           ? error.message
@@ -266,3 +218,72 @@ export async function divideIntoSyllables(
   }
 }
 
+/**
+ * Divide Hebrew text into syllables using language model API
+ * Texts longer than one chunk are split by paragraph/sentence and the chunks are
+ * sent in parallel (with retries). The words of all chunks are joined and
+ * anchored to the full text, so offsets and line indices refer to `text`.
+ * When streaming, each chunk is streamed as syllable lines once all chunks
+ * before it are done.
+ * @param text - Hebrew text to divide
+ * @param config - API configuration including prompt
+ * @returns Promise with syllables data or error
+ */
+export async function divideIntoSyllables(
+  text: string,
+  config: SyllablesServiceConfig
+): Promise<SyllablesServiceResponse> {
+  const chunks = splitTextIntoChunks(text, config.maxChunkLength ?? DEFAULT_MAX_CHUNK_LENGTH);
+
+  if (chunks.length <= 1) {
+    return divideChunkIntoSyllables(text, config);
+  }
+
+  console.log("[SyllablesService] Sending text in chunks", {
+    textLength: text.length,
+    chunks: chunks.length,
+  });
+
+  const stream = createOrderedEmitter((output) => config.onDelta?.(output));
+  const { results, failedIndex } = await runChunks(
+    chunks,
+    (chunk, signal) =>
+      divideChunkIntoSyllables(chunk.text, { ...config, signal, onDelta: undefined, onProgress: undefined }),
+    {
+      createCancelledResult: (): SyllablesServiceResponse => ({
+        success: false,
+        ...errorCodeFields("cancelled"),
+        error: "הבקשה בוטלה",
+      }),
+      signal: config.signal,
+      // Transport errors were already retried by the call policy; retry bad answers only
+      shouldRetry: (result) => isModelOutputError(result.code),
+      onProgress: config.onProgress,
+      onChunkDone: (index, result) =>
+        stream.complete(
+          index,
+          (result.syllablesData?.words ?? []).map((word) => `${word.syllables.join("-")}\n`).join("")
+        ),
+    }
+  );
+
+  if (failedIndex !== undefined) {
+    const failed = results[failedIndex];
+    return {
+      ...failed,
+      error: `שגיאה בחלק ${failedIndex + 1} מתוך ${chunks.length}: ${failed.error || "שגיאה לא צפויה בעת קריאה למודל"}`,
+    };
+  }
+
+  const words = results.flatMap((result) => result.syllablesData?.words ?? []);
+
+  return {
+    success: true,
+    syllablesData: anchorSyllablesData(text, { words }),
+    rawResponse: results.map((result) => result.rawResponse ?? "").join("\n\n"),
+    mismatches: mergeChunkMismatches(
+      chunks.map((chunk) => chunk.text),
+      results.map((result) => result.mismatches ?? [])
+    ),
+  };
+}
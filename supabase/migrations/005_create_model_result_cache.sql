@@ -0,0 +1,25 @@
+-- Create model_result_cache table
+-- Niqqud and syllables results shared by all users, keyed by the normalized text hash,
+-- model, prompt version and temperature. Read and written only by the API routes with the
+-- service role key, so no policies are defined.
+CREATE TABLE IF NOT EXISTS public.model_result_cache (
+  cache_key TEXT PRIMARY KEY,
+  task TEXT NOT NULL CHECK (task IN ('niqqud', 'syllables')),
+  text_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  temperature DOUBLE PRECISION,
+  result JSONB NOT NULL,
+  hits INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  last_hit_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable Row Level Security (no policies: only the service role can access the table)
+ALTER TABLE public.model_result_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create index for TTL checks and purging old entries
+CREATE INDEX IF NOT EXISTS idx_model_result_cache_created_at ON public.model_result_cache(created_at);
+
+-- Create index for purging by task and model
+CREATE INDEX IF NOT EXISTS idx_model_result_cache_task_model ON public.model_result_cache(task, model);
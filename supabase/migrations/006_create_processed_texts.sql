@@ -0,0 +1,63 @@
+-- Create processed_texts table
+-- Each user's niqqud and syllables results, synced between the user's devices.
+-- updated_at is set by the client to the time the result was produced, and the newer
+-- result wins when two devices saved the same text.
+CREATE TABLE IF NOT EXISTS public.processed_texts (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('niqqud', 'syllables')),
+  text_hash TEXT NOT NULL,
+  text TEXT NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (user_id, kind, text_hash)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.processed_texts ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can view their own processed texts
+CREATE POLICY "Users can view own processed texts"
+  ON public.processed_texts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create policy: Users can insert their own processed texts
+CREATE POLICY "Users can insert own processed texts"
+  ON public.processed_texts
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy: Users can update their own processed texts
+CREATE POLICY "Users can update own processed texts"
+  ON public.processed_texts
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy: Users can delete their own processed texts
+CREATE POLICY "Users can delete own processed texts"
+  ON public.processed_texts
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create function to keep the newer result when an older one is uploaded
+-- (a device that was offline may upload a result that another device already replaced)
+CREATE OR REPLACE FUNCTION public.keep_newer_processed_text()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.updated_at < OLD.updated_at THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to skip updates with an older timestamp
+CREATE TRIGGER keep_newer_processed_text
+  BEFORE UPDATE ON public.processed_texts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_newer_processed_text();
+
+-- Create index for loading a user's texts changed since the last sync
+CREATE INDEX IF NOT EXISTS idx_processed_texts_user_updated_at ON public.processed_texts(user_id, updated_at);
@@ -0,0 +1,54 @@
+-- Create documents table
+-- Each user's document library: the text with its niqqud versions, syllables,
+-- display mode and reading position, organized in folders and tags.
+CREATE TABLE IF NOT EXISTS public.documents (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  folder TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  text TEXT NOT NULL DEFAULT '',
+  niqqud JSONB,
+  syllables JSONB,
+  display_mode TEXT NOT NULL DEFAULT 'original' CHECK (display_mode IN ('original', 'clean', 'full')),
+  position JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can view their own documents
+CREATE POLICY "Users can view own documents"
+  ON public.documents
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create policy: Users can insert their own documents
+CREATE POLICY "Users can insert own documents"
+  ON public.documents
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy: Users can update their own documents
+CREATE POLICY "Users can update own documents"
+  ON public.documents
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy: Users can delete their own documents
+CREATE POLICY "Users can delete own documents"
+  ON public.documents
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER set_documents_updated_at
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create index for listing a user's documents, most recently changed first
+CREATE INDEX IF NOT EXISTS idx_documents_user_updated_at ON public.documents(user_id, updated_at DESC);
@@ -0,0 +1,7 @@
+-- Add reading bookmarks to documents
+-- position_anchor: the word at the resume point and its neighbours, used to find
+-- the position again after the text was edited
+-- bookmarks: named positions, each with its own anchor
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS position_anchor JSONB,
+ADD COLUMN IF NOT EXISTS bookmarks JSONB NOT NULL DEFAULT '[]'::jsonb;
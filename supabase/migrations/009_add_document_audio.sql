@@ -0,0 +1,30 @@
+-- Add karaoke recordings to documents
+-- audio: the recording attached to the document (id, file name and type);
+-- the file is stored in the document-audio bucket under <user id>/<audio id>
+-- word_timings: when each word of the text is read in the recording
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS audio JSONB,
+ADD COLUMN IF NOT EXISTS word_timings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create the private bucket of the recordings
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('document-audio', 'document-audio', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create policy: Users can view their own recordings
+CREATE POLICY "Users can view own document audio"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'document-audio' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create policy: Users can upload their own recordings
+CREATE POLICY "Users can upload own document audio"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'document-audio' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create policy: Users can delete their own recordings
+CREATE POLICY "Users can delete own document audio"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'document-audio' AND auth.uid()::text = (storage.foldername(name))[1]);